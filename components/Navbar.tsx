@@ -19,6 +19,7 @@ const NAV_ITEMS = [
   { href: '/events', label: 'Events' },
   { href: '/gallery', label: 'Rawah Ana' },
   { href: '/contact', label: 'Contact us' },
+  { href: '/account', label: 'My account' },
 
 
 ];
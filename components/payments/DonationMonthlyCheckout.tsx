@@ -0,0 +1,83 @@
+'use client';
+
+import React, { useState } from 'react';
+import type { GiftAidDeclaration } from '@/types/donations';
+
+type Props = {
+  campaignId: string;
+  amount: number; // major units per month, in the campaign currency
+  currency?: string;
+  donorFirstName: string;
+  donorLastName: string;
+  donorEmail?: string;
+  giftAid?: GiftAidDeclaration | null; // GBP only
+  campaignUpdates?: boolean; // milestone emails (needs donorEmail)
+  fundraiserId?: string | null; // peer-to-peer page the gift is made on
+  embedSite?: string | null; // partner site whose widget sent the donor (lib/embed.ts)
+  label: string; // e.g. "Continue to monthly checkout"
+  note?: string;
+};
+
+/** Monthly gift to one campaign: hands off to Stripe Checkout (subscription mode). */
+export default function DonationMonthlyCheckout({
+  campaignId,
+  amount,
+  currency = 'GBP',
+  donorFirstName,
+  donorLastName,
+  donorEmail = '',
+  giftAid = null,
+  campaignUpdates = false,
+  fundraiserId = null,
+  embedSite = null,
+  label,
+  note,
+}: Props) {
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  const validName = donorFirstName.trim().length > 0 && donorLastName.trim().length > 0;
+  if (!validName || amount <= 0) return null;
+
+  const start = async () => {
+    setBusy(true);
+    setMsg(null);
+    try {
+      const r = await fetch('/api/payments/stripe/create-donation-subscription', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          campaignId,
+          amount,
+          donorFirstName: donorFirstName.trim(),
+          donorLastName: donorLastName.trim(),
+          donorEmail: donorEmail.trim(),
+          giftAid,
+          campaignUpdates,
+          fundraiserId,
+          embedSite,
+        }),
+      });
+      const j = await r.json().catch(() => null);
+      if (!r.ok || j?.ok === false || !j?.url) throw new Error(j?.error || `HTTP ${r.status}`);
+      window.location.href = j.url;
+    } catch (e: unknown) {
+      setMsg((e as { message?: string })?.message || 'تعذّر بدء التبرع الشهري');
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {note && <p className="text-sm text-neutral-600">{note}</p>}
+      <button
+        onClick={start}
+        disabled={busy}
+        className="w-full rounded-xl bg-palestine-green text-white py-3 font-semibold hover:opacity-90 disabled:opacity-60"
+      >
+        {busy ? '…' : `${label} · ${currency} ${amount.toFixed(2)}`}
+      </button>
+      {msg && <div className="text-sm text-red-600">{msg}</div>}
+    </div>
+  );
+}
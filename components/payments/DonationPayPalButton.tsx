@@ -0,0 +1,142 @@
+'use client';
+
+import React, { useState } from 'react';
+import { PayPalButtons, PayPalScriptProvider } from '@paypal/react-paypal-js';
+import type { GiftAidDeclaration } from '@/types/donations';
+
+type SuccessPayload = {
+  orderId: string;
+  donationId: string;
+  amountPaid: number; // major units
+  currency: string;
+  status: string;
+};
+
+type Props = {
+  campaignId: string;
+  amount: number; // major units, in the campaign currency
+  currency?: string;
+  donorFirstName: string;
+  donorLastName: string;
+  donorEmail?: string;
+  giftAid?: GiftAidDeclaration | null; // GBP only
+  campaignUpdates?: boolean; // milestone emails (needs donorEmail)
+  fundraiserId?: string | null; // peer-to-peer page the gift is made on
+  embedSite?: string | null; // partner site whose widget sent the donor (lib/embed.ts)
+  dividerLabel?: string; // shown above the button, e.g. "or pay with PayPal"
+  onSuccess?: (payload: SuccessPayload) => void;
+};
+
+const clientId = process.env.NEXT_PUBLIC_PAYPAL_CLIENT_ID || '';
+// Matches PAYPAL_MODE=mock on the server (lib/paypalMock.ts)
+const isMock = (process.env.NEXT_PUBLIC_PAYPAL_MODE || '').toLowerCase() === 'mock';
+
+async function postJSON<T>(url: string, body: unknown): Promise<T> {
+  const r = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const j = await r.json().catch(() => null);
+  if (!r.ok || j?.ok === false) throw new Error(j?.error || `HTTP ${r.status}`);
+  return j as T;
+}
+
+/** PayPal checkout for one campaign donation (create → approve → server-verified capture). */
+export default function DonationPayPalButton({
+  campaignId,
+  amount,
+  currency = 'GBP',
+  donorFirstName,
+  donorLastName,
+  donorEmail = '',
+  giftAid = null,
+  campaignUpdates = false,
+  fundraiserId = null,
+  embedSite = null,
+  dividerLabel,
+  onSuccess,
+}: Props) {
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  const validName = donorFirstName.trim().length > 0 && donorLastName.trim().length > 0;
+
+  const createOrder = async () => {
+    setMsg(null);
+    const j = await postJSON<{ orderId: string }>('/api/payments/paypal/create-order', {
+      campaignId,
+      amount,
+      donorFirstName: donorFirstName.trim(),
+      donorLastName: donorLastName.trim(),
+      donorEmail: donorEmail.trim(),
+      giftAid,
+      campaignUpdates,
+      fundraiserId,
+      embedSite,
+    });
+    return j.orderId;
+  };
+
+  const capture = async (orderId: string) => {
+    const j = await postJSON<Omit<SuccessPayload, 'orderId'>>('/api/payments/paypal/capture-order', { orderId });
+    setMsg(j.status === 'confirmed' ? 'تم الدفع بنجاح. شكرًا لدعمك ♥' : 'تم استلام الدفع ويجري معالجته…');
+    onSuccess?.({ ...j, orderId });
+  };
+
+  const fail = (e: unknown) => setMsg((e as { message?: string })?.message || 'حدث خطأ أثناء الدفع عبر PayPal');
+
+  if (!validName || amount <= 0) return null;
+
+  const divider = dividerLabel ? (
+    <div className="my-4 flex items-center gap-3 text-xs text-neutral-500">
+      <span className="h-px flex-1 bg-neutral-200" />
+      {dividerLabel}
+      <span className="h-px flex-1 bg-neutral-200" />
+    </div>
+  ) : null;
+
+  if (isMock) {
+    const payMock = async () => {
+      setBusy(true);
+      try {
+        await capture(await createOrder());
+      } catch (e: unknown) {
+        fail(e);
+      } finally {
+        setBusy(false);
+      }
+    };
+    return (
+      <div className="space-y-2">
+        {divider}
+        <button
+          onClick={payMock}
+          disabled={busy}
+          className="w-full rounded-full bg-[#ffc439] text-neutral-900 px-5 py-2.5 text-sm font-semibold hover:brightness-95 disabled:opacity-60"
+        >
+          {busy ? 'Processing…' : `PayPal (test) ${currency} ${amount.toFixed(2)}`}
+        </button>
+        {msg && <div className="text-sm text-neutral-700">{msg}</div>}
+      </div>
+    );
+  }
+
+  if (!clientId) return null;
+
+  return (
+    <div className="space-y-2">
+      {divider}
+      <PayPalScriptProvider options={{ clientId, currency: String(currency).toUpperCase(), intent: 'capture' }}>
+        <PayPalButtons
+          style={{ layout: 'horizontal', tagline: false }}
+          forceReRender={[amount, currency, campaignId, giftAid, campaignUpdates, fundraiserId]}
+          createOrder={createOrder}
+          onApprove={(data) => capture(data.orderID).catch(fail)}
+          onError={fail}
+        />
+      </PayPalScriptProvider>
+      {msg && <div className="text-sm text-neutral-700">{msg}</div>}
+    </div>
+  );
+}
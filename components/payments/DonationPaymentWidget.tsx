@@ -3,10 +3,13 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { loadStripe, StripeElementsOptions } from '@stripe/stripe-js';
 import { Elements, PaymentElement, useStripe, useElements } from '@stripe/react-stripe-js';
+import type { GiftAidDeclaration } from '@/types/donations';
+import { CARD_REGIONS, lineAmount, linesTotal, paymentLines, type CardRegion } from '@/lib/paymentLines';
 
 type SuccessPayload = {
   paymentIntentId: string;
-  amountPaid: number; // major units
+  amountPaid: number; // major units, including any fee cover and tip
+  campaignAmount: number; // the part that counts towards the campaign
   currency: string;
   status: string;
 };
@@ -18,6 +21,11 @@ type Props = {
   currency?: 'GBP' | 'USD' | 'EUR' | (string & {});
   donorFirstName: string;
   donorLastName: string;
+  donorEmail?: string; // receipt + donor /account
+  giftAid?: GiftAidDeclaration | null; // GBP only; validated again by create-intent
+  campaignUpdates?: boolean; // milestone emails (needs donorEmail)
+  fundraiserId?: string | null; // peer-to-peer page the gift is made on
+  embedSite?: string | null; // partner site whose widget sent the donor (lib/embed.ts)
   onSuccess?: ((paymentIntentId: string) => void) | ((payload: SuccessPayload) => void);
 };
 
@@ -28,6 +36,12 @@ function cx(...a: Array<string | false | null | undefined>) {
   return a.filter(Boolean).join(' ');
 }
 
+const REGION_LABELS: Record<CardRegion, string> = {
+  uk: 'UK',
+  eea: 'Europe (EEA)',
+  international: 'Elsewhere',
+};
+
 const ZERO_DECIMAL = new Set([
   'BIF','CLP','DJF','GNF','JPY','KMF','KRW','MGA','PYG','RWF','UGX','VND','VUV','XAF','XOF','XPF'
 ]);
@@ -41,6 +55,7 @@ function minorToMajor(minor: number | null | undefined, currency: string) {
 function OneTimeInner({
   clientSecret,
   amount,
+  campaignAmount,
   currency,
   donorFirstName,
   donorLastName,
@@ -49,6 +64,7 @@ function OneTimeInner({
 }: {
   clientSecret: string;
   amount: number;
+  campaignAmount: number;
   currency: string;
   donorFirstName: string;
   donorLastName: string;
@@ -121,10 +137,10 @@ function OneTimeInner({
 
       if (paymentIntent.status === 'succeeded') {
         setMsg('تم الدفع بنجاح. شكرًا لدعمك ♥');
-        invokeOnSuccess({ paymentIntentId: paymentIntent.id, amountPaid, currency, status: paymentIntent.status });
+        invokeOnSuccess({ paymentIntentId: paymentIntent.id, amountPaid, campaignAmount, currency, status: paymentIntent.status });
       } else if (paymentIntent.status === 'processing' || paymentIntent.status === 'requires_capture') {
         setMsg('تم استلام الدفع ويجري معالجته…');
-        invokeOnSuccess({ paymentIntentId: paymentIntent.id, amountPaid, currency, status: paymentIntent.status });
+        invokeOnSuccess({ paymentIntentId: paymentIntent.id, amountPaid, campaignAmount, currency, status: paymentIntent.status });
       } else {
         setMsg(`حالة الدفع: ${paymentIntent.status}`);
       }
@@ -162,14 +178,30 @@ export default function DonationPaymentWidget({
   currency = 'GBP',
   donorFirstName,
   donorLastName,
+  donorEmail = '',
+  giftAid = null,
+  campaignUpdates = false,
+  fundraiserId = null,
+  embedSite = null,
   onSuccess,
 }: Props) {
   const [amount, setAmount] = useState<number>(Math.max(1, Number(defaultAmount) || 25));
+  const [coverFees, setCoverFees] = useState(false);
+  const [cardRegion, setCardRegion] = useState<CardRegion>('uk');
+  const [tip, setTip] = useState(0);
   const [clientSecret, setClientSecret] = useState<string | null>(null);
   const [sdkError, setSdkError] = useState<string | null>(null);
 
   const hasStripe = !!pk && !!stripePromise;
 
+  // Same calculation as create-intent, which charges the authoritative total
+  const lines = useMemo(
+    () => paymentLines({ gift: amount, tip, coverFees, region: cardRegion, currency: String(currency) }),
+    [amount, tip, coverFees, cardRegion, currency]
+  );
+  const total = linesTotal(lines);
+  const coverPreview = paymentLines({ gift: amount, tip, coverFees: true, region: cardRegion, currency: String(currency) });
+
   const options: StripeElementsOptions | undefined = useMemo(
     () =>
       clientSecret
@@ -192,6 +224,10 @@ export default function DonationPaymentWidget({
           campaignSlug: campaignSlug || '',
           donorFirstName: donorFirstName.trim(),
           donorLastName: donorLastName.trim(),
+          donorEmail: donorEmail.trim(),
+          campaignUpdates: campaignUpdates ? '1' : '',
+          fundraiserId: fundraiserId || '',
+          embedSite: embedSite || '',
           // common aliases to be extra safe:
           campaign_id: campaignId,
           donationCampaignId: campaignId,
@@ -202,7 +238,7 @@ export default function DonationPaymentWidget({
         const r = await fetch('/api/payments/stripe/create-intent', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ amount, currency, metadata: meta }),
+          body: JSON.stringify({ amount, currency, metadata: meta, giftAid, coverFees, cardRegion, tip }),
         });
         const j = await r.json();
         if (!r.ok || j?.ok === false) throw new Error(j?.error || 'Failed to create intent');
@@ -211,7 +247,7 @@ export default function DonationPaymentWidget({
         setSdkError(e?.message || 'Stripe init failed');
       }
     })();
-  }, [amount, currency, campaignId, campaignSlug, donorFirstName, donorLastName, hasStripe]);
+  }, [amount, currency, campaignId, campaignSlug, donorFirstName, donorLastName, donorEmail, giftAid, campaignUpdates, fundraiserId, embedSite, coverFees, cardRegion, tip, hasStripe]);
 
   return (
     <div className="grid gap-4">
@@ -227,6 +263,49 @@ export default function DonationPaymentWidget({
         />
       </div>
 
+      <div className="grid gap-2 text-sm">
+        <label className="flex items-start gap-2">
+          <input type="checkbox" className="mt-1" checked={coverFees} onChange={(e) => setCoverFees(e.target.checked)} />
+          <span>
+            Cover the card processing fee (+{String(currency)} {lineAmount(coverPreview, 'fee_cover').toFixed(2)}) so the
+            full gift reaches the campaign
+          </span>
+        </label>
+        {coverFees && (
+          <label className="flex items-center gap-2 ps-6">
+            <span className="text-neutral-600">Card issued in</span>
+            <select
+              value={cardRegion}
+              onChange={(e) => setCardRegion(e.target.value as CardRegion)}
+              className="rounded-lg border border-neutral-300 px-2 py-1"
+            >
+              {CARD_REGIONS.map((r) => (
+                <option key={r} value={r}>{REGION_LABELS[r]}</option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label className="flex items-center gap-2">
+          <span>Add to the association&apos;s general fund ({String(currency)})</span>
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            value={tip}
+            onChange={(e) => setTip(Math.max(0, Number(e.target.value || 0)))}
+            className="w-24 rounded-lg border border-neutral-300 px-2 py-1"
+          />
+        </label>
+        {lines.length > 1 && (
+          <div className="text-xs text-neutral-600">
+            {lines
+              .map((l) => `${l.kind === 'campaign' ? 'Gift' : l.kind === 'fee_cover' ? 'Fee cover' : 'General fund'} ${l.amount.toFixed(2)}`)
+              .join(' + ')}{' '}
+            = <b>{String(currency)} {total.toFixed(2)}</b>
+          </div>
+        )}
+      </div>
+
       {!hasStripe && (
         <div className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-3">
           أضف <code>NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY</code> لظهور Stripe.
@@ -238,7 +317,8 @@ export default function DonationPaymentWidget({
         <Elements stripe={stripePromise} options={options}>
           <OneTimeInner
             clientSecret={clientSecret}
-            amount={amount}
+            amount={total}
+            campaignAmount={amount}
             currency={String(currency)}
             donorFirstName={donorFirstName}
             donorLastName={donorLastName}
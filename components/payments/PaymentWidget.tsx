@@ -4,19 +4,27 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { loadStripe, StripeElementsOptions } from '@stripe/stripe-js';
 import { Elements, PaymentElement, useStripe, useElements } from '@stripe/react-stripe-js';
+import { PayPalButtons, PayPalScriptProvider } from '@paypal/react-paypal-js';
+import type { PublicPlan } from '@/lib/membershipPlans';
 
 type Mode = 'one_time' | 'subscription';
 
 type Props = {
   applicationId?: string;          // optional — if missing, we create after successful payment (server side)
   formSnapshot?: unknown;          // required if applicationId is not provided
-  defaultAmount?: number;          // prefill amount (e.g., 11.99 | 21.99 | 49.99)
+  defaultAmount?: number;          // prefill amount when no one-off plan is offered
   currency?: 'GBP' | 'USD' | 'EUR';
   onApplicationCreated?: (id: string) => void;
 };
 
 const pk = process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY || '';
 const stripePromise = pk ? loadStripe(pk) : null;
+const paypalClientId = process.env.NEXT_PUBLIC_PAYPAL_CLIENT_ID || '';
+
+const PER: Record<PublicPlan['interval'], string> = { month: 'شهريًا', year: 'سنويًا', once: 'لمرة واحدة' };
+
+const price = (p: Pick<PublicPlan, 'currency' | 'amount'>) =>
+  new Intl.NumberFormat('en-GB', { style: 'currency', currency: p.currency }).format(p.amount);
 
 function classNames(...a: Array<string | false | null | undefined>) {
   return a.filter(Boolean).join(' ');
@@ -67,8 +75,7 @@ function StripeOneTimeInner({
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
               ...(formSnapshot || {}),
-              paymentRequired: false,
-              status: 'submitted',
+              paymentIntentId: paymentIntent.id, // stands in for reCAPTCHA (see /api/join/apply)
             }),
           });
           const j = await r.json();
@@ -117,21 +124,74 @@ function StripeOneTimeInner({
   );
 }
 
-/** ---------- Wrapper (Stripe only: One-time + Subscription) ---------- */
+/** ---------- Plan cards (from the catalogue at /auth/admin/membership-plans) ---------- */
+function PlanChoice({ plans, value, onChange }: { plans: PublicPlan[]; value: string; onChange: (id: string) => void }) {
+  return (
+    <div className="grid gap-2 sm:grid-cols-3 mb-3">
+      {plans.map((p) => (
+        <button
+          key={p.id}
+          type="button"
+          onClick={() => onChange(p.id)}
+          className={classNames(
+            'rounded-xl border px-3 py-2 text-sm text-start',
+            value === p.id ? 'bg-neutral-900 text-white border-neutral-900' : 'hover:bg-neutral-50'
+          )}
+        >
+          <div className="font-semibold">{p.name_ar} · {p.name_en}</div>
+          {p.household && <div className="text-xs opacity-80">عضوية عائلية · حتى {p.maxDependants} من أفراد الأسرة</div>}
+          <div>{price(p)} / {PER[p.interval]}</div>
+          {p.benefits_ar.length > 0 && (
+            <ul className="mt-1 list-disc ps-4 text-xs opacity-80">
+              {p.benefits_ar.map((b) => <li key={b}>{b}</li>)}
+            </ul>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/** ---------- Wrapper (Stripe one-time and subscription, PayPal subscription) ---------- */
 export default function PaymentWidget({
   applicationId,
   formSnapshot,
-  defaultAmount = 11.99, // sensible default to one of your plans
+  defaultAmount = 11.99,
   currency = 'GBP',
   onApplicationCreated,
 }: Props) {
   const [mode, setMode] = useState<Mode>('one_time');
+  const [plans, setPlans] = useState<PublicPlan[]>([]);
+  const [planId, setPlanId] = useState('');
   const [amount, setAmount] = useState<number>(Math.max(0, defaultAmount));
   const [clientSecret, setClientSecret] = useState<string | null>(null);
   const [sdkError, setSdkError] = useState<string | null>(null);
+  const [paypalMsg, setPaypalMsg] = useState<string | null>(null);
 
   const hasStripe = !!pk && !!stripePromise;
 
+  // Active plans, in the order the admins set
+  useEffect(() => {
+    fetch('/api/join/plans')
+      .then((r) => r.json())
+      .then((j) => setPlans(Array.isArray(j?.plans) ? j.plans : []))
+      .catch(() => setPlans([]));
+  }, []);
+
+  const oncePlans = useMemo(() => plans.filter((p) => p.interval === 'once'), [plans]);
+  const recurringPlans = useMemo(() => plans.filter((p) => p.interval !== 'once'), [plans]);
+  const shown = mode === 'one_time' ? oncePlans : recurringPlans;
+  const plan = shown.find((p) => p.id === planId) || null;
+
+  // Keep a plan of the current tab selected
+  useEffect(() => {
+    if (!shown.some((p) => p.id === planId)) setPlanId(shown[0]?.id || '');
+  }, [shown, planId]);
+
+  // One-off payments charge the chosen plan, or the amount typed in when there are no one-off plans
+  const payAmount = mode === 'one_time' && plan ? plan.amount : amount;
+  const payCurrency = mode === 'one_time' && plan ? plan.currency : currency;
+
   // Elements options for one-time
   const options: StripeElementsOptions | undefined = useMemo(
     () =>
@@ -151,7 +211,8 @@ export default function PaymentWidget({
     setSdkError(null);
     if (!hasStripe) return;
     if (mode !== 'one_time') return;
-    if (amount <= 0) return;
+    if (oncePlans.length > 0 && !plan) return;
+    if (payAmount <= 0) return;
 
     (async () => {
       try {
@@ -160,8 +221,9 @@ export default function PaymentWidget({
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             applicationId: applicationId || undefined,
-            amount,
-            currency,
+            planId: plan?.id,
+            amount: payAmount,
+            currency: payCurrency,
             preApplication: applicationId ? undefined : (formSnapshot || null),
           }),
         });
@@ -172,18 +234,18 @@ export default function PaymentWidget({
         setSdkError(e?.message || 'Stripe init failed');
       }
     })();
-  }, [mode, amount, currency, applicationId, hasStripe, formSnapshot]);
+  }, [mode, plan, oncePlans.length, payAmount, payCurrency, applicationId, hasStripe, formSnapshot]);
 
   // Start Stripe subscription (robust redirect handling)
   const startStripeSubscription = async () => {
     try {
+      if (!plan) throw new Error('اختر خطة الاشتراك');
       const r = await fetch('/api/payments/stripe/create-checkout-session', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           applicationId: applicationId || undefined,
-          amount,
-          currency,
+          planId: plan.id,
           mode: 'subscription',
           formSnapshot: applicationId ? undefined : (formSnapshot || null),
         }),
@@ -221,6 +283,27 @@ export default function PaymentWidget({
     }
   };
 
+  // PayPal subscription: the server looks it up with PayPal and links it to the application
+  const paypalApproved = async (subscriptionId: string) => {
+    try {
+      const r = await fetch('/api/payments/paypal/subscription-approved', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          subscriptionId,
+          applicationId: applicationId || undefined,
+          formSnapshot: applicationId ? undefined : (formSnapshot || null),
+        }),
+      });
+      const j = await r.json();
+      if (!r.ok || j?.ok === false) throw new Error(j?.error || 'PayPal error');
+      setPaypalMsg(`تم الاشتراك بنجاح. رقم الطلب: ${j.applicationId}`);
+      onApplicationCreated?.(j.applicationId);
+    } catch (e: unknown) {
+      setPaypalMsg((e as Error)?.message || 'حدث خطأ أثناء الاشتراك عبر PayPal');
+    }
+  };
+
   return (
     <div className="grid gap-5">
       {/* Mode chooser */}
@@ -243,7 +326,7 @@ export default function PaymentWidget({
           onClick={() => setMode('subscription')}
           type="button"
         >
-          اشتراك شهري
+          اشتراك
         </button>
       </div>
 
@@ -257,25 +340,28 @@ export default function PaymentWidget({
             </div>
           )}
 
-          {/* optional quick amount adjuster (keeps your previous UX flexible) */}
-          <div className="mb-3">
-            <label className="block text-xs font-medium text-neutral-600 mb-1">Amount (GBP)</label>
-            <input
-              type="number"
-              min={0}
-              step="0.01"
-              value={amount}
-              onChange={(e) => setAmount(Number(e.target.value || 0))}
-              className="w-full rounded-xl border border-neutral-300 px-3 py-2"
-            />
-          </div>
+          {oncePlans.length > 0 ? (
+            <PlanChoice plans={oncePlans} value={planId} onChange={setPlanId} />
+          ) : (
+            <div className="mb-3">
+              <label className="block text-xs font-medium text-neutral-600 mb-1">Amount ({currency})</label>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(Number(e.target.value || 0))}
+                className="w-full rounded-xl border border-neutral-300 px-3 py-2"
+              />
+            </div>
+          )}
 
           {hasStripe && clientSecret && stripePromise && options ? (
             <Elements stripe={stripePromise} options={options}>
               <StripeOneTimeInner
                 clientSecret={clientSecret}
-                amount={amount}
-                currency={currency}
+                amount={payAmount}
+                currency={payCurrency}
                 applicationId={applicationId}
                 formSnapshot={formSnapshot}
                 onApplicationCreated={onApplicationCreated}
@@ -287,40 +373,55 @@ export default function PaymentWidget({
         </div>
       )}
 
-      {/* SUBSCRIPTION (Stripe Checkout) */}
+      {/* SUBSCRIPTION (Stripe Checkout or PayPal) */}
       {mode === 'subscription' && (
         <div className="rounded-2xl border p-4">
-          <div className="font-semibold mb-2">Stripe (Subscription)</div>
+          <div className="font-semibold mb-2">Subscription</div>
+
+          {recurringPlans.length === 0 ? (
+            <div className="text-sm text-neutral-600">لا توجد خطط اشتراك متاحة حاليًا.</div>
+          ) : (
+            <>
+              <PlanChoice plans={recurringPlans} value={planId} onChange={setPlanId} />
+
+              {plan && (
+                <div className="flex items-center justify-between rounded-xl bg-neutral-50 ring-1 ring-neutral-200 p-3 mb-3">
+                  <div className="text-sm">الخطة المختارة</div>
+                  <div className="text-sm font-semibold">{price(plan)} / {PER[plan.interval]}</div>
+                </div>
+              )}
 
-          {/* plan selector (optional, works with your amounts: 11.99 / 21.99 / 49.99) */}
-          <div className="grid grid-cols-3 gap-2 mb-3">
-            {[11.99, 21.99, 49.99].map((v) => (
               <button
-                key={v}
+                onClick={startStripeSubscription}
+                disabled={!plan}
+                className="w-full rounded-full bg-neutral-900 text-white px-5 py-2.5 text-sm font-semibold hover:bg-black disabled:opacity-60"
                 type="button"
-                onClick={() => setAmount(v)}
-                className={classNames(
-                  'rounded-xl border px-3 py-2 text-sm',
-                  amount === v ? 'bg-neutral-900 text-white border-neutral-900' : 'hover:bg-neutral-50'
-                )}
               >
-                £{v.toFixed(2)} / Month
+                Subscribe with Stripe
               </button>
-            ))}
-          </div>
-
-          <div className="flex items-center justify-between rounded-xl bg-neutral-50 ring-1 ring-neutral-200 p-3 mb-3">
-            <div className="text-sm">الخطة المختارة</div>
-            <div className="text-sm font-semibold">£{amount.toFixed(2)} / شهريًا</div>
-          </div>
-
-          <button
-            onClick={startStripeSubscription}
-            className="w-full rounded-full bg-neutral-900 text-white px-5 py-2.5 text-sm font-semibold hover:bg-black"
-            type="button"
-          >
-            Subscribe with Stripe
-          </button>
+
+              {plan?.paypalPlanId && paypalClientId && (
+                <div className="mt-3 space-y-2">
+                  <PayPalScriptProvider
+                    options={{ clientId: paypalClientId, currency: plan.currency, vault: true, intent: 'subscription' }}
+                  >
+                    <PayPalButtons
+                      style={{ layout: 'horizontal', tagline: false }}
+                      forceReRender={[plan.paypalPlanId]}
+                      createSubscription={(_data, actions) =>
+                        actions.subscription.create({ plan_id: plan.paypalPlanId!, ...(applicationId ? { custom_id: applicationId } : {}) })
+                      }
+                      onApprove={async (data) => {
+                        if (data.subscriptionID) await paypalApproved(data.subscriptionID);
+                      }}
+                      onError={(e) => setPaypalMsg((e as { message?: string })?.message || 'PayPal error')}
+                    />
+                  </PayPalScriptProvider>
+                  {paypalMsg && <div className="text-sm text-neutral-700">{paypalMsg}</div>}
+                </div>
+              )}
+            </>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,34 @@
+// components/ui/ProgressRing.tsx
+// Percent-funded ring used on the campaign page and the embeddable widget.
+import * as React from 'react';
+import clsx from 'clsx';
+
+type Props = {
+  pct: number;
+  className?: string; // size, e.g. "h-12 w-12"
+  track?: string; // colour of the unfunded part
+  innerClassName?: string; // centre disc (background, text size)
+};
+
+export default function ProgressRing({
+  pct,
+  className = 'h-12 w-12',
+  track = '#e5e7eb',
+  innerClassName = 'bg-white text-xs',
+}: Props) {
+  const v = Math.max(0, Math.min(100, Math.round(pct)));
+  const style = {
+    '--ring-color': 'rgb(16 185 129)',
+    background: `conic-gradient(var(--ring-color) ${v * 3.6}deg, ${track} ${v * 3.6}deg)`,
+  } as React.CSSProperties;
+  return (
+    <div
+      className={clsx('relative rounded-full', className)}
+      style={style}
+      aria-label={`${v}% funded`}
+      title={`${v}% funded`}
+    >
+      <div className={clsx('absolute inset-1 rounded-full flex items-center justify-center font-semibold', innerClassName)}>%{v}</div>
+    </div>
+  );
+}
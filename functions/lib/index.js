@@ -35,13 +35,18 @@ var __importStar = (this && this.__importStar) || (function () {
     };
 })();
 Object.defineProperty(exports, "__esModule", { value: true });
-exports.closeExpiredCampaigns = exports.onDonationWrite = exports.onCommentUpdate = exports.onCommentDelete = exports.onCommentCreate = exports.onLikeWrite = void 0;
+exports.membershipExpiry = exports.onCampaignClosed = exports.campaignLifecycle = exports.onCampaignMilestone = exports.onDonationWrite = exports.onCommentUpdate = exports.onCommentDelete = exports.onCommentCreate = exports.onLikeWrite = void 0;
 const app_1 = require("firebase-admin/app");
 const firestore_1 = require("firebase-admin/firestore");
 const admin = __importStar(require("firebase-admin"));
 const v2_1 = require("firebase-functions/v2");
 const firestore_2 = require("firebase-functions/v2/firestore");
 const scheduler_1 = require("firebase-functions/v2/scheduler");
+const ledger_1 = require("./ledger");
+const milestones_1 = require("./milestones");
+const lifecycle_1 = require("./lifecycle");
+const membership_1 = require("./membership");
+const recurring_1 = require("./recurring");
 // --- Admin init ---
 (0, app_1.initializeApp)();
 const db = (0, firestore_1.getFirestore)();
@@ -97,74 +102,229 @@ exports.onCommentUpdate = (0, firestore_2.onDocumentUpdated)("media/{mediaId}/co
         });
     }
 });
-const MAX_LAST_DONORS = 15;
+// ============================================================================
+// B) DONATIONS: Aggregation & Auto-close
+// ============================================================================
+/**
+ * Keeps campaign aggregates in step with donation docs written outside the web
+ * app's ledger (console edits, imports, deletes). Uses the same `countedAmount`
+ * bookkeeping as lib/donationLedger.ts, so ledger writes are no-ops here and
+ * retried events never double count.
+ */
 exports.onDonationWrite = (0, firestore_2.onDocumentWritten)("donations/{donationId}", async (event) => {
+    const donationId = event.params.donationId;
     const before = event.data?.before?.exists ? event.data.before.data() : null;
     const after = event.data?.after?.exists ? event.data.after.data() : null;
-    const affected = after ?? before;
-    if (!affected)
-        return;
-    const campaignId = affected.campaignId;
-    if (!campaignId)
-        return;
-    const campaignRef = db.collection("campaigns").doc(campaignId);
+    const donationRef = db.collection("donations").doc(donationId);
     await db.runTransaction(async (tx) => {
+        // Re-read: the event may be stale or already handled by the ledger.
+        const current = after ? await tx.get(donationRef) : null;
+        const doc = current?.exists ? current.data() : null;
+        const campaignId = (doc ?? before)?.campaignId;
+        if (!campaignId)
+            return;
+        const campaignRef = db.collection("campaigns").doc(campaignId);
         const snap = await tx.get(campaignRef);
         if (!snap.exists)
             return;
-        const campaign = snap.data() || {};
-        let total = Number(campaign.totalDonated || 0);
-        let count = Number(campaign.donorsCount || 0);
-        let last = Array.isArray(campaign.lastDonors) ? campaign.lastDonors : [];
-        const confirmedAmount = (x) => x && x.status === "confirmed" ? Number(x.amount || 0) : 0;
-        // change in confirmed amount
-        const deltaAmt = confirmedAmount(after) - confirmedAmount(before);
-        if (deltaAmt !== 0)
-            total += deltaAmt;
-        // donorsCount flips
-        const wasConfirmed = before?.status === "confirmed";
-        const isConfirmed = after?.status === "confirmed";
-        if (!wasConfirmed && isConfirmed)
-            count += 1;
-        if (wasConfirmed && !isConfirmed)
-            count = Math.max(0, count - 1);
-        // lastDonors updates
-        if (isConfirmed && after) {
-            const name = after.isAnonymous ? "متبرّع مجهول" : after.donorName || "متبرّع";
-            const entry = {
-                name,
-                amount: Number(after.amount || 0),
-                at: after.confirmedAt || after.createdAt || Date.now(),
-            };
-            last = [entry, ...last].slice(0, MAX_LAST_DONORS);
+        const fundraiserId = (doc ?? before)?.fundraiserId;
+        const fundraiserRef = fundraiserId ? db.collection("fundraisers").doc(fundraiserId) : null;
+        const fundraiser = fundraiserRef ? (await tx.get(fundraiserRef)).data() : undefined;
+        let counted;
+        let target;
+        if (doc) {
+            counted = typeof doc.countedAmount === "number" ? doc.countedAmount : (0, ledger_1.countedAmount)(before);
+            target = (0, ledger_1.countableAmount)(doc);
         }
-        else if (wasConfirmed && !isConfirmed && before) {
-            const name = before.isAnonymous ? "متبرّع مجهول" : before.donorName || "متبرّع";
-            const at = before.confirmedAt || before.createdAt || 0;
-            const amt = Number(before.amount || 0);
-            last = last.filter((d) => !(d.name === name && d.amount === amt && d.at === at));
+        else {
+            counted = (0, ledger_1.countedAmount)(before);
+            target = 0;
         }
-        tx.update(campaignRef, {
-            totalDonated: total,
-            donorsCount: count,
-            lastDonors: last,
-            updatedAt: Date.now(),
+        const patch = (0, ledger_1.campaignPatch)(snap.data() || {}, donationId, (doc ?? before), counted, target);
+        const fPatch = fundraiser?.campaignId === campaignId ? (0, ledger_1.fundraiserPatch)(fundraiser, counted, target) : null;
+        if (doc && doc.countedAmount !== target)
+            tx.update(donationRef, { countedAmount: target });
+        if (patch)
+            tx.update(campaignRef, patch);
+        if (fundraiserRef && fPatch)
+            tx.update(fundraiserRef, fPatch);
+    });
+});
+/**
+ * Records each milestone `totalDonated` reaches (`reachedAt`, once) and emails
+ * the organizers and opted-in donors about those donations just crossed.
+ * `reachedAt` is claimed in a transaction, so retried events never email twice.
+ */
+exports.onCampaignMilestone = (0, firestore_2.onDocumentUpdated)("campaigns/{campaignId}", async (event) => {
+    const campaignId = event.params.campaignId;
+    const before = event.data?.before?.data();
+    const after = event.data?.after?.data();
+    if (!before || !after)
+        return;
+    const previousTotal = Number(before.totalDonated || 0);
+    if (!(0, milestones_1.newlyReached)(after, previousTotal, Number(after.totalDonated || 0)).reached.length)
+        return;
+    const ref = db.collection("campaigns").doc(campaignId);
+    const claimed = await db.runTransaction(async (tx) => {
+        const current = (await tx.get(ref)).data();
+        if (!current?.milestones?.length)
+            return null;
+        const { reached, crossed } = (0, milestones_1.newlyReached)(current, previousTotal, Number(current.totalDonated || 0));
+        if (!reached.length)
+            return null;
+        const now = Date.now();
+        const ids = new Set(reached.map((m) => m.id));
+        tx.update(ref, {
+            milestones: current.milestones.map((m) => (ids.has(m.id) ? { ...m, reachedAt: now } : m)),
         });
+        return { campaign: current, crossed };
     });
+    if (!claimed?.crossed.length)
+        return;
+    const recipients = await milestoneRecipients(campaignId, claimed.campaign);
+    for (const milestone of claimed.crossed) {
+        try {
+            if (await (0, milestones_1.sendMilestoneEmails)(claimed.campaign, milestone, recipients)) {
+                await markMilestoneNotified(campaignId, milestone.id);
+            }
+        }
+        catch (e) {
+            console.error("[milestones] email failed", campaignId, milestone.id, e?.message);
+        }
+    }
 });
-/** Close campaigns where status=active and endAt <= now (every 6 hours). */
-exports.closeExpiredCampaigns = (0, scheduler_1.onSchedule)({ schedule: "every 6 hours", timeZone: "Europe/London" }, async () => {
+/** Organizer addresses plus donors to the campaign who opted in to updates. */
+async function milestoneRecipients(campaignId, campaign) {
+    const donors = await db
+        .collection("donations")
+        .where("campaignId", "==", campaignId)
+        .where("campaignUpdates", "==", true)
+        .where("status", "==", "confirmed")
+        .get();
+    const emails = [
+        ...(campaign.organizers || []).map((o) => o.email),
+        ...donors.docs.map((d) => d.data().donorEmail),
+    ];
+    return Array.from(new Set(emails.map((e) => String(e || "").trim().toLowerCase()).filter(Boolean)));
+}
+async function markMilestoneNotified(campaignId, milestoneId) {
+    const ref = db.collection("campaigns").doc(campaignId);
+    await db.runTransaction(async (tx) => {
+        const milestones = ((await tx.get(ref)).data()?.milestones || []);
+        tx.update(ref, {
+            milestones: milestones.map((m) => (m.id === milestoneId ? { ...m, notifiedAt: Date.now() } : m)),
+        });
+    });
+}
+/**
+ * Moves campaigns through their lifecycle (see lifecycle.ts): activates drafts
+ * at `startAt`, applies scheduled pause/resume windows and closes campaigns at
+ * `endAt` or, with `closeOnGoal`, once the goal is reached. Each change is
+ * re-checked in a transaction so it never overwrites an admin's edit.
+ */
+exports.campaignLifecycle = (0, scheduler_1.onSchedule)({ schedule: "every 15 minutes", timeZone: "Europe/London" }, async () => {
     const now = Date.now();
+    const qs = await db.collection("campaigns").where("status", "in", ["draft", "active", "paused"]).get();
+    for (const doc of qs.docs) {
+        if (!(0, lifecycle_1.lifecyclePatch)(doc.data(), now))
+            continue;
+        try {
+            await db.runTransaction(async (tx) => {
+                const current = (await tx.get(doc.ref)).data();
+                const patch = current ? (0, lifecycle_1.lifecyclePatch)(current, now) : null;
+                if (patch)
+                    tx.update(doc.ref, { ...patch, updatedAt: now });
+            });
+        }
+        catch (e) {
+            console.error("[lifecycle] update failed", doc.id, e?.message);
+        }
+    }
+});
+/**
+ * Writes the end-of-campaign report (`campaignReports/{campaignId}`) whenever a
+ * campaign becomes closed, by the schedule or by an admin, and ends its monthly
+ * gifts so no donor is billed again. Reopening and closing again replaces the
+ * report.
+ */
+exports.onCampaignClosed = (0, firestore_2.onDocumentUpdated)("campaigns/{campaignId}", async (event) => {
+    const campaignId = event.params.campaignId;
+    const before = event.data?.before?.data();
+    const after = event.data?.after?.data();
+    if (!after || after.status !== "closed" || before?.status === "closed")
+        return;
+    const donations = await db.collection("donations").where("campaignId", "==", campaignId).get();
+    const report = (0, lifecycle_1.buildCampaignReport)(campaignId, after, donations.docs.map((d) => d.data()), Date.now());
+    await db.collection("campaignReports").doc(campaignId).set(report);
+    await endCampaignRecurring(campaignId);
+});
+/** Cancel a closed campaign's active monthly gifts (admin closes have usually done so already). */
+async function endCampaignRecurring(campaignId) {
     const qs = await db
-        .collection("campaigns")
-        .where("status", "==", "active")
-        .where("endAt", "<=", now)
+        .collection("recurringDonations")
+        .where("campaignId", "==", campaignId)
+        .where("status", "in", ["active", "past_due"])
         .get();
-    if (qs.empty)
-        return;
-    const batch = db.batch();
-    qs.forEach((doc) => {
-        batch.update(doc.ref, { status: "closed", updatedAt: now });
-    });
-    await batch.commit();
+    for (const doc of qs.docs) {
+        try {
+            if (!(await (0, recurring_1.cancelStripeSubscription)(doc.id)))
+                return;
+            await doc.ref.set({ status: "canceled", endedReason: "campaign_closed", updatedAt: Date.now() }, { merge: true });
+        }
+        catch (e) {
+            console.error("[recurring] cancel failed", doc.id, e?.message);
+        }
+    }
+}
+// ============================================================================
+// C) MEMBERSHIP: Expiry & Renewal Reminders
+// ============================================================================
+/** Member documents keep `currentPeriodEnd` as a Firestore timestamp; the rules want ms. */
+function expiryMember(data) {
+    if (!data)
+        return null;
+    const end = data.currentPeriodEnd;
+    return { ...data, currentPeriodEnd: end instanceof firestore_1.Timestamp ? end.toMillis() : Number(end || 0) || null };
+}
+/**
+ * Applies membership expiry (see membership.ts) once a day: lapsed members go
+ * `past_due` or `inactive`, and one-off members whose term ends within 14 days
+ * are sent their renewal reminders. Each change is re-checked in a transaction,
+ * and a reminder is recorded before it is sent so it never goes out twice.
+ */
+exports.membershipExpiry = (0, scheduler_1.onSchedule)({ schedule: "every day 08:00", timeZone: "Europe/London" }, async () => {
+    const now = Date.now();
+    const horizon = firestore_1.Timestamp.fromMillis(now + Math.max(...membership_1.REMINDER_DAYS) * 24 * 60 * 60 * 1000);
+    const qs = await db
+        .collection("members")
+        .where("status", "in", ["active", "past_due"])
+        .where("currentPeriodEnd", "<=", horizon)
+        .get();
+    for (const doc of qs.docs) {
+        const member = expiryMember(doc.data());
+        if (!member || (!(0, membership_1.expiryPatch)(member, now) && !(0, membership_1.dueReminder)(member, now)))
+            continue;
+        try {
+            const reminder = await db.runTransaction(async (tx) => {
+                const current = expiryMember((await tx.get(doc.ref)).data());
+                if (!current)
+                    return null;
+                const patch = (0, membership_1.expiryPatch)(current, now);
+                if (patch) {
+                    tx.update(doc.ref, { ...patch, updatedAt: new Date() });
+                    return null;
+                }
+                const days = (0, membership_1.dueReminder)(current, now);
+                if (days === null)
+                    return null;
+                tx.update(doc.ref, { renewalReminders: (0, membership_1.remindersAfter)(current, days) });
+                return { member: current, days };
+            });
+            if (reminder)
+                await (0, membership_1.sendRenewalReminder)(reminder.member, reminder.days);
+        }
+        catch (e) {
+            console.error("[membership] expiry failed", doc.id, e?.message);
+        }
+    }
 });
@@ -0,0 +1,88 @@
+"use strict";
+// Membership expiry rules, applied by the `membershipExpiry` schedule.
+// Monthly (subscription) members are renewed by the payment webhooks, which
+// move `currentPeriodEnd` on; when it lapses without a payment the member goes
+// `past_due`, and `inactive` once the grace period has passed too. One-off
+// members hold a term ending at `currentPeriodEnd`: they are reminded 14 and 3
+// days before it ends and become `inactive` when it does. Canceled members are
+// left to the webhooks.
+var __importDefault = (this && this.__importDefault) || function (mod) {
+    return (mod && mod.__esModule) ? mod : { "default": mod };
+};
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.SUBSCRIPTION_GRACE = exports.PAST_DUE_AFTER = exports.REMINDER_DAYS = void 0;
+exports.isSubscriptionMember = isSubscriptionMember;
+exports.expiryPatch = expiryPatch;
+exports.dueReminder = dueReminder;
+exports.remindersAfter = remindersAfter;
+exports.sendRenewalReminder = sendRenewalReminder;
+const mail_1 = __importDefault(require("@sendgrid/mail"));
+const DAY = 24 * 60 * 60 * 1000;
+/** Days before the end of a one-off term that the member is reminded to renew. */
+exports.REMINDER_DAYS = [14, 3];
+/** A renewal payment can land a little after the period ends. */
+exports.PAST_DUE_AFTER = DAY;
+/** How long a lapsed subscription stays `past_due` (Stripe keeps retrying) before going `inactive`. */
+exports.SUBSCRIPTION_GRACE = 14 * DAY;
+function isSubscriptionMember(m) {
+    return m.membershipPlan === "monthly" || !!m.stripeSubscriptionId || !!m.paypalSubscriptionId;
+}
+/** The status change the schedule should make to a member at `now`, if any. */
+function expiryPatch(m, now) {
+    const end = Number(m.currentPeriodEnd || 0);
+    const status = m.status || "active";
+    if (!(end > 0) || (status !== "active" && status !== "past_due"))
+        return null;
+    if (!isSubscriptionMember(m))
+        return end <= now ? { status: "inactive" } : null;
+    if (end + exports.SUBSCRIPTION_GRACE <= now)
+        return { status: "inactive" };
+    if (status === "active" && end + exports.PAST_DUE_AFTER <= now)
+        return { status: "past_due" };
+    return null;
+}
+/**
+ * The renewal reminder (days before the end) an active one-off member is due
+ * at `now`, if any. When several are due at once only the nearest is sent.
+ */
+function dueReminder(m, now) {
+    const end = Number(m.currentPeriodEnd || 0);
+    if (isSubscriptionMember(m) || (m.status || "active") !== "active" || !(end > now) || !m.email)
+        return null;
+    const sent = m.renewalReminders?.periodEnd === end ? m.renewalReminders.sent : [];
+    const due = exports.REMINDER_DAYS.filter((d) => end - now <= d * DAY && !sent.includes(d));
+    return due.length ? Math.min(...due) : null;
+}
+/** Reminders recorded once the `days` reminder is sent; those further out count as sent too. */
+function remindersAfter(m, days) {
+    const end = Number(m.currentPeriodEnd || 0);
+    const sent = m.renewalReminders?.periodEnd === end ? m.renewalReminders.sent : [];
+    return { periodEnd: end, sent: exports.REMINDER_DAYS.filter((d) => d >= days || sent.includes(d)) };
+}
+/** Ask a one-off member to renew. Returns false when SendGrid is not configured. */
+async function sendRenewalReminder(m, days) {
+    const from = process.env.FROM_EMAIL;
+    if (!process.env.SENDGRID_API_KEY || !from) {
+        console.warn("[membership] SendGrid not configured; renewal reminder not emailed", m.email, days);
+        return false;
+    }
+    if (!m.email)
+        return true;
+    mail_1.default.setApiKey(process.env.SENDGRID_API_KEY);
+    const name = m.fullName || "member";
+    const ends = new Date(Number(m.currentPeriodEnd));
+    const endsEn = ends.toLocaleDateString("en-GB", { day: "numeric", month: "long", year: "numeric", timeZone: "Europe/London" });
+    const endsAr = ends.toLocaleDateString("ar", { day: "numeric", month: "long", year: "numeric", timeZone: "Europe/London" });
+    const site = String(process.env.SITE_URL || "").replace(/\/$/, "");
+    const link = site ? `\n\n${site}/join` : "";
+    await mail_1.default.send({
+        to: m.email,
+        from,
+        subject: `Your membership ends in ${days} days / عضويتك تنتهي خلال ${days} يومًا`,
+        text: `Dear ${name},\n\nYour membership of the Palestinian Community Association North West ends on ${endsEn}. ` +
+            `Please renew to keep supporting the association.${link}\n\n—\n\n` +
+            `عزيزنا ${name}،\n\nتنتهي عضويتك في جمعية الجالية الفلسطينية شمال الغرب بتاريخ ${endsAr}. ` +
+            `نرجو تجديدها لمواصلة دعم الجمعية.${link}\n`,
+    });
+    return true;
+}
@@ -0,0 +1,69 @@
+"use strict";
+// Campaign milestones (rules shared with the web app, lib/campaignMilestones.ts).
+// A milestone is reached once `totalDonated` is at least `percent`% of the goal.
+// Only a crossing caused by donations is announced; milestones added below the
+// current total are recorded as reached without emailing anyone.
+var __importDefault = (this && this.__importDefault) || function (mod) {
+    return (mod && mod.__esModule) ? mod : { "default": mod };
+};
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.milestoneAmount = milestoneAmount;
+exports.newlyReached = newlyReached;
+exports.sendMilestoneEmails = sendMilestoneEmails;
+const mail_1 = __importDefault(require("@sendgrid/mail"));
+function milestoneAmount(goalAmount, percent) {
+    return Math.round(Number(goalAmount || 0) * Number(percent || 0)) / 100;
+}
+/**
+ * Milestones the campaign has newly reached at `total`, and which of them were
+ * crossed by the change from `previousTotal` (those are the ones to announce).
+ */
+function newlyReached(campaign, previousTotal, total) {
+    const goal = Number(campaign.goalAmount || 0);
+    if (!(goal > 0))
+        return { reached: [], crossed: [] };
+    const reached = (campaign.milestones || []).filter((m) => !m.reachedAt && total >= milestoneAmount(goal, m.percent));
+    const crossed = reached.filter((m) => previousTotal < milestoneAmount(goal, m.percent));
+    return { reached, crossed };
+}
+function formatMoney(n, currency) {
+    try {
+        return new Intl.NumberFormat("en-GB", { style: "currency", currency }).format(n);
+    }
+    catch {
+        return `${n} ${currency}`;
+    }
+}
+/**
+ * Email one milestone to organizers and opted-in donors (one message each, so
+ * addresses are never shared). Returns false when SendGrid is not configured.
+ */
+async function sendMilestoneEmails(campaign, milestone, recipients) {
+    const from = process.env.FROM_EMAIL;
+    if (!process.env.SENDGRID_API_KEY || !from) {
+        console.warn("[milestones] SendGrid not configured; milestone not emailed", milestone.id);
+        return false;
+    }
+    if (!recipients.length)
+        return true;
+    mail_1.default.setApiKey(process.env.SENDGRID_API_KEY);
+    const title = campaign.title_en || campaign.title_ar || campaign.slug || "";
+    const currency = String(campaign.currency || "GBP").toUpperCase();
+    const raised = formatMoney(Number(campaign.totalDonated || 0), currency);
+    const goal = formatMoney(Number(campaign.goalAmount || 0), currency);
+    const site = String(process.env.SITE_URL || "").replace(/\/$/, "");
+    const link = site && campaign.slug ? `${site}/donate/${encodeURIComponent(campaign.slug)}` : "";
+    const stretch = milestone.percent > 100;
+    await mail_1.default.send({
+        to: recipients,
+        from,
+        subject: `${title}: ${stretch ? "stretch goal" : "milestone"} reached (${milestone.percent}%) / تم بلوغ هدف مرحلي`,
+        text: `${title} has reached ${milestone.percent}% of its goal: ${raised} of ${goal}.\n` +
+            `${milestone.description_en}\n` +
+            (link ? `\n${link}\n` : "") +
+            `\n${campaign.title_ar || title}: ${milestone.description_ar}\n` +
+            "شكرًا لدعمكم.\n",
+    }, true // isMultiple: each recipient gets their own copy
+    );
+    return true;
+}
@@ -0,0 +1,30 @@
+"use strict";
+// Ending a closed campaign's monthly gifts (`recurringDonations/{subscriptionId}`).
+// The web app does the same when an admin closes a campaign
+// (lib/recurringDonations.ts); this covers campaigns closed by the
+// `campaignLifecycle` schedule, before the next invoice is raised. Stripe is
+// called over its REST API, so the functions need only STRIPE_SECRET_KEY.
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.cancelStripeSubscription = cancelStripeSubscription;
+/**
+ * Cancel a Stripe subscription. Returns true once it is cancelled, including
+ * when Stripe no longer has it; false when STRIPE_SECRET_KEY is not set.
+ */
+async function cancelStripeSubscription(subscriptionId) {
+    const key = process.env.STRIPE_SECRET_KEY;
+    if (!key) {
+        console.warn("[recurring] STRIPE_SECRET_KEY not set; subscription not cancelled", subscriptionId);
+        return false;
+    }
+    const r = await fetch(`https://api.stripe.com/v1/subscriptions/${encodeURIComponent(subscriptionId)}`, {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${key}` },
+    });
+    if (r.ok || r.status === 404)
+        return true;
+    const j = (await r.json().catch(() => null));
+    // Already cancelled on Stripe's side
+    if (j?.error?.code === "resource_missing")
+        return true;
+    throw new Error(j?.error?.message || `Stripe HTTP ${r.status}`);
+}
@@ -2,7 +2,7 @@
 // Uses global options (region) so we can use the 2-argument v2 helpers.
 
 import { initializeApp } from "firebase-admin/app";
-import { getFirestore } from "firebase-admin/firestore";
+import { Timestamp, getFirestore } from "firebase-admin/firestore";
 import * as admin from "firebase-admin";
 
 import { setGlobalOptions } from "firebase-functions/v2";
@@ -14,6 +14,17 @@ import {
 } from "firebase-functions/v2/firestore";
 import { onSchedule } from "firebase-functions/v2/scheduler";
 
+import { campaignPatch, countableAmount, countedAmount, fundraiserPatch } from "./ledger";
+import type { CampaignDoc, DonationDoc, FundraiserDoc } from "./ledger";
+import { newlyReached, sendMilestoneEmails } from "./milestones";
+import type { Milestone, MilestoneCampaign } from "./milestones";
+import { buildCampaignReport, lifecyclePatch } from "./lifecycle";
+import type { LifecycleCampaign } from "./lifecycle";
+import { REMINDER_DAYS, dueReminder, expiryPatch, remindersAfter, sendRenewalReminder } from "./membership";
+import type { ExpiryMember } from "./membership";
+import { cancelStripeSubscription } from "./recurring";
+import type { RecurringStatus } from "./recurring";
+
 // --- Admin init ---
 initializeApp();
 const db = getFirestore();
@@ -94,104 +105,255 @@ export const onCommentUpdate = onDocumentUpdated(
 // B) DONATIONS: Aggregation & Auto-close
 // ============================================================================
 
-type DonationDoc = {
-  campaignId?: string;
-  status?: "confirmed" | string;
-  isAnonymous?: boolean;
-  donorName?: string;
-  amount?: number;
-  confirmedAt?: number;
-  createdAt?: number;
-};
-
-type CampaignDonor = { name: string; amount: number; at: number };
-type CampaignDoc = {
-  totalDonated?: number;
-  donorsCount?: number;
-  lastDonors?: CampaignDonor[];
-};
-
-const MAX_LAST_DONORS = 15;
-
+/**
+ * Keeps campaign aggregates in step with donation docs written outside the web
+ * app's ledger (console edits, imports, deletes). Uses the same `countedAmount`
+ * bookkeeping as lib/donationLedger.ts, so ledger writes are no-ops here and
+ * retried events never double count.
+ */
 export const onDonationWrite = onDocumentWritten(
   "donations/{donationId}",
   async (event) => {
+    const donationId = event.params.donationId as string;
     const before = event.data?.before?.exists ? (event.data.before.data() as DonationDoc) : null;
     const after = event.data?.after?.exists ? (event.data.after.data() as DonationDoc) : null;
 
-    const affected = after ?? before;
-    if (!affected) return;
-
-    const campaignId = affected.campaignId;
-    if (!campaignId) return;
-
-    const campaignRef = db.collection("campaigns").doc(campaignId);
+    const donationRef = db.collection("donations").doc(donationId);
 
     await db.runTransaction(async (tx) => {
+      // Re-read: the event may be stale or already handled by the ledger.
+      const current = after ? await tx.get(donationRef) : null;
+      const doc = current?.exists ? (current.data() as DonationDoc) : null;
+
+      const campaignId = (doc ?? before)?.campaignId;
+      if (!campaignId) return;
+      const campaignRef = db.collection("campaigns").doc(campaignId);
       const snap = await tx.get(campaignRef);
       if (!snap.exists) return;
+      const fundraiserId = (doc ?? before)?.fundraiserId;
+      const fundraiserRef = fundraiserId ? db.collection("fundraisers").doc(fundraiserId) : null;
+      const fundraiser = fundraiserRef ? ((await tx.get(fundraiserRef)).data() as FundraiserDoc | undefined) : undefined;
 
-      const campaign = (snap.data() as CampaignDoc) || {};
-      let total = Number(campaign.totalDonated || 0);
-      let count = Number(campaign.donorsCount || 0);
-      let last: CampaignDonor[] = Array.isArray(campaign.lastDonors) ? campaign.lastDonors! : [];
-
-      const confirmedAmount = (x: DonationDoc | null) =>
-        x && x.status === "confirmed" ? Number(x.amount || 0) : 0;
-
-      // change in confirmed amount
-      const deltaAmt = confirmedAmount(after) - confirmedAmount(before);
-      if (deltaAmt !== 0) total += deltaAmt;
-
-      // donorsCount flips
-      const wasConfirmed = before?.status === "confirmed";
-      const isConfirmed = after?.status === "confirmed";
-      if (!wasConfirmed && isConfirmed) count += 1;
-      if (wasConfirmed && !isConfirmed) count = Math.max(0, count - 1);
-
-      // lastDonors updates
-      if (isConfirmed && after) {
-        const name = after.isAnonymous ? "متبرّع مجهول" : after.donorName || "متبرّع";
-        const entry: CampaignDonor = {
-          name,
-          amount: Number(after.amount || 0),
-          at: after.confirmedAt || after.createdAt || Date.now(),
-        };
-        last = [entry, ...last].slice(0, MAX_LAST_DONORS);
-      } else if (wasConfirmed && !isConfirmed && before) {
-        const name = before.isAnonymous ? "متبرّع مجهول" : before.donorName || "متبرّع";
-        const at = before.confirmedAt || before.createdAt || 0;
-        const amt = Number(before.amount || 0);
-        last = last.filter((d) => !(d.name === name && d.amount === amt && d.at === at));
+      let counted: number;
+      let target: number;
+      if (doc) {
+        counted = typeof doc.countedAmount === "number" ? doc.countedAmount : countedAmount(before);
+        target = countableAmount(doc);
+      } else {
+        counted = countedAmount(before);
+        target = 0;
       }
 
-      tx.update(campaignRef, {
-        totalDonated: total,
-        donorsCount: count,
-        lastDonors: last,
-        updatedAt: Date.now(),
+      const patch = campaignPatch(
+        (snap.data() as CampaignDoc) || {},
+        donationId,
+        (doc ?? before) as DonationDoc,
+        counted,
+        target
+      );
+
+      const fPatch = fundraiser?.campaignId === campaignId ? fundraiserPatch(fundraiser, counted, target) : null;
+
+      if (doc && doc.countedAmount !== target) tx.update(donationRef, { countedAmount: target });
+      if (patch) tx.update(campaignRef, patch);
+      if (fundraiserRef && fPatch) tx.update(fundraiserRef, fPatch);
+    });
+  }
+);
+
+/**
+ * Records each milestone `totalDonated` reaches (`reachedAt`, once) and emails
+ * the organizers and opted-in donors about those donations just crossed.
+ * `reachedAt` is claimed in a transaction, so retried events never email twice.
+ */
+export const onCampaignMilestone = onDocumentUpdated(
+  "campaigns/{campaignId}",
+  async (event) => {
+    const campaignId = event.params.campaignId as string;
+    const before = event.data?.before?.data() as MilestoneCampaign | undefined;
+    const after = event.data?.after?.data() as MilestoneCampaign | undefined;
+    if (!before || !after) return;
+    const previousTotal = Number(before.totalDonated || 0);
+    if (!newlyReached(after, previousTotal, Number(after.totalDonated || 0)).reached.length) return;
+
+    const ref = db.collection("campaigns").doc(campaignId);
+    const claimed = await db.runTransaction(async (tx) => {
+      const current = (await tx.get(ref)).data() as MilestoneCampaign | undefined;
+      if (!current?.milestones?.length) return null;
+      const { reached, crossed } = newlyReached(current, previousTotal, Number(current.totalDonated || 0));
+      if (!reached.length) return null;
+
+      const now = Date.now();
+      const ids = new Set(reached.map((m) => m.id));
+      tx.update(ref, {
+        milestones: current.milestones.map((m) => (ids.has(m.id) ? { ...m, reachedAt: now } : m)),
       });
+      return { campaign: current, crossed };
     });
+    if (!claimed?.crossed.length) return;
+
+    const recipients = await milestoneRecipients(campaignId, claimed.campaign);
+    for (const milestone of claimed.crossed) {
+      try {
+        if (await sendMilestoneEmails(claimed.campaign, milestone, recipients)) {
+          await markMilestoneNotified(campaignId, milestone.id);
+        }
+      } catch (e) {
+        console.error("[milestones] email failed", campaignId, milestone.id, (e as Error)?.message);
+      }
+    }
   }
 );
 
-/** Close campaigns where status=active and endAt <= now (every 6 hours). */
-export const closeExpiredCampaigns = onSchedule(
-  { schedule: "every 6 hours", timeZone: "Europe/London" },
+/** Organizer addresses plus donors to the campaign who opted in to updates. */
+async function milestoneRecipients(campaignId: string, campaign: MilestoneCampaign): Promise<string[]> {
+  const donors = await db
+    .collection("donations")
+    .where("campaignId", "==", campaignId)
+    .where("campaignUpdates", "==", true)
+    .where("status", "==", "confirmed")
+    .get();
+  const emails = [
+    ...(campaign.organizers || []).map((o) => o.email),
+    ...donors.docs.map((d) => d.data().donorEmail as string | undefined),
+  ];
+  return Array.from(new Set(emails.map((e) => String(e || "").trim().toLowerCase()).filter(Boolean)));
+}
+
+async function markMilestoneNotified(campaignId: string, milestoneId: string) {
+  const ref = db.collection("campaigns").doc(campaignId);
+  await db.runTransaction(async (tx) => {
+    const milestones = ((await tx.get(ref)).data()?.milestones || []) as Milestone[];
+    tx.update(ref, {
+      milestones: milestones.map((m) => (m.id === milestoneId ? { ...m, notifiedAt: Date.now() } : m)),
+    });
+  });
+}
+
+/**
+ * Moves campaigns through their lifecycle (see lifecycle.ts): activates drafts
+ * at `startAt`, applies scheduled pause/resume windows and closes campaigns at
+ * `endAt` or, with `closeOnGoal`, once the goal is reached. Each change is
+ * re-checked in a transaction so it never overwrites an admin's edit.
+ */
+export const campaignLifecycle = onSchedule(
+  { schedule: "every 15 minutes", timeZone: "Europe/London" },
   async () => {
     const now = Date.now();
+    const qs = await db.collection("campaigns").where("status", "in", ["draft", "active", "paused"]).get();
+
+    for (const doc of qs.docs) {
+      if (!lifecyclePatch(doc.data() as LifecycleCampaign, now)) continue;
+      try {
+        await db.runTransaction(async (tx) => {
+          const current = (await tx.get(doc.ref)).data() as LifecycleCampaign | undefined;
+          const patch = current ? lifecyclePatch(current, now) : null;
+          if (patch) tx.update(doc.ref, { ...patch, updatedAt: now });
+        });
+      } catch (e) {
+        console.error("[lifecycle] update failed", doc.id, (e as Error)?.message);
+      }
+    }
+  }
+);
+
+/**
+ * Writes the end-of-campaign report (`campaignReports/{campaignId}`) whenever a
+ * campaign becomes closed, by the schedule or by an admin, and ends its monthly
+ * gifts so no donor is billed again. Reopening and closing again replaces the
+ * report.
+ */
+export const onCampaignClosed = onDocumentUpdated(
+  "campaigns/{campaignId}",
+  async (event) => {
+    const campaignId = event.params.campaignId as string;
+    const before = event.data?.before?.data() as LifecycleCampaign | undefined;
+    const after = event.data?.after?.data() as LifecycleCampaign | undefined;
+    if (!after || after.status !== "closed" || before?.status === "closed") return;
+
+    const donations = await db.collection("donations").where("campaignId", "==", campaignId).get();
+    const report = buildCampaignReport(
+      campaignId,
+      after,
+      donations.docs.map((d) => d.data() as DonationDoc),
+      Date.now()
+    );
+    await db.collection("campaignReports").doc(campaignId).set(report);
+
+    await endCampaignRecurring(campaignId);
+  }
+);
+
+/** Cancel a closed campaign's active monthly gifts (admin closes have usually done so already). */
+async function endCampaignRecurring(campaignId: string) {
+  const qs = await db
+    .collection("recurringDonations")
+    .where("campaignId", "==", campaignId)
+    .where("status", "in", ["active", "past_due"] as RecurringStatus[])
+    .get();
+
+  for (const doc of qs.docs) {
+    try {
+      if (!(await cancelStripeSubscription(doc.id))) return;
+      await doc.ref.set(
+        { status: "canceled" as RecurringStatus, endedReason: "campaign_closed", updatedAt: Date.now() },
+        { merge: true }
+      );
+    } catch (e) {
+      console.error("[recurring] cancel failed", doc.id, (e as Error)?.message);
+    }
+  }
+}
+
+// ============================================================================
+// C) MEMBERSHIP: Expiry & Renewal Reminders
+// ============================================================================
+
+/** Member documents keep `currentPeriodEnd` as a Firestore timestamp; the rules want ms. */
+function expiryMember(data: FirebaseFirestore.DocumentData | undefined): ExpiryMember | null {
+  if (!data) return null;
+  const end = data.currentPeriodEnd;
+  return { ...data, currentPeriodEnd: end instanceof Timestamp ? end.toMillis() : Number(end || 0) || null } as ExpiryMember;
+}
+
+/**
+ * Applies membership expiry (see membership.ts) once a day: lapsed members go
+ * `past_due` or `inactive`, and one-off members whose term ends within 14 days
+ * are sent their renewal reminders. Each change is re-checked in a transaction,
+ * and a reminder is recorded before it is sent so it never goes out twice.
+ */
+export const membershipExpiry = onSchedule(
+  { schedule: "every day 08:00", timeZone: "Europe/London" },
+  async () => {
+    const now = Date.now();
+    const horizon = Timestamp.fromMillis(now + Math.max(...REMINDER_DAYS) * 24 * 60 * 60 * 1000);
     const qs = await db
-      .collection("campaigns")
-      .where("status", "==", "active")
-      .where("endAt", "<=", now)
+      .collection("members")
+      .where("status", "in", ["active", "past_due"])
+      .where("currentPeriodEnd", "<=", horizon)
       .get();
 
-    if (qs.empty) return;
-
-    const batch = db.batch();
-    qs.forEach((doc) => {
-      batch.update(doc.ref, { status: "closed", updatedAt: now });
-    });
-    await batch.commit();
+    for (const doc of qs.docs) {
+      const member = expiryMember(doc.data());
+      if (!member || (!expiryPatch(member, now) && !dueReminder(member, now))) continue;
+      try {
+        const reminder = await db.runTransaction(async (tx) => {
+          const current = expiryMember((await tx.get(doc.ref)).data());
+          if (!current) return null;
+          const patch = expiryPatch(current, now);
+          if (patch) {
+            tx.update(doc.ref, { ...patch, updatedAt: new Date() });
+            return null;
+          }
+          const days = dueReminder(current, now);
+          if (days === null) return null;
+          tx.update(doc.ref, { renewalReminders: remindersAfter(current, days) });
+          return { member: current, days };
+        });
+        if (reminder) await sendRenewalReminder(reminder.member, reminder.days);
+      } catch (e) {
+        console.error("[membership] expiry failed", doc.id, (e as Error)?.message);
+      }
+    }
   }
 );
@@ -0,0 +1,118 @@
+// Donation ledger rules shared with the web app (lib/donationLedger.ts).
+// A donation's contribution to its campaign totals is tracked in `countedAmount`,
+// and campaign aggregates only move together with that field. Both are in the
+// campaign's currency: `fxRate` converts the amount paid (set by the web ledger).
+// Sponsor matches (`matchOf` set) add to the total but are not counted as donors.
+// A gift made on a fundraiser page (`fundraiserId`) also moves that page's totals.
+
+export type DonationDoc = {
+  campaignId?: string;
+  status?: "pending" | "confirmed" | "failed" | "refunded" | string;
+  isAnonymous?: boolean;
+  donorName?: string;
+  amount?: number;
+  currency?: string;
+  campaignCurrency?: string;
+  fxRate?: number | null;
+  countedAmount?: number;
+  refundedAmount?: number;
+  disputeStatus?: "open" | "won" | "lost";
+  matchOf?: string | null;
+  fundraiserId?: string | null;
+  confirmedAt?: number;
+  createdAt?: number;
+};
+
+export type CampaignDonor = { id?: string; name: string; amount: number; at: number };
+export type CampaignDoc = {
+  totalDonated?: number;
+  donorsCount?: number;
+  lastDonors?: CampaignDonor[];
+};
+
+export type FundraiserDoc = {
+  campaignId?: string;
+  totalRaised?: number;
+  donorsCount?: number;
+};
+
+export const MAX_LAST_DONORS = 15;
+
+/** Campaign-currency units per unit paid; a foreign payment without a rate counts as 0. */
+export function fxRateOf(d: DonationDoc): number {
+  if (typeof d.fxRate === "number") return d.fxRate;
+  const paid = String(d.currency || "").toUpperCase();
+  return d.campaignCurrency && paid && d.campaignCurrency !== paid ? 0 : 1;
+}
+
+/** Amount of a donation that belongs in its campaign's totals (confirmed, less refunds, undisputed). */
+export function countableAmount(d: DonationDoc | null | undefined): number {
+  if (!d || d.status !== "confirmed") return 0;
+  if (d.disputeStatus === "open" || d.disputeStatus === "lost") return 0;
+  const net = Math.max(0, Number(d.amount || 0) - Number(d.refundedAmount || 0));
+  return Math.round(net * fxRateOf(d) * 100) / 100;
+}
+
+/** Amount already included in campaign totals (legacy docs: counted when confirmed). */
+export function countedAmount(d: DonationDoc | null | undefined): number {
+  if (!d) return 0;
+  return typeof d.countedAmount === "number" ? d.countedAmount : countableAmount(d);
+}
+
+function donorLabel(d: DonationDoc): string {
+  if (d.isAnonymous) return "متبرّع مجهول";
+  return (d.donorName || "").trim() || "متبرّع";
+}
+
+/** Campaign aggregate patch for moving one donation from `counted` to `target`. */
+export function campaignPatch(
+  campaign: CampaignDoc,
+  donationId: string,
+  donation: DonationDoc,
+  counted: number,
+  target: number
+) {
+  if (counted === target) return null;
+
+  const total = Number(campaign.totalDonated || 0) + (target - counted);
+  let donors = Number(campaign.donorsCount || 0);
+  let last: CampaignDonor[] = Array.isArray(campaign.lastDonors) ? campaign.lastDonors : [];
+
+  if (donation.matchOf) {
+    // Sponsor matches leave donors and lastDonors alone
+  } else if (counted === 0 && target > 0) {
+    donors += 1;
+    const entry: CampaignDonor = {
+      id: donationId,
+      name: donorLabel(donation),
+      amount: target,
+      at: donation.confirmedAt || donation.createdAt || Date.now(),
+    };
+    last = [entry, ...last.filter((x) => x.id !== donationId)].slice(0, MAX_LAST_DONORS);
+  } else if (counted > 0 && target === 0) {
+    donors = Math.max(0, donors - 1);
+    last = last.filter((x) => x.id !== donationId);
+  } else {
+    last = last.map((x) => (x.id === donationId ? { ...x, amount: target } : x));
+  }
+
+  return {
+    totalDonated: Math.max(0, total),
+    donorsCount: donors,
+    lastDonors: last,
+    updatedAt: Date.now(),
+  };
+}
+
+/** Fundraiser total patch for moving one gift from `counted` to `target`. */
+export function fundraiserPatch(f: FundraiserDoc, counted: number, target: number) {
+  if (counted === target) return null;
+  let donors = Number(f.donorsCount || 0);
+  if (counted === 0 && target > 0) donors += 1;
+  else if (counted > 0 && target === 0) donors = Math.max(0, donors - 1);
+  return {
+    totalRaised: Math.max(0, Math.round((Number(f.totalRaised || 0) + target - counted) * 100) / 100),
+    donorsCount: donors,
+    updatedAt: Date.now(),
+  };
+}
@@ -0,0 +1,164 @@
+// Campaign lifecycle rules, applied by the `campaignLifecycle` schedule.
+// Drafts marked `autoActivate` go live at `startAt`; an active campaign is
+// paused at `pauseAt` and resumed at `resumeAt`; campaigns close at `endAt`, or
+// early once `goalAmount` is reached when `closeOnGoal` is set. Each pause/resume
+// time is cleared once used, so a manual change by an admin is never undone.
+
+import type { DonationDoc } from "./ledger";
+
+export type CampaignStatus = "draft" | "active" | "paused" | "closed";
+export type ClosedReason = "ended" | "goal_reached" | "manual";
+
+export type LifecycleCampaign = {
+  slug?: string;
+  title_ar?: string;
+  title_en?: string;
+  status?: CampaignStatus;
+  currency?: string;
+  goalAmount?: number;
+  totalDonated?: number;
+  donorsCount?: number;
+  totalSpent?: number;
+  spentByCategory?: Record<string, number>;
+  startAt?: number;
+  endAt?: number | null;
+  autoActivate?: boolean;
+  pauseAt?: number | null;
+  resumeAt?: number | null;
+  closeOnGoal?: boolean;
+  closedAt?: number | null;
+  closedReason?: ClosedReason | null;
+};
+
+export type LifecyclePatch = {
+  status?: CampaignStatus;
+  pauseAt?: null;
+  resumeAt?: null;
+  closedAt?: number;
+  closedReason?: ClosedReason;
+};
+
+const due = (at: number | null | undefined, now: number) => typeof at === "number" && at > 0 && at <= now;
+
+/** The change the schedule should make to a campaign at `now`, if any. */
+export function lifecyclePatch(c: LifecycleCampaign, now: number): LifecyclePatch | null {
+  const status = c.status || "active";
+
+  if (status === "draft") {
+    // Never publish a draft whose end date has already passed
+    if (c.autoActivate && due(c.startAt, now) && !due(c.endAt, now)) return { status: "active" };
+    return null;
+  }
+  if (status === "closed") return null;
+
+  if (due(c.endAt, now)) return { status: "closed", closedAt: now, closedReason: "ended" };
+  const goal = Number(c.goalAmount || 0);
+  if (c.closeOnGoal && goal > 0 && Number(c.totalDonated || 0) >= goal) {
+    return { status: "closed", closedAt: now, closedReason: "goal_reached" };
+  }
+
+  if (status === "active" && due(c.pauseAt, now)) {
+    // Whole window passed between runs: nothing to pause
+    if (due(c.resumeAt, now)) return { pauseAt: null, resumeAt: null };
+    return { status: "paused", pauseAt: null };
+  }
+  if (status === "paused" && due(c.resumeAt, now)) return { status: "active", resumeAt: null };
+  // Resumed by hand before the window ended
+  if (status === "active" && !c.pauseAt && due(c.resumeAt, now)) return { resumeAt: null };
+  return null;
+}
+
+export type CampaignReport = {
+  campaignId: string;
+  slug: string;
+  title_ar: string;
+  title_en: string;
+  currency: string;
+  goalAmount: number;
+  startAt: number | null;
+  endAt: number | null;
+  closedAt: number;
+  closedReason: ClosedReason;
+  totalDonated: number;
+  donorsCount: number;
+  donationsCount: number;
+  matchedAmount: number;
+  averageGift: number;
+  largestGift: number;
+  totalSpent: number;
+  spentByCategory: Record<string, number>;
+  topDays: Array<{ date: string; amount: number; count: number }>;
+  currencies: Array<{ currency: string; count: number; amount: number; counted: number }>;
+  generatedAt: number;
+};
+
+const TOP_DAYS = 5;
+const round = (n: number) => Math.round(n * 100) / 100;
+
+const londonDate = new Intl.DateTimeFormat("en-CA", {
+  timeZone: "Europe/London",
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+});
+
+/**
+ * Final summary of a closed campaign. Totals come from the campaign doc (kept by
+ * the ledger); the breakdowns come from the donations that count towards them.
+ */
+export function buildCampaignReport(
+  campaignId: string,
+  c: LifecycleCampaign,
+  donations: DonationDoc[],
+  now: number
+): CampaignReport {
+  const counted = donations.filter((d) => Number(d.countedAmount || 0) > 0);
+  const gifts = counted.filter((d) => !d.matchOf);
+
+  const days = new Map<string, { date: string; amount: number; count: number }>();
+  const currencies = new Map<string, { currency: string; count: number; amount: number; counted: number }>();
+  for (const d of counted) {
+    const amount = Number(d.countedAmount || 0);
+    const date = londonDate.format(new Date(d.confirmedAt || d.createdAt || now));
+    const day = days.get(date) || { date, amount: 0, count: 0 };
+    day.amount = round(day.amount + amount);
+    day.count += 1;
+    days.set(date, day);
+
+    const code = String(d.currency || c.currency || "GBP").toUpperCase();
+    const cur = currencies.get(code) || { currency: code, count: 0, amount: 0, counted: 0 };
+    cur.count += 1;
+    cur.amount = round(cur.amount + Math.max(0, Number(d.amount || 0) - Number(d.refundedAmount || 0)));
+    cur.counted = round(cur.counted + amount);
+    currencies.set(code, cur);
+  }
+
+  const giftAmounts = gifts.map((d) => Number(d.countedAmount || 0));
+  const giftTotal = giftAmounts.reduce((s, n) => s + n, 0);
+
+  return {
+    campaignId,
+    slug: c.slug || campaignId,
+    title_ar: c.title_ar || "",
+    title_en: c.title_en || "",
+    currency: String(c.currency || "GBP").toUpperCase(),
+    goalAmount: Number(c.goalAmount || 0),
+    startAt: c.startAt || null,
+    endAt: c.endAt || null,
+    closedAt: c.closedAt || now,
+    closedReason: c.closedReason || "manual",
+    totalDonated: Number(c.totalDonated || 0),
+    donorsCount: Number(c.donorsCount || 0),
+    donationsCount: gifts.length,
+    matchedAmount: round(counted.filter((d) => d.matchOf).reduce((s, d) => s + Number(d.countedAmount || 0), 0)),
+    averageGift: gifts.length ? round(giftTotal / gifts.length) : 0,
+    largestGift: giftAmounts.length ? Math.max(...giftAmounts) : 0,
+    totalSpent: Number(c.totalSpent || 0),
+    spentByCategory: c.spentByCategory || {},
+    topDays: Array.from(days.values())
+      .sort((a, b) => b.amount - a.amount)
+      .slice(0, TOP_DAYS),
+    currencies: Array.from(currencies.values()).sort((a, b) => b.counted - a.counted),
+    generatedAt: now,
+  };
+}
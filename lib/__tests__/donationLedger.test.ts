@@ -0,0 +1,125 @@
+import { describe, expect, it, vi } from 'vitest';
+
+// The rules under test are pure; keep firebase-admin out of the import graph
+vi.mock('@/lib/firebaseAdmin', () => ({ adminDb: {}, adminStorage: {} }));
+
+import {
+  campaignShare,
+  countableAmount,
+  countedAmount,
+  matchTarget,
+  netAmount,
+  rankedStatus,
+  refundedTotal,
+  toLedgerStatus,
+} from '@/lib/donationLedger';
+import type { Donation, MatchingPledge } from '@/types/donations';
+
+const gift = (d: Partial<Donation>): Partial<Donation> => ({ status: 'confirmed', amount: 50, currency: 'GBP', ...d });
+
+describe('status', () => {
+  it('maps provider statuses onto the ledger', () => {
+    expect(toLedgerStatus('succeeded')).toBe('confirmed');
+    expect(toLedgerStatus('COMPLETED')).toBe('confirmed');
+    expect(toLedgerStatus('refunded')).toBe('refunded');
+    expect(toLedgerStatus('cancelled')).toBe('failed');
+    expect(toLedgerStatus('processing')).toBe('pending');
+    expect(toLedgerStatus(undefined)).toBe('pending');
+  });
+
+  it('never lets a late report downgrade a payment', () => {
+    expect(rankedStatus('confirmed', 'pending')).toBe('confirmed');
+    expect(rankedStatus('refunded', 'confirmed')).toBe('refunded');
+    expect(rankedStatus('pending', 'confirmed')).toBe('confirmed');
+    expect(rankedStatus('failed', 'confirmed')).toBe('confirmed');
+    expect(rankedStatus(undefined, 'failed')).toBe('failed');
+  });
+});
+
+describe('counting', () => {
+  it('counts confirmed gifts net of refunds', () => {
+    expect(netAmount(gift({ refundedAmount: 20 }))).toBe(30);
+    expect(netAmount(gift({ status: 'pending' }))).toBe(0);
+    expect(netAmount(gift({ refundedAmount: 80 }))).toBe(0);
+  });
+
+  it('counts nothing while a dispute is open or after it is lost', () => {
+    expect(netAmount(gift({ disputeStatus: 'open' }))).toBe(0);
+    expect(netAmount(gift({ disputeStatus: 'lost' }))).toBe(0);
+    expect(netAmount(gift({ disputeStatus: 'won' }))).toBe(50);
+  });
+
+  it('converts into the campaign currency at the kept rate', () => {
+    expect(countableAmount(gift({ currency: 'USD', campaignCurrency: 'GBP', fxRate: 0.8 }))).toBe(40);
+    expect(countableAmount(gift({ currency: 'EUR', campaignCurrency: 'GBP', fxRate: 0.85, amount: 10.01 }))).toBe(8.51);
+  });
+
+  it('does not count a foreign gift until it has a rate', () => {
+    expect(countableAmount(gift({ currency: 'USD', campaignCurrency: 'GBP' }))).toBe(0);
+    // Entries from before conversion were always in the campaign currency
+    expect(countableAmount(gift({ currency: 'GBP' }))).toBe(50);
+  });
+
+  it('treats entries written before the ledger as counted when confirmed', () => {
+    expect(countedAmount(gift({}))).toBe(50);
+    expect(countedAmount(gift({ countedAmount: 0 }))).toBe(0);
+  });
+});
+
+describe('refunds', () => {
+  const withExtras = gift({
+    amount: 50,
+    paidAmount: 56.5,
+    paymentLines: [
+      { kind: 'campaign', amount: 50 },
+      { kind: 'fee_cover', amount: 1.5 },
+      { kind: 'general_fund', amount: 5 },
+    ],
+  });
+
+  it('applies a refund of a plain gift in full', () => {
+    expect(campaignShare(gift({}))).toBe(1);
+    expect(refundedTotal(gift({}), 20)).toBe(20);
+  });
+
+  it('takes back only the campaign line of a payment with extras', () => {
+    expect(refundedTotal(withExtras, 56.5)).toBe(50);
+    expect(refundedTotal(withExtras, 11.3)).toBe(10);
+  });
+
+  it('keeps cumulative refunds from moving backwards or past the gift', () => {
+    expect(refundedTotal(gift({ refundedAmount: 30 }), 20)).toBe(30);
+    expect(refundedTotal(gift({}), 80)).toBe(50);
+  });
+});
+
+describe('sponsor matches', () => {
+  const pledge = (p: Partial<MatchingPledge>): MatchingPledge => ({
+    id: 'p1',
+    sponsorName: 'Sponsor',
+    ratio: 1,
+    cap: 1000,
+    startAt: 0,
+    matchedAmount: 0,
+    ...p,
+  });
+  const match = (m: Partial<Donation>) => gift({ method: 'match', amount: 50, matchRatio: 1, countedAmount: 50, ...m });
+
+  it('follows a partial refund of the gift down', () => {
+    expect(matchTarget(match({}), 30, pledge({}))).toBe(30);
+    expect(matchTarget(match({}), 0, pledge({}))).toBe(0);
+  });
+
+  it('never grows past what it was made for', () => {
+    expect(matchTarget(match({ countedAmount: 20 }), 80, pledge({}))).toBe(50);
+  });
+
+  it('grows back only as far as the pledge cap allows', () => {
+    expect(matchTarget(match({ countedAmount: 20 }), 50, pledge({ cap: 100, matchedAmount: 90 }))).toBe(30);
+    expect(matchTarget(match({ countedAmount: 20 }), 50, undefined)).toBe(20);
+  });
+
+  it('scales with the pledge ratio', () => {
+    expect(matchTarget(match({ amount: 100, matchRatio: 2, countedAmount: 100 }), 25, pledge({ ratio: 2 }))).toBe(50);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/firebaseAdmin', () => ({ adminDb: {} }));
+
+import { conversionAt, crossRate, roundMoney } from '@/lib/fx';
+
+const table = { base: 'GBP', rates: { USD: 1.25, EUR: 1.16 } };
+
+describe('crossRate', () => {
+  it('converts to and from the base currency', () => {
+    expect(crossRate(table, 'GBP', 'USD')).toBe(1.25);
+    expect(crossRate(table, 'usd', 'gbp')).toBe(0.8);
+  });
+
+  it('crosses two non-base currencies through the base', () => {
+    expect(crossRate(table, 'USD', 'EUR')).toBeCloseTo(1.16 / 1.25, 10);
+  });
+
+  it('is null when the table lacks either currency', () => {
+    expect(crossRate(table, 'GBP', 'JPY')).toBeNull();
+    expect(crossRate({ base: 'GBP', rates: { USD: 0 } }, 'USD', 'GBP')).toBeNull();
+  });
+});
+
+describe('conversionAt', () => {
+  it('needs no table for a payment in the campaign currency', async () => {
+    await expect(conversionAt('gbp', 'GBP', Date.now())).resolves.toEqual({ rate: 1, rateId: null });
+  });
+});
+
+describe('roundMoney', () => {
+  it('rounds to the penny', () => {
+    expect(roundMoney(12.3456)).toBe(12.35);
+    expect(roundMoney(40 * 0.8)).toBe(32);
+    expect(roundMoney(0.1 + 0.2)).toBe(0.3);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { allocateMatches, isPledgeOpen, matchMultiple, pledgeHeadroom } from '@/lib/matchingPledges';
+import type { MatchingPledge } from '@/types/donations';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 0, 15);
+
+const pledge = (p: Partial<MatchingPledge>): MatchingPledge => ({
+  id: 'p1',
+  sponsorName: 'Sponsor',
+  ratio: 1,
+  cap: 1000,
+  startAt: NOW - DAY,
+  endAt: null,
+  matchedAmount: 0,
+  ...p,
+});
+
+describe('pledges', () => {
+  it('is open inside its window while it has headroom', () => {
+    expect(isPledgeOpen(pledge({}), NOW)).toBe(true);
+    expect(isPledgeOpen(pledge({ startAt: NOW + DAY }), NOW)).toBe(false);
+    expect(isPledgeOpen(pledge({ endAt: NOW }), NOW)).toBe(false);
+    expect(isPledgeOpen(pledge({ matchedAmount: 1000 }), NOW)).toBe(false);
+    expect(isPledgeOpen(pledge({ ratio: 0 }), NOW)).toBe(false);
+  });
+
+  it('never reports negative headroom', () => {
+    expect(pledgeHeadroom(pledge({ matchedAmount: 400.5 }))).toBe(599.5);
+    expect(pledgeHeadroom(pledge({ matchedAmount: 1200 }))).toBe(0);
+  });
+});
+
+describe('allocateMatches', () => {
+  it('matches a gift at each open pledge ratio', () => {
+    const { matches, pledges } = allocateMatches(
+      [pledge({}), pledge({ id: 'p2', ratio: 2 }), pledge({ id: 'p3', endAt: NOW - 1 })],
+      25,
+      NOW
+    );
+    expect(matches.map((m) => [m.pledge.id, m.amount])).toEqual([['p1', 25], ['p2', 50]]);
+    expect(pledges.map((p) => p.matchedAmount)).toEqual([25, 50, 0]);
+  });
+
+  it('stops at the cap', () => {
+    const { matches, pledges } = allocateMatches([pledge({ cap: 100, matchedAmount: 90 })], 25, NOW);
+    expect(matches[0].amount).toBe(10);
+    expect(pledges[0].matchedAmount).toBe(100);
+    expect(allocateMatches(pledges, 25, NOW).matches).toEqual([]);
+  });
+
+  it('handles a campaign without pledges', () => {
+    expect(allocateMatches(undefined, 25, NOW)).toEqual({ matches: [], pledges: [] });
+  });
+});
+
+describe('matchMultiple', () => {
+  it('words the common ratios', () => {
+    expect(matchMultiple(1)).toBe(2);
+    expect(matchMultiple(2)).toBe(3);
+    expect(matchMultiple(0.5)).toBeNull();
+  });
+});
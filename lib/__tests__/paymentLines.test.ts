@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MAX_TIP,
+  feeCover,
+  lineAmount,
+  linesTotal,
+  paymentLines,
+  paymentLinesFromMetadata,
+  paymentLinesToMetadata,
+} from '@/lib/paymentLines';
+
+// Stripe's fee on a charge, with the same pricing as lib/paymentLines.ts
+const cardFee = (charged: number, percent: number, fixed: number) => charged * percent + fixed;
+
+describe('feeCover', () => {
+  it('leaves the association the whole gift after the card fee', () => {
+    for (const base of [5, 10, 50, 123.45]) {
+      const cover = feeCover(base, 'GBP', 'uk');
+      const charged = base + cover;
+      expect(charged - cardFee(charged, 0.015, 0.2)).toBeGreaterThanOrEqual(base);
+      // and by no more than a penny's worth
+      expect(charged - 0.01 - cardFee(charged - 0.01, 0.015, 0.2)).toBeLessThan(base);
+    }
+  });
+
+  it('adds conversion for payments outside GBP', () => {
+    const cover = feeCover(50, 'USD', 'international');
+    const charged = 50 + cover;
+    expect(charged - cardFee(charged, 0.0325 + 0.02, 0.3)).toBeGreaterThanOrEqual(50);
+    expect(cover).toBeGreaterThan(feeCover(50, 'GBP', 'international'));
+  });
+
+  it('is nothing for an empty gift', () => {
+    expect(feeCover(0, 'GBP', 'uk')).toBe(0);
+  });
+});
+
+describe('paymentLines', () => {
+  it('keeps the campaign gift, fee cover and tip apart', () => {
+    const lines = paymentLines({ gift: 50, tip: 5, coverFees: true, region: 'uk', currency: 'GBP' });
+    expect(lines.map((l) => l.kind)).toEqual(['campaign', 'fee_cover', 'general_fund']);
+    expect(lineAmount(lines, 'campaign')).toBe(50);
+    // The fee is covered on the tip too
+    expect(lineAmount(lines, 'fee_cover')).toBe(feeCover(55, 'GBP', 'uk'));
+    expect(linesTotal(lines)).toBe(55 + feeCover(55, 'GBP', 'uk'));
+  });
+
+  it('leaves out extras of zero and caps the tip', () => {
+    expect(paymentLines({ gift: 20, currency: 'GBP' })).toEqual([{ kind: 'campaign', amount: 20 }]);
+    expect(lineAmount(paymentLines({ gift: 20, tip: MAX_TIP * 2, currency: 'GBP' }), 'general_fund')).toBe(MAX_TIP);
+    expect(lineAmount(paymentLines({ gift: 20, tip: -5, currency: 'GBP' }), 'general_fund')).toBe(0);
+  });
+
+  it('round-trips through PaymentIntent metadata', () => {
+    const lines = paymentLines({ gift: 50, tip: 5, coverFees: true, region: 'eea', currency: 'EUR' });
+    const md = paymentLinesToMetadata(lines);
+    expect(paymentLinesFromMetadata({ paymentLines: md })).toEqual(lines);
+  });
+
+  it('stores nothing for a plain gift and ignores bad metadata', () => {
+    expect(paymentLinesToMetadata([{ kind: 'campaign', amount: 20 }])).toBe('');
+    expect(paymentLinesFromMetadata({})).toBeNull();
+    expect(paymentLinesFromMetadata({ paymentLines: 'general_fund:5.00' })).toBeNull();
+    expect(paymentLinesFromMetadata({ paymentLines: 'campaign:20.00;bogus:1;fee_cover:-1' })).toEqual([{ kind: 'campaign', amount: 20 }]);
+  });
+});
@@ -2,6 +2,7 @@
 import type { NextAuthOptions, User } from 'next-auth';
 import GoogleProvider from 'next-auth/providers/google';
 import CredentialsProvider from 'next-auth/providers/credentials';
+import { consumeLoginToken } from '@/lib/donorAuth';
 
 /** ---------------- helpers ---------------- */
 function getEnv(
@@ -97,6 +98,18 @@ const providers = [
       return user;
     },
   }),
+  // Donors/members: one-time emailed link (lib/donorAuth.ts, /account/login)
+  CredentialsProvider({
+    id: 'donor-link',
+    name: 'Email link',
+    credentials: { token: { label: 'Token', type: 'text' } },
+    async authorize(credentials) {
+      const email = await consumeLoginToken(String(credentials?.token || ''));
+      if (!email) return null;
+      const user: User & { role: 'donor' } = { id: email, name: email.split('@')[0], email, role: 'donor' };
+      return user;
+    },
+  }),
 ];
 
 /** --------------- options --------------- */
@@ -147,9 +160,15 @@ export const authOptions: NextAuthOptions = {
       const isAdmin =
         (user as unknown as { role?: string })?.role === 'admin' || isAdminEmail(email) || adminUserMatch;
 
-      (token as Record<string, unknown>).role = isAdmin
-        ? 'admin'
-        : ((token as Record<string, unknown>).role || 'user');
+      // An emailed link proves the mailbox only: it never grants admin, even for admin addresses.
+      const isDonor =
+        (user as unknown as { role?: string })?.role === 'donor' || (token as Record<string, unknown>).role === 'donor';
+
+      (token as Record<string, unknown>).role = isDonor
+        ? 'donor'
+        : isAdmin
+          ? 'admin'
+          : ((token as Record<string, unknown>).role || 'user');
 
       return token;
     },
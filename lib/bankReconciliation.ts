@@ -0,0 +1,170 @@
+// lib/bankReconciliation.ts
+// Node-only. Matching bank-statement credits (lib/bankStatement.ts) to campaigns.
+//
+// Each campaign has a unique bank-transfer reference (e.g. PCA7K3M9Q), shown on its
+// page; `bankReferences/{reference}` reserves it so no two campaigns share one.
+// Donors quote it with their transfer and the import suggests the campaign whose
+// reference appears in a line's description. Confirmed lines become `bank_…`
+// donations through the ledger, keyed by the line's `key`, so a statement can be
+// imported again without counting anything twice. Each confirmation is logged
+// in `bankReconciliations`.
+
+import { randomBytes } from 'crypto';
+import { adminDb } from '@/lib/firebaseAdmin';
+import { CAMPAIGNS_COLLECTION, DONATIONS_COLLECTION, donationKey, postDonation } from '@/lib/donationLedger';
+import { roundMoney } from '@/lib/fx';
+import type { BankMatch, BankReconciliation, BankTransaction, Campaign } from '@/types/donations';
+
+export const BANK_REFERENCES_COLLECTION = 'bankReferences';
+export const RECONCILIATIONS_COLLECTION = 'bankReconciliations';
+
+const REFERENCE_PREFIX = 'PCA';
+const REFERENCE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // no 0/O or 1/I
+const MAX_LINES = 2000;
+
+export type ConfirmedLine = {
+  transaction: BankTransaction;
+  campaignId: string;
+  matchedBy: 'reference' | 'manual';
+};
+
+const bad = (message: string) => Object.assign(new Error(message), { code: 400 });
+
+/** Upper-case letters and digits only: banks reformat references freely. */
+export const normaliseReference = (s: string) => String(s || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+function randomReference() {
+  const bytes = randomBytes(6);
+  return REFERENCE_PREFIX + Array.from(bytes, (b) => REFERENCE_ALPHABET[b % REFERENCE_ALPHABET.length]).join('');
+}
+
+/** The campaign's bank-transfer reference, assigned on first use. */
+export async function assignBankReference(campaignId: string): Promise<string> {
+  const campaignRef = adminDb.collection(CAMPAIGNS_COLLECTION).doc(campaignId);
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const reference = randomReference();
+    const reserved = adminDb.collection(BANK_REFERENCES_COLLECTION).doc(reference);
+    const got = await adminDb.runTransaction(async (tx) => {
+      const [campSnap, refSnap] = await Promise.all([tx.get(campaignRef), tx.get(reserved)]);
+      if (!campSnap.exists) throw Object.assign(new Error('Campaign not found'), { code: 404 });
+      const current = (campSnap.data() as Partial<Campaign>).bankReference;
+      if (current) return current;
+      if (refSnap.exists) return null; // taken: try another
+      tx.set(reserved, { campaignId, createdAt: Date.now() });
+      tx.update(campaignRef, { bankReference: reference });
+      return reference;
+    });
+    if (got) return got;
+  }
+  throw new Error('Could not assign a unique bank reference');
+}
+
+/** Every campaign with its reference (campaigns without one get it now). */
+export async function campaignReferences() {
+  const snap = await adminDb.collection(CAMPAIGNS_COLLECTION).get();
+  const out: Array<Pick<Campaign, 'id' | 'title_ar' | 'currency' | 'status'> & { bankReference: string }> = [];
+  for (const d of snap.docs) {
+    const c = d.data() as Partial<Campaign>;
+    out.push({
+      id: d.id,
+      title_ar: String(c.title_ar || d.id),
+      currency: (String(c.currency || 'GBP').toUpperCase() as Campaign['currency']),
+      status: c.status || 'draft',
+      bankReference: c.bankReference || (await assignBankReference(d.id)),
+    });
+  }
+  return out;
+}
+
+/** Suggested campaign for each line, and whether it was imported before. */
+export async function suggestMatches(transactions: BankTransaction[]): Promise<BankMatch[]> {
+  if (transactions.length > MAX_LINES) throw bad(`Statements are limited to ${MAX_LINES} lines; please split the file`);
+  const campaigns = await campaignReferences();
+  const refs = campaigns.map((c) => ({ id: c.id, ref: normaliseReference(c.bankReference) }));
+
+  const existing = transactions.length
+    ? await adminDb.getAll(
+        ...transactions.map((t) => adminDb.collection(DONATIONS_COLLECTION).doc(donationKey('bank', t.key)))
+      )
+    : [];
+
+  return transactions.map((t, i) => {
+    const text = normaliseReference(t.description);
+    const hit = refs.find((r) => text.includes(r.ref));
+    return {
+      ...t,
+      campaignId: hit?.id || null,
+      matchedBy: hit ? 'reference' : null,
+      donationId: existing[i]?.exists ? existing[i].id : null,
+    };
+  });
+}
+
+/** Record the confirmed lines as confirmed bank donations and log the import. */
+export async function confirmMatches(
+  input: { fileName?: unknown; format?: unknown; lines?: unknown; skipped?: unknown },
+  createdBy?: string
+): Promise<BankReconciliation> {
+  const lines = Array.isArray(input.lines) ? (input.lines as ConfirmedLine[]) : [];
+  if (!lines.length) throw bad('Select at least one line to confirm');
+  if (lines.length > MAX_LINES) throw bad(`At most ${MAX_LINES} lines can be confirmed at once`);
+  for (const l of lines) {
+    const t = l?.transaction;
+    if (!t?.key || !String(l.campaignId || '').trim()) throw bad('Every confirmed line needs a campaign');
+    if (!(Number(t.amount) > 0) || !Number.isFinite(Number(t.date))) throw bad(`Invalid statement line ${t.key}`);
+  }
+
+  const entries: BankReconciliation['entries'] = [];
+  const totals: Record<string, number> = {};
+  for (const l of lines) {
+    const t = l.transaction;
+    const currency = String(t.currency || 'GBP').toUpperCase();
+    const ref = adminDb.collection(DONATIONS_COLLECTION).doc(donationKey('bank', t.key));
+    const seen = (await ref.get()).exists;
+    if (!seen) {
+      await postDonation({
+        campaignId: String(l.campaignId).trim(),
+        method: 'bank',
+        txnRef: t.key,
+        status: 'confirmed',
+        amount: roundMoney(Number(t.amount)),
+        currency,
+        donorName: '',
+        message: String(t.description || ''),
+        createdBy: createdBy || null,
+        receivedAt: Number(t.date),
+      });
+      totals[currency] = roundMoney((totals[currency] || 0) + Number(t.amount));
+    }
+    entries.push({
+      key: t.key,
+      date: Number(t.date),
+      amount: roundMoney(Number(t.amount)),
+      currency,
+      description: String(t.description || ''),
+      campaignId: String(l.campaignId).trim(),
+      matchedBy: l.matchedBy === 'reference' ? 'reference' : 'manual',
+      donationId: ref.id,
+      result: seen ? 'duplicate' : 'created',
+    });
+  }
+
+  const logRef = adminDb.collection(RECONCILIATIONS_COLLECTION).doc();
+  const log: Omit<BankReconciliation, 'id'> = {
+    fileName: String(input.fileName || 'statement').slice(0, 200),
+    format: input.format === 'ofx' ? 'ofx' : 'csv',
+    entries,
+    skipped: Math.max(0, Number(input.skipped) || 0),
+    totals,
+    createdBy: createdBy || undefined,
+    createdAt: Date.now(),
+  };
+  await logRef.set(log);
+  return { ...log, id: logRef.id };
+}
+
+/** Recent imports, newest first. */
+export async function listReconciliations(limit = 20) {
+  const snap = await adminDb.collection(RECONCILIATIONS_COLLECTION).orderBy('createdAt', 'desc').limit(limit).get();
+  return snap.docs.map((d) => ({ ...(d.data() as BankReconciliation), id: d.id }));
+}
@@ -0,0 +1,157 @@
+// lib/bankStatement.ts
+// Node-only. Reads the credit lines of a bank statement export (CSV or OFX) for
+// reconciliation (lib/bankReconciliation.ts). Payments out are ignored.
+//
+// Every line gets a stable `key`, so importing the same statement twice finds the
+// donations already recorded: OFX files carry the bank's FITID; CSV lines are
+// keyed by a hash of their date, amount and description (plus the occurrence,
+// for identical gifts on the same day).
+
+import { createHash } from 'crypto';
+import { roundMoney } from '@/lib/fx';
+import type { BankTransaction } from '@/types/donations';
+
+export type ParsedStatement = {
+  format: 'csv' | 'ofx';
+  transactions: BankTransaction[];
+  skipped: number; // payments out and lines that could not be read
+};
+
+const bad = (message: string) => Object.assign(new Error(message), { code: 400 });
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/** Noon UTC on the day, so the date reads the same in any UK timezone offset. */
+function dayAt(y: number, m: number, d: number) {
+  if (y < 100) y += 2000;
+  const ms = Date.UTC(y, m - 1, d, 12);
+  const check = new Date(ms);
+  return check.getUTCMonth() === m - 1 && check.getUTCDate() === d ? ms : NaN;
+}
+
+/** UK statement dates: 31/01/2026, 31-01-26, 2026-01-31, 31 Jan 2026, 20260131. */
+export function parseStatementDate(v: string) {
+  const s = v.trim();
+  let m = s.match(/^(\d{4})-(\d{2})-(\d{2})/) || s.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (m) return dayAt(+m[1], +m[2], +m[3]);
+  m = s.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (m) return dayAt(+m[3], +m[2], +m[1]);
+  m = s.match(/^(\d{1,2})[\s-]([A-Za-z]{3})[A-Za-z]*[\s-](\d{2}|\d{4})$/);
+  if (m && MONTHS.includes(m[2].toLowerCase())) return dayAt(+m[3], MONTHS.indexOf(m[2].toLowerCase()) + 1, +m[1]);
+  return NaN;
+}
+
+/** "£1,250.00", "(20.00)", "20.00 CR", "-5" → signed number; NaN when empty. */
+export function parseStatementAmount(v: string) {
+  let s = v.trim();
+  if (!s) return NaN;
+  let sign = 1;
+  if (/^\(.*\)$/.test(s)) { sign = -1; s = s.slice(1, -1); }
+  if (/\bDR$/i.test(s)) { sign = -1; s = s.replace(/\bDR$/i, ''); }
+  s = s.replace(/\bCR$/i, '').replace(/[£$€,\s]/g, '');
+  const n = Number(s);
+  return Number.isFinite(n) && s !== '' ? sign * n : NaN;
+}
+
+/** RFC 4180 rows: quoted fields may hold commas, quotes ("") and line breaks. */
+function csvRows(text: string) {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { row.push(cell); cell = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      if (row.some((c) => c.trim())) rows.push(row);
+      row = [];
+      cell = '';
+    } else cell += ch;
+  }
+  row.push(cell);
+  if (row.some((c) => c.trim())) rows.push(row);
+  return rows;
+}
+
+const lineKey = (parts: Array<string | number>) =>
+  createHash('sha1').update(parts.join('|')).digest('hex').slice(0, 24);
+
+/** Which column holds what, from the header row (banks name them differently). */
+function csvColumns(header: string[]) {
+  const h = header.map((x) => x.trim().toLowerCase());
+  const find = (re: RegExp, skip: number[] = []) => h.findIndex((x, i) => !skip.includes(i) && re.test(x));
+  const date = find(/date/);
+  const credit = find(/credit|paid in|money in|deposit/);
+  const debit = find(/debit|paid out|money out|withdrawal/);
+  const amount = credit >= 0 ? -1 : find(/^(transaction )?(amount|value)/, [date]);
+  const currency = find(/^(currency|ccy)$/);
+  const used = [date, credit, debit, amount, currency];
+  const description = h
+    .map((x, i) => (!used.includes(i) && /desc|detail|narrative|reference|memo|payee|name|type|subcategory/.test(x) ? i : -1))
+    .filter((i) => i >= 0);
+  return { date, credit, amount, currency, description };
+}
+
+function parseCsv(text: string, defaultCurrency: string): ParsedStatement {
+  const rows = csvRows(text);
+  // Some banks print account details above the header row
+  const headerAt = rows.slice(0, 10).findIndex((r) => {
+    const c = csvColumns(r);
+    return c.date >= 0 && (c.amount >= 0 || c.credit >= 0);
+  });
+  if (headerAt < 0) throw bad('Could not find the date and amount columns in this CSV');
+  const cols = csvColumns(rows[headerAt]);
+
+  const seen = new Map<string, number>();
+  const transactions: BankTransaction[] = [];
+  let skipped = 0;
+  for (const r of rows.slice(headerAt + 1)) {
+    const date = parseStatementDate(r[cols.date] || '');
+    const amount = roundMoney(parseStatementAmount(r[cols.credit >= 0 ? cols.credit : cols.amount] || ''));
+    if (!Number.isFinite(date) || !(amount > 0)) { skipped++; continue; }
+    const description = cols.description.map((i) => (r[i] || '').trim()).filter(Boolean).join(' ').replace(/\s+/g, ' ');
+    const currency = ((cols.currency >= 0 && r[cols.currency]?.trim()) || defaultCurrency).toUpperCase();
+
+    // Identical lines (same day, amount and text) are separate gifts
+    const base = [date, amount, currency, description.toUpperCase()].join('|');
+    const n = (seen.get(base) || 0) + 1;
+    seen.set(base, n);
+    transactions.push({ key: `csv_${lineKey([base, n])}`, date, amount, currency, description });
+  }
+  return { format: 'csv', transactions, skipped };
+}
+
+/** OFX 1.x (SGML, leaf tags unclosed) and 2.x (XML) alike. */
+function parseOfx(text: string, defaultCurrency: string): ParsedStatement {
+  const tag = (block: string, name: string) => block.match(new RegExp(`<${name}>([^<\\r\\n]*)`, 'i'))?.[1]?.trim() || '';
+  const currency = (tag(text, 'CURDEF') || defaultCurrency).toUpperCase();
+  const blocks = text.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) || [];
+  if (!blocks.length) throw bad('No transactions found in this OFX file');
+
+  const transactions: BankTransaction[] = [];
+  let skipped = 0;
+  for (const b of blocks) {
+    const date = parseStatementDate(tag(b, 'DTPOSTED'));
+    const amount = roundMoney(parseStatementAmount(tag(b, 'TRNAMT')));
+    if (!Number.isFinite(date) || !(amount > 0)) { skipped++; continue; }
+    const description = [tag(b, 'NAME'), tag(b, 'MEMO')].filter(Boolean).join(' ').replace(/\s+/g, ' ');
+    const fitId = tag(b, 'FITID');
+    const key = fitId ? `ofx_${fitId.replace(/[^\w.-]/g, '_')}` : `ofx_${lineKey([date, amount, description])}`;
+    transactions.push({ key, date, amount, currency: (tag(b, 'CURSYM') || currency).toUpperCase(), description });
+  }
+  return { format: 'ofx', transactions, skipped };
+}
+
+/** Parse a statement export; the format is detected from the content. */
+export function parseBankStatement(text: string, defaultCurrency = 'GBP'): ParsedStatement {
+  const body = String(text || '').replace(/^\uFEFF/, '');
+  if (!body.trim()) throw bad('The statement file is empty');
+  return /<OFX>|OFXHEADER/i.test(body) ? parseOfx(body, defaultCurrency) : parseCsv(body, defaultCurrency);
+}
@@ -0,0 +1,56 @@
+// lib/campaignMilestones.ts
+// Client-safe. Campaign milestones and stretch goals (`Campaign.milestones`).
+//
+// Admins set each milestone as a percentage of `goalAmount` with a short
+// description in English and Arabic. The `onCampaignMilestone` Cloud Function
+// records `reachedAt` when `totalDonated` first crosses one and emails the
+// organizers and opted-in donors (functions/src/milestones.ts).
+
+import type { Campaign, CampaignMilestone } from '@/types/donations';
+
+/** Amount (campaign currency) at which a milestone is reached. */
+export function milestoneAmount(goalAmount: number, percent: number) {
+  return Math.round(Number(goalAmount || 0) * Number(percent || 0)) / 100;
+}
+
+/** Milestones in the order they are reached. */
+export function sortedMilestones(campaign: Pick<Partial<Campaign>, 'milestones'> | null | undefined) {
+  return (campaign?.milestones || []).slice().sort((a, b) => a.percent - b.percent);
+}
+
+/**
+ * Validate milestones sent by the admin editor. Progress (`reachedAt`,
+ * `notifiedAt`) always comes from the stored milestone with the same id.
+ */
+export function normaliseMilestones(input: unknown, existing: CampaignMilestone[] | undefined): CampaignMilestone[] {
+  if (!Array.isArray(input)) throw Object.assign(new Error('milestones must be a list'), { code: 400 });
+  const stored = new Map((existing || []).map((m) => [m.id, m]));
+
+  const milestones = input.map((raw: Partial<CampaignMilestone>) => {
+    const percent = Number(raw?.percent);
+    const description_en = String(raw?.description_en || '').trim();
+    const description_ar = String(raw?.description_ar || '').trim();
+    if (!(percent > 0) || percent > 1000) throw Object.assign(new Error('Milestone percent must be between 0 and 1000'), { code: 400 });
+    if (!description_en || !description_ar) {
+      throw Object.assign(new Error(`Milestone ${percent}% needs an English and an Arabic description`), { code: 400 });
+    }
+
+    const id = String(raw?.id || '').trim() || crypto.randomUUID();
+    const prev = stored.get(id);
+    // A milestone moved to a new percentage is reached afresh
+    const reached = prev && prev.percent === percent;
+    return {
+      id,
+      percent,
+      description_en,
+      description_ar,
+      reachedAt: reached ? prev.reachedAt ?? null : null,
+      notifiedAt: reached ? prev.notifiedAt ?? null : null,
+    };
+  });
+
+  if (new Set(milestones.map((m) => m.percent)).size !== milestones.length) {
+    throw Object.assign(new Error('Two milestones cannot share a percentage'), { code: 400 });
+  }
+  return milestones.sort((a, b) => a.percent - b.percent);
+}
@@ -0,0 +1,117 @@
+// lib/disbursements.ts
+// Node-only. Expenditure recorded against a campaign's funds.
+//
+// Each payment out lives in `disbursements/{id}`. The campaign's `totalSpent`
+// and `spentByCategory` only change in the same transaction that adds or
+// removes a disbursement, the way donation totals follow the ledger.
+
+import { adminDb } from '@/lib/firebaseAdmin';
+import { CAMPAIGNS_COLLECTION } from '@/lib/donationLedger';
+import { roundMoney } from '@/lib/fx';
+import { DISBURSEMENT_CATEGORIES } from '@/lib/spending';
+import type { Campaign, Disbursement, DisbursementCategory } from '@/types/donations';
+
+export const DISBURSEMENTS_COLLECTION = 'disbursements';
+
+export type DisbursementInput = {
+  campaignId?: unknown;
+  amount?: unknown;
+  category?: unknown;
+  paidAt?: unknown;
+  beneficiary?: unknown;
+  note?: unknown;
+  receiptUrl?: unknown;
+  receiptPath?: unknown;
+};
+
+const bad = (message: string) => Object.assign(new Error(message), { code: 400 });
+
+/** Campaign aggregate patch for adding (`sign` 1) or removing (-1) one disbursement. */
+function spendingPatch(campaign: Partial<Campaign>, d: Pick<Disbursement, 'amount' | 'category'>, sign: 1 | -1) {
+  const byCategory = { ...(campaign.spentByCategory || {}) };
+  byCategory[d.category] = Math.max(0, roundMoney(Number(byCategory[d.category] || 0) + sign * d.amount));
+  return {
+    totalSpent: Math.max(0, roundMoney(Number(campaign.totalSpent || 0) + sign * d.amount)),
+    spentByCategory: byCategory,
+    updatedAt: Date.now(),
+  };
+}
+
+/** Validate and record a disbursement; returns its id. */
+export async function recordDisbursement(input: DisbursementInput, createdBy?: string) {
+  const campaignId = String(input.campaignId || '').trim();
+  const amount = roundMoney(Number(input.amount));
+  const category = String(input.category || '') as DisbursementCategory;
+  const paidAt = typeof input.paidAt === 'number' ? input.paidAt : Date.parse(String(input.paidAt || ''));
+  const beneficiary = String(input.beneficiary || '').trim();
+  if (!campaignId) throw bad('campaignId is required');
+  if (!(amount > 0)) throw bad('Amount must be a positive number');
+  if (!DISBURSEMENT_CATEGORIES.includes(category)) throw bad('Unknown category');
+  if (!Number.isFinite(paidAt) || paidAt <= 0) throw bad('Date is required');
+  if (paidAt > Date.now() + 24 * 60 * 60 * 1000) throw bad('Date cannot be in the future');
+  if (!beneficiary) throw bad('Beneficiary description is required');
+
+  const campaignRef = adminDb.collection(CAMPAIGNS_COLLECTION).doc(campaignId);
+  const ref = adminDb.collection(DISBURSEMENTS_COLLECTION).doc();
+
+  await adminDb.runTransaction(async (tx) => {
+    const campSnap = await tx.get(campaignRef);
+    if (!campSnap.exists) throw Object.assign(new Error('Campaign not found'), { code: 404 });
+    const campaign = campSnap.data() as Partial<Campaign>;
+
+    const d: Omit<Disbursement, 'id'> = {
+      campaignId,
+      amount,
+      currency: String(campaign.currency || 'GBP').toUpperCase(),
+      category,
+      paidAt,
+      beneficiary,
+      note: String(input.note || '').trim() || undefined,
+      receiptUrl: String(input.receiptUrl || '') || null,
+      receiptPath: String(input.receiptPath || '') || null,
+      createdBy: createdBy || undefined,
+      createdAt: Date.now(),
+    };
+    tx.set(ref, d);
+    tx.update(campaignRef, spendingPatch(campaign, d, 1));
+  });
+  return ref.id;
+}
+
+/** Remove a disbursement recorded in error and take it out of the campaign totals. */
+export async function deleteDisbursement(id: string) {
+  const ref = adminDb.collection(DISBURSEMENTS_COLLECTION).doc(id);
+  await adminDb.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) throw Object.assign(new Error('Disbursement not found'), { code: 404 });
+    const d = snap.data() as Disbursement;
+    const campaignRef = adminDb.collection(CAMPAIGNS_COLLECTION).doc(d.campaignId);
+    const campSnap = await tx.get(campaignRef);
+
+    tx.delete(ref);
+    if (campSnap.exists) tx.update(campaignRef, spendingPatch(campSnap.data() as Partial<Campaign>, d, -1));
+  });
+}
+
+export async function listDisbursements(campaignId: string) {
+  const snap = await adminDb
+    .collection(DISBURSEMENTS_COLLECTION)
+    .where('campaignId', '==', campaignId)
+    .orderBy('paidAt', 'desc')
+    .get();
+  return snap.docs.map((d) => ({ ...(d.data() as Disbursement), id: d.id }));
+}
+
+/** Spending totals rebuilt from `disbursements`, per campaign (for recompute). */
+export async function spendingByCampaign() {
+  const snap = await adminDb.collection(DISBURSEMENTS_COLLECTION).get();
+  const out = new Map<string, { totalSpent: number; spentByCategory: Partial<Record<DisbursementCategory, number>> }>();
+  for (const doc of snap.docs) {
+    const d = doc.data() as Disbursement;
+    const t = out.get(d.campaignId) || { totalSpent: 0, spentByCategory: {} };
+    t.totalSpent = roundMoney(t.totalSpent + Number(d.amount || 0));
+    t.spentByCategory[d.category] = roundMoney(Number(t.spentByCategory[d.category] || 0) + Number(d.amount || 0));
+    out.set(d.campaignId, t);
+  }
+  return out;
+}
@@ -0,0 +1,587 @@
+// lib/donationLedger.ts
+// Node-only. The single server-side path for recording campaign donations.
+//
+// Every donation lives in `donations/{method}_{txnRef}`, so each provider payment
+// has exactly one ledger document no matter how many routes or webhooks report it.
+// Campaign aggregates are only ever changed in the same transaction that updates
+// `countedAmount` on the donation, which makes replays and concurrent reports no-ops.
+// `countedAmount` and the aggregates are in the campaign's currency: payments in
+// another currency are converted with the fxRates table in force (lib/fx.ts).
+// The `onDonationWrite` Cloud Function applies the same rule (functions/src/ledger.ts).
+// A gift that counts for the first time is matched by the campaign's open sponsor
+// pledges (lib/matchingPledges.ts) in the same transaction, as `match_…` donations.
+// A gift made on a peer-to-peer fundraiser page (lib/fundraisers.ts) also moves
+// that page's totals; sponsor matches count towards the campaign only.
+// A card payment that also covers the fee or tips the general fund keeps all its
+// lines (`paymentLines`, lib/paymentLines.ts); only the campaign line is counted.
+
+import { adminDb } from '@/lib/firebaseAdmin';
+import { conversionAt, roundMoney } from '@/lib/fx';
+import { allocateMatches, pledgeHeadroom } from '@/lib/matchingPledges';
+import { linesTotal } from '@/lib/paymentLines';
+import { normaliseEmbedSite } from '@/lib/embed';
+import type { Transaction } from 'firebase-admin/firestore';
+import type {
+  Campaign,
+  Donation,
+  DonationAudit,
+  Fundraiser,
+  GiftAidDeclaration,
+  MatchingPledge,
+  PaymentLine,
+} from '@/types/donations';
+
+export const DONATIONS_COLLECTION = 'donations';
+export const CAMPAIGNS_COLLECTION = 'campaigns';
+export const AUDIT_COLLECTION = 'donationAudit';
+export const FUNDRAISERS_COLLECTION = 'fundraisers';
+
+export const MAX_LAST_DONORS = 15;
+const ANONYMOUS_DONOR = 'متبرّع مجهول';
+const UNNAMED_DONOR = 'متبرّع';
+
+type CampaignDonor = Campaign['lastDonors'][number];
+
+export type DonationPosting = {
+  campaignId: string;
+  method: Donation['method'];
+  txnRef: string; // provider payment id (Stripe PI, PayPal capture, bank reference…)
+  status: Donation['status'];
+  amount: number; // major units
+  currency: string;
+  donorName?: string | null;
+  donorEmail?: string | null; // links the donation to the donor's /account
+  isAnonymous?: boolean;
+  message?: string | null;
+  createdBy?: string | null;
+  giftAid?: GiftAidDeclaration | null; // only GBP donations are eligible
+  recurringId?: string | null; // monthly gift this payment belongs to
+  campaignUpdates?: boolean; // opted in to the campaign's milestone emails
+  fundraiserId?: string | null; // checked by lib/fundraisers.ts fundraiserForPayment
+  embedSite?: string | null; // host of the partner site the donor came from
+  receivedAt?: number | null; // when the money arrived, for payments recorded later (bank statements)
+  lines?: PaymentLine[] | null; // card payment with fee cover / general-fund tip; `amount` is the campaign line
+};
+
+/** A refund or dispute reported by a provider against an existing ledger entry. */
+export type DonationAdjustment = {
+  method: Donation['method'];
+  txnRef: string;
+  kind: DonationAudit['kind'];
+  refundedAmount?: number; // cumulative, major units
+  disputeStatus?: Donation['disputeStatus'];
+  amount: number; // amount of this event, major units
+  currency: string;
+  reason?: string | null;
+  eventRef: string; // provider event id; one audit record per event
+};
+
+export type PostResult = {
+  id: string;
+  status: Donation['status'];
+  /** Change this payment itself made to the campaign total (0 for replays; excludes sponsor matches). */
+  delta: number;
+};
+
+/** Higher ranks win: a late "pending" report never downgrades a confirmed donation. */
+const STATUS_RANK: Record<Donation['status'], number> = {
+  pending: 0,
+  failed: 1,
+  confirmed: 2,
+  refunded: 3,
+};
+
+/** Status after a report of `next`: a payment's status only moves up the ranks. */
+export function rankedStatus(prev: Donation['status'] | undefined, next: Donation['status']) {
+  return prev && STATUS_RANK[prev] > STATUS_RANK[next] ? prev : next;
+}
+
+/** Idempotency key (= ledger document id) for one provider payment. */
+export function donationKey(method: Donation['method'], txnRef: string) {
+  return `${method}_${String(txnRef).trim().replace(/\//g, '_')}`;
+}
+
+/**
+ * Amount of a donation, in the currency it was paid in, that stands: confirmed,
+ * less refunds, and nothing while a dispute is open or after it was lost.
+ */
+export function netAmount(d: Partial<Donation> | null | undefined) {
+  if (!d || d.status !== 'confirmed') return 0;
+  if (d.disputeStatus === 'open' || d.disputeStatus === 'lost') return 0;
+  return Math.max(0, Number(d.amount || 0) - Number(d.refundedAmount || 0));
+}
+
+/**
+ * Campaign-currency units per unit paid. Entries from before conversion were
+ * always in the campaign currency; a foreign payment without a rate counts as 0.
+ */
+export function fxRateOf(d: Partial<Donation>) {
+  if (typeof d.fxRate === 'number') return d.fxRate;
+  const paid = String(d.currency || '').toUpperCase();
+  return d.campaignCurrency && paid && d.campaignCurrency !== paid ? 0 : 1;
+}
+
+/** Amount of a donation that belongs in its campaign's totals, in the campaign currency. */
+export function countableAmount(d: Partial<Donation> | null | undefined) {
+  if (!d) return 0;
+  return roundMoney(netAmount(d) * fxRateOf(d));
+}
+
+/**
+ * Amount of a donation already included in campaign totals.
+ * Documents written before the ledger have no `countedAmount`; the old trigger
+ * had counted them whenever they were confirmed.
+ */
+export function countedAmount(d: Partial<Donation> | null | undefined) {
+  if (!d) return 0;
+  return typeof d.countedAmount === 'number' ? d.countedAmount : countableAmount(d);
+}
+
+export function donorLabel(d: Pick<Partial<Donation>, 'donorName' | 'isAnonymous'>) {
+  if (d.isAnonymous) return ANONYMOUS_DONOR;
+  return (d.donorName || '').trim() || UNNAMED_DONOR;
+}
+
+/**
+ * Campaign aggregate patch for moving one donation from `counted` to `target`.
+ * Sponsor matches only move the total, not the donor count or list.
+ * Returns null when nothing changes.
+ */
+export function campaignPatch(
+  campaign: Partial<Campaign>,
+  donationId: string,
+  donation: Partial<Donation>,
+  counted: number,
+  target: number
+) {
+  if (counted === target) return null;
+
+  const total = Number(campaign.totalDonated || 0) + (target - counted);
+  let donors = Number(campaign.donorsCount || 0);
+  let last: CampaignDonor[] = Array.isArray(campaign.lastDonors) ? campaign.lastDonors : [];
+
+  if (donation.matchOf) {
+    // Sponsor matches leave donors and lastDonors alone
+  } else if (counted === 0 && target > 0) {
+    donors += 1;
+    const entry: CampaignDonor = {
+      id: donationId,
+      name: donorLabel(donation),
+      amount: target,
+      at: donation.confirmedAt || donation.createdAt || Date.now(),
+    };
+    last = [entry, ...last.filter((x) => x.id !== donationId)].slice(0, MAX_LAST_DONORS);
+  } else if (counted > 0 && target === 0) {
+    donors = Math.max(0, donors - 1);
+    last = last.filter((x) => x.id !== donationId);
+  } else {
+    last = last.map((x) => (x.id === donationId ? { ...x, amount: target } : x));
+  }
+
+  return {
+    totalDonated: Math.max(0, total),
+    donorsCount: donors,
+    lastDonors: last,
+    updatedAt: Date.now(),
+  };
+}
+
+/** Fundraiser total patch for moving one gift from `counted` to `target` (null when nothing changes). */
+export function fundraiserPatch(f: Partial<Fundraiser>, counted: number, target: number) {
+  if (counted === target) return null;
+  let donors = Number(f.donorsCount || 0);
+  if (counted === 0 && target > 0) donors += 1;
+  else if (counted > 0 && target === 0) donors = Math.max(0, donors - 1);
+  return {
+    totalRaised: Math.max(0, roundMoney(Number(f.totalRaised || 0) + target - counted)),
+    donorsCount: donors,
+    updatedAt: Date.now(),
+  };
+}
+
+/** The gift's fundraiser page, if it has one under the same campaign. */
+async function fundraiserOf(tx: Transaction, campaignId: string, fundraiserId: string | null | undefined) {
+  if (!fundraiserId) return null;
+  const ref = adminDb.collection(FUNDRAISERS_COLLECTION).doc(fundraiserId);
+  const snap = await tx.get(ref);
+  const f = snap.data() as Partial<Fundraiser> | undefined;
+  return f && f.campaignId === campaignId ? { ref, data: f } : null;
+}
+
+/**
+ * Record (or update) the ledger entry for one provider payment and keep the
+ * campaign aggregates in step with it, atomically. The first posting that
+ * confirms a payment also issues its receipt (lib/donationReceipts.ts).
+ */
+export async function postDonation(p: DonationPosting): Promise<PostResult> {
+  const campaignId = String(p.campaignId || '').trim();
+  const txnRef = String(p.txnRef || '').trim();
+  if (!campaignId) throw Object.assign(new Error('campaignId is required'), { code: 400 });
+  if (!txnRef) throw Object.assign(new Error('txnRef is required'), { code: 400 });
+
+  const id = donationKey(p.method, txnRef);
+  const donationRef = adminDb.collection(DONATIONS_COLLECTION).doc(id);
+
+  let firstConfirmed = false;
+  const result = await adminDb.runTransaction(async (tx): Promise<PostResult> => {
+    // -------------------- READS FIRST --------------------
+    const snap = await tx.get(donationRef);
+    const prev = snap.exists ? (snap.data() as Partial<Donation>) : null;
+
+    // A payment belongs to the campaign it was first recorded against.
+    const ownerId = prev?.campaignId || campaignId;
+    const campaignRef = adminDb.collection(CAMPAIGNS_COLLECTION).doc(ownerId);
+    const campSnap = await tx.get(campaignRef);
+    if (!campSnap.exists) {
+      throw Object.assign(new Error(`Donation campaign not found for id "${ownerId}"`), { code: 404 });
+    }
+
+    const campaign = campSnap.data() as Partial<Campaign>;
+    const fundraiser = await fundraiserOf(tx, ownerId, prev?.fundraiserId || p.fundraiserId);
+    const currency = String(p.currency || prev?.currency || 'GBP').toUpperCase();
+    const campaignCurrency = String(campaign.currency || 'GBP').toUpperCase();
+    const amount = Number(p.amount || 0);
+    // A payment keeps the rate it was first counted at
+    const fx =
+      prev?.campaignCurrency === campaignCurrency && typeof prev.fxRate === 'number'
+        ? { rate: prev.fxRate, rateId: prev.fxRateId ?? null }
+        : await conversionAt(currency, campaignCurrency, prev?.createdAt || p.receivedAt || Date.now(), tx);
+    if (!fx) console.warn(`[ledger] no FX rate ${currency}→${campaignCurrency}; ${id} is not counted yet`);
+
+    // -------------------- WRITES AFTER ALL READS --------------------
+    const prevStatus = prev?.status;
+    const status = rankedStatus(prevStatus, p.status);
+    const now = Date.now();
+    const at = p.receivedAt || now;
+
+    const next: Partial<Donation> = {
+      id,
+      campaignId: ownerId,
+      method: p.method,
+      txnRef,
+      status,
+      amount,
+      currency: currency as Donation['currency'],
+      campaignCurrency,
+      fxRate: fx?.rate ?? null,
+      fxRateId: fx?.rateId ?? null,
+      campaignAmount: fx ? roundMoney(amount * fx.rate) : null,
+      donorName: (p.donorName ?? prev?.donorName ?? '').trim(),
+      donorEmail: normaliseEmail(p.donorEmail) || prev?.donorEmail || null,
+      isAnonymous: p.isAnonymous ?? prev?.isAnonymous ?? false,
+      message: p.message ?? prev?.message ?? '',
+      createdAt: prev?.createdAt || at,
+      createdBy: prev?.createdBy || p.createdBy || undefined,
+      giftAid: p.giftAid ?? prev?.giftAid ?? null,
+      recurringId: p.recurringId ?? prev?.recurringId ?? null,
+      campaignUpdates: p.campaignUpdates || prev?.campaignUpdates || false,
+      fundraiserId: fundraiser ? fundraiser.ref.id : null,
+      embedSite: normaliseEmbedSite(p.embedSite) || prev?.embedSite || null,
+      paymentLines: p.lines ?? prev?.paymentLines ?? null,
+      paidAmount: p.lines ? linesTotal(p.lines) : prev?.paidAmount ?? null,
+      confirmedAt: status === 'confirmed' ? prev?.confirmedAt || at : prev?.confirmedAt,
+    };
+
+    const counted = countedAmount(prev);
+    // Refunds and disputes recorded earlier still apply to a replayed payment.
+    const target = countableAmount({ ...prev, ...next });
+    let patch: Record<string, unknown> | null = campaignPatch(campaign, id, next, counted, target);
+
+    // A gift counting for the first time is matched by the open pledges (once)
+    if (patch && counted === 0 && target > 0 && p.method !== 'match' && !prev?.matchedBy?.length) {
+      const { matches, pledges } = allocateMatches(campaign.matchingPledges, target, next.confirmedAt || now);
+      const matchIds: string[] = [];
+      for (const m of matches) {
+        const matchRef = recordMatch(tx, { ...next, id, campaignCurrency }, m.pledge, m.amount, now);
+        matchIds.push(matchRef.id);
+      }
+      if (matchIds.length) {
+        next.matchedBy = matchIds;
+        const matched = roundMoney(matches.reduce((sum, m) => sum + m.amount, 0));
+        patch = { ...patch, totalDonated: Number(patch.totalDonated) + matched, matchingPledges: pledges };
+      }
+    }
+
+    const fPatch = fundraiser && fundraiserPatch(fundraiser.data, counted, target);
+
+    tx.set(donationRef, { ...next, countedAmount: target, updatedAt: now }, { merge: true });
+    if (patch) tx.update(campaignRef, patch);
+    if (fPatch) tx.update(fundraiser.ref, fPatch);
+
+    firstConfirmed = prevStatus !== 'confirmed' && status === 'confirmed';
+    return { id, status, delta: target - counted };
+  });
+
+  // First time this payment is confirmed: send the donor their receipt, even
+  // when it is not counted yet (no FX rate); issueReceipt runs once per donation
+  if (firstConfirmed) await sendReceipt(id);
+  return result;
+}
+
+/** Write a sponsor's matched contribution for one gift (`match_{pledgeId}_{giftId}`). */
+function recordMatch(tx: Transaction, gift: Partial<Donation>, pledge: MatchingPledge, amount: number, now: number) {
+  const txnRef = `${pledge.id}_${gift.id}`;
+  const ref = adminDb.collection(DONATIONS_COLLECTION).doc(donationKey('match', txnRef));
+  const match: Partial<Donation> = {
+    id: ref.id,
+    campaignId: gift.campaignId,
+    method: 'match',
+    txnRef,
+    status: 'confirmed',
+    amount,
+    currency: gift.campaignCurrency as Donation['currency'],
+    campaignCurrency: gift.campaignCurrency,
+    fxRate: 1,
+    fxRateId: null,
+    campaignAmount: amount,
+    countedAmount: amount,
+    donorName: pledge.sponsorName,
+    donorEmail: null,
+    isAnonymous: false,
+    message: '',
+    matchOf: gift.id,
+    pledgeId: pledge.id,
+    matchRatio: pledge.ratio,
+    createdAt: now,
+    confirmedAt: now,
+    updatedAt: now,
+  };
+  tx.set(ref, match);
+  return ref;
+}
+
+/**
+ * Move a gift's sponsor matches in step with the gift after a refund or dispute:
+ * each stays at `ratio` × what still counts, and never exceeds its pledge's cap.
+ * Returns the change to the campaign total and the pledges with new progress.
+ */
+function rescaleMatches(
+  tx: Transaction,
+  matchSnaps: FirebaseFirestore.DocumentSnapshot[],
+  pledges: MatchingPledge[],
+  giftTarget: number,
+  now: number
+) {
+  let delta = 0;
+  let next = pledges;
+  for (const snap of matchSnaps) {
+    const m = snap.data() as Partial<Donation> | undefined;
+    if (!m) continue;
+    const pledge = next.find((x) => x.id === m.pledgeId);
+    const counted = countedAmount(m);
+    const want = matchTarget(m, giftTarget, pledge);
+    if (want === counted) continue;
+
+    tx.set(snap.ref, { refundedAmount: roundMoney(Number(m.amount || 0) - want), countedAmount: want, updatedAt: now }, { merge: true });
+    delta += want - counted;
+    if (pledge) {
+      next = next.map((x) =>
+        x.id === pledge.id ? { ...x, matchedAmount: roundMoney(Number(x.matchedAmount || 0) + want - counted) } : x
+      );
+    }
+  }
+  return { delta: roundMoney(delta), pledges: next };
+}
+
+/**
+ * The campaign line's share of a payment. Providers refund the whole payment;
+ * with fee cover or a tip only this share of a refund is the gift's.
+ */
+export function campaignShare(d: Partial<Donation>) {
+  const gross = Number(d.amount || 0);
+  const paid = Number(d.paidAmount || 0);
+  return d.paymentLines && paid > gross ? gross / paid : 1;
+}
+
+/**
+ * A donation's `refundedAmount` after the provider reports `paymentRefunded`
+ * (cumulative, for the whole payment). Never moves backwards on out-of-order
+ * events and never exceeds the gift.
+ */
+export function refundedTotal(d: Partial<Donation>, paymentRefunded: number) {
+  const gross = Number(d.amount || 0);
+  return Math.min(gross, Math.max(Number(d.refundedAmount || 0), roundMoney(paymentRefunded * campaignShare(d))));
+}
+
+/**
+ * What a sponsor match should count once its gift counts `giftTarget`: `ratio`
+ * × the gift, never more than the match was made for, and growing only as far
+ * as the pledge's cap allows.
+ */
+export function matchTarget(m: Partial<Donation>, giftTarget: number, pledge: MatchingPledge | undefined) {
+  const counted = countedAmount(m);
+  let want = Math.min(Number(m.amount || 0), giftTarget * Number(m.matchRatio || 0));
+  if (want > counted) want = Math.min(want, counted + (pledge ? pledgeHeadroom(pledge) : 0));
+  return roundMoney(Math.max(0, want));
+}
+
+/** Receipts are best-effort: a failure is logged and never fails the posting. */
+async function sendReceipt(donationId: string) {
+  try {
+    // Loaded lazily so the ledger does not pull in the PDF renderer
+    const { issueReceipt } = await import('@/lib/donationReceipts');
+    await issueReceipt(donationId);
+  } catch (e: unknown) {
+    console.error('[ledger] receipt failed for', donationId, (e as Error)?.message);
+  }
+}
+
+/** The ledger entry for a provider payment, or null when it has none. */
+export async function findLedgerRef(method: Donation['method'], txnRef: string) {
+  const ref = adminDb.collection(DONATIONS_COLLECTION).doc(donationKey(method, txnRef));
+  if ((await ref.get()).exists) return ref;
+
+  // Entries recorded before the ledger used random ids
+  const q = await adminDb
+    .collection(DONATIONS_COLLECTION)
+    .where('method', '==', method)
+    .where('txnRef', '==', txnRef)
+    .limit(1)
+    .get();
+  return q.empty ? null : q.docs[0].ref;
+}
+
+/**
+ * Apply a refund or dispute to the ledger entry for one provider payment,
+ * reverse (or restore) its share of the campaign aggregates and write an
+ * audit record, atomically. Replays of the same event are no-ops.
+ * Refund amounts are for the whole payment; a payment with fee cover or a
+ * tip refunds its campaign line in proportion.
+ * Returns null when the payment has no ledger entry.
+ */
+export async function adjustDonation(a: DonationAdjustment): Promise<PostResult | null> {
+  const txnRef = String(a.txnRef || '').trim();
+  if (!txnRef) throw Object.assign(new Error('txnRef is required'), { code: 400 });
+
+  const donationRef = await findLedgerRef(a.method, txnRef);
+  if (!donationRef) return null;
+  const auditRef = adminDb.collection(AUDIT_COLLECTION).doc(`${a.method}_${a.eventRef}`);
+
+  return adminDb.runTransaction(async (tx) => {
+    // -------------------- READS FIRST --------------------
+    const [snap, auditSnap] = await Promise.all([tx.get(donationRef), tx.get(auditRef)]);
+    const prev = snap.data() as Partial<Donation>;
+    if (auditSnap.exists) {
+      return { id: donationRef.id, status: prev.status || 'pending', delta: 0 };
+    }
+
+    const campaignRef = adminDb.collection(CAMPAIGNS_COLLECTION).doc(String(prev.campaignId || ''));
+    const campSnap = await tx.get(campaignRef);
+    if (!campSnap.exists) {
+      throw Object.assign(new Error(`Donation campaign not found for id "${prev.campaignId}"`), { code: 404 });
+    }
+    const matchRefs = (prev.matchedBy || []).map((mid) => adminDb.collection(DONATIONS_COLLECTION).doc(mid));
+    const matchSnaps = matchRefs.length ? await tx.getAll(...matchRefs) : [];
+    const fundraiser = await fundraiserOf(tx, String(prev.campaignId || ''), prev.fundraiserId);
+
+    // -------------------- WRITES AFTER ALL READS --------------------
+    const now = Date.now();
+    const gross = Number(prev.amount || 0);
+    const share = campaignShare(prev);
+    const changes: Partial<Donation> = {};
+    if (typeof a.refundedAmount === 'number') {
+      const refunded = refundedTotal(prev, a.refundedAmount);
+      changes.refundedAmount = refunded;
+      if (refunded >= gross && gross > 0) changes.status = 'refunded';
+    }
+    if (a.disputeStatus) changes.disputeStatus = a.disputeStatus;
+
+    const next = { ...prev, ...changes };
+    const counted = countedAmount(prev);
+    const target = countableAmount(next);
+    const campaign = campSnap.data() as Partial<Campaign>;
+    let patch: Record<string, unknown> | null = campaignPatch(campaign, donationRef.id, next, counted, target);
+
+    // Sponsor matches follow the gift they matched
+    const matches = rescaleMatches(tx, matchSnaps, campaign.matchingPledges || [], target, now);
+    if (matches.delta) {
+      const base = patch || { totalDonated: Number(campaign.totalDonated || 0), updatedAt: now };
+      patch = { ...base, totalDonated: Math.max(0, Number(base.totalDonated) + matches.delta), matchingPledges: matches.pledges };
+    }
+
+    const audit: Omit<DonationAudit, 'id'> = {
+      donationId: donationRef.id,
+      campaignId: String(prev.campaignId),
+      // Providers that do not flag full refunds report them as partial
+      kind: a.kind === 'partial_refund' && changes.status === 'refunded' ? 'refund' : a.kind,
+      amount: roundMoney(Number(a.amount || 0) * share),
+      currency: String(a.currency || prev.currency || 'GBP').toUpperCase(),
+      reason: a.reason || undefined,
+      delta: target - counted,
+      eventRef: a.eventRef,
+      createdAt: now,
+    };
+
+    const fPatch = fundraiser && fundraiserPatch(fundraiser.data, counted, target);
+
+    tx.set(donationRef, { ...changes, countedAmount: target, updatedAt: now }, { merge: true });
+    tx.set(auditRef, audit);
+    if (patch) tx.update(campaignRef, patch);
+    if (fPatch) tx.update(fundraiser.ref, fPatch);
+
+    return { id: donationRef.id, status: next.status || 'pending', delta: target - counted };
+  });
+}
+
+/** Map a provider payment status (Stripe, PayPal, client reports) onto a ledger status. */
+export function toLedgerStatus(status: string | null | undefined): Donation['status'] {
+  switch (String(status || '').toLowerCase()) {
+    case 'succeeded':
+    case 'completed':
+    case 'captured':
+    case 'paid':
+    case 'confirmed':
+      return 'confirmed';
+    case 'refunded':
+      return 'refunded';
+    case 'canceled':
+    case 'cancelled':
+    case 'denied':
+    case 'voided':
+    case 'failed':
+      return 'failed';
+    default:
+      return 'pending';
+  }
+}
+
+/** Stripe metadata carries campaign ids under several historical aliases. */
+export function campaignIdFromMetadata(md: Record<string, string> | null | undefined) {
+  const m = md || {};
+  return String(m.campaignId || m.campaign_id || m.donationCampaignId || m.donation_campaign_id || '').trim();
+}
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Lower-cased address, or '' when it does not look like one. */
+export function normaliseEmail(v: unknown) {
+  const email = String(v ?? '').trim().toLowerCase();
+  return EMAIL_RE.test(email) ? email : '';
+}
+
+export function donorEmailFromMetadata(md: Record<string, string> | null | undefined) {
+  return normaliseEmail(md?.donorEmail);
+}
+
+/** Fundraiser page the gift was made on (validated when the payment was created). */
+export function fundraiserIdFromMetadata(md: Record<string, string> | null | undefined) {
+  return String(md?.fundraiserId || '').trim() || null;
+}
+
+/** Partner site whose embedded widget the donor came from (lib/embed.ts). */
+export function embedSiteFromMetadata(md: Record<string, string> | null | undefined) {
+  return normaliseEmbedSite(md?.embedSite) || null;
+}
+
+/** Milestone-email opt-in, sent as `campaignUpdates: '1'`. */
+export function campaignUpdatesFromMetadata(md: Record<string, string> | null | undefined) {
+  return md?.campaignUpdates === '1';
+}
+
+export function donorNameFromMetadata(md: Record<string, string> | null | undefined) {
+  const m = md || {};
+  return [m.donorFirstName || '', m.donorLastName || '']
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .join(' ');
+}
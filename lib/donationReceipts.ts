@@ -0,0 +1,239 @@
+// lib/donationReceipts.ts
+// Node-only. Receipts for confirmed ledger donations and yearly giving statements.
+//
+// Each confirmed donation gets a sequential receipt number per calendar year
+// (`receiptCounters/{year}`), a PDF stored at `receipts/{year}/{donationId}.pdf`
+// with a download-token URL in `donation.receiptURL`, and — when we hold the
+// donor's email — a copy by SendGrid. Numbering is transactional, so a payment
+// reported by several webhooks is still receipted and emailed once.
+
+import crypto from 'crypto';
+import sendgrid from '@sendgrid/mail';
+import { adminDb, adminStorage } from '@/lib/firebaseAdmin';
+import { CAMPAIGNS_COLLECTION, DONATIONS_COLLECTION } from '@/lib/donationLedger';
+import { roundMoney } from '@/lib/fx';
+import { claimableAmount } from '@/lib/giftAidSchedule';
+import { CHARITY, formatDate, renderReceiptPdf, renderStatementPdf } from '@/lib/receiptPdf';
+import type { ReceiptData, StatementData } from '@/lib/receiptPdf';
+import type { Campaign, Donation } from '@/types/donations';
+
+export const RECEIPT_COUNTERS_COLLECTION = 'receiptCounters';
+const RECEIPT_PREFIX = process.env.RECEIPT_PREFIX || 'PCNW';
+
+type Claim = { donation: Donation; receiptNo: string; fresh: boolean };
+
+function publicDownloadUrl(bucket: string, path: string, token: string) {
+  return `https://firebasestorage.googleapis.com/v0/b/${bucket}/o/${encodeURIComponent(path)}?alt=media&token=${token}`;
+}
+
+const receiptYear = (d: Pick<Donation, 'confirmedAt' | 'createdAt'>) =>
+  Number(new Date(d.confirmedAt || d.createdAt || Date.now()).toLocaleDateString('en-GB', { timeZone: 'Europe/London', year: 'numeric' }));
+
+const receiptPath = (d: Donation) => `receipts/${receiptYear(d)}/${d.id}.pdf`;
+
+/**
+ * The lines of a payment with fee cover or a general-fund tip, or null for a
+ * plain gift. A refund takes back every line in the same proportion.
+ */
+function chargedLines(d: Donation) {
+  const lines = d.paymentLines && d.paymentLines.length > 1 ? d.paymentLines : null;
+  if (!lines) return null;
+  const amount = Number(d.amount || 0);
+  const refundedShare = amount > 0 ? Math.min(1, Number(d.refundedAmount || 0) / amount) : 0;
+  const paid = Number(d.paidAmount || 0) || lines.reduce((s, l) => s + l.amount, 0);
+  return { lines, paid, refunded: roundMoney(paid * refundedShare), refundedShare };
+}
+
+/** Give a confirmed donation its receipt number (once). */
+async function claimReceiptNo(donationId: string): Promise<Claim> {
+  const ref = adminDb.collection(DONATIONS_COLLECTION).doc(donationId);
+  return adminDb.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) throw Object.assign(new Error('Donation not found'), { code: 404 });
+    const donation = { ...(snap.data() as Donation), id: snap.id };
+    if (donation.status !== 'confirmed' && donation.status !== 'refunded') {
+      throw Object.assign(new Error('No receipt until the donation is confirmed'), { code: 400 });
+    }
+    if (donation.receiptNo) return { donation, receiptNo: donation.receiptNo, fresh: false };
+
+    const year = receiptYear(donation);
+    const counterRef = adminDb.collection(RECEIPT_COUNTERS_COLLECTION).doc(String(year));
+    const next = Number((await tx.get(counterRef)).data()?.last || 0) + 1;
+    const receiptNo = `${RECEIPT_PREFIX}-${year}-${String(next).padStart(6, '0')}`;
+
+    tx.set(counterRef, { last: next, updatedAt: Date.now() }, { merge: true });
+    tx.update(ref, { receiptNo, updatedAt: Date.now() });
+    return { donation: { ...donation, receiptNo }, receiptNo, fresh: true };
+  });
+}
+
+async function receiptData(d: Donation, receiptNo: string): Promise<ReceiptData> {
+  const campaign = (await adminDb.collection(CAMPAIGNS_COLLECTION).doc(d.campaignId).get()).data() as
+    | Partial<Campaign>
+    | undefined;
+  const charged = chargedLines(d);
+  return {
+    receiptNo,
+    donationId: d.id,
+    date: Number(d.confirmedAt || d.createdAt),
+    donorName: d.isAnonymous ? '' : String(d.donorName || '').trim(),
+    donorEmail: d.donorEmail || '',
+    campaignTitle_en: campaign?.title_en || '',
+    campaignTitle_ar: campaign?.title_ar || d.campaignId,
+    amount: Number(d.amount || 0),
+    currency: String(d.currency || 'GBP').toUpperCase(),
+    lines: charged?.lines ?? null,
+    paidAmount: charged?.paid ?? null,
+    refundedAmount: charged ? charged.refunded : Number(d.refundedAmount || 0),
+    method: d.method,
+    monthly: !!d.recurringId,
+    giftAid: !!d.giftAid && String(d.currency).toUpperCase() === 'GBP',
+  };
+}
+
+/** The receipt PDF for a donation as it stands now (numbering it if needed). Not stored or emailed. */
+export async function receiptPdf(donationId: string) {
+  const { donation, receiptNo } = await claimReceiptNo(donationId);
+  return { receiptNo, pdf: await renderReceiptPdf(await receiptData(donation, receiptNo)) };
+}
+
+async function emailReceipt(to: string, r: ReceiptData, pdf: Buffer) {
+  const from = process.env.FROM_EMAIL;
+  if (!process.env.SENDGRID_API_KEY || !from) {
+    console.warn('[receipts] SendGrid not configured; receipt not emailed', r.receiptNo);
+    return false;
+  }
+  sendgrid.setApiKey(process.env.SENDGRID_API_KEY);
+  await sendgrid.send({
+    to,
+    from,
+    subject: `Your donation receipt ${r.receiptNo} / إيصال تبرعك`,
+    text:
+      `Thank you for your donation to ${CHARITY.name_en} on ${formatDate(r.date)}.\n` +
+      'Your receipt is attached.\n\n' +
+      'شكرًا لتبرعكم. تجدون الإيصال في المرفق.\n',
+    attachments: [
+      { content: pdf.toString('base64'), filename: `${r.receiptNo}.pdf`, type: 'application/pdf', disposition: 'attachment' },
+    ],
+  });
+  return true;
+}
+
+/**
+ * Number, render, store and email the receipt for a confirmed donation.
+ * Repeat calls do nothing once the receipt is stored.
+ */
+export async function issueReceipt(donationId: string) {
+  const { donation, receiptNo, fresh } = await claimReceiptNo(donationId);
+  if (!fresh && donation.receiptURL) return { receiptNo, receiptURL: donation.receiptURL, emailed: false };
+
+  const data = await receiptData(donation, receiptNo);
+  const pdf = await renderReceiptPdf(data);
+
+  const path = receiptPath(donation);
+  const token = crypto.randomUUID();
+  await adminStorage.file(path).save(pdf, {
+    resumable: false,
+    contentType: 'application/pdf',
+    metadata: { contentType: 'application/pdf', metadata: { firebaseStorageDownloadTokens: token } },
+  });
+  const receiptURL = publicDownloadUrl(adminStorage.name, path, token);
+
+  // Only the call that numbered the receipt emails it
+  const emailed = fresh && !!donation.donorEmail ? await emailReceipt(donation.donorEmail, data, pdf) : false;
+
+  await adminDb
+    .collection(DONATIONS_COLLECTION)
+    .doc(donationId)
+    .set(
+      { receiptPath: path, receiptURL, receiptIssuedAt: Date.now(), ...(emailed ? { receiptEmailedAt: Date.now() } : {}) },
+      { merge: true }
+    );
+  return { receiptNo, receiptURL, emailed };
+}
+
+/** UK tax year starting 6 April `year` (London time; BST is always in force on 6 April). */
+export function taxYearRange(year: number) {
+  const from = Date.UTC(year, 3, 6) - 60 * 60 * 1000;
+  const to = Date.UTC(year + 1, 3, 6) - 60 * 60 * 1000;
+  return { from, to, label: `6 April ${year} – 5 April ${year + 1}` };
+}
+
+/** Tax year (by its starting calendar year) a timestamp falls in. */
+export function taxYearOf(ms: number) {
+  const y = new Date(ms).getUTCFullYear();
+  return ms >= taxYearRange(y).from ? y : y - 1;
+}
+
+/** Confirmed (or later refunded) donations made under an email address. */
+async function donationsByEmail(email: string) {
+  const snap = await adminDb.collection(DONATIONS_COLLECTION).where('donorEmail', '==', email).get();
+  return snap.docs
+    .map((d) => ({ ...(d.data() as Donation), id: d.id }))
+    .filter((d) => (d.status === 'confirmed' || d.status === 'refunded') && d.confirmedAt);
+}
+
+/** Tax years in which the donor has at least one confirmed donation, newest first. */
+export async function statementYears(email: string) {
+  const years = new Set((await donationsByEmail(email)).map((d) => taxYearOf(Number(d.confirmedAt))));
+  return Array.from(years).sort((a, b) => b - a);
+}
+
+/** Consolidated statement PDF of one donor's giving in a UK tax year. */
+export async function statementPdf(email: string, year: number) {
+  const { from, to, label } = taxYearRange(year);
+  const donations = (await donationsByEmail(email))
+    .filter((d) => Number(d.confirmedAt) >= from && Number(d.confirmedAt) < to)
+    .sort((a, b) => Number(a.confirmedAt) - Number(b.confirmedAt));
+
+  const ids = Array.from(new Set(donations.map((d) => d.campaignId)));
+  const campaigns = ids.length
+    ? await adminDb.getAll(...ids.map((id) => adminDb.collection(CAMPAIGNS_COLLECTION).doc(id)))
+    : [];
+  const titles = new Map(
+    campaigns.map((c) => {
+      const data = c.data() as Partial<Campaign> | undefined;
+      return [c.id, data?.title_en || data?.title_ar || c.id];
+    })
+  );
+
+  const totals = new Map<string, { currency: string; amount: number; giftAidAmount: number }>();
+  const rows = donations.flatMap((d) => {
+    const currency = String(d.currency || 'GBP').toUpperCase();
+    const net = Math.max(0, Number(d.amount || 0) - Number(d.refundedAmount || 0));
+    const row = {
+      date: Number(d.confirmedAt),
+      receiptNo: d.receiptNo || '',
+      campaignTitle: titles.get(d.campaignId) || d.campaignId,
+      amount: net,
+      currency,
+      giftAid: claimableAmount(d) > 0,
+    };
+    // Fee cover and general-fund tips were given too; each gets its own row
+    const charged = chargedLines(d);
+    const extras = (charged?.lines || [])
+      .filter((l) => l.kind !== 'campaign')
+      .map((l) => ({
+        ...row,
+        campaignTitle: l.kind === 'fee_cover' ? 'Card fee covered' : 'General fund',
+        amount: roundMoney(l.amount * (1 - (charged?.refundedShare || 0))),
+        giftAid: false,
+      }));
+
+    const t = totals.get(currency) || { currency, amount: 0, giftAidAmount: 0 };
+    t.amount = roundMoney(t.amount + net + extras.reduce((s, x) => s + x.amount, 0));
+    t.giftAidAmount += claimableAmount(d);
+    totals.set(currency, t);
+    return [row, ...extras];
+  });
+
+  const named = donations.find((d) => !d.isAnonymous && d.donorName);
+  const data: StatementData = {
+    email,
+    donorName: named?.donorName || '',
+    periodLabel: label,
+    rows,
+    totals: Array.from(totals.values()),
+  };
+  return renderStatementPdf(data);
+}
@@ -0,0 +1,261 @@
+// lib/donationReports.ts
+// Node-only. Filtered donation exports and the treasurer's summary reports.
+//
+// Donations are selected by when they were made (`createdAt`) between two
+// YYYY-MM-DD days, then narrowed by campaign, method, status and currency.
+// Reports group them by calendar month (UK time): campaign totals in the
+// campaign currency, processor fees against net in the currency each payment
+// settled in, and refunds and disputes from the ledger's audit trail.
+
+import { adminDb } from '@/lib/firebaseAdmin';
+import { AUDIT_COLLECTION, CAMPAIGNS_COLLECTION, DONATIONS_COLLECTION } from '@/lib/donationLedger';
+import { fillStripeFees } from '@/lib/stripeFees';
+import { lineAmount } from '@/lib/paymentLines';
+import { roundMoney } from '@/lib/fx';
+import type { Cell, Sheet } from '@/lib/spreadsheet';
+import type { Campaign, Donation, DonationAudit } from '@/types/donations';
+
+export type DonationFilters = {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string;
+  campaignId?: string;
+  method?: Donation['method'];
+  status?: Donation['status'];
+  currency?: string;
+};
+
+export type DonationReports = {
+  monthly: Sheet;
+  fees: Sheet;
+  refunds: Sheet;
+  missingFees: number; // Stripe donations whose fees could not be looked up yet
+};
+
+const METHODS: Donation['method'][] = ['offline', 'stripe', 'paypal', 'bank', 'match'];
+const STATUSES: Donation['status'][] = ['pending', 'confirmed', 'refunded', 'failed'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_RANGE_DAYS = 366 * 3;
+
+const bad = (message: string) => Object.assign(new Error(message), { code: 400 });
+
+const ukParts = new Intl.DateTimeFormat('en-GB', {
+  timeZone: 'Europe/London', year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', hourCycle: 'h23',
+});
+
+/** "2026-03-31 18:05", UK time. */
+export function ukDateTime(ms: number | null | undefined) {
+  if (!ms) return '';
+  const p = Object.fromEntries(ukParts.formatToParts(new Date(ms)).map((x) => [x.type, x.value]));
+  return `${p.year}-${p.month}-${p.day} ${p.hour}:${p.minute}`;
+}
+
+const ukMonth = (ms: number) => ukDateTime(ms).slice(0, 7);
+
+function parseDay(v: unknown) {
+  const s = String(v || '').trim();
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(s)) return null;
+  const ms = Date.parse(`${s}T00:00:00Z`);
+  return Number.isFinite(ms) ? ms : null;
+}
+
+/** Validated filters from a query string. */
+export function parseDonationFilters(q: Record<string, unknown>): DonationFilters {
+  const from = parseDay(q.from);
+  const to = parseDay(q.to);
+  if (from === null || to === null || to < from) throw bad('from/to must be YYYY-MM-DD with from ≤ to');
+  if (to - from > MAX_RANGE_DAYS * DAY_MS) throw bad('Exports are limited to three years at a time');
+
+  const pick = (v: unknown) => String(v || '').trim();
+  const method = pick(q.method);
+  const status = pick(q.status);
+  if (method && !METHODS.includes(method as Donation['method'])) throw bad(`Unknown method "${method}"`);
+  if (status && !STATUSES.includes(status as Donation['status'])) throw bad(`Unknown status "${status}"`);
+  return {
+    from: pick(q.from),
+    to: pick(q.to),
+    campaignId: pick(q.campaignId) || undefined,
+    method: (method || undefined) as DonationFilters['method'],
+    status: (status || undefined) as DonationFilters['status'],
+    currency: pick(q.currency).toUpperCase() || undefined,
+  };
+}
+
+function range(f: DonationFilters) {
+  return { start: parseDay(f.from) as number, end: (parseDay(f.to) as number) + DAY_MS };
+}
+
+/** Donations matching the filters, oldest first. */
+export async function findDonations(f: DonationFilters): Promise<Donation[]> {
+  const { start, end } = range(f);
+  const snap = await adminDb
+    .collection(DONATIONS_COLLECTION)
+    .where('createdAt', '>=', start)
+    .where('createdAt', '<', end)
+    .orderBy('createdAt', 'asc')
+    .get();
+  return snap.docs
+    .map((d) => ({ ...(d.data() as Donation), id: d.id }))
+    .filter(
+      (d) =>
+        (!f.campaignId || d.campaignId === f.campaignId) &&
+        (!f.method || d.method === f.method) &&
+        (!f.status || d.status === f.status) &&
+        (!f.currency || String(d.currency || '').toUpperCase() === f.currency)
+    );
+}
+
+async function campaignsById() {
+  const snap = await adminDb.collection(CAMPAIGNS_COLLECTION).get();
+  return new Map(snap.docs.map((d) => [d.id, { ...(d.data() as Campaign), id: d.id }]));
+}
+
+const num = (v: unknown): Cell => (typeof v === 'number' && Number.isFinite(v) ? v : null);
+
+/** One row per donation, for the accounts. */
+export async function donationExportSheet(f: DonationFilters): Promise<Sheet> {
+  const [donations, campaigns] = await Promise.all([findDonations(f), campaignsById()]);
+  return {
+    name: 'Donations',
+    columns: [
+      'Donation ID', 'Date', 'Confirmed', 'Campaign', 'Campaign ID', 'Fundraiser page', 'Embedded on', 'Method', 'Status',
+      'Amount', 'Fee cover', 'General fund', 'Charged', 'Currency', 'Refunded', 'Campaign amount', 'Campaign currency', 'Counted',
+      'Fee', 'Net', 'Settlement currency', 'Gift Aid', 'Donor', 'Email', 'Anonymous', 'Reference',
+    ],
+    rows: donations.map((d) => [
+      d.id,
+      ukDateTime(d.createdAt),
+      ukDateTime(d.confirmedAt),
+      campaigns.get(d.campaignId)?.title_ar || '',
+      d.campaignId,
+      d.fundraiserId || '',
+      d.embedSite || '',
+      d.method,
+      d.status,
+      num(d.amount),
+      num(lineAmount(d.paymentLines, 'fee_cover')),
+      num(lineAmount(d.paymentLines, 'general_fund')),
+      num(d.paidAmount ?? d.amount),
+      String(d.currency || '').toUpperCase(),
+      num(d.refundedAmount || 0),
+      num(d.campaignAmount),
+      d.campaignCurrency || '',
+      num(d.countedAmount || 0),
+      num(d.feeAmount),
+      num(d.netReceived),
+      d.settlementCurrency || '',
+      d.giftAid ? 'Yes' : 'No',
+      d.isAnonymous ? '' : d.donorName || '',
+      d.donorEmail || '',
+      d.isAnonymous ? 'Yes' : 'No',
+      d.txnRef || '',
+    ]),
+  };
+}
+
+const received = (d: Donation) => d.status === 'confirmed' || d.status === 'refunded';
+
+/** Sorted rows from a keyed accumulator. */
+function sortedRows<T>(m: Map<string, T>, row: (v: T) => Cell[]) {
+  return Array.from(m.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([, v]) => row(v));
+}
+
+function monthlySheet(donations: Donation[], campaigns: Map<string, Campaign>): Sheet {
+  type Acc = { month: string; campaignId: string; currency: string; count: number; gross: number; refunded: number; counted: number };
+  const acc = new Map<string, Acc>();
+  for (const d of donations.filter(received)) {
+    const month = ukMonth(d.confirmedAt || d.createdAt);
+    const key = `${month}|${d.campaignId}`;
+    const a = acc.get(key) || {
+      month, campaignId: d.campaignId, currency: campaigns.get(d.campaignId)?.currency || String(d.campaignCurrency || ''),
+      count: 0, gross: 0, refunded: 0, counted: 0,
+    };
+    const rate = typeof d.fxRate === 'number' ? d.fxRate : 1;
+    a.count += 1;
+    a.gross = roundMoney(a.gross + Number(d.campaignAmount ?? d.amount ?? 0));
+    a.refunded = roundMoney(a.refunded + Number(d.refundedAmount || 0) * rate);
+    a.counted = roundMoney(a.counted + Number(d.countedAmount || 0));
+    acc.set(key, a);
+  }
+  return {
+    name: 'Monthly by campaign',
+    columns: ['Month', 'Campaign', 'Campaign ID', 'Currency', 'Donations', 'Gross', 'Refunded', 'Counted'],
+    rows: sortedRows(acc, (a) => [
+      a.month, campaigns.get(a.campaignId)?.title_ar || '', a.campaignId, a.currency, a.count, a.gross, a.refunded, a.counted,
+    ]),
+  };
+}
+
+/**
+ * Gross, fees and net per month and method. Card payments use the Stripe
+ * balance transaction; bank and offline gifts carry no processor fee; PayPal
+ * fees are not recorded, so their fee and net stay blank. Sponsor matches are
+ * left out: no payment is processed for them.
+ */
+function feesSheet(donations: Donation[]): Sheet {
+  type Acc = { month: string; method: string; currency: string; count: number; gross: number; fees: number | null; net: number | null };
+  const acc = new Map<string, Acc>();
+  for (const d of donations.filter((x) => received(x) && x.method !== 'match')) {
+    const card = d.method === 'stripe' && typeof d.feeAmount === 'number';
+    const currency = card ? String(d.settlementCurrency || d.currency) : String(d.currency || '').toUpperCase();
+    const gross = card ? Number(d.feeAmount) + Number(d.netReceived || 0) : Number(d.paidAmount ?? d.amount ?? 0);
+    const fee = card ? Number(d.feeAmount) : d.method === 'bank' || d.method === 'offline' ? 0 : null;
+    const month = ukMonth(d.confirmedAt || d.createdAt);
+    const key = `${month}|${d.method}|${currency}`;
+    const a = acc.get(key) || { month, method: d.method, currency, count: 0, gross: 0, fees: 0, net: 0 };
+    a.count += 1;
+    a.gross = roundMoney(a.gross + gross);
+    a.fees = fee === null || a.fees === null ? null : roundMoney(a.fees + fee);
+    a.net = a.fees === null || a.net === null ? null : roundMoney(a.net + gross - (fee as number));
+    acc.set(key, a);
+  }
+  return {
+    name: 'Fees and net',
+    columns: ['Month', 'Method', 'Currency', 'Donations', 'Gross', 'Fees', 'Net', 'Fees %'],
+    rows: sortedRows(acc, (a) => [
+      a.month, a.method, a.currency, a.count, a.gross, a.fees, a.net,
+      a.fees !== null && a.gross > 0 ? roundMoney((a.fees / a.gross) * 100) : null,
+    ]),
+  };
+}
+
+/** Refunds and disputes recorded in the range (by when they happened, not when the gift was made). */
+async function refundsSheet(f: DonationFilters, campaigns: Map<string, Campaign>): Promise<Sheet> {
+  const { start, end } = range(f);
+  const snap = await adminDb
+    .collection(AUDIT_COLLECTION)
+    .where('createdAt', '>=', start)
+    .where('createdAt', '<', end)
+    .orderBy('createdAt', 'asc')
+    .get();
+  const events = snap.docs
+    .map((d) => ({ ...(d.data() as DonationAudit), id: d.id }))
+    .filter(
+      (a) =>
+        (!f.campaignId || a.campaignId === f.campaignId) &&
+        // audit ids are `${method}_${eventRef}`, like the donations they belong to
+        (!f.method || a.id.startsWith(`${f.method}_`)) &&
+        (!f.currency || a.currency === f.currency)
+    );
+  return {
+    name: 'Refunds',
+    columns: ['Date', 'Kind', 'Donation ID', 'Campaign', 'Amount', 'Currency', 'Change to total', 'Campaign currency', 'Reason', 'Event'],
+    rows: events.map((a) => [
+      ukDateTime(a.createdAt), a.kind, a.donationId, campaigns.get(a.campaignId)?.title_ar || a.campaignId,
+      num(a.amount), a.currency, num(a.delta), campaigns.get(a.campaignId)?.currency || '', a.reason || '', a.eventRef || '',
+    ]),
+  };
+}
+
+/** The three summary reports; missing Stripe fees are looked up (and stored) first. */
+export async function donationReports(f: DonationFilters): Promise<DonationReports> {
+  const [donations, campaigns] = await Promise.all([findDonations(f), campaignsById()]);
+  const missingFees = await fillStripeFees(donations);
+  return {
+    monthly: monthlySheet(donations, campaigns),
+    fees: feesSheet(donations),
+    refunds: await refundsSheet(f, campaigns),
+    missingFees,
+  };
+}
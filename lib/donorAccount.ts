@@ -0,0 +1,177 @@
+// lib/donorAccount.ts
+// Node-only. What a signed-in donor (/account) may see and manage: their ledger
+// donations, monthly gifts, memberships and fundraiser pages, all matched by
+// email address.
+
+import { adminDb } from '@/lib/firebaseAdmin';
+import { CAMPAIGNS_COLLECTION, DONATIONS_COLLECTION, FUNDRAISERS_COLLECTION, normaliseEmail } from '@/lib/donationLedger';
+import { RECURRING_COLLECTION } from '@/lib/recurringDonations';
+import { listPlans } from '@/lib/membershipPlans';
+import type { Donation, Fundraiser, RecurringDonation } from '@/types/donations';
+import type { Member } from '@/types/membership';
+
+type MemberDoc = {
+  status: 'active' | 'inactive' | 'past_due' | 'canceled';
+  membershipPlan?: 'none' | 'once' | 'monthly';
+  planId?: string | null;
+  dependants?: unknown[];
+  stripeCustomerId?: string;
+  paypalSubscriptionId?: string;
+  currentPeriodEnd?: unknown;
+  lastPaymentAt?: unknown;
+};
+
+/** Address of the signed-in user, or '' when there is no usable session. */
+export function accountEmail(session: unknown) {
+  return normaliseEmail((session as { user?: { email?: string | null } } | null)?.user?.email);
+}
+
+/** Firestore Timestamp / Date / millis → millis. */
+function toMs(v: unknown): number | null {
+  if (!v) return null;
+  if (typeof v === 'number') return v;
+  if (v instanceof Date) return v.getTime();
+  const ts = v as { toMillis?: () => number };
+  return typeof ts.toMillis === 'function' ? ts.toMillis() : null;
+}
+
+export type AccountDonation = Pick<
+  Donation,
+  'id' | 'campaignId' | 'amount' | 'currency' | 'status' | 'method' | 'createdAt' | 'confirmedAt' | 'refundedAmount'
+> & { campaignTitle: string; recurring: boolean; giftAid: boolean };
+
+export type AccountMembership = {
+  id: string;
+  status: MemberDoc['status'];
+  membershipPlan: MemberDoc['membershipPlan'] | null;
+  provider: 'stripe' | 'paypal' | null;
+  stripeCustomerId: string | null;
+  paypalSubscriptionId: string | null;
+  currentPeriodEnd: number | null;
+  lastPaymentAt: number | null;
+  household: boolean; // on a household plan
+  dependants: number;
+};
+
+export type AccountFundraiser = Pick<
+  Fundraiser,
+  'id' | 'campaignId' | 'slug' | 'status' | 'title' | 'goalAmount' | 'totalRaised' | 'donorsCount' | 'createdAt'
+> & { campaignSlug: string; campaignTitle: string; currency: string };
+
+export async function accountDonations(email: string): Promise<AccountDonation[]> {
+  const snap = await adminDb
+    .collection(DONATIONS_COLLECTION)
+    .where('donorEmail', '==', email)
+    .orderBy('createdAt', 'desc')
+    .limit(200)
+    .get();
+  const rows = snap.docs.map((d) => ({ ...(d.data() as Donation), id: d.id }));
+
+  const ids = Array.from(new Set(rows.map((r) => r.campaignId).filter(Boolean)));
+  const campaigns = ids.length
+    ? await adminDb.getAll(...ids.map((id) => adminDb.collection(CAMPAIGNS_COLLECTION).doc(id)))
+    : [];
+  const titles = new Map(campaigns.map((c) => [c.id, String(c.data()?.title_ar || '')]));
+
+  return rows.map((r) => ({
+    id: r.id,
+    campaignId: r.campaignId,
+    campaignTitle: titles.get(r.campaignId) || '',
+    amount: Number(r.amount || 0),
+    currency: r.currency,
+    status: r.status,
+    method: r.method,
+    createdAt: r.createdAt,
+    confirmedAt: r.confirmedAt,
+    refundedAmount: r.refundedAmount,
+    recurring: !!r.recurringId,
+    giftAid: !!r.giftAid,
+  }));
+}
+
+export async function accountRecurring(email: string): Promise<RecurringDonation[]> {
+  const snap = await adminDb.collection(RECURRING_COLLECTION).where('donorEmail', '==', email).get();
+  return snap.docs
+    .map((d) => ({ ...(d.data() as RecurringDonation), id: d.id }))
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/** Fundraiser pages the account started, with their campaign's slug for links. */
+export async function accountFundraisers(email: string): Promise<AccountFundraiser[]> {
+  const snap = await adminDb.collection(FUNDRAISERS_COLLECTION).where('ownerEmail', '==', email).get();
+  const rows = snap.docs.map((d) => ({ ...(d.data() as Fundraiser), id: d.id }));
+
+  const ids = Array.from(new Set(rows.map((r) => r.campaignId)));
+  const campaigns = ids.length
+    ? await adminDb.getAll(...ids.map((id) => adminDb.collection(CAMPAIGNS_COLLECTION).doc(id)))
+    : [];
+  const byId = new Map(campaigns.map((c) => [c.id, c.data() || {}]));
+
+  return rows
+    .map((r) => {
+      const c = byId.get(r.campaignId) || {};
+      return {
+        id: r.id,
+        campaignId: r.campaignId,
+        campaignSlug: String(c.slug || ''),
+        campaignTitle: String(c.title_ar || ''),
+        currency: String(c.currency || 'GBP'),
+        slug: r.slug,
+        status: r.status,
+        title: r.title,
+        goalAmount: Number(r.goalAmount || 0),
+        totalRaised: Number(r.totalRaised || 0),
+        donorsCount: Number(r.donorsCount || 0),
+        createdAt: r.createdAt,
+      };
+    })
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function accountMemberships(email: string): Promise<AccountMembership[]> {
+  const [snap, plans] = await Promise.all([adminDb.collection('members').where('email', '==', email).get(), listPlans()]);
+  const household = new Set(plans.filter((p) => p.household).map((p) => p.id));
+  return snap.docs.map((d) => {
+    const m = d.data() as MemberDoc;
+    return {
+      id: d.id,
+      status: m.status,
+      membershipPlan: m.membershipPlan ?? null,
+      provider: m.stripeCustomerId ? 'stripe' : m.paypalSubscriptionId ? 'paypal' : null,
+      stripeCustomerId: m.stripeCustomerId || null,
+      paypalSubscriptionId: m.paypalSubscriptionId || null,
+      currentPeriodEnd: toMs(m.currentPeriodEnd),
+      lastPaymentAt: toMs(m.lastPaymentAt),
+      household: !!m.planId && household.has(m.planId),
+      dependants: m.dependants?.length || 0,
+    };
+  });
+}
+
+/** Stripe customers the account may open the billing portal for. */
+export async function accountStripeCustomers(email: string) {
+  const [recurring, members] = await Promise.all([accountRecurring(email), accountMemberships(email)]);
+  return new Set(
+    [...recurring.map((r) => r.customerId), ...members.map((m) => m.stripeCustomerId)].filter(
+      (id): id is string => !!id
+    )
+  );
+}
+
+/** The member record owning a PayPal subscription, if it belongs to this account. */
+export async function accountPayPalMember(email: string, subscriptionId: string) {
+  const snap = await adminDb
+    .collection('members')
+    .where('email', '==', email)
+    .where('paypalSubscriptionId', '==', subscriptionId)
+    .limit(1)
+    .get();
+  return snap.empty ? null : snap.docs[0];
+}
+
+/** One of the account's member records by id; someone else's reads as missing. */
+export async function accountMember(email: string, id: string) {
+  const snap = id ? await adminDb.collection('members').doc(id).get() : null;
+  const m = snap?.data() as Member | undefined;
+  return m && normaliseEmail(m.email) === email ? m : null;
+}
@@ -0,0 +1,61 @@
+// lib/donorAuth.ts
+// Node-only. Passwordless sign-in for donors and members: a one-time link is
+// emailed, and the `donor-link` provider in lib/authOptions.ts exchanges its
+// token for a normal next-auth session with role 'donor'.
+//
+// Only a SHA-256 of each token is stored (`donorLoginTokens/{hash}`), so a leaked
+// collection cannot be replayed. Tokens expire after LINK_TTL_MS and work once.
+
+import crypto from 'crypto';
+import sendgrid from '@sendgrid/mail';
+import { adminDb } from '@/lib/firebaseAdmin';
+import { SITE_URL } from '@/lib/stripe';
+
+export const LOGIN_TOKENS_COLLECTION = 'donorLoginTokens';
+export const LINK_TTL_MS = 15 * 60 * 1000;
+
+type LoginToken = { email: string; createdAt: number; expiresAt: number; usedAt: number | null };
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+/** Store a fresh token for `email` and return the sign-in URL. */
+export async function createLoginLink(email: string) {
+  const token = crypto.randomBytes(32).toString('base64url');
+  const now = Date.now();
+  const record: LoginToken = { email, createdAt: now, expiresAt: now + LINK_TTL_MS, usedAt: null };
+  await adminDb.collection(LOGIN_TOKENS_COLLECTION).doc(hashToken(token)).set(record);
+  return `${SITE_URL.replace(/\/$/, '')}/account/verify?token=${encodeURIComponent(token)}`;
+}
+
+/** Redeem a token once. Returns the email it was issued for, or null. */
+export async function consumeLoginToken(token: string) {
+  if (!token) return null;
+  const ref = adminDb.collection(LOGIN_TOKENS_COLLECTION).doc(hashToken(token));
+  return adminDb.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    const t = snap.data() as LoginToken | undefined;
+    if (!t || t.usedAt || t.expiresAt < Date.now()) return null;
+    tx.update(ref, { usedAt: Date.now() });
+    return t.email;
+  });
+}
+
+export async function sendLoginLink(email: string, url: string) {
+  const from = process.env.FROM_EMAIL;
+  if (!process.env.SENDGRID_API_KEY || !from) {
+    if (process.env.NODE_ENV === 'production') throw new Error('Missing SENDGRID_API_KEY / FROM_EMAIL');
+    // Local development: the link is only logged
+    console.warn('[donorAuth] SendGrid not configured; sign-in link for', email, url);
+    return;
+  }
+  sendgrid.setApiKey(process.env.SENDGRID_API_KEY);
+  await sendgrid.send({
+    to: email,
+    from,
+    subject: 'Your sign-in link / رابط تسجيل الدخول',
+    text:
+      `Use this link to open your donor account. It expires in 15 minutes and works once:\n${url}\n\n` +
+      `استخدم هذا الرابط لفتح حسابك. صالح لمدة 15 دقيقة ولمرة واحدة:\n${url}\n\n` +
+      'If you did not ask for it, you can ignore this email.',
+  });
+}
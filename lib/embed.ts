@@ -0,0 +1,54 @@
+// lib/embed.ts
+// Client-safe. The campaign widget partner sites embed (/embed/campaign/[slug]).
+//
+// The snippet from the campaign editor loads public/embed.js, which turns each
+// `data-pcnw-campaign` element into an iframe of the widget and keeps it sized
+// to its content. The widget's donate button opens the campaign page in a new
+// tab with `?embed=<host>`; the host travels with the payment (metadata or the
+// `payments` record) to the ledger as `Donation.embedSite`.
+
+export type EmbedLang = 'ar' | 'en';
+export type EmbedTheme = 'light' | 'dark';
+
+export const EMBED_LANGS: EmbedLang[] = ['ar', 'en'];
+export const EMBED_THEMES: EmbedTheme[] = ['light', 'dark'];
+
+/** postMessage type the widget sends its height with (public/embed.js listens for it). */
+export const EMBED_HEIGHT_MESSAGE = 'pcnw:embed-height';
+
+const HOST_RE = /^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?(?:\.[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?)*$/;
+
+export const isEmbedLang = (v: unknown): v is EmbedLang => EMBED_LANGS.includes(v as EmbedLang);
+export const isEmbedTheme = (v: unknown): v is EmbedTheme => EMBED_THEMES.includes(v as EmbedTheme);
+
+/** Host name of the embedding site ("www.example.org") from a host or URL; '' when it is neither. */
+export function normaliseEmbedSite(v: unknown) {
+  const raw = String(v ?? '').trim().toLowerCase();
+  if (!raw || raw.length > 2048) return '';
+  let host = '';
+  try {
+    host = new URL(raw.includes('://') ? raw : `https://${raw}`).hostname;
+  } catch {
+    return '';
+  }
+  return host.length <= 253 && HOST_RE.test(host) ? host : '';
+}
+
+/** The widget's own address, as embed.js builds it. */
+export function embedUrl(origin: string, slug: string, opts: { lang?: EmbedLang; theme?: EmbedTheme; site?: string } = {}) {
+  const q = new URLSearchParams();
+  if (opts.lang) q.set('lang', opts.lang);
+  if (opts.theme) q.set('theme', opts.theme);
+  if (opts.site) q.set('site', opts.site);
+  const qs = q.toString();
+  return `${origin.replace(/\/$/, '')}/embed/campaign/${encodeURIComponent(slug)}${qs ? `?${qs}` : ''}`;
+}
+
+/** HTML a partner pastes where the widget should appear. */
+export function embedSnippet(origin: string, slug: string, opts: { lang: EmbedLang; theme: EmbedTheme }) {
+  const base = origin.replace(/\/$/, '');
+  return [
+    `<div data-pcnw-campaign="${encodeURIComponent(slug)}" data-lang="${opts.lang}" data-theme="${opts.theme}"></div>`,
+    `<script src="${base}/embed.js" async></script>`,
+  ].join('\n');
+}
@@ -0,0 +1,182 @@
+// lib/fundraisers.ts
+// Node-only. Peer-to-peer fundraiser pages under a campaign.
+//
+// Each page is `fundraisers/{campaignId}__{slug}`, so a slug is unique within
+// its campaign. Supporters create and edit their own page after signing in at
+// /account, and new pages stay `pending` until an admin approves them. Edits
+// to what a live page shows send it back to `pending`.
+// `totalRaised` and `donorsCount` only change in the donation ledger's
+// transaction (lib/donationLedger.ts), like the campaign totals.
+
+import { adminDb } from '@/lib/firebaseAdmin';
+import { CAMPAIGNS_COLLECTION, FUNDRAISERS_COLLECTION } from '@/lib/donationLedger';
+import { roundMoney } from '@/lib/fx';
+import type { Campaign, Fundraiser } from '@/types/donations';
+
+// Used by pages under /donate/[slug]/f/
+const RESERVED_SLUGS = new Set(['start']);
+const SLUG_RE = /^[a-z0-9](?:[a-z0-9-]{1,48}[a-z0-9])$/;
+const MAX_GOAL = 1_000_000;
+const STORAGE_URL = 'https://firebasestorage.googleapis.com/';
+
+export type FundraiserInput = {
+  slug?: unknown;
+  ownerName?: unknown;
+  title?: unknown;
+  story?: unknown;
+  goalAmount?: unknown;
+  photoUrl?: unknown;
+  photoPath?: unknown;
+};
+
+const bad = (message: string) => Object.assign(new Error(message), { code: 400 });
+
+export function fundraiserKey(campaignId: string, slug: string) {
+  return `${campaignId}__${slug}`;
+}
+
+/** The fields an owner may set, validated. */
+function editableFields(input: FundraiserInput) {
+  const ownerName = String(input.ownerName || '').trim();
+  const title = String(input.title || '').trim();
+  const story = String(input.story || '').trim();
+  const goalAmount = roundMoney(Number(input.goalAmount));
+  const photoUrl = String(input.photoUrl || '').trim();
+  if (!ownerName || ownerName.length > 80) throw bad('Your name is required (80 characters at most)');
+  if (!title || title.length > 120) throw bad('A title is required (120 characters at most)');
+  if (!story || story.length > 5000) throw bad('Your story is required (5000 characters at most)');
+  if (!(goalAmount > 0) || goalAmount > MAX_GOAL) throw bad('Goal must be a positive amount');
+  // Only photos uploaded through /api/donations/fundraiser-photo
+  if (photoUrl && !photoUrl.startsWith(STORAGE_URL)) throw bad('Please upload the photo again');
+  return {
+    ownerName,
+    title,
+    story,
+    goalAmount,
+    photoUrl: photoUrl || null,
+    photoPath: photoUrl ? String(input.photoPath || '') || null : null,
+  };
+}
+
+/** Start a fundraiser for `ownerEmail` under an active campaign; returns its id. */
+export async function createFundraiser(campaignId: string, input: FundraiserInput, ownerEmail: string) {
+  const slug = String(input.slug || '').trim().toLowerCase();
+  if (!SLUG_RE.test(slug) || RESERVED_SLUGS.has(slug)) {
+    throw bad('Page address must be 3-50 lower-case letters, numbers or dashes');
+  }
+  const fields = editableFields(input);
+
+  const campaignRef = adminDb.collection(CAMPAIGNS_COLLECTION).doc(campaignId);
+  const ref = adminDb.collection(FUNDRAISERS_COLLECTION).doc(fundraiserKey(campaignId, slug));
+  await adminDb.runTransaction(async (tx) => {
+    const [campSnap, snap] = await Promise.all([tx.get(campaignRef), tx.get(ref)]);
+    const campaign = campSnap.data() as Partial<Campaign> | undefined;
+    if (!campaign) throw Object.assign(new Error('Campaign not found'), { code: 404 });
+    if (campaign.status !== 'active') throw bad('This campaign is not taking new fundraisers');
+    if (snap.exists) throw Object.assign(new Error('That page address is already taken'), { code: 409 });
+
+    const now = Date.now();
+    const f: Omit<Fundraiser, 'id'> = {
+      ...fields,
+      campaignId,
+      slug,
+      status: 'pending',
+      ownerEmail,
+      totalRaised: 0,
+      donorsCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    tx.set(ref, f);
+  });
+  return ref.id;
+}
+
+// Shown on the public page, so a change needs an admin's approval again
+const REVIEWED_FIELDS = ['ownerName', 'title', 'story', 'photoUrl'] as const;
+
+/**
+ * Owner edits; the slug and totals never change here. A live page whose
+ * public text or photo changes goes back to `pending`. Returns the page's status.
+ */
+export async function updateFundraiser(id: string, input: FundraiserInput, ownerEmail: string) {
+  const ref = adminDb.collection(FUNDRAISERS_COLLECTION).doc(id);
+  const fields = editableFields(input);
+  return adminDb.runTransaction(async (tx) => {
+    const f = (await tx.get(ref)).data() as Fundraiser | undefined;
+    if (!f) throw Object.assign(new Error('Fundraiser not found'), { code: 404 });
+    if (f.ownerEmail !== ownerEmail) throw Object.assign(new Error('Only the owner can edit this page'), { code: 403 });
+
+    const changed = REVIEWED_FIELDS.some((k) => (f[k] || null) !== fields[k]);
+    const status: Fundraiser['status'] = f.status === 'active' && changed ? 'pending' : f.status;
+    tx.update(ref, { ...fields, status, updatedAt: Date.now() });
+    return status;
+  });
+}
+
+export async function setFundraiserStatus(id: string, status: Fundraiser['status']) {
+  if (!['pending', 'active', 'hidden'].includes(status)) throw bad('Unknown status');
+  const ref = adminDb.collection(FUNDRAISERS_COLLECTION).doc(id);
+  if (!(await ref.get()).exists) throw Object.assign(new Error('Fundraiser not found'), { code: 404 });
+  await ref.update({ status, updatedAt: Date.now() });
+}
+
+export async function getFundraiserById(id: string) {
+  if (!id) return null;
+  const snap = await adminDb.collection(FUNDRAISERS_COLLECTION).doc(id).get();
+  return snap.exists ? { ...(snap.data() as Fundraiser), id: snap.id } : null;
+}
+
+export function getFundraiser(campaignId: string, slug: string) {
+  return getFundraiserById(fundraiserKey(campaignId, slug));
+}
+
+/** What anyone may see of a page (never the owner's email). */
+export function publicFundraiser(f: Fundraiser) {
+  return {
+    id: f.id,
+    campaignId: f.campaignId,
+    slug: f.slug,
+    ownerName: f.ownerName,
+    title: f.title,
+    story: f.story,
+    photoUrl: f.photoUrl || null,
+    goalAmount: Number(f.goalAmount || 0),
+    totalRaised: Number(f.totalRaised || 0),
+    donorsCount: Number(f.donorsCount || 0),
+  };
+}
+
+export type PublicFundraiser = ReturnType<typeof publicFundraiser>;
+
+/** Live pages of a campaign, biggest totals first (the leaderboard). */
+export async function leaderboard(campaignId: string, limit = 50) {
+  const snap = await adminDb
+    .collection(FUNDRAISERS_COLLECTION)
+    .where('campaignId', '==', campaignId)
+    .where('status', '==', 'active')
+    .orderBy('totalRaised', 'desc')
+    .limit(limit)
+    .get();
+  return snap.docs.map((d) => ({ ...(d.data() as Fundraiser), id: d.id }));
+}
+
+/** Every page of a campaign, newest first (admin review). */
+export async function listFundraisers(campaignId: string) {
+  const snap = await adminDb.collection(FUNDRAISERS_COLLECTION).where('campaignId', '==', campaignId).get();
+  return snap.docs
+    .map((d) => ({ ...(d.data() as Fundraiser), id: d.id }))
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * The fundraiser a new payment should be credited to: only a live page of the
+ * same campaign. Anything else is dropped and the gift goes to the campaign alone.
+ */
+export async function fundraiserForPayment(campaignId: string, fundraiserId: unknown) {
+  const id = String(fundraiserId || '').trim();
+  if (!id) return null;
+  const snap = await adminDb.collection(FUNDRAISERS_COLLECTION).doc(id).get();
+  const f = snap.data() as Fundraiser | undefined;
+  return f && f.campaignId === campaignId && f.status === 'active' ? { ...f, id } : null;
+}
@@ -0,0 +1,78 @@
+// lib/fx.ts
+// Node-only. Exchange-rate tables for counting donations in their campaign's currency.
+//
+// Admins add tables to `fxRates`, each effective from a date. A donation is
+// converted with the latest table in force when it is first recorded; the rate is
+// then kept on the donation so totals never move when later tables are added.
+
+import type { Transaction } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebaseAdmin';
+import type { Campaign, FxRateTable } from '@/types/donations';
+
+export const FX_RATES_COLLECTION = 'fxRates';
+export const FX_BASE = 'GBP';
+export const FX_CURRENCIES: Array<Campaign['currency']> = ['GBP', 'USD', 'EUR'];
+
+export type FxConversion = { rate: number; rateId: string | null };
+
+export const roundMoney = (n: number) => Math.round(n * 100) / 100;
+
+/** Units of `to` per unit of `from` in a table, or null when either is missing. */
+export function crossRate(table: Pick<FxRateTable, 'base' | 'rates'>, from: string, to: string) {
+  const unit = (c: string) => (c === table.base ? 1 : Number(table.rates?.[c]));
+  const f = unit(from.toUpperCase());
+  const t = unit(to.toUpperCase());
+  if (!(f > 0) || !(t > 0)) return null;
+  return t / f;
+}
+
+/** The table in force at `at` (ms). Pass `tx` to read inside a ledger transaction. */
+export async function rateTableAt(at: number, tx?: Transaction): Promise<FxRateTable | null> {
+  const q = adminDb
+    .collection(FX_RATES_COLLECTION)
+    .where('effectiveFrom', '<=', at)
+    .orderBy('effectiveFrom', 'desc')
+    .limit(1);
+  const snap = tx ? await tx.get(q) : await q.get();
+  if (snap.empty) return null;
+  const d = snap.docs[0];
+  return { ...(d.data() as FxRateTable), id: d.id };
+}
+
+/** Rate for a payment in `from` counted in `to` at `at`; null when no table covers the pair. */
+export async function conversionAt(from: string, to: string, at: number, tx?: Transaction): Promise<FxConversion | null> {
+  if (from.toUpperCase() === to.toUpperCase()) return { rate: 1, rateId: null };
+  const table = await rateTableAt(at, tx);
+  const rate = table ? crossRate(table, from, to) : null;
+  return rate && table ? { rate, rateId: table.id } : null;
+}
+
+export async function listRateTables(limit = 50) {
+  const snap = await adminDb.collection(FX_RATES_COLLECTION).orderBy('effectiveFrom', 'desc').limit(limit).get();
+  return snap.docs.map((d) => ({ ...(d.data() as FxRateTable), id: d.id }));
+}
+
+/** Validate and store a new table; returns its id (`YYYY-MM-DD` of the effective date). */
+export async function saveRateTable(input: { effectiveFrom: number; rates: Record<string, unknown>; note?: string }, createdBy?: string) {
+  if (!Number.isFinite(input.effectiveFrom) || input.effectiveFrom <= 0) {
+    throw Object.assign(new Error('effectiveFrom is required'), { code: 400 });
+  }
+  const rates: Record<string, number> = {};
+  for (const c of FX_CURRENCIES) {
+    if (c === FX_BASE) continue;
+    const v = Number(input.rates?.[c]);
+    if (!Number.isFinite(v) || v <= 0) throw Object.assign(new Error(`Rate for ${c} must be a positive number`), { code: 400 });
+    rates[c] = v;
+  }
+  const id = new Date(input.effectiveFrom).toISOString().slice(0, 10);
+  const table: Omit<FxRateTable, 'id'> = {
+    base: FX_BASE,
+    rates,
+    effectiveFrom: input.effectiveFrom,
+    note: String(input.note || '').trim() || undefined,
+    createdBy: createdBy || undefined,
+    createdAt: Date.now(),
+  };
+  await adminDb.collection(FX_RATES_COLLECTION).doc(id).set(table);
+  return id;
+}
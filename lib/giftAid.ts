@@ -0,0 +1,69 @@
+// lib/giftAid.ts
+// Gift Aid declarations. Pure helpers (no server imports) so the donate page
+// validates with the same rules as the API. The HMRC claim schedule is built
+// server-side in lib/giftAidSchedule.ts.
+
+import type { GiftAidDeclaration } from '@/types/donations';
+
+/** Field limits from the HMRC Gift Aid schedule spreadsheet. */
+const LIMITS = { title: 4, firstName: 35, lastName: 35, houseNameOrNumber: 40, addressLine: 120 };
+
+const POSTCODE_RE = /^[A-Z]{1,2}[0-9][0-9A-Z]? [0-9][A-Z]{2}$/;
+
+/** Upper-case and re-space a UK postcode ("m11aa" → "M1 1AA"). */
+export function normalisePostcode(raw: string) {
+  const compact = String(raw || '').toUpperCase().replace(/\s+/g, '');
+  return compact.length > 3 ? `${compact.slice(0, -3)} ${compact.slice(-3)}` : compact;
+}
+
+export function isValidPostcode(raw: string) {
+  return POSTCODE_RE.test(normalisePostcode(raw));
+}
+
+export type GiftAidInput = Partial<Record<keyof GiftAidDeclaration, unknown>>;
+
+/**
+ * Validate a declaration. Returns the normalised declaration, or null when none
+ * was made. Throws (code 400) when a declaration is present but incomplete.
+ */
+export function parseGiftAid(input: GiftAidInput | null | undefined, now = Date.now()): GiftAidDeclaration | null {
+  if (!input) return null;
+  const str = (v: unknown) => String(v ?? '').replace(/\s+/g, ' ').trim();
+  const bad = (msg: string) => Object.assign(new Error(`Gift Aid: ${msg}`), { code: 400 });
+
+  const d: GiftAidDeclaration = {
+    title: str(input.title).slice(0, LIMITS.title) || undefined,
+    firstName: str(input.firstName),
+    lastName: str(input.lastName),
+    houseNameOrNumber: str(input.houseNameOrNumber),
+    addressLine: str(input.addressLine),
+    postcode: normalisePostcode(str(input.postcode)),
+    ukTaxpayer: true,
+    declaredAt: Number(input.declaredAt) || now,
+  };
+
+  if (input.ukTaxpayer !== true) throw bad('UK taxpayer confirmation is required');
+  if (!d.firstName || !d.lastName) throw bad('full name is required');
+  if (!d.houseNameOrNumber || !d.addressLine) throw bad('home address is required');
+  if (!POSTCODE_RE.test(d.postcode)) throw bad('a valid UK postcode is required');
+  for (const k of ['firstName', 'lastName', 'houseNameOrNumber', 'addressLine'] as const) {
+    if (d[k].length > LIMITS[k]) throw bad(`${k} is too long`);
+  }
+  return d;
+}
+
+/* ---------------- Stripe metadata (one key, ≤ 500 chars) ---------------- */
+
+export function giftAidToMetadata(d: GiftAidDeclaration | null | undefined) {
+  return d ? JSON.stringify(d) : '';
+}
+
+export function giftAidFromMetadata(md: Record<string, string> | null | undefined) {
+  const raw = md?.giftAid;
+  if (!raw) return null;
+  try {
+    return parseGiftAid(JSON.parse(raw));
+  } catch {
+    return null;
+  }
+}
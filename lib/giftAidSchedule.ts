@@ -0,0 +1,70 @@
+// lib/giftAidSchedule.ts
+// Node-only. Builds the HMRC Charities Online Gift Aid claim schedule from ledger donations.
+
+import type { Donation, GiftAidDeclaration } from '@/types/donations';
+import { netAmount } from '@/lib/donationLedger';
+
+export const HMRC_SCHEDULE_COLUMNS = [
+  'Title',
+  'First name or initial',
+  'Last name',
+  'House name or number',
+  'Postcode',
+  'Aggregated donations',
+  'Sponsored event',
+  'Donation date',
+  'Amount',
+] as const;
+
+export type ScheduleRow = Record<(typeof HMRC_SCHEDULE_COLUMNS)[number], string>;
+
+/** Amount of a donation that can be claimed: GBP, declared, and net of refunds/disputes. */
+export function claimableAmount(d: Partial<Donation>) {
+  if (!d.giftAid || String(d.currency || '').toUpperCase() !== 'GBP') return 0;
+  if (d.status === 'refunded') return 0;
+  return netAmount(d);
+}
+
+/** DD/MM/YY, as the schedule expects (UK date). */
+function scheduleDate(ms: number) {
+  const p = new Intl.DateTimeFormat('en-GB', {
+    timeZone: 'Europe/London', day: '2-digit', month: '2-digit', year: '2-digit',
+  }).formatToParts(new Date(ms));
+  const get = (t: string) => p.find((x) => x.type === t)?.value || '';
+  return `${get('day')}/${get('month')}/${get('year')}`;
+}
+
+/**
+ * Schedule rows for the given donations. Donations without a declaration
+ * (including anonymous ones), non-GBP, refunded or disputed donations are left out.
+ */
+export function hmrcScheduleRows(donations: Array<Partial<Donation>>): ScheduleRow[] {
+  return donations
+    .filter((d) => claimableAmount(d) > 0)
+    .sort((a, b) => Number(a.confirmedAt || a.createdAt || 0) - Number(b.confirmedAt || b.createdAt || 0))
+    .map((d) => {
+      const g = d.giftAid as GiftAidDeclaration;
+      return {
+        Title: g.title || '',
+        'First name or initial': g.firstName,
+        'Last name': g.lastName,
+        'House name or number': g.houseNameOrNumber,
+        Postcode: g.postcode,
+        'Aggregated donations': '',
+        'Sponsored event': '',
+        'Donation date': scheduleDate(Number(d.confirmedAt || d.createdAt || 0)),
+        Amount: claimableAmount(d).toFixed(2),
+      };
+    });
+}
+
+function csvCell(v: string) {
+  return /[",\r\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v;
+}
+
+/** CSV in the column order of the HMRC schedule template, ready to paste into the ODS. */
+export function scheduleToCsv(rows: ScheduleRow[]) {
+  const lines = [HMRC_SCHEDULE_COLUMNS.join(',')];
+  for (const r of rows) lines.push(HMRC_SCHEDULE_COLUMNS.map((c) => csvCell(r[c])).join(','));
+  return lines.join('\r\n') + '\r\n';
+}
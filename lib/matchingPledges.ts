@@ -0,0 +1,87 @@
+// lib/matchingPledges.ts
+// Client-safe. Sponsor matching pledges on a campaign (`Campaign.matchingPledges`).
+//
+// A pledge matches each confirmed gift at `ratio` (1 = doubled) while its window
+// is open, until `cap` is used up. The donation ledger records every match as a
+// real `method: 'match'` donation and keeps `matchedAmount` up to date; admins
+// only edit the sponsor, ratio, cap and window.
+
+import type { Campaign, MatchingPledge } from '@/types/donations';
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+export type PledgeMatch = { pledge: MatchingPledge; amount: number };
+
+/** What is left of a pledge's cap, in the campaign currency. */
+export function pledgeHeadroom(p: MatchingPledge) {
+  return Math.max(0, round(Number(p.cap || 0) - Number(p.matchedAmount || 0)));
+}
+
+export function isPledgeOpen(p: MatchingPledge, at = Date.now()) {
+  if (!(Number(p.ratio) > 0) || pledgeHeadroom(p) <= 0) return false;
+  if (Number(p.startAt || 0) > at) return false;
+  return !p.endAt || p.endAt > at;
+}
+
+/** Pledges that would match a gift made at `at`. */
+export function openPledges(campaign: Pick<Partial<Campaign>, 'matchingPledges'> | null | undefined, at = Date.now()) {
+  return (campaign?.matchingPledges || []).filter((p) => isPledgeOpen(p, at));
+}
+
+/**
+ * Split the matches for a gift of `amount` (campaign currency) across the open
+ * pledges. Returns the matches and the pledges with their new `matchedAmount`.
+ */
+export function allocateMatches(pledges: MatchingPledge[] | undefined, amount: number, at: number) {
+  const matches: PledgeMatch[] = [];
+  const next = (pledges || []).map((p) => {
+    if (!isPledgeOpen(p, at)) return p;
+    const matched = round(Math.min(amount * Number(p.ratio), pledgeHeadroom(p)));
+    if (matched <= 0) return p;
+    const updated = { ...p, matchedAmount: round(Number(p.matchedAmount || 0) + matched) };
+    matches.push({ pledge: updated, amount: matched });
+    return updated;
+  });
+  return { matches, pledges: next };
+}
+
+/** "doubled" / "tripled" wording for a ratio; null for other ratios. */
+export function matchMultiple(ratio: number): 2 | 3 | null {
+  if (ratio === 1) return 2;
+  if (ratio === 2) return 3;
+  return null;
+}
+
+const toMs = (v: unknown) => {
+  if (v === null || v === undefined || v === '') return null;
+  const n = typeof v === 'number' ? v : Date.parse(String(v));
+  return Number.isFinite(n) ? n : NaN;
+};
+
+/**
+ * Validate pledges sent by the admin editor. Progress (`matchedAmount`) always
+ * comes from the stored pledge with the same id, never from the request.
+ */
+export function normalisePledges(input: unknown, existing: MatchingPledge[] | undefined): MatchingPledge[] {
+  if (!Array.isArray(input)) throw Object.assign(new Error('matchingPledges must be a list'), { code: 400 });
+  const stored = new Map((existing || []).map((p) => [p.id, p]));
+
+  return input.map((raw: Partial<MatchingPledge>) => {
+    const sponsorName = String(raw?.sponsorName || '').trim();
+    const ratio = Number(raw?.ratio);
+    const cap = Number(raw?.cap);
+    const startAt = toMs(raw?.startAt);
+    const endAt = toMs(raw?.endAt);
+    if (!sponsorName) throw Object.assign(new Error('Each pledge needs a sponsor name'), { code: 400 });
+    if (!(ratio > 0) || ratio > 10) throw Object.assign(new Error(`Match ratio for ${sponsorName} must be between 0 and 10`), { code: 400 });
+    if (!(cap > 0)) throw Object.assign(new Error(`Cap for ${sponsorName} must be a positive amount`), { code: 400 });
+    if (!startAt) throw Object.assign(new Error(`Start date for ${sponsorName} is required`), { code: 400 });
+    if (Number.isNaN(endAt) || (endAt !== null && endAt <= startAt)) {
+      throw Object.assign(new Error(`End date for ${sponsorName} must be after the start`), { code: 400 });
+    }
+
+    const id = String(raw?.id || '').trim() || crypto.randomUUID();
+    const matchedAmount = Number(stored.get(id)?.matchedAmount || 0);
+    return { id, sponsorName, ratio, cap: round(cap), startAt, endAt, matchedAmount };
+  });
+}
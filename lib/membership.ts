@@ -0,0 +1,425 @@
+// lib/membership.ts
+// Node-only. Membership applications and the members they become.
+//
+// Applications arrive through /api/join/apply (or the older payment routes)
+// and wait as `pending` until an admin approves or rejects them at
+// /auth/admin/members. Approval creates the member, or reactivates one an
+// earlier rejection switched off; rejection deactivates any member the payment
+// webhooks already created. The applicant is emailed when the application is
+// received and when it is decided.
+//
+// Monthly members are kept current by the payment webhooks, which also record
+// their plan and its tier (lib/membershipPlans). A one-off membership runs for a year from approval and is renewed
+// by an admin; the `membershipExpiry` function (functions/src/membership.ts)
+// sends the renewal reminders and lapses members whose period has ended.
+//
+// On a household plan the primary member lists their dependants (spouse,
+// children), up to the plan's limit; each gets a membership card of their own.
+
+import crypto from 'crypto';
+import sendgrid from '@sendgrid/mail';
+import { z } from 'zod';
+import { adminDb, adminFieldValue } from '@/lib/firebaseAdmin';
+import { getPlan, householdLimit, isMembershipTier } from '@/lib/membershipPlans';
+import type { Sheet } from '@/lib/spreadsheet';
+import type {
+  Dependant,
+  JoinApplication,
+  JoinApplicationStatus,
+  Member,
+  MembershipPlan,
+  MembershipTier,
+  MemberStatus,
+} from '@/types/membership';
+
+export const JOIN_APPLICATIONS_COLLECTION = 'joinApplications';
+export const MEMBERS_COLLECTION = 'members';
+
+const bad = (message: string) => Object.assign(new Error(message), { code: 400 });
+
+/* ---------------- Household ---------------- */
+
+export const DEPENDANT_RELATIONS = ['spouse', 'child'] as const;
+
+/** Hard cap whatever the plan says, to keep member documents small. */
+const MAX_DEPENDANTS = 10;
+
+const dependantSchema = z.object({
+  id: z.string().regex(/^[A-Za-z0-9_-]{1,16}$/).optional(),
+  fullName: z.string().trim().min(2, 'Please enter each household member\'s full name').max(120),
+  relation: z.enum(DEPENDANT_RELATIONS),
+  age: z.coerce.number().int().min(0).max(120).nullable().optional(),
+});
+
+const dependantsSchema = z.array(dependantSchema).max(MAX_DEPENDANTS);
+
+type DependantInput = z.infer<typeof dependantSchema>;
+
+/** Keep the ids of dependants already listed (their cards stay valid); new ones get one. */
+function withDependantIds(list: DependantInput[]): Dependant[] {
+  return list.map((d) => ({
+    id: d.id || crypto.randomBytes(6).toString('base64url'),
+    fullName: d.fullName,
+    relation: d.relation,
+    age: d.age ?? null,
+  }));
+}
+
+export function householdText(list: Dependant[] | null | undefined) {
+  return (list || []).map((d) => `${d.fullName} (${d.relation}${d.age != null ? `, ${d.age}` : ''})`).join('; ');
+}
+
+/** Dependants must fit the plan: none unless it is a household plan, and no more than it covers. */
+export async function checkHousehold(planId: string | null | undefined, count: number) {
+  if (!count) return;
+  const limit = await householdLimit(planId);
+  if (!limit) throw bad('Household members can only be added on a household plan');
+  if (count > limit) throw bad(`This plan covers up to ${limit} household members`);
+}
+
+/** Replace a member's dependants (`{ dependants }`); returns the saved list. */
+export async function saveHousehold(id: string, member: Member, body: unknown) {
+  const parsed = dependantsSchema.safeParse((body as { dependants?: unknown } | null)?.dependants ?? []);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw bad(issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message);
+  }
+  await checkHousehold(member.planId, parsed.data.length);
+
+  const current = new Set((member.dependants || []).map((d) => d.id));
+  // An id the member did not already have is not theirs to reuse
+  const dependants = withDependantIds(parsed.data.map((d) => (d.id && current.has(d.id) ? d : { ...d, id: undefined })));
+  await adminDb.collection(MEMBERS_COLLECTION).doc(id).set({ dependants, updatedAt: new Date() }, { merge: true });
+  return dependants;
+}
+
+/* ---------------- Applications ---------------- */
+
+const optionalText = (max: number) => z.string().trim().max(max).optional();
+
+export const applicationSchema = z.object({
+  fullName: z.string().trim().min(2, 'Please enter your full name').max(120),
+  email: z.string().trim().toLowerCase().email('Please enter a valid email address').max(200),
+  phone: optionalText(40),
+  city: optionalText(80),
+  message: optionalText(2000),
+  membershipPlan: z.enum(['none', 'once', 'monthly']).default('none'),
+  dependants: dependantsSchema.optional(),
+  consentToContact: z.boolean().optional(),
+});
+
+export type ApplicationInput = z.infer<typeof applicationSchema>;
+
+/** Validated application fields; anything else in the body is dropped. */
+export function parseApplication(body: unknown): ApplicationInput {
+  const parsed = applicationSchema.safeParse(body);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw bad(issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message);
+  }
+  return parsed.data;
+}
+
+export async function createApplication(input: ApplicationInput, extra: Partial<JoinApplication> = {}) {
+  const ref = adminDb.collection(JOIN_APPLICATIONS_COLLECTION).doc();
+  const now = adminFieldValue.serverTimestamp();
+  await ref.set({
+    id: ref.id,
+    fullName: input.fullName,
+    email: input.email,
+    phone: input.phone || null,
+    city: input.city || null,
+    message: input.message || null,
+    membershipPlan: input.membershipPlan,
+    dependants: withDependantIds(input.dependants || []),
+    consentToContact: !!input.consentToContact,
+    ...extra,
+    status: 'pending',
+    createdAt: now,
+    updatedAt: now,
+  });
+  return ref.id;
+}
+
+/** Firestore timestamps, Dates and ms alike, as ms. */
+export function toMillis(v: unknown): number | null {
+  if (!v) return null;
+  if (typeof v === 'number') return v;
+  if (v instanceof Date) return v.getTime();
+  const ts = v as { toMillis?: () => number };
+  return typeof ts.toMillis === 'function' ? ts.toMillis() : null;
+}
+
+const TIME_FIELDS = ['createdAt', 'updatedAt', 'reviewedAt', 'renewedAt', 'lastPaymentAt', 'currentPeriodEnd'] as const;
+
+/** A stored document with its times as ms, for the admin screens. */
+function serialise<T>(id: string, data: Record<string, unknown>) {
+  const out: Record<string, unknown> = { ...data, id };
+  for (const k of TIME_FIELDS) if (k in out) out[k] = toMillis(out[k]);
+  return out as T;
+}
+
+const PENDING: JoinApplicationStatus[] = ['pending', 'submitted'];
+
+/** Newest first; `pending` also finds the `submitted` applications of the older payment routes. */
+export async function listApplications(status?: string, limit = 200) {
+  let q: FirebaseFirestore.Query = adminDb.collection(JOIN_APPLICATIONS_COLLECTION);
+  if (status === 'pending') q = q.where('status', 'in', PENDING);
+  else if (status) q = q.where('status', '==', status);
+  const snap = await q.orderBy('createdAt', 'desc').limit(limit).get();
+  return snap.docs.map((d) => serialise<JoinApplication & { id: string }>(d.id, d.data()));
+}
+
+/* ---------------- Members ---------------- */
+
+export async function findMember(field: 'applicationId' | 'stripeCustomerId', value: string) {
+  const snap = await adminDb.collection(MEMBERS_COLLECTION).where(field, '==', value).limit(1).get();
+  return snap.empty ? null : snap.docs[0];
+}
+
+/** Create the member for an application on first sight, otherwise merge `data` into it. */
+export async function upsertMemberByApp(applicationId: string, data: Record<string, unknown>) {
+  const existing = await findMember('applicationId', applicationId);
+  if (existing) {
+    await existing.ref.set({ ...data, updatedAt: new Date() }, { merge: true });
+    return existing.id;
+  }
+
+  const app = (await adminDb.collection(JOIN_APPLICATIONS_COLLECTION).doc(applicationId).get()).data() || {};
+  const plan = await getPlan(app.planId || '');
+  const ref = await adminDb.collection(MEMBERS_COLLECTION).add({
+    applicationId,
+    fullName: app.fullName ?? null,
+    email: app.email ?? null,
+    phone: app.phone ?? null,
+    city: app.city ?? null,
+    membershipPlan: app.membershipPlan ?? null,
+    planId: plan?.id ?? null,
+    tier: plan?.tier ?? null,
+    dependants: plan?.household ? (app.dependants || []).slice(0, plan.maxDependants) : [],
+    status: 'active',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...data,
+  });
+  return ref.id;
+}
+
+/** Monthly members renew through a Stripe or PayPal subscription; the rest hold one-off terms. */
+export function hasSubscription(m: Pick<Member, 'membershipPlan' | 'stripeSubscriptionId' | 'paypalSubscriptionId'>) {
+  return m.membershipPlan === 'monthly' || !!m.stripeSubscriptionId || !!m.paypalSubscriptionId;
+}
+
+/** A one-off membership runs for a year. */
+export function oneOffTermEnd(from: Date) {
+  const end = new Date(from);
+  end.setFullYear(end.getFullYear() + 1);
+  return end;
+}
+
+export type MemberFilters = {
+  status?: MemberStatus;
+  tier?: MembershipTier;
+  plan?: MembershipPlan;
+  expiringWithin?: number; // days: paid up, but only until then
+  q?: string; // name, email, phone or city
+};
+
+const MEMBER_STATUSES: MemberStatus[] = ['active', 'inactive', 'past_due', 'canceled'];
+const MEMBER_PLANS: MembershipPlan[] = ['none', 'once', 'monthly'];
+
+/** Directory filters from a query string; unknown values are refused. */
+export function parseMemberFilters(query: Record<string, string | string[] | undefined>): MemberFilters {
+  const one = (k: string) => String((Array.isArray(query[k]) ? query[k]?.[0] : query[k]) || '').trim();
+  const filters: MemberFilters = {};
+
+  const status = one('status');
+  if (status && !MEMBER_STATUSES.includes(status as MemberStatus)) throw bad('Invalid status');
+  if (status) filters.status = status as MemberStatus;
+  const tier = one('tier');
+  if (tier && !isMembershipTier(tier)) throw bad('Invalid tier');
+  if (tier) filters.tier = tier as MembershipTier;
+  const plan = one('plan');
+  if (plan && !MEMBER_PLANS.includes(plan as MembershipPlan)) throw bad('Invalid plan');
+  if (plan) filters.plan = plan as MembershipPlan;
+  const within = one('expiring');
+  if (within) {
+    const days = Number(within);
+    if (!Number.isInteger(days) || days < 1 || days > 366) throw bad('expiring must be a number of days (1-366)');
+    filters.expiringWithin = days;
+  }
+  const q = one('q');
+  if (q) filters.q = q.slice(0, 100);
+  return filters;
+}
+
+/**
+ * The member directory, newest first. Only the status is filtered in
+ * Firestore; the directory is small enough for the rest to be applied here.
+ */
+export async function listMembers(filters: MemberFilters = {}, limit = 2000) {
+  let q: FirebaseFirestore.Query = adminDb.collection(MEMBERS_COLLECTION);
+  if (filters.status) q = q.where('status', '==', filters.status);
+  const snap = await q.orderBy('createdAt', 'desc').limit(limit).get();
+  const members = snap.docs.map((d) => serialise<Member & { id: string }>(d.id, d.data()));
+
+  const now = Date.now();
+  const until = filters.expiringWithin ? now + filters.expiringWithin * 24 * 60 * 60 * 1000 : 0;
+  const text = filters.q?.toLowerCase() || '';
+  return members.filter((m) => {
+    if (filters.tier && m.tier !== filters.tier) return false;
+    if (filters.plan && (m.membershipPlan || 'none') !== filters.plan) return false;
+    if (until) {
+      const end = toMillis(m.currentPeriodEnd);
+      if (!end || end < now || end > until) return false;
+    }
+    const names = (m.dependants || []).map((d) => d.fullName);
+    return !text || [m.fullName, m.email, m.phone, m.city, ...names].some((f) => String(f || '').toLowerCase().includes(text));
+  });
+}
+
+const day = (ms: number | null) => (ms ? new Date(ms).toISOString().slice(0, 10) : '');
+
+/** The directory as a spreadsheet, for the admin CSV export. */
+export function memberDirectorySheet(members: Array<Member & { id: string }>): Sheet {
+  return {
+    name: 'Members',
+    columns: ['Name', 'Email', 'Phone', 'City', 'Plan', 'Tier', 'Household', 'Status', 'Joined', 'Last payment', 'Paid until', 'Member ID'],
+    rows: members.map((m) => [
+      m.fullName,
+      m.email,
+      m.phone,
+      m.city,
+      m.membershipPlan,
+      m.tier,
+      householdText(m.dependants),
+      m.status,
+      day(toMillis(m.createdAt)),
+      day(toMillis(m.lastPaymentAt)),
+      day(toMillis(m.currentPeriodEnd)),
+      m.id,
+    ]),
+  };
+}
+
+/**
+ * Record a one-off renewal: another year from the end of the current term (or
+ * from today if it has lapsed), and the member is active again. Subscriptions
+ * renew through their payments instead.
+ */
+export async function renewMember(id: string, reviewer: string | null) {
+  const ref = adminDb.collection(MEMBERS_COLLECTION).doc(id);
+  const snap = await ref.get();
+  if (!snap.exists) throw Object.assign(new Error('Member not found'), { code: 404 });
+  const member = snap.data() as Member;
+  if (hasSubscription(member)) throw bad('Monthly memberships renew through their subscription');
+
+  const end = toMillis(member.currentPeriodEnd);
+  const now = new Date();
+  await ref.set(
+    {
+      membershipPlan: 'once',
+      status: 'active',
+      currentPeriodEnd: oneOffTermEnd(end && end > now.getTime() ? new Date(end) : now),
+      renewedAt: now,
+      renewedBy: reviewer,
+      updatedAt: now,
+    },
+    { merge: true }
+  );
+  return serialise<Member & { id: string }>(id, (await ref.get()).data() || {});
+}
+
+/* ---------------- Review ---------------- */
+
+export type ReviewDecision = 'approved' | 'rejected';
+
+/**
+ * Approve or reject an application (a decision can be changed later). The note
+ * is kept on the application and included in the email to the applicant.
+ */
+export async function reviewApplication(id: string, decision: ReviewDecision, note: unknown, reviewer: string | null) {
+  if (decision !== 'approved' && decision !== 'rejected') throw bad('decision must be approved or rejected');
+  const ref = adminDb.collection(JOIN_APPLICATIONS_COLLECTION).doc(id);
+  const snap = await ref.get();
+  if (!snap.exists) throw Object.assign(new Error('Application not found'), { code: 404 });
+
+  const reviewNote = String(note ?? '').trim().slice(0, 2000) || null;
+  const existing = await findMember('applicationId', id);
+  let memberId = existing?.id || null;
+  const memberStatus = (existing?.data().status || null) as MemberStatus | null;
+
+  if (decision === 'approved') {
+    // A one-off membership's year starts now, unless an earlier term is still running
+    const end = toMillis(existing?.data().currentPeriodEnd);
+    const term = snap.data()?.membershipPlan === 'once' && !(end && end > Date.now()) ? { currentPeriodEnd: oneOffTermEnd(new Date()) } : {};
+    if (!existing) memberId = await upsertMemberByApp(id, { status: 'active', ...term });
+    // Leave subscription states (past_due, canceled) to the payment webhooks
+    else if (memberStatus === 'inactive') await existing.ref.set({ status: 'active', ...term, updatedAt: new Date() }, { merge: true });
+    else if (!end && 'currentPeriodEnd' in term) await existing.ref.set({ ...term, updatedAt: new Date() }, { merge: true });
+  } else if (existing && memberStatus !== 'inactive') {
+    await existing.ref.set({ status: 'inactive', updatedAt: new Date() }, { merge: true });
+  }
+
+  await ref.set(
+    {
+      status: decision,
+      reviewNote,
+      reviewedAt: adminFieldValue.serverTimestamp(),
+      reviewedBy: reviewer,
+      memberId,
+      updatedAt: adminFieldValue.serverTimestamp(),
+    },
+    { merge: true }
+  );
+  const app = (await ref.get()).data() || {};
+  return serialise<JoinApplication & { id: string }>(id, app);
+}
+
+/* ---------------- Emails ---------------- */
+
+type ApplicationEmail = 'received' | 'approved' | 'rejected';
+
+const EMAIL_SUBJECTS: Record<ApplicationEmail, string> = {
+  received: 'We received your membership application / استلمنا طلب العضوية',
+  approved: 'Your membership is approved / تمت الموافقة على عضويتك',
+  rejected: 'Your membership application / بخصوص طلب العضوية',
+};
+
+function emailText(kind: ApplicationEmail, name: string, note: string | null) {
+  const body: Record<ApplicationEmail, [string, string]> = {
+    received: [
+      'Thank you for applying to join the Palestinian Community Association North West. We will review your application and write to you once it is decided.',
+      'شكرًا لتقديمك طلب الانضمام إلى جمعية الجالية الفلسطينية شمال الغرب. سنراجع طلبك ونراسلك فور البتّ فيه.',
+    ],
+    approved: [
+      'Your membership application has been approved. Welcome to the association!',
+      'تمت الموافقة على طلب عضويتك. أهلًا بك في الجمعية!',
+    ],
+    rejected: [
+      'We are sorry, but we cannot accept your membership application at this time.',
+      'نأسف، لا يمكننا قبول طلب عضويتك في الوقت الحالي.',
+    ],
+  };
+  const [en, ar] = body[kind];
+  const extra = note ? `\n\n${note}` : '';
+  return `Dear ${name},\n\n${en}${extra}\n\n—\n\nعزيزنا ${name}،\n\n${ar}${extra}\n`;
+}
+
+/** Tell the applicant where their application stands. False when email is not set up (development). */
+export async function sendApplicationEmail(app: Pick<JoinApplication, 'email' | 'fullName' | 'reviewNote'>, kind: ApplicationEmail) {
+  const from = process.env.FROM_EMAIL;
+  if (!process.env.SENDGRID_API_KEY || !from) {
+    if (process.env.NODE_ENV === 'production') throw new Error('Missing SENDGRID_API_KEY / FROM_EMAIL');
+    console.warn('[membership] SendGrid not configured; not emailing', app.email, kind);
+    return false;
+  }
+  sendgrid.setApiKey(process.env.SENDGRID_API_KEY);
+  await sendgrid.send({
+    to: app.email,
+    from,
+    subject: EMAIL_SUBJECTS[kind],
+    text: emailText(kind, app.fullName, kind === 'received' ? null : app.reviewNote || null),
+  });
+  return true;
+}
@@ -0,0 +1,275 @@
+// lib/membershipCard.ts
+// Node-only. Digital membership cards: the card at /account/membership-card, an
+// Apple Wallet pass, and the public check at /verify/[token] their QR codes open.
+//
+// A card token is the member id plus an HMAC of it (MEMBERSHIP_CARD_SECRET), so
+// ids cannot be guessed from outside. Verification reads the member afresh and
+// shows only the name, tier and whether the membership is current; changing the
+// secret voids every card issued. The Wallet pass is offered only when the
+// APPLE_PASS_* certificates are configured.
+//
+// Each dependant on a household membership has a card of their own, signed for
+// `memberId~dependantId` and valid while the primary membership is; taking the
+// dependant off the household voids it.
+
+import crypto from 'crypto';
+import { deflateSync } from 'zlib';
+import forge from 'node-forge';
+import QRCode from 'qrcode';
+import { adminDb } from '@/lib/firebaseAdmin';
+import { MEMBERS_COLLECTION, hasSubscription, toMillis } from '@/lib/membership';
+import { SITE_URL } from '@/lib/stripe';
+import { crc32, zip } from '@/lib/zip';
+import type { Dependant, DependantRelation, Member, MemberStatus, MembershipPlan, MembershipTier } from '@/types/membership';
+
+export const PKPASS_TYPE = 'application/vnd.apple.pkpass';
+
+const ORGANIZATION = 'Palestinian Community Association North West';
+
+/* ---------------- Tokens ---------------- */
+
+const DEV_SECRET = 'dev-membership-card-secret';
+
+function cardSecret() {
+  const secret = process.env.MEMBERSHIP_CARD_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === 'production') throw new Error('Missing MEMBERSHIP_CARD_SECRET');
+  console.warn('[membershipCard] MEMBERSHIP_CARD_SECRET not set; using the development secret');
+  return DEV_SECRET;
+}
+
+/** Who a card is for: the member, or one of their dependants. */
+const holder = (memberId: string, dependantId?: string | null) => (dependantId ? `${memberId}~${dependantId}` : memberId);
+
+const signature = (subject: string) =>
+  crypto.createHmac('sha256', cardSecret()).update(`member-card:${subject}`).digest('base64url').slice(0, 22);
+
+export const cardToken = (memberId: string, dependantId?: string | null) => {
+  const subject = holder(memberId, dependantId);
+  return `${subject}.${signature(subject)}`;
+};
+
+export const verifyUrl = (memberId: string, dependantId?: string | null) =>
+  `${SITE_URL.replace(/\/$/, '')}/verify/${encodeURIComponent(cardToken(memberId, dependantId))}`;
+
+/** The member (and dependant) a token was signed for, or null if it was not signed by us. */
+export function holderFromToken(token: string) {
+  const m = /^([A-Za-z0-9_-]{1,64})(?:~([A-Za-z0-9_-]{1,16}))?\.([A-Za-z0-9_-]{22})$/.exec(String(token || '').trim());
+  if (!m) return null;
+  const expected = Buffer.from(signature(holder(m[1], m[2])));
+  const given = Buffer.from(m[3]);
+  if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) return null;
+  return { memberId: m[1], dependantId: m[2] || null };
+}
+
+/* ---------------- Validity ---------------- */
+
+/**
+ * An active member holds a current card. A one-off term also has to be
+ * running; subscriptions are lapsed by the expiry schedule when a renewal fails.
+ */
+export function cardIsValid(m: Member, now = Date.now()) {
+  if (m.status !== 'active') return false;
+  const end = toMillis(m.currentPeriodEnd);
+  return hasSubscription(m) || !end || end > now;
+}
+
+/**
+ * What /verify/[token] may show: nothing beyond the name, tier and validity,
+ * and for a household member how they are related to the primary member.
+ */
+export type CardVerification = {
+  valid: boolean;
+  fullName: string;
+  tier: MembershipTier | null;
+  validUntil: number | null;
+  relation: DependantRelation | null;
+};
+
+const dependantOf = (m: Member, dependantId: string) => (m.dependants || []).find((d) => d.id === dependantId) || null;
+
+export async function verifyCard(token: string): Promise<CardVerification | null> {
+  const h = holderFromToken(token);
+  if (!h) return null;
+  const snap = await adminDb.collection(MEMBERS_COLLECTION).doc(h.memberId).get();
+  const m = snap.data() as Member | undefined;
+  if (!m) return null;
+  const dependant = h.dependantId ? dependantOf(m, h.dependantId) : null;
+  if (h.dependantId && !dependant) return null;
+  return {
+    valid: cardIsValid(m),
+    fullName: dependant?.fullName || m.fullName || '',
+    tier: m.tier || null,
+    validUntil: toMillis(m.currentPeriodEnd),
+    relation: dependant?.relation || null,
+  };
+}
+
+/* ---------------- Card ---------------- */
+
+export type MembershipCard = {
+  id: string; // the (primary) member
+  dependantId: string | null;
+  relation: DependantRelation | null;
+  memberNo: string;
+  fullName: string;
+  tier: MembershipTier | null;
+  membershipPlan: MembershipPlan | null;
+  status: MemberStatus;
+  validUntil: number | null;
+  verifyUrl: string;
+  qrSvg: string;
+  walletPass: boolean;
+};
+
+/** Short number printed on the card; household members share the primary's with a suffix. */
+const memberNo = (id: string, dependantId?: string | null) =>
+  id.slice(0, 8).toUpperCase() + (dependantId ? `-${dependantId.slice(0, 3).toUpperCase()}` : '');
+
+/**
+ * The card for an active member, or for one of their dependants; null if the
+ * membership is not current.
+ */
+export async function membershipCard(id: string, m: Member, dependant: Dependant | null = null): Promise<MembershipCard | null> {
+  if (!cardIsValid(m)) return null;
+  const url = verifyUrl(id, dependant?.id);
+  return {
+    id,
+    dependantId: dependant?.id || null,
+    relation: dependant?.relation || null,
+    memberNo: memberNo(id, dependant?.id),
+    fullName: dependant?.fullName || m.fullName || '',
+    tier: m.tier || null,
+    membershipPlan: m.membershipPlan ?? null,
+    status: m.status,
+    validUntil: toMillis(m.currentPeriodEnd),
+    verifyUrl: url,
+    qrSvg: await QRCode.toString(url, { type: 'svg', margin: 1, errorCorrectionLevel: 'M' }),
+    walletPass: walletPassConfigured(),
+  };
+}
+
+/** Cards for everyone on a household membership, the primary member first. */
+export async function householdCards(id: string, m: Member) {
+  const cards = await Promise.all([null, ...(m.dependants || [])].map((d) => membershipCard(id, m, d)));
+  return cards.filter((c): c is MembershipCard => !!c);
+}
+
+/** One card by holder: the member, or (`dependantId`) one of their dependants. */
+export async function cardFor(id: string, m: Member, dependantId?: string | null) {
+  if (!dependantId) return membershipCard(id, m);
+  const dependant = dependantOf(m, dependantId);
+  return dependant ? membershipCard(id, m, dependant) : null;
+}
+
+/* ---------------- Apple Wallet pass ---------------- */
+
+const pem = (v: string | undefined) => String(v || '').replace(/\\n/g, '\n').trim();
+
+export const walletPassConfigured = () =>
+  !!process.env.APPLE_PASS_TYPE_ID &&
+  !!process.env.APPLE_TEAM_ID &&
+  !!process.env.APPLE_PASS_CERT &&
+  !!process.env.APPLE_PASS_KEY &&
+  !!process.env.APPLE_WWDR_CERT;
+
+/** A single-colour PNG, for the pass icons (Wallet will not open a pass without one). */
+function solidPng(size: number, [r, g, b]: [number, number, number]) {
+  const chunk = (type: string, data: Buffer) => {
+    const len = Buffer.alloc(4);
+    len.writeUInt32BE(data.length);
+    const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(crc32(body));
+    return Buffer.concat([len, body, crc]);
+  };
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(size, 0);
+  header.writeUInt32BE(size, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // truecolour
+  const row = Buffer.concat([Buffer.from([0]), Buffer.from(Array.from({ length: size }, () => [r, g, b]).flat())]);
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(Buffer.concat(Array.from({ length: size }, () => row)))),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+const RELATION_LABEL: Record<DependantRelation, string> = { spouse: 'Spouse', child: 'Child' };
+
+const GREEN: [number, number, number] = [0, 151, 57]; // palestine-green
+
+const dateLabel = (ms: number) =>
+  new Date(ms).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'Europe/London' });
+
+/** Detached PKCS#7 signature of the manifest, as Wallet requires. */
+function signManifest(manifest: string) {
+  const cert = forge.pki.certificateFromPem(pem(process.env.APPLE_PASS_CERT));
+  const wwdr = forge.pki.certificateFromPem(pem(process.env.APPLE_WWDR_CERT));
+  const key = process.env.APPLE_PASS_KEY_PASSPHRASE
+    ? forge.pki.decryptRsaPrivateKey(pem(process.env.APPLE_PASS_KEY), process.env.APPLE_PASS_KEY_PASSPHRASE)
+    : forge.pki.privateKeyFromPem(pem(process.env.APPLE_PASS_KEY));
+  if (!key) throw new Error('APPLE_PASS_KEY could not be read');
+
+  const p7 = forge.pkcs7.createSignedData();
+  p7.content = forge.util.createBuffer(manifest, 'utf8');
+  p7.addCertificate(cert);
+  p7.addCertificate(wwdr);
+  p7.addSigner({
+    key,
+    certificate: cert,
+    digestAlgorithm: forge.pki.oids.sha256,
+    authenticatedAttributes: [
+      { type: forge.pki.oids.contentType, value: forge.pki.oids.data },
+      { type: forge.pki.oids.messageDigest },
+      { type: forge.pki.oids.signingTime }, // filled in by forge
+    ],
+  });
+  p7.sign({ detached: true });
+  return Buffer.from(forge.asn1.toDer(p7.toAsn1()).getBytes(), 'binary');
+}
+
+/** The card as an Apple Wallet pass (.pkpass): a signed zip of pass.json and its images. */
+export function membershipPass(card: MembershipCard) {
+  if (!walletPassConfigured()) throw Object.assign(new Error('Wallet passes are not set up'), { code: 503 });
+
+  const tier = card.tier ? card.tier[0].toUpperCase() + card.tier.slice(1) : card.membershipPlan === 'once' ? 'One-off' : 'Member';
+  const pass = {
+    formatVersion: 1,
+    passTypeIdentifier: process.env.APPLE_PASS_TYPE_ID,
+    teamIdentifier: process.env.APPLE_TEAM_ID,
+    serialNumber: holder(card.id, card.dependantId),
+    organizationName: ORGANIZATION,
+    description: 'Membership card',
+    logoText: 'PCNW',
+    backgroundColor: `rgb(${GREEN.join(',')})`,
+    foregroundColor: 'rgb(255,255,255)',
+    labelColor: 'rgb(220,252,231)',
+    ...(card.validUntil ? { expirationDate: new Date(card.validUntil).toISOString() } : {}),
+    barcodes: [{ format: 'PKBarcodeFormatQR', message: card.verifyUrl, messageEncoding: 'iso-8859-1', altText: card.memberNo }],
+    generic: {
+      primaryFields: [{ key: 'name', label: 'MEMBER', value: card.fullName }],
+      secondaryFields: [
+        { key: 'tier', label: 'TIER', value: tier },
+        { key: 'valid', label: 'VALID UNTIL', value: card.validUntil ? dateLabel(card.validUntil) : 'Ongoing' },
+      ],
+      auxiliaryFields: [
+        { key: 'number', label: 'No.', value: card.memberNo },
+        ...(card.relation ? [{ key: 'household', label: 'HOUSEHOLD', value: RELATION_LABEL[card.relation] }] : []),
+      ],
+      backFields: [{ key: 'verify', label: 'Verify this card', value: card.verifyUrl }],
+    },
+  };
+
+  const files: Array<[string, Buffer]> = [
+    ['pass.json', Buffer.from(JSON.stringify(pass), 'utf8')],
+    ['icon.png', solidPng(29, GREEN)],
+    ['icon@2x.png', solidPng(58, GREEN)],
+  ];
+  const manifest = JSON.stringify(
+    Object.fromEntries(files.map(([name, data]) => [name, crypto.createHash('sha1').update(data).digest('hex')]))
+  );
+  return zip([...files, ['manifest.json', manifest], ['signature', signManifest(manifest)]]);
+}
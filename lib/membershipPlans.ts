@@ -0,0 +1,277 @@
+// lib/membershipPlans.ts
+// Node-only. The membership plan catalogue (`membershipPlans`), managed at
+// /auth/admin/membership-plans and offered on the join form (PaymentWidget).
+//
+// Saving a plan syncs it to the providers: a Stripe Product with one active
+// Price (prices cannot change, so a new amount, currency or interval gets a new
+// Price and the old one is archived), and for subscriptions a PayPal catalog
+// product and billing plan, whose price is updated in place. A failed sync is
+// kept on the plan (`syncError`) and can be retried without editing it.
+
+import { z } from 'zod';
+import { adminDb } from '@/lib/firebaseAdmin';
+import { majorToMinor, stripe } from '@/lib/stripe';
+import {
+  createBillingPlan,
+  createCatalogProduct,
+  setBillingPlanActive,
+  updateBillingPlanPrice,
+} from '@/lib/paypal';
+import type { CatalogPlan, MembershipTier } from '@/types/membership';
+
+export const MEMBERSHIP_PLANS_COLLECTION = 'membershipPlans';
+
+const bad = (message: string) => Object.assign(new Error(message), { code: 400 });
+
+export const MEMBERSHIP_TIERS: MembershipTier[] = ['silver', 'gold', 'diamond'];
+
+export const isMembershipTier = (v: unknown): v is MembershipTier => MEMBERSHIP_TIERS.includes(v as MembershipTier);
+
+/* ---------------- Validation ---------------- */
+
+const benefits = z.array(z.string().trim().min(1).max(200)).max(12).default([]);
+
+export const planSchema = z.object({
+  id: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .regex(/^[a-z0-9][a-z0-9-]{1,39}$/, 'Use 2-40 lowercase letters, digits or dashes'),
+  name_ar: z.string().trim().min(1, 'Arabic name is required').max(80),
+  name_en: z.string().trim().min(1, 'English name is required').max(80),
+  benefits_ar: benefits,
+  benefits_en: benefits,
+  interval: z.enum(['month', 'year', 'once']),
+  currency: z.enum(['GBP', 'USD', 'EUR']).default('GBP'),
+  amount: z.coerce.number().positive('Amount must be more than 0').max(10000),
+  tier: z.enum(['silver', 'gold', 'diamond']).nullable().default(null),
+  household: z.boolean().default(false),
+  maxDependants: z.coerce.number().int().min(0).max(10).default(0),
+  active: z.boolean().default(true),
+  sortOrder: z.coerce.number().int().min(0).max(999).default(0),
+});
+
+export type PlanInput = z.infer<typeof planSchema>;
+
+export function parsePlan(body: unknown): PlanInput {
+  const parsed = planSchema.safeParse(body);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw bad(issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message);
+  }
+  const plan = parsed.data;
+  if (plan.household && plan.maxDependants < 1) throw bad('A household plan must allow at least one dependant');
+  return { ...plan, amount: Math.round(plan.amount * 100) / 100, maxDependants: plan.household ? plan.maxDependants : 0 };
+}
+
+/* ---------------- Reading ---------------- */
+
+/** The catalogue in display order; `activeOnly` for what the join form offers. */
+export async function listPlans(activeOnly = false) {
+  const snap = await adminDb.collection(MEMBERSHIP_PLANS_COLLECTION).get();
+  return snap.docs
+    .map((d) => ({ ...(d.data() as CatalogPlan), id: d.id }))
+    .filter((p) => !activeOnly || p.active)
+    .sort((a, b) => a.sortOrder - b.sortOrder || a.amount - b.amount);
+}
+
+export async function getPlan(id: string) {
+  if (!id) return null;
+  const snap = await adminDb.collection(MEMBERSHIP_PLANS_COLLECTION).doc(id).get();
+  return snap.exists ? ({ ...(snap.data() as CatalogPlan), id: snap.id }) : null;
+}
+
+/** The plan a Stripe Price belongs to, current or archived. */
+export async function planForStripePrice(priceId: string | null | undefined) {
+  if (!priceId) return null;
+  const snap = await adminDb
+    .collection(MEMBERSHIP_PLANS_COLLECTION)
+    .where('stripePriceIds', 'array-contains', priceId)
+    .limit(1)
+    .get();
+  return snap.empty ? null : ({ ...(snap.docs[0].data() as CatalogPlan), id: snap.docs[0].id });
+}
+
+export async function planForPayPalPlan(paypalPlanId: string | null | undefined) {
+  if (!paypalPlanId) return null;
+  const snap = await adminDb
+    .collection(MEMBERSHIP_PLANS_COLLECTION)
+    .where('paypalPlanId', '==', paypalPlanId)
+    .limit(1)
+    .get();
+  return snap.empty ? null : ({ ...(snap.docs[0].data() as CatalogPlan), id: snap.docs[0].id });
+}
+
+/** What the join form needs; provider ids other than PayPal's (for its button) stay on the server. */
+export function publicPlan(p: CatalogPlan) {
+  return {
+    id: p.id,
+    name_ar: p.name_ar,
+    name_en: p.name_en,
+    benefits_ar: p.benefits_ar || [],
+    benefits_en: p.benefits_en || [],
+    interval: p.interval,
+    currency: p.currency,
+    amount: p.amount,
+    tier: p.tier ?? null,
+    household: !!p.household,
+    maxDependants: p.household ? p.maxDependants || 0 : 0,
+    paypalPlanId: p.paypalPlanId || null,
+  };
+}
+
+export type PublicPlan = ReturnType<typeof publicPlan>;
+
+/** How many dependants a member's plan covers (0 unless it is a household plan). */
+export async function householdLimit(planId: string | null | undefined) {
+  const plan = await getPlan(planId || '');
+  return plan?.household ? plan.maxDependants || 0 : 0;
+}
+
+/* ---------------- Writing ---------------- */
+
+/** Create or update a plan, then sync it. The plan is saved even if the sync fails. */
+export async function savePlan(input: PlanInput) {
+  const ref = adminDb.collection(MEMBERSHIP_PLANS_COLLECTION).doc(input.id);
+  const prev = (await ref.get()).data() as CatalogPlan | undefined;
+  const now = Date.now();
+  await ref.set({ ...input, createdAt: prev?.createdAt || now, updatedAt: now }, { merge: true });
+  return syncPlan(input.id);
+}
+
+/* ---------------- Provider sync ---------------- */
+
+const STRIPE_INTERVAL = { month: 'month', year: 'year' } as const;
+
+async function syncStripe(p: CatalogPlan): Promise<Partial<CatalogPlan>> {
+  const description = p.benefits_en?.join(' · ') || undefined;
+  let productId = p.stripeProductId || null;
+  if (productId) {
+    await stripe.products.update(productId, { name: p.name_en, active: p.active, ...(description ? { description } : {}) });
+  } else {
+    const product = await stripe.products.create({
+      name: p.name_en,
+      description,
+      active: p.active,
+      metadata: { membershipPlanId: p.id },
+    });
+    productId = product.id;
+  }
+
+  // Keep the current price if it still matches the plan
+  const unitAmount = majorToMinor(p.amount, p.currency);
+  const current = p.stripePriceId ? await stripe.prices.retrieve(p.stripePriceId).catch(() => null) : null;
+  const matches =
+    !!current &&
+    current.active &&
+    current.product === productId &&
+    current.unit_amount === unitAmount &&
+    current.currency === p.currency.toLowerCase() &&
+    (p.interval === 'once' ? !current.recurring : current.recurring?.interval === p.interval);
+  if (matches) return { stripeProductId: productId };
+
+  const price = await stripe.prices.create({
+    product: productId,
+    currency: p.currency.toLowerCase(),
+    unit_amount: unitAmount,
+    nickname: p.name_en,
+    ...(p.interval === 'once' ? {} : { recurring: { interval: STRIPE_INTERVAL[p.interval] } }),
+    metadata: { membershipPlanId: p.id },
+  });
+  if (current?.active) await stripe.prices.update(current.id, { active: false });
+  return {
+    stripeProductId: productId,
+    stripePriceId: price.id,
+    stripePriceIds: Array.from(new Set([...(p.stripePriceIds || []), price.id])),
+  };
+}
+
+async function syncPayPal(p: CatalogPlan): Promise<Partial<CatalogPlan>> {
+  const synced = p.paypalSynced;
+  // PayPal plans are subscriptions only; one-off plans are paid by card
+  if (p.interval === 'once') {
+    if (!p.paypalPlanId) return {};
+    if (synced?.active !== false) await setBillingPlanActive(p.paypalPlanId, false);
+    return { paypalPlanId: null, paypalSynced: null };
+  }
+  if (!process.env.PAYPAL_CLIENT_ID && process.env.PAYPAL_MODE !== 'mock') return {};
+
+  const state = { interval: p.interval, amount: p.amount, currency: p.currency, active: p.active };
+  const productId = p.paypalProductId || (await createCatalogProduct(p.name_en, p.benefits_en?.join(' · '))).id;
+
+  // A PayPal plan's billing interval is fixed, so a new interval gets a new plan
+  if (!p.paypalPlanId || !synced || synced.interval !== p.interval) {
+    if (p.paypalPlanId && synced?.active !== false) await setBillingPlanActive(p.paypalPlanId, false);
+    const plan = await createBillingPlan(productId, {
+      name: p.name_en,
+      description: p.name_ar,
+      interval: p.interval === 'year' ? 'YEAR' : 'MONTH',
+      amount: p.amount,
+      currency: p.currency,
+    });
+    if (!p.active) await setBillingPlanActive(plan.id, false);
+    return { paypalProductId: productId, paypalPlanId: plan.id, paypalSynced: state };
+  }
+
+  if (synced.amount !== p.amount || synced.currency !== p.currency) {
+    await updateBillingPlanPrice(p.paypalPlanId, p.amount, p.currency);
+  }
+  if (synced.active !== p.active) await setBillingPlanActive(p.paypalPlanId, p.active);
+  return { paypalProductId: productId, paypalSynced: state };
+}
+
+/** Push a saved plan to Stripe and PayPal, recording the outcome on the plan. */
+export async function syncPlan(id: string) {
+  const ref = adminDb.collection(MEMBERSHIP_PLANS_COLLECTION).doc(id);
+  const plan = await getPlan(id);
+  if (!plan) throw Object.assign(new Error('Plan not found'), { code: 404 });
+
+  let patch: Partial<CatalogPlan> = {};
+  let syncError: string | null = null;
+  try {
+    patch = { ...(await syncStripe(plan)) };
+    patch = { ...patch, ...(await syncPayPal({ ...plan, ...patch })) };
+  } catch (e: unknown) {
+    syncError = (e as Error)?.message || String(e);
+    console.error('[membershipPlans] sync failed', id, syncError);
+  }
+  await ref.set({ ...patch, syncedAt: Date.now(), syncError }, { merge: true });
+  return (await getPlan(id)) as CatalogPlan;
+}
+
+/* ---------------- Defaults ---------------- */
+
+/**
+ * The three monthly plans the join form used to hard-code. Existing Stripe
+ * prices from STRIPE_PRICE_SILVER / _GOLD / _DIAMOND are adopted, so current
+ * subscribers keep mapping to their plan. Plans already in the catalogue are
+ * left alone.
+ */
+const DEFAULT_PLANS: Array<PlanInput & { env: string }> = [
+  { id: 'silver', name_en: 'Silver', name_ar: 'فضية', tier: 'silver', amount: 11.99, sortOrder: 10, env: 'STRIPE_PRICE_SILVER', interval: 'month', currency: 'GBP', active: true, household: false, maxDependants: 0, benefits_ar: [], benefits_en: [] },
+  { id: 'gold', name_en: 'Gold', name_ar: 'ذهبية', tier: 'gold', amount: 21.99, sortOrder: 20, env: 'STRIPE_PRICE_GOLD', interval: 'month', currency: 'GBP', active: true, household: false, maxDependants: 0, benefits_ar: [], benefits_en: [] },
+  { id: 'diamond', name_en: 'Diamond', name_ar: 'ماسية', tier: 'diamond', amount: 49.99, sortOrder: 30, env: 'STRIPE_PRICE_DIAMOND', interval: 'month', currency: 'GBP', active: true, household: false, maxDependants: 0, benefits_ar: [], benefits_en: [] },
+];
+
+export async function seedDefaultPlans() {
+  const created: string[] = [];
+  for (const { env, ...plan } of DEFAULT_PLANS) {
+    const ref = adminDb.collection(MEMBERSHIP_PLANS_COLLECTION).doc(plan.id);
+    if ((await ref.get()).exists) continue;
+
+    const priceId = process.env[env] || '';
+    const price = priceId ? await stripe.prices.retrieve(priceId).catch(() => null) : null;
+    const now = Date.now();
+    await ref.set({
+      ...plan,
+      createdAt: now,
+      updatedAt: now,
+      ...(price
+        ? { stripeProductId: typeof price.product === 'string' ? price.product : price.product.id, stripePriceId: price.id, stripePriceIds: [price.id] }
+        : {}),
+    });
+    await syncPlan(plan.id);
+    created.push(plan.id);
+  }
+  return created;
+}
@@ -0,0 +1,75 @@
+// lib/paymentLines.ts
+// Client-safe. The parts of one card donation: the gift to the campaign, the
+// donor's optional cover of the card processing fee, and an optional tip to the
+// association's general fund.
+//
+// Only the campaign line counts towards the campaign. The widget shows the
+// fee cover with `feeCover`; create-intent works it out again rather than
+// trusting the browser, and passes the lines to the ledger in the
+// PaymentIntent metadata (`paymentLines`).
+
+import type { PaymentLine } from '@/types/donations';
+
+export type CardRegion = 'uk' | 'eea' | 'international';
+
+export const CARD_REGIONS: CardRegion[] = ['uk', 'eea', 'international'];
+
+// Stripe's standard UK-account pricing: a share of the payment by where the card
+// was issued, a fixed fee per currency, and conversion for non-GBP payments
+const CARD_PERCENT: Record<CardRegion, number> = { uk: 0.015, eea: 0.025, international: 0.0325 };
+const FIXED_FEE: Record<string, number> = { GBP: 0.2, EUR: 0.25, USD: 0.3 };
+const CONVERSION_PERCENT = 0.02;
+
+export const MAX_TIP = 10000;
+
+const cents = (n: number) => Math.round(n * 100) / 100;
+
+export const isCardRegion = (v: unknown): v is CardRegion => CARD_REGIONS.includes(v as CardRegion);
+
+/**
+ * What to add to `base` so that, after the card fee on the whole payment, the
+ * association still receives `base` (rounded up to the next penny).
+ */
+export function feeCover(base: number, currency: string, region: CardRegion) {
+  if (!(base > 0)) return 0;
+  const cur = String(currency || 'GBP').toUpperCase();
+  const percent = CARD_PERCENT[region] + (cur === 'GBP' ? 0 : CONVERSION_PERCENT);
+  const total = (base + (FIXED_FEE[cur] ?? FIXED_FEE.GBP)) / (1 - percent);
+  return Math.ceil((total - base) * 100 - 1e-9) / 100;
+}
+
+/** The lines of a payment; extras of zero are left out. */
+export function paymentLines(input: { gift: number; tip?: number; coverFees?: boolean; region?: CardRegion; currency: string }) {
+  const gift = cents(input.gift);
+  const tip = cents(Math.min(MAX_TIP, Math.max(0, Number(input.tip) || 0)));
+  const cover = input.coverFees ? feeCover(gift + tip, input.currency, input.region || 'uk') : 0;
+  const lines: PaymentLine[] = [{ kind: 'campaign', amount: gift }];
+  if (cover > 0) lines.push({ kind: 'fee_cover', amount: cover });
+  if (tip > 0) lines.push({ kind: 'general_fund', amount: tip });
+  return lines;
+}
+
+export const linesTotal = (lines: PaymentLine[]) => cents(lines.reduce((s, l) => s + l.amount, 0));
+
+export const lineAmount = (lines: PaymentLine[] | null | undefined, kind: PaymentLine['kind']) =>
+  cents((lines || []).filter((l) => l.kind === kind).reduce((s, l) => s + l.amount, 0));
+
+/** "campaign:50.00;fee_cover:1.17;general_fund:5.00" — empty when the gift is all there is. */
+export function paymentLinesToMetadata(lines: PaymentLine[]) {
+  if (lines.length < 2) return '';
+  return lines.map((l) => `${l.kind}:${l.amount.toFixed(2)}`).join(';');
+}
+
+export function paymentLinesFromMetadata(md: Record<string, string> | null | undefined): PaymentLine[] | null {
+  const raw = String(md?.paymentLines || '').trim();
+  if (!raw) return null;
+  const lines: PaymentLine[] = [];
+  for (const part of raw.split(';')) {
+    const [kind, value] = part.split(':');
+    const amount = Number(value);
+    if ((kind === 'campaign' || kind === 'fee_cover' || kind === 'general_fund') && Number.isFinite(amount) && amount > 0) {
+      lines.push({ kind, amount: cents(amount) });
+    }
+  }
+  return lines.some((l) => l.kind === 'campaign') ? lines : null;
+}
@@ -1,7 +1,12 @@
 // lib/paypal.ts
-const MODE = (process.env.PAYPAL_MODE || 'sandbox').toLowerCase(); // sandbox | live
+import { mockPayPal } from '@/lib/paypalMock';
+
+const MODE = (process.env.PAYPAL_MODE || 'sandbox').toLowerCase(); // sandbox | live | mock
 export const PAYPAL_BASE = MODE === 'live' ? 'https://api-m.paypal.com' : 'https://api-m.sandbox.paypal.com';
 
+/** `PAYPAL_MODE=mock` swaps the Orders API for the in-process stand-in (lib/paypalMock.ts). */
+export const PAYPAL_MOCK = MODE === 'mock';
+
 export async function getAccessToken() {
   const cid = process.env.PAYPAL_CLIENT_ID!;
   const secret = process.env.PAYPAL_CLIENT_SECRET!;
@@ -22,3 +27,251 @@ export async function getAccessToken() {
   const j = await r.json();
   return j.access_token as string;
 }
+
+/* ---------------- Orders API (v2) ---------------- */
+
+export type PayPalAmount = { currency_code: string; value: string };
+export type PayPalCapture = { id: string; status: string; amount: PayPalAmount };
+export type PayPalPurchaseUnit = {
+  reference_id?: string;
+  custom_id?: string;
+  description?: string;
+  amount: PayPalAmount;
+  payments?: { captures?: PayPalCapture[] };
+};
+export type PayPalOrder = {
+  id: string;
+  status: 'CREATED' | 'SAVED' | 'APPROVED' | 'VOIDED' | 'COMPLETED' | 'PAYER_ACTION_REQUIRED';
+  purchase_units: PayPalPurchaseUnit[];
+  payer?: { email_address?: string };
+};
+export type CreateOrderInput = {
+  amount: number; // major units
+  currency: string;
+  description?: string;
+  customId?: string;
+  referenceId?: string;
+};
+
+/** PayPal amounts are decimal strings; our currencies all use 2 decimals. */
+export function toPayPalValue(amount: number) {
+  return (Math.round(amount * 100) / 100).toFixed(2);
+}
+
+async function ordersApi<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const token = await getAccessToken();
+  const r = await fetch(`${PAYPAL_BASE}/v2/checkout/orders${path}`, {
+    ...init,
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json', ...(init.headers || {}) },
+  });
+  const j = await r.json().catch(() => null);
+  if (!r.ok) {
+    const issue = j?.details?.[0]?.issue as string | undefined;
+    throw Object.assign(new Error(j?.message || `PayPal request failed (${r.status})`), { code: r.status, issue });
+  }
+  return j as T;
+}
+
+export async function createOrder(input: CreateOrderInput): Promise<PayPalOrder> {
+  const unit: PayPalPurchaseUnit = {
+    amount: { currency_code: input.currency.toUpperCase(), value: toPayPalValue(input.amount) },
+    description: input.description,
+    custom_id: input.customId,
+    reference_id: input.referenceId,
+  };
+  if (PAYPAL_MOCK) return mockPayPal.createOrder(unit);
+  return ordersApi<PayPalOrder>('', {
+    method: 'POST',
+    body: JSON.stringify({
+      intent: 'CAPTURE',
+      purchase_units: [unit],
+      application_context: { shipping_preference: 'NO_SHIPPING', user_action: 'PAY_NOW' },
+    }),
+  });
+}
+
+export async function getOrder(orderId: string): Promise<PayPalOrder> {
+  if (PAYPAL_MOCK) return mockPayPal.getOrder(orderId);
+  return ordersApi<PayPalOrder>(`/${encodeURIComponent(orderId)}`);
+}
+
+/** Capture an approved order. Already-captured orders are returned as they stand. */
+export async function captureOrder(orderId: string): Promise<PayPalOrder> {
+  if (PAYPAL_MOCK) return mockPayPal.captureOrder(orderId);
+  try {
+    return await ordersApi<PayPalOrder>(`/${encodeURIComponent(orderId)}/capture`, { method: 'POST' });
+  } catch (e: unknown) {
+    if ((e as { issue?: string })?.issue === 'ORDER_ALREADY_CAPTURED') return getOrder(orderId);
+    throw e;
+  }
+}
+
+/* ---------------- Subscriptions & webhooks ---------------- */
+
+export type PayPalSubscription = {
+  id: string;
+  status: 'APPROVAL_PENDING' | 'APPROVED' | 'ACTIVE' | 'SUSPENDED' | 'CANCELLED' | 'EXPIRED';
+  plan_id?: string;
+  custom_id?: string;
+  subscriber?: { email_address?: string };
+  billing_info?: {
+    next_billing_time?: string;
+    last_payment?: { amount?: PayPalAmount; time?: string };
+  };
+};
+
+export async function getSubscription(subscriptionId: string): Promise<PayPalSubscription> {
+  if (PAYPAL_MOCK) return mockPayPal.getSubscription(subscriptionId);
+  const token = await getAccessToken();
+  const r = await fetch(`${PAYPAL_BASE}/v1/billing/subscriptions/${encodeURIComponent(subscriptionId)}`, {
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+  });
+  const j = await r.json().catch(() => null);
+  if (!r.ok) throw Object.assign(new Error(j?.message || `PayPal subscription lookup failed (${r.status})`), { code: r.status });
+  return j as PayPalSubscription;
+}
+
+export type SubscriptionAction = 'cancel' | 'suspend' | 'activate';
+
+/** Cancel, pause (suspend) or resume a subscription. PayPal confirms with a BILLING.SUBSCRIPTION.* webhook. */
+export async function setSubscriptionState(subscriptionId: string, action: SubscriptionAction, reason: string) {
+  if (PAYPAL_MOCK) return mockPayPal.setSubscriptionState(subscriptionId, action);
+  const token = await getAccessToken();
+  const r = await fetch(`${PAYPAL_BASE}/v1/billing/subscriptions/${encodeURIComponent(subscriptionId)}/${action}`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ reason: reason.slice(0, 128) }),
+  });
+  if (!r.ok) {
+    const j = await r.json().catch(() => null);
+    throw Object.assign(new Error(j?.message || `PayPal subscription ${action} failed (${r.status})`), { code: r.status });
+  }
+}
+
+/* ---------------- Catalog products & billing plans ---------------- */
+
+export type PayPalPlanInput = {
+  name: string;
+  description?: string;
+  interval: 'MONTH' | 'YEAR';
+  amount: number; // major units per interval
+  currency: string;
+};
+
+async function billingApi<T>(path: string, init: RequestInit = {}): Promise<T | null> {
+  const token = await getAccessToken();
+  const r = await fetch(`${PAYPAL_BASE}/v1${path}`, {
+    ...init,
+    headers: {
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json',
+      Prefer: 'return=representation',
+      ...(init.headers || {}),
+    },
+  });
+  const j = await r.json().catch(() => null);
+  if (!r.ok) throw Object.assign(new Error(j?.message || `PayPal request failed (${r.status})`), { code: r.status });
+  return j as T | null;
+}
+
+/** A catalog product (type SERVICE) for billing plans to hang off. */
+export async function createCatalogProduct(name: string, description?: string): Promise<{ id: string }> {
+  if (PAYPAL_MOCK) return mockPayPal.createProduct();
+  const j = await billingApi<{ id: string }>('/catalogs/products', {
+    method: 'POST',
+    body: JSON.stringify({ name: name.slice(0, 127), description: description?.slice(0, 256), type: 'SERVICE', category: 'NONPROFIT' }),
+  });
+  return { id: String(j?.id) };
+}
+
+/** An active billing plan: one regular cycle, repeating until cancelled. */
+export async function createBillingPlan(productId: string, plan: PayPalPlanInput): Promise<{ id: string }> {
+  if (PAYPAL_MOCK) return mockPayPal.createPlan();
+  const j = await billingApi<{ id: string }>('/billing/plans', {
+    method: 'POST',
+    body: JSON.stringify({
+      product_id: productId,
+      name: plan.name.slice(0, 127),
+      description: plan.description?.slice(0, 127),
+      status: 'ACTIVE',
+      billing_cycles: [
+        {
+          frequency: { interval_unit: plan.interval, interval_count: 1 },
+          tenure_type: 'REGULAR',
+          sequence: 1,
+          total_cycles: 0,
+          pricing_scheme: {
+            fixed_price: { value: toPayPalValue(plan.amount), currency_code: plan.currency.toUpperCase() },
+          },
+        },
+      ],
+      payment_preferences: { auto_bill_outstanding: true, payment_failure_threshold: 3 },
+    }),
+  });
+  return { id: String(j?.id) };
+}
+
+/** New price for an existing plan; current subscribers move to it from their next cycle. */
+export async function updateBillingPlanPrice(planId: string, amount: number, currency: string) {
+  if (PAYPAL_MOCK) return;
+  await billingApi(`/billing/plans/${encodeURIComponent(planId)}/update-pricing-schemes`, {
+    method: 'POST',
+    body: JSON.stringify({
+      pricing_schemes: [
+        { billing_cycle_sequence: 1, pricing_scheme: { fixed_price: { value: toPayPalValue(amount), currency_code: currency.toUpperCase() } } },
+      ],
+    }),
+  });
+}
+
+/** Offer or withdraw a plan; existing subscriptions carry on either way. */
+export async function setBillingPlanActive(planId: string, active: boolean) {
+  if (PAYPAL_MOCK) return;
+  await billingApi(`/billing/plans/${encodeURIComponent(planId)}/${active ? 'activate' : 'deactivate'}`, { method: 'POST' });
+}
+
+const WEBHOOK_HEADERS = {
+  auth_algo: 'paypal-auth-algo',
+  cert_url: 'paypal-cert-url',
+  transmission_id: 'paypal-transmission-id',
+  transmission_sig: 'paypal-transmission-sig',
+  transmission_time: 'paypal-transmission-time',
+} as const;
+
+/**
+ * Verify a webhook delivery with PayPal's verify-webhook-signature API.
+ * `event` must be the parsed body exactly as received. Requires PAYPAL_WEBHOOK_ID.
+ */
+export async function verifyWebhookSignature(
+  headers: Record<string, string | string[] | undefined>,
+  event: unknown
+): Promise<boolean> {
+  if (PAYPAL_MOCK) {
+    // Never accept unsigned events from a deployed site, whatever PAYPAL_MODE says
+    if (process.env.NODE_ENV === 'production') {
+      console.error('[paypal] PAYPAL_MODE=mock in production; webhook rejected');
+      return false;
+    }
+    return true;
+  }
+
+  const webhookId = process.env.PAYPAL_WEBHOOK_ID;
+  if (!webhookId) throw new Error('Missing PAYPAL_WEBHOOK_ID');
+
+  const body: Record<string, unknown> = { webhook_id: webhookId, webhook_event: event };
+  for (const [field, header] of Object.entries(WEBHOOK_HEADERS)) {
+    const v = headers[header];
+    if (!v) return false;
+    body[field] = Array.isArray(v) ? v[0] : v;
+  }
+
+  const token = await getAccessToken();
+  const r = await fetch(`${PAYPAL_BASE}/v1/notifications/verify-webhook-signature`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (!r.ok) return false;
+  const j = await r.json();
+  return j?.verification_status === 'SUCCESS';
+}
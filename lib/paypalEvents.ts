@@ -0,0 +1,78 @@
+// lib/paypalEvents.ts
+// Node-only. Replay protection for verified PayPal webhook events.
+//
+// Like `stripeEvents` (lib/stripeEvents.ts), every event is recorded in
+// `paypalEvents/{event.id}` before it is handled, so a re-delivery of an event
+// that was already processed is a no-op. Failed events are left `failed`, and
+// PayPal's own retries run them again.
+
+import { adminDb } from '@/lib/firebaseAdmin';
+
+export const PAYPAL_EVENTS_COLLECTION = 'paypalEvents';
+
+/** A `processing` claim older than this is treated as abandoned (crashed run). */
+const PROCESSING_LEASE_MS = 5 * 60 * 1000;
+
+export type PayPalEventStatus = 'processing' | 'processed' | 'failed';
+
+export type PayPalEventRecord = {
+  id: string; // PayPal event id
+  type: string;
+  status: PayPalEventStatus;
+  attempts: number;
+  error?: string | null;
+  receivedAt: number;
+  startedAt?: number;
+  processedAt?: number | null;
+  updatedAt: number;
+};
+
+/** Claim the event for this run: 'claimed', 'duplicate' (already handled) or 'in_flight'. */
+async function claim(event: { id: string; event_type: string }) {
+  const ref = adminDb.collection(PAYPAL_EVENTS_COLLECTION).doc(event.id);
+  return adminDb.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    const prev = snap.exists ? (snap.data() as PayPalEventRecord) : null;
+    const now = Date.now();
+
+    if (prev?.status === 'processed') return 'duplicate' as const;
+    if (prev?.status === 'processing' && now - Number(prev.startedAt || 0) < PROCESSING_LEASE_MS) {
+      return 'in_flight' as const;
+    }
+
+    const record: PayPalEventRecord = {
+      id: event.id,
+      type: event.event_type,
+      status: 'processing',
+      attempts: Number(prev?.attempts || 0) + 1,
+      error: null,
+      receivedAt: prev?.receivedAt || now,
+      startedAt: now,
+      processedAt: null,
+      updatedAt: now,
+    };
+    tx.set(ref, record);
+    return 'claimed' as const;
+  });
+}
+
+/**
+ * Run `handle` for a verified event at most once. Returns false when the event
+ * was already processed or another run holds it; a failure is recorded and rethrown.
+ */
+export async function processPayPalEventOnce(event: { id: string; event_type: string }, handle: () => Promise<void>) {
+  if (!event.id) throw Object.assign(new Error('PayPal event without an id'), { code: 400 });
+  if ((await claim(event)) !== 'claimed') return false;
+
+  const ref = adminDb.collection(PAYPAL_EVENTS_COLLECTION).doc(event.id);
+  try {
+    await handle();
+    const now = Date.now();
+    await ref.update({ status: 'processed', processedAt: now, updatedAt: now });
+    return true;
+  } catch (e: unknown) {
+    const message = (e as { message?: string })?.message || String(e);
+    await ref.update({ status: 'failed', error: message.slice(0, 2000), updatedAt: Date.now() });
+    throw e;
+  }
+}
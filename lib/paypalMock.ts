@@ -0,0 +1,98 @@
+// lib/paypalMock.ts
+// In-process stand-in for the PayPal Orders API, enabled with PAYPAL_MODE=mock.
+// Lets the donation flow run locally and in tests without PayPal credentials.
+// Orders live in memory (kept across hot reloads) and are approved on creation,
+// so they can be captured straight away. Subscriptions read as ACTIVE until they
+// are cancelled or suspended here, and webhook signatures are not checked.
+// Catalog products and billing plans only get made-up ids.
+// It refuses to run when NODE_ENV is production.
+
+import type { PayPalOrder, PayPalPurchaseUnit, PayPalSubscription, SubscriptionAction } from '@/lib/paypal';
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __PAYPAL_MOCK_ORDERS__: Map<string, PayPalOrder> | undefined;
+  // eslint-disable-next-line no-var
+  var __PAYPAL_MOCK_SUBSCRIPTIONS__: Map<string, PayPalSubscription['status']> | undefined;
+}
+
+/** Throws if the mock is used in a production build (a stray PAYPAL_MODE=mock). */
+function assertNotProduction() {
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('PAYPAL_MODE=mock cannot be used in production');
+  }
+}
+
+function subscriptions() {
+  assertNotProduction();
+  if (!globalThis.__PAYPAL_MOCK_SUBSCRIPTIONS__) globalThis.__PAYPAL_MOCK_SUBSCRIPTIONS__ = new Map();
+  return globalThis.__PAYPAL_MOCK_SUBSCRIPTIONS__;
+}
+
+const SUBSCRIPTION_STATE: Record<SubscriptionAction, PayPalSubscription['status']> = {
+  cancel: 'CANCELLED',
+  suspend: 'SUSPENDED',
+  activate: 'ACTIVE',
+};
+
+function orders() {
+  assertNotProduction();
+  if (!globalThis.__PAYPAL_MOCK_ORDERS__) globalThis.__PAYPAL_MOCK_ORDERS__ = new Map();
+  return globalThis.__PAYPAL_MOCK_ORDERS__;
+}
+
+function mockId(prefix: string) {
+  assertNotProduction();
+  return `${prefix}-${Date.now().toString(36).toUpperCase()}${Math.random().toString(36).slice(2, 8).toUpperCase()}`;
+}
+
+function notFound(orderId: string) {
+  return Object.assign(new Error(`Order ${orderId} not found`), { code: 404, issue: 'INVALID_RESOURCE_ID' });
+}
+
+export const mockPayPal = {
+  createOrder(unit: PayPalPurchaseUnit): PayPalOrder {
+    const order: PayPalOrder = { id: mockId('MOCK'), status: 'APPROVED', purchase_units: [{ ...unit }] };
+    orders().set(order.id, order);
+    return structuredClone(order);
+  },
+
+  getOrder(orderId: string): PayPalOrder {
+    const order = orders().get(orderId);
+    if (!order) throw notFound(orderId);
+    return structuredClone(order);
+  },
+
+  captureOrder(orderId: string): PayPalOrder {
+    const order = orders().get(orderId);
+    if (!order) throw notFound(orderId);
+    if (order.status !== 'COMPLETED') {
+      const unit = order.purchase_units[0];
+      unit.payments = { captures: [{ id: mockId('CAPTURE'), status: 'COMPLETED', amount: { ...unit.amount } }] };
+      order.status = 'COMPLETED';
+    }
+    return structuredClone(order);
+  },
+
+  getSubscription(subscriptionId: string): PayPalSubscription {
+    return { id: subscriptionId, status: subscriptions().get(subscriptionId) || 'ACTIVE' };
+  },
+
+  setSubscriptionState(subscriptionId: string, action: SubscriptionAction) {
+    subscriptions().set(subscriptionId, SUBSCRIPTION_STATE[action]);
+  },
+
+  createProduct() {
+    return { id: mockId('PROD') };
+  },
+
+  createPlan() {
+    return { id: mockId('P') };
+  },
+
+  /** Test helper: forget all orders and subscription changes. */
+  reset() {
+    orders().clear();
+    subscriptions().clear();
+  },
+};
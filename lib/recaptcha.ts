@@ -0,0 +1,57 @@
+// lib/recaptcha.ts
+// Node-only. reCAPTCHA Enterprise checks for public forms.
+//
+// `assessRecaptcha` reports what Google made of a token; `verifyRecaptcha`
+// turns a failed or low-scoring assessment into a 400. Without
+// GCP_PROJECT_ID / RECAPTCHA_ENTERPRISE_SITE_KEY the check is skipped in
+// development (with a warning) and refused in production.
+
+import { RecaptchaEnterpriseServiceClient } from '@google-cloud/recaptcha-enterprise';
+
+const PROJECT_ID = process.env.GCP_PROJECT_ID || '';
+const SITE_KEY = process.env.RECAPTCHA_ENTERPRISE_SITE_KEY || '';
+
+/** Scores run from 0 (bot) to 1 (human). */
+export const MIN_RECAPTCHA_SCORE = Number(process.env.RECAPTCHA_MIN_SCORE || 0.5);
+
+export type RecaptchaAssessment = { success: boolean; score?: number; errorCodes?: string[] };
+
+let client: RecaptchaEnterpriseServiceClient | null = null;
+
+export const recaptchaConfigured = () => !!PROJECT_ID && !!SITE_KEY;
+
+export async function assessRecaptcha(token: string, action?: string): Promise<RecaptchaAssessment> {
+  if (!recaptchaConfigured()) throw new Error('Missing GCP_PROJECT_ID or RECAPTCHA_ENTERPRISE_SITE_KEY');
+  client = client || new RecaptchaEnterpriseServiceClient();
+
+  const event: { token: string; siteKey: string; expectedAction?: string } = { token, siteKey: SITE_KEY };
+  if (action) event.expectedAction = action;
+  const [assessment] = await client.createAssessment({
+    parent: client.projectPath(PROJECT_ID),
+    assessment: { event },
+  });
+
+  const { tokenProperties, riskAnalysis } = assessment;
+  if (!tokenProperties?.valid) {
+    return { success: false, errorCodes: [String(tokenProperties?.invalidReason || 'invalid-token')] };
+  }
+  if (action && tokenProperties.action !== action) return { success: false, errorCodes: ['action-mismatch'] };
+  return { success: true, score: riskAnalysis?.score ?? 0 };
+}
+
+/** Throws a 400 unless the token passes for `action` with at least `minScore`. */
+export async function verifyRecaptcha(token: unknown, action: string, minScore = MIN_RECAPTCHA_SCORE) {
+  if (!recaptchaConfigured()) {
+    if (process.env.NODE_ENV === 'production') throw new Error('Missing GCP_PROJECT_ID or RECAPTCHA_ENTERPRISE_SITE_KEY');
+    console.warn('[recaptcha] not configured; skipping check for', action);
+    return;
+  }
+  const t = String(token || '').trim();
+  if (!t) throw Object.assign(new Error('reCAPTCHA token is required'), { code: 400 });
+
+  const result = await assessRecaptcha(t, action);
+  if (!result.success || Number(result.score) < minScore) {
+    console.warn('[recaptcha] rejected', action, result.errorCodes?.join(',') || `score ${result.score}`);
+    throw Object.assign(new Error('reCAPTCHA check failed, please try again'), { code: 400 });
+  }
+}
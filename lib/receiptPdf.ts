@@ -0,0 +1,323 @@
+// lib/receiptPdf.ts
+// Node-only. Renders the bilingual (English/Arabic) donation receipt and the
+// yearly giving statement as PDFs. Layout only: lib/donationReceipts.ts gathers
+// the data, numbers receipts, stores and emails them.
+//
+// Arabic text is shaped by pdfkit/fontkit with Noto Naskh Arabic. fontkit lays a
+// run out right-to-left as a whole, so Arabic strings are kept free of digits and
+// Latin text; numbers and English values are drawn in their own runs.
+
+import path from 'path';
+import PDFDocument from 'pdfkit';
+import type { PaymentLine } from '@/types/donations';
+
+export const CHARITY = {
+  name_en: process.env.CHARITY_NAME || 'Palestinian Community Association – North West UK',
+  name_ar: process.env.CHARITY_NAME_AR || 'الجالية الفلسطينية في شمال غرب المملكة المتحدة',
+  number: process.env.CHARITY_NUMBER || '',
+  address: process.env.CHARITY_ADDRESS || 'Manchester, UK',
+  email: process.env.CHARITY_EMAIL || 'info@palestiniancommunity.co.uk',
+};
+
+export type ReceiptData = {
+  receiptNo: string;
+  donationId: string;
+  date: number; // confirmedAt, ms
+  donorName: string;
+  donorEmail: string;
+  campaignTitle_en: string;
+  campaignTitle_ar: string;
+  amount: number; // the campaign gift
+  currency: string;
+  // Every line of a card payment that also covered the fee or tipped the general fund
+  lines?: PaymentLine[] | null;
+  paidAmount?: number | null; // what the donor was charged, with `lines`
+  refundedAmount: number; // of the whole payment
+  method: string;
+  monthly: boolean;
+  giftAid: boolean; // declaration held and the donation is in GBP
+};
+
+export type StatementRow = {
+  date: number;
+  receiptNo: string;
+  campaignTitle: string; // or what a fee-cover / general-fund line of the payment was for
+  amount: number; // net of refunds
+  currency: string;
+  giftAid: boolean;
+};
+
+export type StatementData = {
+  email: string;
+  donorName: string;
+  periodLabel: string; // e.g. "6 April 2025 – 5 April 2026"
+  rows: StatementRow[];
+  totals: Array<{ currency: string; amount: number; giftAidAmount: number }>;
+};
+
+const FONT_DIR = path.join(process.cwd(), 'node_modules', '@expo-google-fonts', 'noto-naskh-arabic');
+const AR = 'naskh';
+const AR_BOLD = 'naskh-bold';
+const EN = 'Helvetica';
+const EN_BOLD = 'Helvetica-Bold';
+
+const GREEN = '#007a3d';
+const MUTED = '#555555';
+const PAGE_MARGIN = 50;
+
+const ARABIC_RE = /[\u0600-\u06FF]/;
+
+const LINE_LABELS: Record<PaymentLine['kind'], { en: string; ar: string }> = {
+  campaign: { en: 'Campaign gift', ar: 'التبرع للحملة' },
+  fee_cover: { en: 'Card fee covered', ar: 'تغطية رسوم البطاقة' },
+  general_fund: { en: 'General fund gift', ar: 'تبرع للصندوق العام' },
+};
+
+const METHOD_LABELS: Record<string, string> = {
+  stripe: 'Card (Stripe)',
+  paypal: 'PayPal',
+  bank: 'Bank transfer',
+  offline: 'Cash / offline',
+};
+
+export function formatMoney(amount: number, currency: string) {
+  try {
+    return new Intl.NumberFormat('en-GB', { style: 'currency', currency: (currency || 'GBP').toUpperCase() }).format(amount || 0);
+  } catch {
+    return `${(amount || 0).toFixed(2)} ${currency}`;
+  }
+}
+
+export function formatDate(ms: number) {
+  return new Date(ms).toLocaleDateString('en-GB', { timeZone: 'Europe/London', day: 'numeric', month: 'long', year: 'numeric' });
+}
+
+function newDocument(title: string) {
+  const doc = new PDFDocument({ size: 'A4', margin: PAGE_MARGIN, info: { Title: title, Author: CHARITY.name_en } });
+  doc.registerFont(AR, path.join(FONT_DIR, '400Regular', 'NotoNaskhArabic_400Regular.ttf'));
+  doc.registerFont(AR_BOLD, path.join(FONT_DIR, '700Bold', 'NotoNaskhArabic_700Bold.ttf'));
+  return doc;
+}
+
+function toBuffer(doc: PDFKit.PDFDocument): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    doc.on('data', (c: Buffer) => chunks.push(c));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+    doc.end();
+  });
+}
+
+/** Draw `text` in the font for its script; Arabic runs are right-aligned unless told otherwise. */
+function put(
+  doc: PDFKit.PDFDocument,
+  text: string,
+  x: number,
+  y: number,
+  width: number,
+  opts: { bold?: boolean; size?: number; color?: string; align?: 'left' | 'right' } = {}
+) {
+  const arabic = ARABIC_RE.test(text);
+  // pdfkit measures text word by word and loses a space inside a reversed RTL run;
+  // no-break spaces keep an Arabic line as a single run
+  if (arabic) text = text.replace(/ /g, '\u00A0');
+  const size = opts.size || 10;
+  doc
+    .font(arabic ? (opts.bold ? AR_BOLD : AR) : opts.bold ? EN_BOLD : EN)
+    .fontSize(size)
+    .fillColor(opts.color || '#111111')
+    // Naskh sits lower than Helvetica at the same size; lift it onto the shared baseline
+    .text(text, x, arabic ? y - size * 0.3 : y, { width, align: opts.align || (arabic ? 'right' : 'left'), lineBreak: false, ellipsis: true });
+}
+
+/** Charity header shared by receipts and statements; returns the y below it. */
+function header(doc: PDFKit.PDFDocument, title_en: string, title_ar: string) {
+  const width = doc.page.width - PAGE_MARGIN * 2;
+  const half = width / 2;
+  let y = PAGE_MARGIN;
+
+  put(doc, CHARITY.name_en, PAGE_MARGIN, y, width, { bold: true, size: 13, color: GREEN });
+  y += 18;
+  put(doc, CHARITY.name_ar, PAGE_MARGIN, y, width, { bold: true, size: 13, color: GREEN });
+  y += 26;
+
+  const details = [
+    CHARITY.number ? `Registered charity no. ${CHARITY.number}` : '',
+    CHARITY.address,
+    CHARITY.email,
+  ].filter(Boolean).join('  ·  ');
+  put(doc, details, PAGE_MARGIN, y, width, { size: 9, color: MUTED });
+  y += 18;
+
+  doc.moveTo(PAGE_MARGIN, y).lineTo(PAGE_MARGIN + width, y).lineWidth(1).strokeColor(GREEN).stroke();
+  y += 16;
+
+  put(doc, title_en, PAGE_MARGIN, y, half, { bold: true, size: 18 });
+  put(doc, title_ar, PAGE_MARGIN + half, y, half, { bold: true, size: 18 });
+  return y + 40;
+}
+
+function footer(doc: PDFKit.PDFDocument, y: number, lines_en: string[], line_ar: string) {
+  const width = doc.page.width - PAGE_MARGIN * 2;
+  for (const line of lines_en) {
+    doc.font(EN).fontSize(9).fillColor(MUTED).text(line, PAGE_MARGIN, y, { width });
+    y = doc.y + 4;
+  }
+  put(doc, line_ar, PAGE_MARGIN, y + 2, width, { size: 11, color: MUTED });
+}
+
+/** One-page receipt for a single confirmed donation. */
+export function renderReceiptPdf(r: ReceiptData): Promise<Buffer> {
+  const doc = newDocument(`Donation receipt ${r.receiptNo}`);
+  const width = doc.page.width - PAGE_MARGIN * 2;
+  let y = header(doc, 'Donation receipt', 'إيصال تبرع');
+
+  const labelW = 140;
+  const arW = 130;
+  const valueX = PAGE_MARGIN + labelW;
+  const valueW = width - labelW - arW;
+
+  const row = (en: string, ar: string, value: string, extra?: string) => {
+    put(doc, en, PAGE_MARGIN, y, labelW - 10, { size: 10, color: MUTED });
+    put(doc, value, valueX, y, valueW, { bold: true, size: 11, align: 'left' });
+    put(doc, ar, PAGE_MARGIN + width - arW, y, arW, { size: 11, color: MUTED });
+    y += 22;
+    if (extra) {
+      put(doc, extra, valueX, y - 4, valueW, { size: 11, align: 'left' });
+      y += 20;
+    }
+  };
+
+  const total = r.lines ? Number(r.paidAmount || 0) : r.amount;
+  const net = Math.max(0, total - r.refundedAmount);
+  row('Receipt no.', 'رقم الإيصال', r.receiptNo);
+  row('Date', 'التاريخ', formatDate(r.date));
+  row('Donor', 'المتبرع', r.donorName || r.donorEmail || '—');
+  if (r.donorEmail && r.donorName) row('Email', 'البريد الإلكتروني', r.donorEmail);
+  row(
+    'Campaign',
+    'الحملة',
+    r.campaignTitle_en || r.campaignTitle_ar || '—',
+    r.campaignTitle_en && r.campaignTitle_ar ? r.campaignTitle_ar : undefined
+  );
+  if (r.lines) {
+    for (const l of r.lines) row(LINE_LABELS[l.kind].en, LINE_LABELS[l.kind].ar, formatMoney(l.amount, r.currency));
+    row('Total charged', 'إجمالي المبلغ المدفوع', `${formatMoney(total, r.currency)} (${r.currency.toUpperCase()})`);
+  } else {
+    row('Amount', 'المبلغ', `${formatMoney(r.amount, r.currency)} (${r.currency.toUpperCase()})`);
+  }
+  if (r.refundedAmount > 0) {
+    row('Refunded', 'المبلغ المسترد', formatMoney(r.refundedAmount, r.currency));
+    row('Net donation', 'صافي التبرع', formatMoney(net, r.currency));
+  }
+  row('Payment', 'طريقة الدفع', `${METHOD_LABELS[r.method] || r.method}${r.monthly ? ' · monthly gift' : ''}`);
+  row('Gift Aid', 'إضافة الإعانة الضريبية', r.giftAid ? 'Declared – we will reclaim 25p for every £1' : 'Not claimed');
+  row('Reference', 'المرجع', r.donationId);
+
+  y += 10;
+  doc.moveTo(PAGE_MARGIN, y).lineTo(PAGE_MARGIN + width, y).lineWidth(0.5).strokeColor('#cccccc').stroke();
+  footer(
+    doc,
+    y + 14,
+    [
+      'Thank you for your support. No goods or services were provided in exchange for this donation.',
+      r.giftAid
+        ? 'Please tell us if you stop paying enough UK Income or Capital Gains Tax to cover the Gift Aid we claim.'
+        : '',
+    ].filter(Boolean),
+    'شكرًا لدعمكم. لم تُقدَّم أي سلع أو خدمات مقابل هذا التبرع.'
+  );
+
+  return toBuffer(doc);
+}
+
+/** Consolidated list of one donor's donations over a period, with totals per currency. */
+export function renderStatementPdf(s: StatementData): Promise<Buffer> {
+  const doc = newDocument(`Giving statement ${s.periodLabel}`);
+  const width = doc.page.width - PAGE_MARGIN * 2;
+  const bottom = doc.page.height - PAGE_MARGIN - 60;
+  let y = header(doc, 'Annual giving statement', 'كشف التبرعات السنوي');
+
+  put(doc, `Donor: ${s.donorName || s.email}`, PAGE_MARGIN, y, width, { size: 11 });
+  y += 16;
+  if (s.donorName) {
+    put(doc, s.email, PAGE_MARGIN, y, width, { size: 10, color: MUTED });
+    y += 16;
+  }
+  put(doc, `Period: ${s.periodLabel}`, PAGE_MARGIN, y, width, { size: 11 });
+  y += 28;
+
+  // Date | Receipt no. | Campaign | Gift Aid | Amount
+  const cols = [
+    { en: 'Date', w: 80 },
+    { en: 'Receipt no.', w: 95 },
+    { en: 'Campaign', w: width - 80 - 95 - 55 - 65 },
+    { en: 'Gift Aid', w: 55 },
+    { en: 'Amount', w: 65 },
+  ];
+  const tableHead = () => {
+    let x = PAGE_MARGIN;
+    for (const c of cols) {
+      put(doc, c.en, x, y, c.w - 6, { bold: true, size: 9, color: MUTED, align: c.en === 'Amount' ? 'right' : 'left' });
+      x += c.w;
+    }
+    y += 14;
+    doc.moveTo(PAGE_MARGIN, y).lineTo(PAGE_MARGIN + width, y).lineWidth(0.5).strokeColor('#cccccc').stroke();
+    y += 6;
+  };
+  tableHead();
+
+  if (!s.rows.length) {
+    put(doc, 'No donations in this period.', PAGE_MARGIN, y, width, { size: 10, color: MUTED });
+    y += 20;
+  }
+  for (const r of s.rows) {
+    if (y > bottom) {
+      doc.addPage();
+      y = PAGE_MARGIN;
+      tableHead();
+    }
+    const cells = [
+      formatDate(r.date),
+      r.receiptNo || '—',
+      r.campaignTitle || '—',
+      r.giftAid ? 'Yes' : '—',
+      formatMoney(r.amount, r.currency),
+    ];
+    let x = PAGE_MARGIN;
+    cells.forEach((text, i) => {
+      const c = cols[i];
+      put(doc, text, x, y, c.w - 6, { size: 9, align: c.en === 'Amount' || ARABIC_RE.test(text) ? 'right' : 'left' });
+      x += c.w;
+    });
+    y += 18;
+  }
+
+  y += 6;
+  doc.moveTo(PAGE_MARGIN, y).lineTo(PAGE_MARGIN + width, y).lineWidth(1).strokeColor(GREEN).stroke();
+  y += 10;
+  if (y > bottom) {
+    doc.addPage();
+    y = PAGE_MARGIN;
+  }
+  for (const t of s.totals) {
+    put(doc, `Total given (${t.currency})`, PAGE_MARGIN, y, width - 120, { bold: true, size: 11 });
+    put(doc, formatMoney(t.amount, t.currency), PAGE_MARGIN + width - 120, y, 120, { bold: true, size: 11, align: 'right' });
+    y += 18;
+    if (t.giftAidAmount > 0) {
+      put(doc, 'of which under a Gift Aid declaration', PAGE_MARGIN, y, width - 120, { size: 10, color: MUTED });
+      put(doc, formatMoney(t.giftAidAmount, t.currency), PAGE_MARGIN + width - 120, y, 120, { size: 10, color: MUTED, align: 'right' });
+      y += 18;
+    }
+  }
+
+  footer(
+    doc,
+    y + 14,
+    ['Amounts are net of any refunds. Keep this statement with your tax records.'],
+    'المبالغ بعد خصم أي مبالغ مستردة. شكرًا لدعمكم المستمر.'
+  );
+
+  return toBuffer(doc);
+}
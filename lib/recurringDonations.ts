@@ -0,0 +1,63 @@
+// lib/recurringDonations.ts
+// Node-only. Monthly gifts to a campaign. Stripe bills each gift as a subscription
+// (created by /api/payments/stripe/create-donation-subscription); every paid
+// invoice is posted to the donation ledger by lib/stripeHandlers.ts. A gift ends
+// when its campaign is closed.
+
+import { adminDb } from '@/lib/firebaseAdmin';
+import { stripe } from '@/lib/stripe';
+import type { RecurringDonation } from '@/types/donations';
+
+export const RECURRING_COLLECTION = 'recurringDonations';
+
+/** Metadata `type` that marks a Stripe subscription as a campaign gift (not membership). */
+export const RECURRING_DONATION_TYPE = 'donation_monthly';
+
+export function recurringRef(subscriptionId: string) {
+  return adminDb.collection(RECURRING_COLLECTION).doc(subscriptionId);
+}
+
+/** Create or merge the gift record for a subscription. The first recorded end reason is kept. */
+export async function upsertRecurringDonation(
+  subscriptionId: string,
+  data: Partial<Omit<RecurringDonation, 'id' | 'createdAt' | 'updatedAt'>>
+) {
+  const ref = recurringRef(subscriptionId);
+  const now = Date.now();
+  await adminDb.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    const prev = snap.data() as Partial<RecurringDonation> | undefined;
+    const patch = { ...data };
+    if (prev?.endedReason) delete patch.endedReason;
+    tx.set(ref, { ...patch, id: subscriptionId, ...(prev ? {} : { createdAt: now }), updatedAt: now }, { merge: true });
+  });
+}
+
+/**
+ * Cancel every live monthly gift to a campaign. Safe to call repeatedly; the
+ * `customer.subscription.deleted` webhook that follows only confirms the status.
+ * Returns the number of subscriptions cancelled.
+ */
+export async function endRecurringDonations(campaignId: string, reason: RecurringDonation['endedReason'] = 'campaign_closed') {
+  const snap = await adminDb
+    .collection(RECURRING_COLLECTION)
+    .where('campaignId', '==', campaignId)
+    .where('status', 'in', ['active', 'past_due'])
+    .get();
+
+  let ended = 0;
+  for (const doc of snap.docs) {
+    try {
+      await stripe.subscriptions.cancel(doc.id);
+    } catch (e: unknown) {
+      // Already cancelled on Stripe's side: just record it
+      if ((e as { code?: string })?.code !== 'resource_missing') {
+        console.error('cancel recurring donation failed', doc.id, (e as Error)?.message);
+        continue;
+      }
+    }
+    await doc.ref.set({ status: 'canceled', endedReason: reason, updatedAt: Date.now() }, { merge: true });
+    ended++;
+  }
+  return ended;
+}
@@ -0,0 +1,47 @@
+// lib/spending.ts
+// Client-safe. Disbursement categories and the raised / spent / remaining
+// summary shown on campaign pages and /transparency.
+
+import type { Campaign, DisbursementCategory } from '@/types/donations';
+
+export const DISBURSEMENT_CATEGORIES: DisbursementCategory[] = [
+  'food',
+  'medical',
+  'shelter',
+  'education',
+  'cash_aid',
+  'logistics',
+  'administration',
+  'other',
+];
+
+export const CATEGORY_LABELS: Record<DisbursementCategory, { en: string; ar: string }> = {
+  food: { en: 'Food', ar: 'غذاء' },
+  medical: { en: 'Medical care', ar: 'رعاية طبية' },
+  shelter: { en: 'Shelter', ar: 'مأوى' },
+  education: { en: 'Education', ar: 'تعليم' },
+  cash_aid: { en: 'Cash assistance', ar: 'مساعدات نقدية' },
+  logistics: { en: 'Transport & logistics', ar: 'نقل وخدمات لوجستية' },
+  administration: { en: 'Administration', ar: 'مصاريف إدارية' },
+  other: { en: 'Other', ar: 'أخرى' },
+};
+
+export type SpendingSummary = {
+  raised: number;
+  spent: number;
+  remaining: number;
+  categories: Array<{ category: DisbursementCategory; amount: number; share: number }>;
+};
+
+/** Raised vs spent vs remaining for a campaign, biggest categories first. */
+export function spendingSummary(c: Pick<Partial<Campaign>, 'totalDonated' | 'totalSpent' | 'spentByCategory'>): SpendingSummary {
+  const raised = Number(c.totalDonated || 0);
+  const spent = Number(c.totalSpent || 0);
+  const categories = DISBURSEMENT_CATEGORIES.map((category) => {
+    const amount = Number(c.spentByCategory?.[category] || 0);
+    return { category, amount, share: spent > 0 ? amount / spent : 0 };
+  })
+    .filter((x) => x.amount > 0)
+    .sort((a, b) => b.amount - a.amount);
+  return { raised, spent, remaining: Math.max(0, Math.round((raised - spent) * 100) / 100), categories };
+}
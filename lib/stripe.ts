@@ -12,3 +12,20 @@ export const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || '', {
 export const SITE_URL =
   process.env.NEXT_PUBLIC_SITE_URL ||
   (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : 'http://localhost:3000');
+
+/** Zero-decimal currencies (Stripe minor == major units) */
+const ZERO_DECIMAL = new Set([
+  'BIF','CLP','DJF','GNF','JPY','KMF','KRW','MGA','PYG','RWF','UGX','VND','VUV','XAF','XOF','XPF'
+]);
+
+export function majorToMinor(major: number | null | undefined, currency: string) {
+  const cur = (currency || '').toUpperCase();
+  if (!major || major <= 0) return 0;
+  return ZERO_DECIMAL.has(cur) ? Math.round(major) : Math.round(major * 100);
+}
+
+export function minorToMajor(minor: number | null | undefined, currency: string) {
+  const cur = (currency || '').toUpperCase();
+  if (!minor || minor <= 0) return 0;
+  return ZERO_DECIMAL.has(cur) ? minor : minor / 100;
+}
@@ -0,0 +1,144 @@
+// lib/stripeEvents.ts
+// Node-only. The single processor for verified Stripe webhook events.
+//
+// Every event is recorded in `stripeEvents/{event.id}` before it is handled, so a
+// replayed delivery of an already processed event is a no-op. Each record keeps
+// the event payload and its processing state; failed events stay in the
+// collection and can be re-run from the admin screen (/auth/admin/stripe-events).
+
+import type Stripe from 'stripe';
+import { adminDb } from '@/lib/firebaseAdmin';
+import { stripeHandlers } from '@/lib/stripeHandlers';
+
+export const STRIPE_EVENTS_COLLECTION = 'stripeEvents';
+
+/** A `processing` claim older than this is treated as abandoned (crashed run). */
+const PROCESSING_LEASE_MS = 5 * 60 * 1000;
+
+export type StripeEventStatus = 'processing' | 'processed' | 'failed' | 'ignored';
+
+export type StripeEventRecord = {
+  id: string; // Stripe event id
+  type: string;
+  livemode: boolean;
+  status: StripeEventStatus;
+  attempts: number;
+  payload: string; // JSON of the verified event, used for re-runs
+  error?: string | null;
+  receivedAt: number;
+  startedAt?: number;
+  processedAt?: number | null;
+  updatedAt: number;
+};
+
+export type ProcessResult = {
+  id: string;
+  status: StripeEventStatus | 'duplicate' | 'in_flight';
+  error?: string;
+};
+
+/* ---------------- Typed handler registry ---------------- */
+
+/** Event types we handle, with the object each one carries. */
+export type StripeEventObjects = {
+  'checkout.session.completed': Stripe.Checkout.Session;
+  'customer.subscription.created': Stripe.Subscription;
+  'customer.subscription.updated': Stripe.Subscription;
+  'customer.subscription.deleted': Stripe.Subscription;
+  'invoice.paid': Stripe.Invoice;
+  'invoice.payment_failed': Stripe.Invoice;
+  'payment_intent.succeeded': Stripe.PaymentIntent;
+  'charge.succeeded': Stripe.Charge;
+  'charge.refunded': Stripe.Charge;
+  'charge.dispute.created': Stripe.Dispute;
+  'charge.dispute.closed': Stripe.Dispute;
+  'payout.paid': Stripe.Payout;
+};
+
+export type StripeEventType = keyof StripeEventObjects;
+
+export type StripeEventHandler<K extends StripeEventType> = (
+  object: StripeEventObjects[K],
+  event: Stripe.Event
+) => Promise<void>;
+
+export type StripeHandlerRegistry = { [K in StripeEventType]?: StripeEventHandler<K> };
+
+function handlerFor(type: string) {
+  const h = stripeHandlers[type as StripeEventType] as StripeEventHandler<StripeEventType> | undefined;
+  return h || null;
+}
+
+/* ---------------- Processing ---------------- */
+
+/**
+ * Claim the event for this run. Returns 'claimed', or why it must not run now:
+ * already handled ('duplicate'), another run holds a fresh claim ('in_flight'),
+ * or no handler is registered ('ignored', recorded so replays stay cheap).
+ */
+async function claim(event: Stripe.Event) {
+  const ref = adminDb.collection(STRIPE_EVENTS_COLLECTION).doc(event.id);
+  const known = !!handlerFor(event.type);
+
+  return adminDb.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    const prev = snap.exists ? (snap.data() as StripeEventRecord) : null;
+    const now = Date.now();
+
+    if (prev?.status === 'processed' || prev?.status === 'ignored') return 'duplicate' as const;
+    if (prev?.status === 'processing' && now - Number(prev.startedAt || 0) < PROCESSING_LEASE_MS) {
+      return 'in_flight' as const;
+    }
+
+    const record: StripeEventRecord = {
+      id: event.id,
+      type: event.type,
+      livemode: !!event.livemode,
+      status: known ? 'processing' : 'ignored',
+      attempts: Number(prev?.attempts || 0) + (known ? 1 : 0),
+      payload: prev?.payload || JSON.stringify(event),
+      error: null,
+      receivedAt: prev?.receivedAt || now,
+      startedAt: now,
+      processedAt: known ? null : now,
+      updatedAt: now,
+    };
+    tx.set(ref, record);
+    return known ? ('claimed' as const) : ('ignored' as const);
+  });
+}
+
+/**
+ * Run the registered handler for a verified event exactly once.
+ * Failures are recorded on the event; Stripe redeliveries and admin re-runs retry them.
+ */
+export async function processStripeEvent(event: Stripe.Event): Promise<ProcessResult> {
+  const claimed = await claim(event);
+  if (claimed !== 'claimed') return { id: event.id, status: claimed };
+
+  const ref = adminDb.collection(STRIPE_EVENTS_COLLECTION).doc(event.id);
+  const handler = handlerFor(event.type)!;
+  try {
+    await handler(event.data.object as StripeEventObjects[StripeEventType], event);
+    const now = Date.now();
+    await ref.update({ status: 'processed', processedAt: now, updatedAt: now });
+    return { id: event.id, status: 'processed' };
+  } catch (e: unknown) {
+    const message = (e as { message?: string })?.message || String(e);
+    console.error('stripe event failed', event.id, event.type, message);
+    await ref.update({ status: 'failed', error: message.slice(0, 2000), updatedAt: Date.now() });
+    return { id: event.id, status: 'failed', error: message };
+  }
+}
+
+/** Re-run a stored event (admin action). Only failed or abandoned events can be re-run. */
+export async function rerunStripeEvent(eventId: string): Promise<ProcessResult> {
+  const snap = await adminDb.collection(STRIPE_EVENTS_COLLECTION).doc(eventId).get();
+  if (!snap.exists) throw Object.assign(new Error('Event not found'), { code: 404 });
+
+  const rec = snap.data() as StripeEventRecord;
+  if (rec.status === 'processed' || rec.status === 'ignored') {
+    throw Object.assign(new Error(`Event already ${rec.status}`), { code: 409 });
+  }
+  return processStripeEvent(JSON.parse(rec.payload) as Stripe.Event);
+}
@@ -0,0 +1,120 @@
+// lib/stripeFees.ts
+// Node-only. What Stripe kept and paid out for a card donation.
+//
+// The fee and net come from the charge's balance transaction, in the currency
+// the payment settled in. They are stored on the donation when the payment
+// succeeds (lib/stripeHandlers.ts) or, failing that, when its payout is
+// reconciled or a report needs them. The fee is also converted into the
+// campaign currency (`campaignFee`) and added to the campaign's `totalFees`
+// once, in the same transaction, so pages can show the total net of fees. A fee
+// the donor chose to cover is not charged to the campaign.
+
+import type Stripe from 'stripe';
+import { adminDb } from '@/lib/firebaseAdmin';
+import { CAMPAIGNS_COLLECTION, findLedgerRef } from '@/lib/donationLedger';
+import { minorToMajor, stripe } from '@/lib/stripe';
+import { conversionAt, roundMoney } from '@/lib/fx';
+import { lineAmount } from '@/lib/paymentLines';
+import type { Campaign, Donation } from '@/types/donations';
+
+export type StripeFees = Pick<Donation, 'feeAmount' | 'netReceived' | 'settlementCurrency' | 'balanceTransactionId'>;
+
+export type StripePayoutRef = Pick<Donation, 'payoutId' | 'paidOutAt'>;
+
+/** Fee fields from an expanded (or fetched) balance transaction. */
+export function feesFromBalanceTransaction(bt: Stripe.BalanceTransaction): StripeFees {
+  const currency = bt.currency.toUpperCase();
+  return {
+    feeAmount: roundMoney(minorToMajor(bt.fee, currency)),
+    netReceived: roundMoney(minorToMajor(bt.net, currency)),
+    settlementCurrency: currency,
+    balanceTransactionId: bt.id,
+  };
+}
+
+/** Fees for a charge, fetching its balance transaction unless already expanded. */
+export async function chargeFees(charge: Stripe.Charge): Promise<StripeFees | null> {
+  const bt = charge.balance_transaction;
+  if (!bt) return null;
+  return feesFromBalanceTransaction(typeof bt === 'string' ? await stripe.balanceTransactions.retrieve(bt) : bt);
+}
+
+/** Fees for a PaymentIntent, or null while it has no settled charge. */
+export async function stripeFeesFor(paymentIntentId: string): Promise<StripeFees | null> {
+  const pi = await stripe.paymentIntents.retrieve(paymentIntentId, { expand: ['latest_charge.balance_transaction'] });
+  const charge = pi.latest_charge;
+  if (!charge || typeof charge === 'string') return null;
+  return chargeFees(charge);
+}
+
+/**
+ * Store the fees (and payout, when known) on the donation for a PaymentIntent.
+ * The campaign's `totalFees` grows only the first time a fee is recorded, so
+ * replays are harmless. Returns the donation id, or null when there is none.
+ */
+export async function recordStripeFees(paymentIntentId: string, fees: StripeFees, payout?: StripePayoutRef) {
+  const donationRef = await findLedgerRef('stripe', paymentIntentId);
+  if (!donationRef) return null;
+
+  await adminDb.runTransaction(async (tx) => {
+    // -------------------- READS FIRST --------------------
+    const d = (await tx.get(donationRef)).data() as Partial<Donation>;
+    const counted = typeof d.campaignFee === 'number';
+    const campaignRef = adminDb.collection(CAMPAIGNS_COLLECTION).doc(String(d.campaignId || ''));
+    const campSnap = counted ? null : await tx.get(campaignRef);
+    const campaign = campSnap?.exists ? (campSnap.data() as Partial<Campaign>) : null;
+
+    // Whatever the donor covered (lib/paymentLines.ts) does not come out of the campaign
+    let campaignFee: number | null = null;
+    if (campaign && typeof fees.feeAmount === 'number') {
+      const campaignCurrency = String(campaign.currency || 'GBP').toUpperCase();
+      const fx = await conversionAt(String(fees.settlementCurrency), campaignCurrency, Number(d.createdAt || Date.now()), tx);
+      const covered = lineAmount(d.paymentLines, 'fee_cover') * Number(d.fxRate ?? 0);
+      if (fx) campaignFee = Math.max(0, roundMoney(fees.feeAmount * fx.rate - covered));
+    }
+
+    // -------------------- WRITES AFTER ALL READS --------------------
+    const now = Date.now();
+    tx.set(
+      donationRef,
+      { ...fees, ...(payout || {}), ...(counted ? {} : { campaignFee }), updatedAt: now },
+      { merge: true }
+    );
+    if (campaign && campaignFee) {
+      tx.update(campaignRef, { totalFees: roundMoney(Number(campaign.totalFees || 0) + campaignFee), updatedAt: now });
+    }
+  });
+  return donationRef.id;
+}
+
+/** Look up and record a PaymentIntent's fees; lookup failures are logged, not thrown. */
+export async function captureStripeFees(paymentIntentId: string) {
+  try {
+    const fees = await stripeFeesFor(paymentIntentId);
+    if (fees) await recordStripeFees(paymentIntentId, fees);
+  } catch (e: unknown) {
+    console.warn('[stripeFees] lookup failed', paymentIntentId, (e as Error)?.message || String(e));
+  }
+}
+
+export const needsStripeFees = (d: Donation) =>
+  d.method === 'stripe' && !!d.txnRef && d.status !== 'pending' && d.status !== 'failed' && typeof d.feeAmount !== 'number';
+
+/**
+ * Looks up and stores the fees of up to `limit` Stripe donations that have none
+ * yet, updating the given objects in place. Returns how many are still missing.
+ */
+export async function fillStripeFees(donations: Donation[], limit = 100) {
+  const missing = donations.filter(needsStripeFees);
+  for (const d of missing.slice(0, limit)) {
+    try {
+      const fees = await stripeFeesFor(String(d.txnRef));
+      if (!fees) continue;
+      await recordStripeFees(String(d.txnRef), fees);
+      Object.assign(d, fees);
+    } catch (e: unknown) {
+      console.warn('[stripeFees] lookup failed', d.id, (e as Error)?.message || String(e));
+    }
+  }
+  return donations.filter(needsStripeFees).length;
+}
@@ -0,0 +1,414 @@
+// lib/stripeHandlers.ts
+// Node-only. Handlers for the Stripe events we act on, run by lib/stripeEvents.ts.
+// Handlers may run more than once for the same event (Stripe retries, admin
+// re-runs), so every write here is idempotent.
+
+import type Stripe from 'stripe';
+import { adminDb } from '@/lib/firebaseAdmin';
+import { stripe, minorToMajor } from '@/lib/stripe';
+import {
+  postDonation,
+  adjustDonation,
+  toLedgerStatus,
+  campaignIdFromMetadata,
+  CAMPAIGNS_COLLECTION,
+  donorNameFromMetadata,
+  donorEmailFromMetadata,
+  campaignUpdatesFromMetadata,
+  fundraiserIdFromMetadata,
+  embedSiteFromMetadata,
+  normaliseEmail,
+} from '@/lib/donationLedger';
+import { giftAidFromMetadata } from '@/lib/giftAid';
+import { captureStripeFees } from '@/lib/stripeFees';
+import { lineAmount, paymentLinesFromMetadata } from '@/lib/paymentLines';
+import { reconcilePayout } from '@/lib/stripePayouts';
+import {
+  RECURRING_DONATION_TYPE,
+  recurringRef,
+  upsertRecurringDonation,
+  endRecurringDonations,
+} from '@/lib/recurringDonations';
+import { findMember, upsertMemberByApp } from '@/lib/membership';
+import { getPlan, planForStripePrice } from '@/lib/membershipPlans';
+import type { RecurringDonation } from '@/types/donations';
+import type { MemberStatus } from '@/types/membership';
+import type { StripeHandlerRegistry } from '@/lib/stripeEvents';
+
+/** Stripe expandable fields arrive as ids unless expanded. */
+function idOf(x: string | { id: string } | null | undefined) {
+  if (!x) return null;
+  return typeof x === 'string' ? x : x.id;
+}
+
+const fromUnix = (s?: number | null) => (s ? new Date(s * 1000) : null);
+
+/* ---------------- JOIN FLOW ---------------- */
+
+async function applicationIdForCustomer(customerId: string) {
+  const apps = await adminDb
+    .collection('joinApplications')
+    .where('stripeCustomerId', '==', customerId)
+    .limit(1)
+    .get();
+  return apps.empty ? null : apps.docs[0].id;
+}
+
+const SUBSCRIPTION_STATUS: Record<string, MemberStatus> = {
+  active: 'active',
+  trialing: 'active',
+  past_due: 'past_due',
+  unpaid: 'past_due',
+  canceled: 'canceled',
+  paused: 'inactive',
+  incomplete: 'inactive',
+  incomplete_expired: 'inactive',
+};
+
+/**
+ * A membership's plan and tier: the plan its current price belongs to (so a
+ * plan change in the billing portal moves the member with it), else what
+ * checkout recorded.
+ */
+async function subscriptionPlan(sub: Stripe.Subscription) {
+  const plan =
+    (await planForStripePrice(sub.items?.data?.[0]?.price?.id)) || (await getPlan(sub.metadata?.planId || ''));
+  return plan ? { planId: plan.id, tier: plan.tier ?? null } : {};
+}
+
+async function onSubscriptionChange(sub: Stripe.Subscription) {
+  if (isRecurringDonation(sub.metadata)) return onRecurringDonationChange(sub);
+  const customerId = idOf(sub.customer);
+  if (!customerId) return;
+  const applicationId = await applicationIdForCustomer(customerId);
+  if (!applicationId) return;
+
+  await adminDb.collection('joinApplications').doc(applicationId).update({
+    stripeSubscriptionId: sub.id,
+    updatedAt: new Date(),
+  });
+  await upsertMemberByApp(applicationId, {
+    stripeCustomerId: customerId,
+    stripeSubscriptionId: sub.id,
+    status: SUBSCRIPTION_STATUS[sub.status] ?? 'inactive',
+    currentPeriodEnd: fromUnix(sub.current_period_end),
+    ...(await subscriptionPlan(sub)),
+  });
+}
+
+/* ---------------- DONATIONS FLOW ---------------- */
+
+async function postStripeDonation(
+  md: Stripe.Metadata,
+  piId: string,
+  status: string,
+  amountMinor: number,
+  currencyRaw: string,
+  email?: string | null
+) {
+  const campaignId = campaignIdFromMetadata(md);
+  if (!campaignId) return;
+
+  const currency = (currencyRaw || 'gbp').toUpperCase();
+  const ledgerStatus = toLedgerStatus(status);
+  // Fee cover and general-fund tip are charged with the gift but not counted
+  const lines = paymentLinesFromMetadata(md);
+  await postDonation({
+    campaignId,
+    method: 'stripe',
+    txnRef: piId,
+    status: ledgerStatus,
+    amount: lines ? lineAmount(lines, 'campaign') : minorToMajor(amountMinor, currency),
+    lines,
+    currency,
+    donorName: donorNameFromMetadata(md),
+    donorEmail: donorEmailFromMetadata(md) || email,
+    giftAid: giftAidFromMetadata(md),
+    campaignUpdates: campaignUpdatesFromMetadata(md),
+    fundraiserId: fundraiserIdFromMetadata(md),
+    embedSite: embedSiteFromMetadata(md),
+  });
+  // Fee and net from the charge's balance transaction (payout.paid fills any gaps)
+  if (ledgerStatus === 'confirmed') await captureStripeFees(piId);
+}
+
+/**
+ * Post a donation PaymentIntent for the client routes that only know its id
+ * (/api/donations/confirm, /api/donations/record-payment, /api/payments/attach). Status, amount,
+ * currency and campaign are all read from Stripe, never from the caller.
+ * Returns null when the PaymentIntent is not a donation or has not gone through.
+ */
+export async function postPaymentIntentDonation(paymentIntentId: string) {
+  const pi = await stripe.paymentIntents.retrieve(paymentIntentId);
+  const campaignId = campaignIdFromMetadata(pi.metadata || {});
+  // 'processing' and 'requires_capture' are posted as pending; the webhook confirms them
+  if (!campaignId || !['succeeded', 'processing', 'requires_capture'].includes(pi.status)) return null;
+  await postStripeDonation(pi.metadata, pi.id, pi.status, pi.amount_received || pi.amount, pi.currency, pi.receipt_email);
+  return { campaignId, status: toLedgerStatus(pi.status) };
+}
+
+/* ---------------- MONTHLY DONATIONS ---------------- */
+
+const isRecurringDonation = (md?: Stripe.Metadata | null) => md?.type === RECURRING_DONATION_TYPE;
+
+const RECURRING_STATUS: Record<string, RecurringDonation['status']> = {
+  active: 'active',
+  trialing: 'active',
+  past_due: 'past_due',
+  unpaid: 'past_due',
+  incomplete: 'past_due',
+  canceled: 'canceled',
+  incomplete_expired: 'canceled',
+  paused: 'canceled',
+};
+
+async function onRecurringDonationChange(sub: Stripe.Subscription) {
+  const price = sub.items?.data?.[0]?.price;
+  const currency = (sub.currency || price?.currency || 'gbp').toUpperCase();
+  const status = RECURRING_STATUS[sub.status] ?? 'past_due';
+  const failed = sub.cancellation_details?.reason === 'payment_failed';
+  await upsertRecurringDonation(sub.id, {
+    campaignId: String(sub.metadata.campaignId || ''),
+    provider: 'stripe',
+    customerId: idOf(sub.customer),
+    amount: minorToMajor(price?.unit_amount, currency),
+    currency,
+    donorName: donorNameFromMetadata(sub.metadata),
+    donorEmail: donorEmailFromMetadata(sub.metadata) || undefined,
+    status,
+    ...(status === 'canceled' ? { endedReason: failed ? 'payment_failed' : 'donor' } : {}),
+  });
+}
+
+/** Credit one paid monthly invoice to its campaign (keyed by the invoice's PaymentIntent). */
+async function onRecurringDonationInvoice(inv: Stripe.Invoice, md: Stripe.Metadata) {
+  const subscriptionId = idOf(inv.subscription);
+  const piId = idOf(inv.payment_intent);
+  const campaignId = campaignIdFromMetadata(md);
+  if (!subscriptionId || !piId || !campaignId || !inv.amount_paid) return;
+
+  // Billed after the campaign closed (its gifts are cancelled on closing, so this
+  // is an invoice raised just before): end the gift and refund rather than credit it.
+  const campaign = await adminDb.collection(CAMPAIGNS_COLLECTION).doc(campaignId).get();
+  if (campaign.data()?.status === 'closed') {
+    await endRecurringDonations(campaignId);
+    await stripe.refunds.create(
+      { payment_intent: piId, metadata: { reason: 'campaign_closed' } },
+      { idempotencyKey: `campaign-closed-${piId}` }
+    );
+    return;
+  }
+
+  const currency = (inv.currency || 'gbp').toUpperCase();
+  await postDonation({
+    campaignId,
+    method: 'stripe',
+    txnRef: piId,
+    status: 'confirmed',
+    amount: minorToMajor(inv.amount_paid, currency),
+    currency,
+    donorName: donorNameFromMetadata(md),
+    donorEmail: donorEmailFromMetadata(md) || inv.customer_email,
+    giftAid: giftAidFromMetadata(md),
+    campaignUpdates: campaignUpdatesFromMetadata(md),
+    fundraiserId: fundraiserIdFromMetadata(md),
+    embedSite: embedSiteFromMetadata(md),
+    recurringId: subscriptionId,
+  });
+  await captureStripeFees(piId);
+  await recurringRef(subscriptionId).set(
+    { lastPaidAt: (fromUnix(inv.status_transitions?.paid_at) || new Date()).getTime(), updatedAt: Date.now() },
+    { merge: true }
+  );
+}
+
+async function onDispute(dispute: Stripe.Dispute, event: Stripe.Event) {
+  let piId = idOf(dispute.payment_intent);
+  if (!piId && dispute.charge) {
+    const charge = await stripe.charges.retrieve(String(idOf(dispute.charge)));
+    piId = idOf(charge.payment_intent);
+  }
+  if (!piId) return;
+
+  // warning_closed = inquiry closed without a chargeback
+  const closed = event.type === 'charge.dispute.closed';
+  const lost = closed && dispute.status === 'lost';
+  const currency = (dispute.currency || 'gbp').toUpperCase();
+  const result = await adjustDonation({
+    method: 'stripe',
+    txnRef: piId,
+    kind: !closed ? 'dispute_opened' : lost ? 'dispute_lost' : 'dispute_won',
+    disputeStatus: !closed ? 'open' : lost ? 'lost' : 'won',
+    amount: minorToMajor(dispute.amount, currency),
+    currency,
+    reason: dispute.reason || null,
+    eventRef: event.id,
+  });
+  if (!result) console.warn('stripe dispute for unknown donation', piId);
+}
+
+/* ---------------- Registry ---------------- */
+
+export const stripeHandlers: StripeHandlerRegistry = {
+  'checkout.session.completed': async (session) => {
+    if (isRecurringDonation(session.metadata)) {
+      const subscriptionId = idOf(session.subscription);
+      if (!subscriptionId) return;
+      const currency = (session.currency || 'gbp').toUpperCase();
+      await upsertRecurringDonation(subscriptionId, {
+        campaignId: campaignIdFromMetadata(session.metadata || {}) || '',
+        provider: 'stripe',
+        customerId: idOf(session.customer),
+        amount: minorToMajor(session.amount_total, currency),
+        currency,
+        donorName: donorNameFromMetadata(session.metadata || {}),
+        donorEmail: normaliseEmail(session.customer_details?.email) || donorEmailFromMetadata(session.metadata || {}) || null,
+        status: 'active',
+      });
+      return;
+    }
+
+    const applicationId = session.metadata?.applicationId;
+    if (!applicationId) return;
+    const customerId = idOf(session.customer);
+    const subscriptionId = idOf(session.subscription);
+
+    await adminDb.collection('joinApplications').doc(applicationId).update({
+      stripeCustomerId: customerId,
+      stripeSubscriptionId: subscriptionId,
+      status: 'approved',
+      membershipPlan: subscriptionId ? 'monthly' : 'once',
+      updatedAt: new Date(),
+    });
+    const plan = subscriptionId ? await getPlan(session.metadata?.planId || '') : null;
+    await upsertMemberByApp(applicationId, {
+      stripeCustomerId: customerId,
+      stripeSubscriptionId: subscriptionId,
+      status: 'active',
+      ...(plan ? { planId: plan.id, tier: plan.tier ?? null } : {}),
+    });
+  },
+
+  'customer.subscription.created': onSubscriptionChange,
+  'customer.subscription.updated': onSubscriptionChange,
+  'customer.subscription.deleted': onSubscriptionChange,
+
+  'invoice.paid': async (inv) => {
+    const subMeta = inv.subscription_details?.metadata;
+    if (isRecurringDonation(subMeta)) return onRecurringDonationInvoice(inv, subMeta || {});
+
+    const customerId = idOf(inv.customer);
+    if (!customerId) return;
+    const applicationId = await applicationIdForCustomer(customerId);
+    const period = inv.lines?.data?.[0]?.period;
+
+    let memberId = (await findMember('stripeCustomerId', customerId))?.id ?? null;
+    if (applicationId) {
+      memberId = await upsertMemberByApp(applicationId, {
+        status: 'active',
+        lastPaymentAt: fromUnix(inv.status_transitions?.paid_at) || new Date(),
+        currentPeriodEnd: fromUnix(period?.end),
+      });
+    }
+
+    // Keyed by invoice so redeliveries do not duplicate the payment
+    await adminDb.collection('payments').doc(`inv_${inv.id}`).set({
+      applicationId,
+      memberId,
+      stripeCustomerId: customerId,
+      stripeSubscriptionId: idOf(inv.subscription),
+      stripeInvoiceId: inv.id,
+      stripePaymentIntentId: idOf(inv.payment_intent),
+      amount: Number(inv.amount_paid || 0), // minor units
+      currency: (inv.currency || 'gbp').toUpperCase(),
+      status: 'paid',
+      createdAt: fromUnix(inv.created) || new Date(),
+      periodStart: fromUnix(period?.start),
+      periodEnd: fromUnix(period?.end),
+    });
+  },
+
+  'invoice.payment_failed': async (inv) => {
+    // Monthly gifts follow the subscription status (customer.subscription.updated)
+    if (isRecurringDonation(inv.subscription_details?.metadata)) return;
+
+    const customerId = idOf(inv.customer);
+    if (!customerId) return;
+    const applicationId = await applicationIdForCustomer(customerId);
+
+    let memberId: string | null = null;
+    if (applicationId) {
+      memberId = await upsertMemberByApp(applicationId, { status: 'past_due' });
+    } else {
+      const member = await findMember('stripeCustomerId', customerId);
+      if (member) {
+        await member.ref.update({ status: 'past_due', updatedAt: new Date() });
+        memberId = member.id;
+      }
+    }
+
+    await adminDb.collection('payments').doc(`inv_${inv.id}_failed`).set({
+      applicationId,
+      memberId,
+      stripeCustomerId: customerId,
+      stripeSubscriptionId: idOf(inv.subscription),
+      stripeInvoiceId: inv.id,
+      stripePaymentIntentId: idOf(inv.payment_intent),
+      amount: Number(inv.amount_due || 0), // minor units
+      currency: (inv.currency || 'gbp').toUpperCase(),
+      status: 'failed',
+      createdAt: fromUnix(inv.created) || new Date(),
+      periodStart: null,
+      periodEnd: null,
+    });
+  },
+
+  // For PaymentElement one-time donations the authoritative event is
+  // payment_intent.succeeded; the ledger keeps campaign totals idempotent per PI.
+  'payment_intent.succeeded': async (pi) => {
+    await postStripeDonation(pi.metadata, pi.id, pi.status || 'succeeded', pi.amount_received || pi.amount, pi.currency, pi.receipt_email);
+  },
+
+  // Fallback for setups that only send charges; shares the PI's ledger entry.
+  'charge.succeeded': async (charge) => {
+    const piId = idOf(charge.payment_intent);
+    if (!piId) return;
+    await postStripeDonation(
+      charge.metadata,
+      piId,
+      charge.status || 'succeeded',
+      charge.amount,
+      charge.currency,
+      charge.billing_details?.email || charge.receipt_email
+    );
+  },
+
+  // Also fires for partial refunds; amount_refunded is cumulative.
+  'charge.refunded': async (charge, event) => {
+    const piId = idOf(charge.payment_intent);
+    if (!piId) return;
+
+    const currency = (charge.currency || 'gbp').toUpperCase();
+    const refunded = minorToMajor(charge.amount_refunded, currency);
+    const latest = charge.refunds?.data?.[0];
+    const result = await adjustDonation({
+      method: 'stripe',
+      txnRef: piId,
+      kind: charge.refunded ? 'refund' : 'partial_refund',
+      refundedAmount: refunded,
+      amount: latest ? minorToMajor(latest.amount, currency) : refunded,
+      currency,
+      reason: latest?.reason || null,
+      eventRef: event.id,
+    });
+    if (!result) console.warn('stripe refund for unknown donation', piId);
+  },
+
+  'charge.dispute.created': onDispute,
+  'charge.dispute.closed': onDispute,
+
+  // Which donations (and fees) made up the bank credit
+  'payout.paid': async (payout) => {
+    await reconcilePayout(payout);
+  },
+};
@@ -0,0 +1,118 @@
+// lib/stripePayouts.ts
+// Node-only. Reconciling Stripe payouts with the donations they paid out.
+//
+// On `payout.paid` the payout's balance transactions are listed: each card
+// charge is traced to its donation (by PaymentIntent), which gets the payout id
+// and, if still missing, its fees (lib/stripeFees.ts). Everything else in the
+// payout (refunds, dispute withdrawals, charges that are not donations such as
+// membership fees) is kept alongside, so the record adds up to the bank credit.
+// The result is written to `stripePayouts/{payout id}`; replays rewrite it.
+
+import type Stripe from 'stripe';
+import { adminDb } from '@/lib/firebaseAdmin';
+import { CAMPAIGNS_COLLECTION, DONATIONS_COLLECTION } from '@/lib/donationLedger';
+import { minorToMajor, stripe } from '@/lib/stripe';
+import { feesFromBalanceTransaction, recordStripeFees } from '@/lib/stripeFees';
+import { roundMoney } from '@/lib/fx';
+import type { Donation, StripePayout } from '@/types/donations';
+
+export const STRIPE_PAYOUTS_COLLECTION = 'stripePayouts';
+
+/** Signed major units (minorToMajor only takes positive amounts). */
+const signed = (minor: number, currency: string) => (minor < 0 ? -1 : 1) * minorToMajor(Math.abs(minor), currency);
+
+const paymentIntentOf = (source: Stripe.BalanceTransaction['source']) => {
+  if (!source || typeof source === 'string' || source.object !== 'charge') return null;
+  const pi = (source as Stripe.Charge).payment_intent;
+  return pi ? (typeof pi === 'string' ? pi : pi.id) : null;
+};
+
+export async function reconcilePayout(payout: Stripe.Payout): Promise<StripePayout> {
+  const currency = payout.currency.toUpperCase();
+  const paidOutAt = payout.arrival_date * 1000;
+  const donations: StripePayout['donations'] = [];
+  const other: StripePayout['other'] = [];
+
+  const list = stripe.balanceTransactions.list({ payout: payout.id, limit: 100, expand: ['data.source'] });
+  for await (const bt of list) {
+    if (bt.type === 'payout') continue; // the payout itself
+    const piId = bt.type === 'charge' || bt.type === 'payment' ? paymentIntentOf(bt.source) : null;
+    const donationId = piId ? await recordStripeFees(piId, feesFromBalanceTransaction(bt), { payoutId: payout.id, paidOutAt }) : null;
+    if (piId && donationId) {
+      const campaignId = (await adminDb.collection(DONATIONS_COLLECTION).doc(donationId).get()).data()?.campaignId;
+      donations.push({
+        donationId,
+        campaignId: String(campaignId || ''),
+        paymentIntentId: piId,
+        gross: signed(bt.amount, currency),
+        fee: signed(bt.fee, currency),
+        net: signed(bt.net, currency),
+      });
+    } else {
+      other.push({ balanceTransactionId: bt.id, type: bt.type, net: signed(bt.net, currency), description: bt.description || undefined });
+    }
+  }
+
+  const sum = (xs: number[]) => roundMoney(xs.reduce((s, n) => s + n, 0));
+  const now = Date.now();
+  const ref = adminDb.collection(STRIPE_PAYOUTS_COLLECTION).doc(payout.id);
+  const prev = await ref.get();
+  const record: StripePayout = {
+    id: payout.id,
+    amount: minorToMajor(payout.amount, currency),
+    currency,
+    arrivalDate: paidOutAt,
+    status: payout.status,
+    donations,
+    other,
+    totals: {
+      gross: sum(donations.map((d) => d.gross)),
+      fees: sum(donations.map((d) => d.fee)),
+      net: sum(donations.map((d) => d.net)),
+      other: sum(other.map((o) => o.net)),
+    },
+    createdAt: Number(prev.data()?.createdAt || now),
+    updatedAt: now,
+  };
+  await ref.set(record);
+  return record;
+}
+
+/** Recent payouts, newest first (without their line items). */
+export async function listPayouts(limit = 50) {
+  const snap = await adminDb.collection(STRIPE_PAYOUTS_COLLECTION).orderBy('arrivalDate', 'desc').limit(limit).get();
+  return snap.docs.map((d) => {
+    const p = { ...(d.data() as StripePayout), id: d.id };
+    return { ...p, donationsCount: p.donations.length, donations: [], other: [] };
+  });
+}
+
+/** One payout with the donations it paid out. */
+export async function payoutDetail(id: string) {
+  const snap = await adminDb.collection(STRIPE_PAYOUTS_COLLECTION).doc(id).get();
+  if (!snap.exists) throw Object.assign(new Error('Payout not found'), { code: 404 });
+  const payout = { ...(snap.data() as StripePayout), id: snap.id };
+
+  const refs = payout.donations.map((d) => adminDb.collection(DONATIONS_COLLECTION).doc(d.donationId));
+  const docs = refs.length ? await adminDb.getAll(...refs) : [];
+  const campaignIds = Array.from(new Set(payout.donations.map((d) => d.campaignId).filter(Boolean)));
+  const campaigns = campaignIds.length
+    ? await adminDb.getAll(...campaignIds.map((c) => adminDb.collection(CAMPAIGNS_COLLECTION).doc(c)))
+    : [];
+  const titles = new Map(campaigns.map((c) => [c.id, String(c.data()?.title_ar || c.id)]));
+
+  return {
+    ...payout,
+    donations: payout.donations.map((line, i) => {
+      const d = (docs[i]?.data() || {}) as Partial<Donation>;
+      return {
+        ...line,
+        campaignTitle: titles.get(line.campaignId) || line.campaignId,
+        donorName: d.isAnonymous ? '' : String(d.donorName || ''),
+        createdAt: Number(d.createdAt || 0),
+        amount: Number(d.amount || 0),
+        currency: String(d.currency || ''),
+      };
+    }),
+  };
+}
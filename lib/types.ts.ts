@@ -15,6 +15,9 @@ export type JoinApplication = {
   stripeCustomerId?: string;
   stripeCheckoutSessionId?: string;
   stripeSubscriptionId?: string;
+
+  // PayPal linkage (monthly via PayPal)
+  paypalSubscriptionId?: string;
 };
 
 export type Member = {
@@ -29,6 +32,7 @@ export type Member = {
 
   stripeCustomerId?: string;
   stripeSubscriptionId?: string;
+  paypalSubscriptionId?: string;
   lastPaymentAt?: FirebaseFirestore.Timestamp | null;
   currentPeriodEnd?: FirebaseFirestore.Timestamp | null;
 };
@@ -1,3 +1,7 @@
+// Sites allowed to frame the campaign widget (/embed/...), space-separated CSP
+// sources, e.g. "https://partner.org https://*.example.com". Any site by default.
+const EMBED_FRAME_ANCESTORS = process.env.EMBED_FRAME_ANCESTORS || '*';
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
@@ -37,6 +41,28 @@ const nextConfig = {
           // If you add a CSP here, make sure to include all domains your app needs (Stripe/PayPal/CDNs).
         ],
       },
+      {
+        // Everything except the widget may only be framed by our own pages
+        source: '/((?!embed/).*)',
+        headers: [
+          { key: 'X-Frame-Options', value: 'SAMEORIGIN' },
+          { key: 'Content-Security-Policy', value: "frame-ancestors 'self'" },
+        ],
+      },
+      {
+        // Campaign widget: framed by partner sites; it only links out, never posts forms
+        source: '/embed/:path*',
+        headers: [
+          {
+            key: 'Content-Security-Policy',
+            value: `frame-ancestors ${EMBED_FRAME_ANCESTORS}; form-action 'none'; base-uri 'self'; object-src 'none'`,
+          },
+        ],
+      },
+      {
+        source: '/embed.js',
+        headers: [{ key: 'Cache-Control', value: 'public, max-age=3600' }],
+      },
     ];
   },
 };
@@ -0,0 +1,159 @@
+// pages/account/household.tsx
+import React from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { useSession } from 'next-auth/react';
+import Layout from '../../components/Layout';
+import type { Dependant, DependantRelation } from '@/types/membership';
+
+/** A row of the form; ages are typed as text and sent as numbers. */
+type Row = { id?: string; fullName: string; relation: DependantRelation; age: string };
+
+const RELATIONS: Array<{ value: DependantRelation; label: string }> = [
+  { value: 'spouse', label: 'Spouse / الزوج أو الزوجة' },
+  { value: 'child', label: 'Child / ابن أو ابنة' },
+];
+
+const toRow = (d: Dependant): Row => ({ id: d.id, fullName: d.fullName, relation: d.relation, age: d.age == null ? '' : String(d.age) });
+
+/** The signed-in member's household (`?id=` member): the dependants their household plan covers. */
+export default function HouseholdPage() {
+  const router = useRouter();
+  const { status } = useSession();
+  const [rows, setRows] = React.useState<Row[] | null>(null);
+  const [limit, setLimit] = React.useState(0);
+  const [busy, setBusy] = React.useState(false);
+  const [err, setErr] = React.useState<string | null>(null);
+  const [saved, setSaved] = React.useState(false);
+
+  const id = String(router.query.id || '');
+
+  React.useEffect(() => {
+    if (status === 'unauthenticated') router.replace('/account/login');
+    if (status !== 'authenticated' || !router.isReady) return;
+    fetch(`/api/account/household?id=${encodeURIComponent(id)}`)
+      .then(async (r) => {
+        const j = await r.json().catch(() => null);
+        if (!r.ok || j?.ok === false) throw new Error(j?.error || `HTTP ${r.status}`);
+        setRows((j.dependants as Dependant[]).map(toRow));
+        setLimit(Number(j.limit) || 0);
+      })
+      .catch((e: unknown) => setErr((e as Error)?.message || String(e)));
+  }, [status, router, id]);
+
+  const update = (i: number, patch: Partial<Row>) => {
+    setSaved(false);
+    setRows((rs) => (rs ? rs.map((r, j) => (j === i ? { ...r, ...patch } : r)) : rs));
+  };
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!rows) return;
+    setBusy(true); setErr(null); setSaved(false);
+    try {
+      const r = await fetch('/api/account/household', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id,
+          dependants: rows.map((d) => ({ ...d, age: d.age.trim() === '' ? null : Number(d.age) })),
+        }),
+      });
+      const j = await r.json().catch(() => null);
+      if (!r.ok || j?.ok === false) throw new Error(j?.error || `HTTP ${r.status}`);
+      setRows((j.dependants as Dependant[]).map(toRow));
+      setSaved(true);
+    } catch (e: unknown) {
+      setErr((e as Error)?.message || String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const btn = 'rounded-xl border px-3 py-1.5 text-sm hover:bg-neutral-50';
+  const input = 'w-full rounded-xl border border-neutral-300 px-3 py-2 text-sm';
+
+  return (
+    <Layout>
+      <Head>
+        <title>Household / الأسرة</title>
+        <meta name="robots" content="noindex" />
+      </Head>
+      <main className="container mx-auto px-4 py-10">
+        <div className="mx-auto max-w-2xl space-y-4">
+          <h1 className="text-2xl font-bold">Household / الأسرة</h1>
+          {err && <div className="rounded-xl border bg-red-50 p-3 text-sm text-red-700">{err}</div>}
+          {!rows && !err && <p className="text-neutral-600">Loading… / جارٍ التحميل…</p>}
+
+          {rows && !limit && (
+            <p className="rounded-xl border bg-amber-50 p-3 text-sm text-amber-800">
+              This membership is not on a household plan. / هذه العضوية ليست ضمن خطة عائلية.
+            </p>
+          )}
+
+          {rows && limit > 0 && (
+            <form onSubmit={save} className="rounded-2xl border bg-white p-4 space-y-4">
+              <p className="text-sm text-neutral-600">
+                Your plan covers up to {limit} household members. Each gets their own membership card. / تغطي خطتك حتى {limit} من
+                أفراد الأسرة، ولكلٍّ منهم بطاقة عضوية خاصة.
+              </p>
+              {rows.map((d, i) => (
+                <div key={d.id || `new-${i}`} className="grid gap-2 sm:grid-cols-[1fr_12rem_5rem_auto] items-end">
+                  <label className="block text-xs text-neutral-600">
+                    Full name / الاسم الكامل
+                    <input className={input} value={d.fullName} onChange={(e) => update(i, { fullName: e.target.value })} required />
+                  </label>
+                  <label className="block text-xs text-neutral-600">
+                    Relation / صلة القرابة
+                    <select className={input} value={d.relation} onChange={(e) => update(i, { relation: e.target.value as DependantRelation })}>
+                      {RELATIONS.map((r) => <option key={r.value} value={r.value}>{r.label}</option>)}
+                    </select>
+                  </label>
+                  <label className="block text-xs text-neutral-600">
+                    Age / العمر
+                    <input className={input} type="number" min={0} max={120} value={d.age} onChange={(e) => update(i, { age: e.target.value })} />
+                  </label>
+                  <button
+                    type="button"
+                    className={`${btn} text-red-700`}
+                    onClick={() => { setSaved(false); setRows(rows.filter((_, j) => j !== i)); }}
+                  >
+                    Remove / حذف
+                  </button>
+                </div>
+              ))}
+              <div className="flex flex-wrap items-center gap-2">
+                {rows.length < limit && (
+                  <button
+                    type="button"
+                    className={btn}
+                    onClick={() => { setSaved(false); setRows([...rows, { fullName: '', relation: rows.length ? 'child' : 'spouse', age: '' }]); }}
+                  >
+                    Add a household member / إضافة فرد
+                  </button>
+                )}
+                <button className="rounded-xl bg-palestine-green px-4 py-1.5 text-sm font-semibold text-white disabled:opacity-60" disabled={busy}>
+                  {busy ? 'Saving… / جارٍ الحفظ…' : 'Save / حفظ'}
+                </button>
+                {saved && <span className="text-sm text-emerald-700">Saved / تم الحفظ</span>}
+              </div>
+              <p className="text-xs text-neutral-500">
+                Removing someone cancels their card. / حذف أي فرد يلغي بطاقته.
+              </p>
+            </form>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            {limit > 0 && (
+              <Link href={`/account/membership-card?id=${encodeURIComponent(id)}`} className={btn}>
+                Membership cards / بطاقات العضوية
+              </Link>
+            )}
+            <Link href="/account" className={btn}>My account / حسابي</Link>
+          </div>
+        </div>
+      </main>
+    </Layout>
+  );
+}
@@ -0,0 +1,336 @@
+// pages/account/index.tsx
+import React from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { useSession, signOut } from 'next-auth/react';
+import Layout from '../../components/Layout';
+import type { AccountDonation, AccountFundraiser, AccountMembership } from '@/lib/donorAccount';
+import type { RecurringDonation } from '@/types/donations';
+
+type Lang = 'en' | 'ar';
+
+type Overview = {
+  email: string;
+  donations: AccountDonation[];
+  recurring: RecurringDonation[];
+  memberships: AccountMembership[];
+  fundraisers: AccountFundraiser[];
+  statementYears: number[]; // UK tax years (by starting year) with confirmed donations
+};
+
+async function postJSON<T>(url: string, body: unknown): Promise<T> {
+  const r = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+  const j = await r.json().catch(() => null);
+  if (!r.ok || j?.ok === false) throw new Error(j?.error || `HTTP ${r.status}`);
+  return j as T;
+}
+
+const tr = (lang: Lang) => ({
+  title: lang === 'en' ? 'My account' : 'حسابي',
+  signedInAs: lang === 'en' ? 'Signed in as' : 'مسجّل باسم',
+  signOut: lang === 'en' ? 'Sign out' : 'تسجيل الخروج',
+  loading: lang === 'en' ? 'Loading…' : 'جارٍ التحميل…',
+  donations: lang === 'en' ? 'My donations' : 'تبرعاتي',
+  noDonations: lang === 'en' ? 'No donations linked to this email yet.' : 'لا توجد تبرعات مرتبطة بهذا البريد بعد.',
+  date: lang === 'en' ? 'Date' : 'التاريخ',
+  campaign: lang === 'en' ? 'Campaign' : 'الحملة',
+  amount: lang === 'en' ? 'Amount' : 'المبلغ',
+  status: lang === 'en' ? 'Status' : 'الحالة',
+  receipt: lang === 'en' ? 'Receipt' : 'الإيصال',
+  download: 'PDF',
+  statements: lang === 'en' ? 'Yearly giving statements' : 'كشوف التبرعات السنوية',
+  statementsNote:
+    lang === 'en'
+      ? 'One PDF per UK tax year (6 April – 5 April), net of refunds.'
+      : 'ملف PDF لكل سنة ضريبية في المملكة المتحدة (6 أبريل – 5 أبريل)، بعد خصم المبالغ المستردة.',
+  monthly: lang === 'en' ? 'monthly' : 'شهري',
+  recurring: lang === 'en' ? 'Monthly gifts' : 'التبرعات الشهرية',
+  noRecurring: lang === 'en' ? 'No monthly gifts.' : 'لا توجد تبرعات شهرية.',
+  perMonth: lang === 'en' ? '/ month' : '/ شهريًا',
+  manage: lang === 'en' ? 'Manage (card, cancel)' : 'إدارة (البطاقة، الإلغاء)',
+  fundraisers: lang === 'en' ? 'My fundraisers' : 'صفحات جمع التبرعات الخاصة بي',
+  raisedOf: lang === 'en' ? 'raised of' : 'من أصل',
+  view: lang === 'en' ? 'View' : 'عرض',
+  edit: lang === 'en' ? 'Edit' : 'تعديل',
+  membership: lang === 'en' ? 'Membership' : 'العضوية',
+  noMembership: lang === 'en' ? 'No membership linked to this email.' : 'لا توجد عضوية مرتبطة بهذا البريد.',
+  renews: lang === 'en' ? 'Renews' : 'التجديد',
+  card: lang === 'en' ? 'Membership card' : 'بطاقة العضوية',
+  household: lang === 'en' ? 'Household' : 'الأسرة',
+  cancel: lang === 'en' ? 'Cancel' : 'إلغاء',
+  pause: lang === 'en' ? 'Pause' : 'إيقاف مؤقت',
+  resume: lang === 'en' ? 'Resume' : 'استئناف',
+  confirmCancel: lang === 'en' ? 'Cancel this PayPal subscription?' : 'هل تريد إلغاء اشتراك PayPal هذا؟',
+  statuses: {
+    pending: lang === 'en' ? 'Pending' : 'قيد المعالجة',
+    confirmed: lang === 'en' ? 'Confirmed' : 'مؤكد',
+    refunded: lang === 'en' ? 'Refunded' : 'مسترد',
+    failed: lang === 'en' ? 'Failed' : 'فشل',
+    active: lang === 'en' ? 'Active' : 'فعّال',
+    past_due: lang === 'en' ? 'Payment due' : 'دفعة متأخرة',
+    canceled: lang === 'en' ? 'Ended' : 'منتهٍ',
+    inactive: lang === 'en' ? 'Paused' : 'موقوف',
+    hidden: lang === 'en' ? 'Hidden' : 'مخفية',
+  } as Record<string, string>,
+});
+
+function money(n: number, ccy: string) {
+  try {
+    return new Intl.NumberFormat('en-GB', { style: 'currency', currency: (ccy || 'GBP').toUpperCase() }).format(n || 0);
+  } catch {
+    return `${(n || 0).toFixed(2)} ${ccy}`;
+  }
+}
+
+const day = (ms?: number | null) => (ms ? new Date(ms).toLocaleDateString('en-GB') : '—');
+
+export default function AccountPage() {
+  const router = useRouter();
+  const { status } = useSession();
+  const [lang, setLang] = React.useState<Lang>('en');
+  const t = React.useMemo(() => tr(lang), [lang]);
+  const [data, setData] = React.useState<Overview | null>(null);
+  const [err, setErr] = React.useState<string | null>(null);
+  const [busy, setBusy] = React.useState<string | null>(null);
+
+  const load = React.useCallback(async () => {
+    setErr(null);
+    try {
+      const r = await fetch('/api/account/overview');
+      const j = await r.json().catch(() => null);
+      if (!r.ok || j?.ok === false) throw new Error(j?.error || `HTTP ${r.status}`);
+      setData(j as Overview);
+    } catch (e: unknown) {
+      setErr((e as Error)?.message || String(e));
+    }
+  }, []);
+
+  React.useEffect(() => {
+    if (status === 'unauthenticated') router.replace('/account/login');
+    if (status === 'authenticated') load();
+  }, [status, router, load]);
+
+  const openPortal = async (customerId: string) => {
+    setBusy(customerId);
+    setErr(null);
+    try {
+      const j = await postJSON<{ url: string }>('/api/account/billing-portal', { customerId });
+      window.location.href = j.url;
+    } catch (e: unknown) {
+      setErr((e as Error)?.message || String(e));
+      setBusy(null);
+    }
+  };
+
+  const paypalAction = async (subscriptionId: string, action: 'cancel' | 'suspend' | 'activate') => {
+    if (action === 'cancel' && !window.confirm(t.confirmCancel)) return;
+    setBusy(subscriptionId);
+    setErr(null);
+    try {
+      await postJSON('/api/account/paypal-subscription', { subscriptionId, action });
+      await load();
+    } catch (e: unknown) {
+      setErr((e as Error)?.message || String(e));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const btn = 'rounded-xl border px-3 py-1.5 text-sm hover:bg-neutral-50 disabled:opacity-50';
+
+  return (
+    <Layout>
+      <Head><title>{t.title}</title></Head>
+      <main dir={lang === 'ar' ? 'rtl' : 'ltr'} className="container mx-auto px-4 py-10">
+        <div className="mx-auto max-w-4xl space-y-6">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <h1 className="text-2xl font-bold">{t.title}</h1>
+              {data && <p className="text-sm text-neutral-600">{t.signedInAs} {data.email}</p>}
+            </div>
+            <div className="flex items-center gap-2">
+              <button onClick={() => setLang((p) => (p === 'en' ? 'ar' : 'en'))} className={btn} aria-label="Toggle language">
+                {lang === 'en' ? 'عربي' : 'English'}
+              </button>
+              <button onClick={() => signOut({ callbackUrl: '/account/login' })} className={btn}>{t.signOut}</button>
+            </div>
+          </div>
+
+          {err && <div className="rounded-xl border bg-red-50 p-3 text-sm text-red-700">{err}</div>}
+          {!data && !err && <p className="text-neutral-600">{t.loading}</p>}
+
+          {data && (
+            <>
+              {/* Donations */}
+              <section className="rounded-2xl border bg-white p-4 space-y-3">
+                <h2 className="text-lg font-semibold">{t.donations}</h2>
+                {data.donations.length ? (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b text-neutral-500 text-start">
+                          <th className="p-2 text-start">{t.date}</th>
+                          <th className="p-2 text-start">{t.campaign}</th>
+                          <th className="p-2 text-start">{t.amount}</th>
+                          <th className="p-2 text-start">{t.status}</th>
+                          <th className="p-2 text-start">{t.receipt}</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {data.donations.map((d) => (
+                          <tr key={d.id} className="border-b last:border-0">
+                            <td className="p-2 whitespace-nowrap">{day(d.confirmedAt || d.createdAt)}</td>
+                            <td className="p-2">
+                              {d.campaignTitle || d.campaignId}
+                              {d.recurring && <span className="ms-2 text-xs text-neutral-500">({t.monthly})</span>}
+                            </td>
+                            <td className="p-2 whitespace-nowrap">{money(d.amount, d.currency)}</td>
+                            <td className="p-2">{t.statuses[d.status] || d.status}</td>
+                            <td className="p-2">
+                              {(d.status === 'confirmed' || d.status === 'refunded') && (
+                                <a href={`/api/account/receipt?id=${encodeURIComponent(d.id)}`} className="text-palestine-green underline">
+                                  {t.download}
+                                </a>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ) : (
+                  <p className="text-sm text-neutral-500">{t.noDonations}</p>
+                )}
+              </section>
+
+              {/* Yearly statements */}
+              {data.statementYears.length > 0 && (
+                <section className="rounded-2xl border bg-white p-4 space-y-3">
+                  <h2 className="text-lg font-semibold">{t.statements}</h2>
+                  <p className="text-sm text-neutral-600">{t.statementsNote}</p>
+                  <div className="flex flex-wrap gap-2">
+                    {data.statementYears.map((y) => (
+                      <a key={y} href={`/api/account/statement?year=${y}`} className={btn}>
+                        {y}–{String(y + 1).slice(2)}
+                      </a>
+                    ))}
+                  </div>
+                </section>
+              )}
+
+              {/* Monthly gifts */}
+              <section className="rounded-2xl border bg-white p-4 space-y-3">
+                <h2 className="text-lg font-semibold">{t.recurring}</h2>
+                {data.recurring.length ? (
+                  <ul className="divide-y">
+                    {data.recurring.map((r) => (
+                      <li key={r.id} className="py-2 flex flex-wrap items-center justify-between gap-2 text-sm">
+                        <span>
+                          {money(r.amount, r.currency)} {t.perMonth} · {t.statuses[r.status] || r.status}
+                          {r.lastPaidAt ? ` · ${day(r.lastPaidAt)}` : ''}
+                        </span>
+                        {r.status !== 'canceled' && r.customerId && (
+                          <button className={btn} disabled={busy === r.customerId} onClick={() => openPortal(String(r.customerId))}>
+                            {t.manage}
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-neutral-500">{t.noRecurring}</p>
+                )}
+              </section>
+
+              {/* Fundraiser pages */}
+              {data.fundraisers.length > 0 && (
+                <section className="rounded-2xl border bg-white p-4 space-y-3">
+                  <h2 className="text-lg font-semibold">{t.fundraisers}</h2>
+                  <ul className="divide-y">
+                    {data.fundraisers.map((f) => (
+                      <li key={f.id} className="py-2 flex flex-wrap items-center justify-between gap-2 text-sm">
+                        <span>
+                          <b>{f.title}</b> · {f.campaignTitle} · {t.statuses[f.status] || f.status}
+                          <br />
+                          {money(f.totalRaised, f.currency)} {t.raisedOf} {money(f.goalAmount, f.currency)}
+                        </span>
+                        <span className="flex items-center gap-2">
+                          {f.status === 'active' && (
+                            <a href={`/donate/${encodeURIComponent(f.campaignSlug)}/f/${encodeURIComponent(f.slug)}`} className={btn}>
+                              {t.view}
+                            </a>
+                          )}
+                          <a href={`/donate/${encodeURIComponent(f.campaignSlug)}/f/start?id=${encodeURIComponent(f.id)}`} className={btn}>
+                            {t.edit}
+                          </a>
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              )}
+
+              {/* Membership */}
+              <section className="rounded-2xl border bg-white p-4 space-y-3">
+                <h2 className="text-lg font-semibold">{t.membership}</h2>
+                {data.memberships.length ? (
+                  <ul className="divide-y">
+                    {data.memberships.map((m) => (
+                      <li key={m.id} className="py-2 flex flex-wrap items-center justify-between gap-2 text-sm">
+                        <span>
+                          {m.membershipPlan || '—'} · {t.statuses[m.status] || m.status}
+                          {m.currentPeriodEnd ? ` · ${t.renews} ${day(m.currentPeriodEnd)}` : ''}
+                          {m.household ? ` · ${t.household} (${m.dependants})` : ''}
+                        </span>
+                        <span className="flex items-center gap-2">
+                          {m.status === 'active' && (
+                            <Link href={`/account/membership-card?id=${encodeURIComponent(m.id)}`} className={btn}>
+                              {t.card}
+                            </Link>
+                          )}
+                          {m.household && (
+                            <Link href={`/account/household?id=${encodeURIComponent(m.id)}`} className={btn}>
+                              {t.household}
+                            </Link>
+                          )}
+                          {m.provider === 'stripe' && m.stripeCustomerId && (
+                            <button className={btn} disabled={busy === m.stripeCustomerId} onClick={() => openPortal(String(m.stripeCustomerId))}>
+                              {t.manage}
+                            </button>
+                          )}
+                          {m.provider === 'paypal' && m.paypalSubscriptionId && m.status !== 'canceled' && (
+                            <>
+                              {m.status === 'inactive' ? (
+                                <button className={btn} disabled={!!busy} onClick={() => paypalAction(String(m.paypalSubscriptionId), 'activate')}>
+                                  {t.resume}
+                                </button>
+                              ) : (
+                                <button className={btn} disabled={!!busy} onClick={() => paypalAction(String(m.paypalSubscriptionId), 'suspend')}>
+                                  {t.pause}
+                                </button>
+                              )}
+                              <button
+                                className={`${btn} text-red-700`}
+                                disabled={!!busy}
+                                onClick={() => paypalAction(String(m.paypalSubscriptionId), 'cancel')}
+                              >
+                                {t.cancel}
+                              </button>
+                            </>
+                          )}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-neutral-500">{t.noMembership}</p>
+                )}
+              </section>
+            </>
+          )}
+        </div>
+      </main>
+    </Layout>
+  );
+}
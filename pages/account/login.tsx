@@ -0,0 +1,96 @@
+// pages/account/login.tsx
+import React from 'react';
+import Head from 'next/head';
+import Layout from '../../components/Layout';
+
+type Lang = 'en' | 'ar';
+
+const tr = (lang: Lang) => ({
+  title: lang === 'en' ? 'My donor account' : 'حساب المتبرع',
+  intro:
+    lang === 'en'
+      ? 'Enter the email you used when donating or joining. We will send you a sign-in link — no password needed.'
+      : 'أدخل البريد الإلكتروني الذي استخدمته عند التبرع أو الانضمام، وسنرسل لك رابط دخول دون كلمة مرور.',
+  email: lang === 'en' ? 'Email address' : 'البريد الإلكتروني',
+  send: lang === 'en' ? 'Email me a sign-in link' : 'أرسل لي رابط الدخول',
+  sending: lang === 'en' ? 'Sending…' : 'جارٍ الإرسال…',
+  sent:
+    lang === 'en'
+      ? 'Check your inbox: the link works once and expires in 15 minutes.'
+      : 'تحقق من بريدك: الرابط صالح لمرة واحدة ولمدة 15 دقيقة.',
+});
+
+export default function AccountLogin() {
+  const [lang, setLang] = React.useState<Lang>('en');
+  const t = React.useMemo(() => tr(lang), [lang]);
+  const [email, setEmail] = React.useState('');
+  const [busy, setBusy] = React.useState(false);
+  const [sent, setSent] = React.useState(false);
+  const [err, setErr] = React.useState<string | null>(null);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setErr(null);
+    try {
+      const r = await fetch('/api/account/request-link', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email }),
+      });
+      const j = await r.json().catch(() => null);
+      if (!r.ok || j?.ok === false) throw new Error(j?.error || `HTTP ${r.status}`);
+      setSent(true);
+    } catch (e: unknown) {
+      setErr((e as Error)?.message || String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Layout>
+      <Head><title>{t.title}</title></Head>
+      <main dir={lang === 'ar' ? 'rtl' : 'ltr'} className="container mx-auto px-4 py-12">
+        <div className="mx-auto max-w-md rounded-2xl border bg-white p-6 space-y-4">
+          <div className="flex items-center justify-between gap-3">
+            <h1 className="text-2xl font-bold">{t.title}</h1>
+            <button
+              onClick={() => setLang((p) => (p === 'en' ? 'ar' : 'en'))}
+              className="rounded-xl ring-1 ring-neutral-200 px-3 py-1.5 text-sm hover:bg-neutral-50"
+              aria-label="Toggle language"
+            >
+              {lang === 'en' ? 'عربي' : 'English'}
+            </button>
+          </div>
+          <p className="text-sm text-neutral-600">{t.intro}</p>
+
+          {sent ? (
+            <div className="rounded-xl border bg-emerald-50 p-3 text-emerald-800 text-sm">{t.sent}</div>
+          ) : (
+            <form onSubmit={submit} className="space-y-3">
+              <input
+                type="email"
+                required
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="w-full rounded-xl border p-2"
+                placeholder={t.email}
+                aria-label={t.email}
+                autoComplete="email"
+              />
+              <button
+                type="submit"
+                disabled={busy}
+                className="w-full rounded-xl bg-palestine-green text-white py-2.5 font-semibold hover:opacity-90 disabled:opacity-60"
+              >
+                {busy ? t.sending : t.send}
+              </button>
+            </form>
+          )}
+          {err && <div className="text-sm text-red-600">{err}</div>}
+        </div>
+      </main>
+    </Layout>
+  );
+}
@@ -0,0 +1,118 @@
+// pages/account/membership-card.tsx
+import React from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { useSession } from 'next-auth/react';
+import Layout from '../../components/Layout';
+import type { MembershipCard } from '@/lib/membershipCard';
+
+const TIERS: Record<string, string> = { silver: 'Silver / فضية', gold: 'Gold / ذهبية', diamond: 'Diamond / ماسية' };
+
+const RELATIONS: Record<string, string> = { spouse: 'Spouse / الزوج أو الزوجة', child: 'Child / ابن أو ابنة' };
+
+const day = (ms?: number | null) =>
+  ms ? new Date(ms).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' }) : 'Ongoing / مستمرة';
+
+const btn = 'rounded-xl border px-3 py-1.5 text-sm hover:bg-neutral-50';
+
+function Card({ card }: { card: MembershipCard }) {
+  const pass = `/api/account/membership-pass?id=${encodeURIComponent(card.id)}${
+    card.dependantId ? `&dependant=${encodeURIComponent(card.dependantId)}` : ''
+  }`;
+  return (
+    <div className="space-y-2 print:break-inside-avoid">
+      <div className="rounded-2xl bg-palestine-green p-5 text-white shadow-card print:shadow-none">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <p className="text-xs uppercase tracking-wide text-white/80">Membership card / بطاقة العضوية</p>
+            <p className="mt-1 text-sm font-semibold">Palestinian Community Association North West</p>
+          </div>
+          <span className="rounded-full bg-white/15 px-3 py-1 text-xs font-semibold">No. {card.memberNo}</span>
+        </div>
+        <p className="mt-5 text-2xl font-bold break-words">{card.fullName}</p>
+        {card.relation && (
+          <p className="text-sm text-white/80">Household member · {RELATIONS[card.relation]} / فرد من الأسرة</p>
+        )}
+        <div className="mt-3 grid grid-cols-2 gap-3 text-sm">
+          <div>
+            <p className="text-xs text-white/70">Tier / الفئة</p>
+            <p className="font-semibold">
+              {card.tier ? TIERS[card.tier] : card.membershipPlan === 'once' ? 'One-off / لمرة واحدة' : 'Member / عضو'}
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-white/70">Valid until / صالحة حتى</p>
+            <p className="font-semibold">{day(card.validUntil)}</p>
+          </div>
+        </div>
+        <div className="mt-5 flex justify-center">
+          {/* SVG made server-side by the qrcode package from our own verify URL */}
+          <div
+            className="w-44 rounded-xl bg-white p-2"
+            aria-label="Verification QR code"
+            dangerouslySetInnerHTML={{ __html: card.qrSvg }}
+          />
+        </div>
+        <p className="mt-2 text-center text-xs text-white/80">Scan to verify / امسح للتحقق</p>
+      </div>
+      {card.walletPass && (
+        <div className="flex justify-center print:hidden">
+          <a href={pass} className={btn}>Add to Wallet / أضف إلى المحفظة</a>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * The signed-in member's digital card (`?id=` member), to show at events or
+ * print, followed by the cards of their household members.
+ */
+export default function MembershipCardPage() {
+  const router = useRouter();
+  const { status } = useSession();
+  const [card, setCard] = React.useState<MembershipCard | null>(null);
+  const [household, setHousehold] = React.useState<MembershipCard[]>([]);
+  const [err, setErr] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    if (status === 'unauthenticated') router.replace('/account/login');
+    if (status !== 'authenticated' || !router.isReady) return;
+    const id = String(router.query.id || '');
+    fetch(`/api/account/membership-card?id=${encodeURIComponent(id)}`)
+      .then(async (r) => {
+        const j = await r.json().catch(() => null);
+        if (!r.ok || j?.ok === false) throw new Error(j?.error || `HTTP ${r.status}`);
+        setCard(j.card as MembershipCard);
+        setHousehold(Array.isArray(j.household) ? (j.household as MembershipCard[]) : []);
+      })
+      .catch((e: unknown) => setErr((e as Error)?.message || String(e)));
+  }, [status, router]);
+
+  return (
+    <Layout>
+      <Head>
+        <title>Membership card / بطاقة العضوية</title>
+        <meta name="robots" content="noindex" />
+      </Head>
+      <main className="container mx-auto px-4 py-10">
+        <div className="mx-auto max-w-md space-y-4">
+          {err && <div className="rounded-xl border bg-red-50 p-3 text-sm text-red-700">{err}</div>}
+          {!card && !err && <p className="text-neutral-600">Loading… / جارٍ التحميل…</p>}
+
+          {card && (
+            <>
+              {[card, ...household].map((c) => <Card key={c.dependantId || c.id} card={c} />)}
+
+              <div className="flex flex-wrap items-center justify-center gap-2 print:hidden">
+                <button className={btn} onClick={() => window.print()}>Print / طباعة</button>
+                <Link href="/account" className={btn}>My account / حسابي</Link>
+              </div>
+            </>
+          )}
+        </div>
+      </main>
+    </Layout>
+  );
+}
@@ -0,0 +1,42 @@
+// pages/account/verify.tsx
+import React from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { signIn } from 'next-auth/react';
+import Layout from '../../components/Layout';
+
+/** Landing page of the emailed link: trades the one-time token for a session. */
+export default function AccountVerify() {
+  const router = useRouter();
+  const [failed, setFailed] = React.useState(false);
+  const started = React.useRef(false);
+
+  React.useEffect(() => {
+    if (!router.isReady || started.current) return;
+    started.current = true; // the token works once; never submit it twice
+    const token = String(router.query.token || '');
+    signIn('donor-link', { token, redirect: false }).then((r) => {
+      if (r?.ok && !r.error) router.replace('/account');
+      else setFailed(true);
+    });
+  }, [router]);
+
+  return (
+    <Layout>
+      <Head><title>Signing in…</title></Head>
+      <main className="container mx-auto px-4 py-12">
+        <div className="mx-auto max-w-md rounded-2xl border bg-white p-6 space-y-3 text-center">
+          {failed ? (
+            <>
+              <p className="text-red-700">This sign-in link is invalid or has expired. / الرابط غير صالح أو منتهي الصلاحية.</p>
+              <Link href="/account/login" className="text-palestine-green underline">Request a new link / اطلب رابطًا جديدًا</Link>
+            </>
+          ) : (
+            <p className="text-neutral-600">Signing you in… / جارٍ تسجيل الدخول…</p>
+          )}
+        </div>
+      </main>
+    </Layout>
+  );
+}
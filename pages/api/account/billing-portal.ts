@@ -0,0 +1,36 @@
+// pages/api/account/billing-portal.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/authOptions';
+import { stripe, SITE_URL } from '@/lib/stripe';
+import { accountEmail, accountStripeCustomers } from '@/lib/donorAccount';
+
+/**
+ * POST `{ customerId }` → Stripe billing portal URL (cancel, change card, invoices)
+ * for a monthly gift or membership. The customer must belong to the signed-in account.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ ok: false, error: 'Method Not Allowed' });
+  }
+  const email = accountEmail(await getServerSession(req, res, authOptions));
+  if (!email) return res.status(401).json({ ok: false, error: 'Unauthorized' });
+
+  try {
+    const customerId = String(req.body?.customerId || '');
+    const allowed = await accountStripeCustomers(email);
+    if (!customerId || !allowed.has(customerId)) {
+      return res.status(403).json({ ok: false, error: 'Not your subscription' });
+    }
+
+    const portal = await stripe.billingPortal.sessions.create({
+      customer: customerId,
+      return_url: `${SITE_URL.replace(/\/$/, '')}/account`,
+    });
+    return res.status(200).json({ ok: true, url: portal.url });
+  } catch (e: unknown) {
+    console.error('account billing-portal error', (e as Error)?.message);
+    return res.status(500).json({ ok: false, error: (e as Error)?.message || 'Stripe error' });
+  }
+}
@@ -0,0 +1,37 @@
+// pages/api/account/household.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/authOptions';
+import { accountEmail, accountMember } from '@/lib/donorAccount';
+import { saveHousehold } from '@/lib/membership';
+import { householdLimit } from '@/lib/membershipPlans';
+
+/**
+ * The dependants on one of the signed-in member's memberships.
+ * GET `?id=` → `{ dependants, limit }` (limit 0: not a household plan);
+ * POST `{ id, dependants: [{ id?, fullName, relation, age? }] }` replaces the list.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', ['GET', 'POST']);
+    return res.status(405).json({ ok: false, error: 'Method Not Allowed' });
+  }
+  const email = accountEmail(await getServerSession(req, res, authOptions));
+  if (!email) return res.status(401).json({ ok: false, error: 'Unauthorized' });
+
+  try {
+    const id = String((req.method === 'GET' ? req.query.id : (req.body as { id?: string } | undefined)?.id) || '');
+    const member = await accountMember(email, id);
+    if (!member) return res.status(404).json({ ok: false, error: 'Not found' });
+
+    const limit = await householdLimit(member.planId);
+    const dependants = req.method === 'POST' ? await saveHousehold(id, member, req.body) : member.dependants || [];
+    res.setHeader('Cache-Control', 'private, no-store');
+    return res.status(200).json({ ok: true, dependants, limit });
+  } catch (e: unknown) {
+    const err = e as { code?: number; message?: string };
+    const code = err?.code === 400 ? 400 : 500;
+    if (code === 500) console.error('account household error', err?.message);
+    return res.status(code).json({ ok: false, error: err?.message || 'Server error' });
+  }
+}
@@ -0,0 +1,33 @@
+// pages/api/account/membership-card.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/authOptions';
+import { accountEmail, accountMember } from '@/lib/donorAccount';
+import { householdCards } from '@/lib/membershipCard';
+
+/**
+ * GET `?id=` → the digital card (with its QR code) for one of the signed-in
+ * member's current memberships, and on a household plan one for each dependant.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ ok: false, error: 'Method Not Allowed' });
+  }
+  const email = accountEmail(await getServerSession(req, res, authOptions));
+  if (!email) return res.status(401).json({ ok: false, error: 'Unauthorized' });
+
+  try {
+    const id = String(req.query.id || '');
+    const member = await accountMember(email, id);
+    if (!member) return res.status(404).json({ ok: false, error: 'Not found' });
+
+    const [card, ...household] = await householdCards(id, member);
+    if (!card) return res.status(400).json({ ok: false, error: 'This membership is not active' });
+    res.setHeader('Cache-Control', 'private, no-store');
+    return res.status(200).json({ ok: true, card, household });
+  } catch (e: unknown) {
+    console.error('account membership card error', (e as Error)?.message);
+    return res.status(500).json({ ok: false, error: 'Server error' });
+  }
+}
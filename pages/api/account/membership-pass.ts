@@ -0,0 +1,36 @@
+// pages/api/account/membership-pass.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/authOptions';
+import { accountEmail, accountMember } from '@/lib/donorAccount';
+import { PKPASS_TYPE, cardFor, cardIsValid, membershipPass } from '@/lib/membershipCard';
+
+/** GET `?id=` (and `dependant=` for a household member's card) → the membership card as an Apple Wallet pass (.pkpass). */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ ok: false, error: 'Method Not Allowed' });
+  }
+  const email = accountEmail(await getServerSession(req, res, authOptions));
+  if (!email) return res.status(401).json({ ok: false, error: 'Unauthorized' });
+
+  try {
+    const id = String(req.query.id || '');
+    const member = await accountMember(email, id);
+    if (!member) return res.status(404).json({ ok: false, error: 'Not found' });
+
+    if (!cardIsValid(member)) return res.status(400).json({ ok: false, error: 'This membership is not active' });
+    const card = await cardFor(id, member, String(req.query.dependant || '') || null);
+    if (!card) return res.status(404).json({ ok: false, error: 'Not found' });
+    const pass = membershipPass(card);
+    res.setHeader('Content-Type', PKPASS_TYPE);
+    res.setHeader('Content-Disposition', 'attachment; filename="membership.pkpass"');
+    res.setHeader('Cache-Control', 'private, no-store');
+    return res.status(200).send(pass);
+  } catch (e: unknown) {
+    const err = e as { code?: number; message?: string };
+    if (err?.code === 503) return res.status(503).json({ ok: false, error: err.message });
+    console.error('account membership pass error', err?.message);
+    return res.status(500).json({ ok: false, error: 'Server error' });
+  }
+}
@@ -0,0 +1,38 @@
+// pages/api/account/overview.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/authOptions';
+import {
+  accountEmail,
+  accountDonations,
+  accountFundraisers,
+  accountRecurring,
+  accountMemberships,
+} from '@/lib/donorAccount';
+import { statementYears } from '@/lib/donationReceipts';
+
+/** Everything the signed-in donor sees on /account. */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ ok: false, error: 'Method Not Allowed' });
+  }
+  const email = accountEmail(await getServerSession(req, res, authOptions));
+  if (!email) return res.status(401).json({ ok: false, error: 'Unauthorized' });
+
+  try {
+    const [donations, recurring, memberships, fundraisers, years] = await Promise.all([
+      accountDonations(email),
+      accountRecurring(email),
+      accountMemberships(email),
+      accountFundraisers(email),
+      statementYears(email),
+    ]);
+    return res
+      .status(200)
+      .json({ ok: true, email, donations, recurring, memberships, fundraisers, statementYears: years });
+  } catch (e: unknown) {
+    console.error('account overview error', (e as Error)?.message);
+    return res.status(500).json({ ok: false, error: 'Server error' });
+  }
+}
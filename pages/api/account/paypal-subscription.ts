@@ -0,0 +1,45 @@
+// pages/api/account/paypal-subscription.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/authOptions';
+import { setSubscriptionState } from '@/lib/paypal';
+import type { SubscriptionAction } from '@/lib/paypal';
+import { accountEmail, accountPayPalMember } from '@/lib/donorAccount';
+
+/** Member status right after each action; the PayPal webhook confirms it. */
+const MEMBER_STATUS: Record<SubscriptionAction, 'canceled' | 'inactive' | 'active'> = {
+  cancel: 'canceled',
+  suspend: 'inactive',
+  activate: 'active',
+};
+
+/**
+ * POST `{ subscriptionId, action: 'cancel' | 'suspend' | 'activate' }` — the local
+ * equivalent of the Stripe billing portal for PayPal memberships.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ ok: false, error: 'Method Not Allowed' });
+  }
+  const email = accountEmail(await getServerSession(req, res, authOptions));
+  if (!email) return res.status(401).json({ ok: false, error: 'Unauthorized' });
+
+  const subscriptionId = String(req.body?.subscriptionId || '');
+  const action = String(req.body?.action || '') as SubscriptionAction;
+  if (!subscriptionId || !(action in MEMBER_STATUS)) {
+    return res.status(400).json({ ok: false, error: 'subscriptionId and a valid action are required' });
+  }
+
+  try {
+    const member = await accountPayPalMember(email, subscriptionId);
+    if (!member) return res.status(403).json({ ok: false, error: 'Not your subscription' });
+
+    await setSubscriptionState(subscriptionId, action, 'Requested by the member from their account page');
+    await member.ref.update({ status: MEMBER_STATUS[action], updatedAt: new Date() });
+    return res.status(200).json({ ok: true, status: MEMBER_STATUS[action] });
+  } catch (e: unknown) {
+    console.error('account paypal-subscription error', (e as Error)?.message);
+    return res.status(500).json({ ok: false, error: (e as Error)?.message || 'PayPal error' });
+  }
+}
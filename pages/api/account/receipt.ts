@@ -0,0 +1,39 @@
+// pages/api/account/receipt.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/authOptions';
+import { adminDb } from '@/lib/firebaseAdmin';
+import { DONATIONS_COLLECTION } from '@/lib/donationLedger';
+import { accountEmail } from '@/lib/donorAccount';
+import { receiptPdf } from '@/lib/donationReceipts';
+import type { Donation } from '@/types/donations';
+
+/** GET `?id=` → PDF receipt for one of the signed-in donor's confirmed donations. */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ ok: false, error: 'Method Not Allowed' });
+  }
+  const email = accountEmail(await getServerSession(req, res, authOptions));
+  if (!email) return res.status(401).json({ ok: false, error: 'Unauthorized' });
+
+  try {
+    const id = String(req.query.id || '');
+    const snap = id ? await adminDb.collection(DONATIONS_COLLECTION).doc(id).get() : null;
+    const d = snap?.data() as Donation | undefined;
+    // Someone else's donation reads as missing
+    if (!d || d.donorEmail !== email) return res.status(404).json({ ok: false, error: 'Not found' });
+    if (d.status !== 'confirmed' && d.status !== 'refunded') {
+      return res.status(400).json({ ok: false, error: 'No receipt until the donation is confirmed' });
+    }
+
+    // Rendered fresh so later refunds show on the copy
+    const { receiptNo, pdf } = await receiptPdf(id);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${receiptNo}.pdf"`);
+    return res.status(200).send(pdf);
+  } catch (e: unknown) {
+    console.error('account receipt error', (e as Error)?.message);
+    return res.status(500).json({ ok: false, error: 'Server error' });
+  }
+}
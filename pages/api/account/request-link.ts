@@ -0,0 +1,33 @@
+// pages/api/account/request-link.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { normaliseEmail } from '@/lib/donationLedger';
+import { createLoginLink, sendLoginLink } from '@/lib/donorAuth';
+import { rateLimit } from '../_rateLimit';
+
+/**
+ * POST `{ email }` → emails a one-time sign-in link for /account.
+ * Always answers ok for a well-formed address, so it cannot be used to probe
+ * who has donated.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ ok: false, error: 'Method Not Allowed' });
+  }
+
+  const email = normaliseEmail(req.body?.email);
+  if (!email) return res.status(400).json({ ok: false, error: 'A valid email is required' });
+
+  const ip = String(req.headers['x-forwarded-for'] || req.socket.remoteAddress || '').split(',')[0].trim();
+  if (!rateLimit(`account-link:ip:${ip}`, 10, 15 * 60_000).ok || !rateLimit(`account-link:${email}`, 3, 15 * 60_000).ok) {
+    return res.status(429).json({ ok: false, error: 'Too many requests, please try again later' });
+  }
+
+  try {
+    await sendLoginLink(email, await createLoginLink(email));
+    return res.status(200).json({ ok: true });
+  } catch (e: unknown) {
+    console.error('account request-link error', (e as Error)?.message);
+    return res.status(500).json({ ok: false, error: 'Could not send the sign-in link' });
+  }
+}
@@ -0,0 +1,31 @@
+// pages/api/account/statement.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/authOptions';
+import { accountEmail } from '@/lib/donorAccount';
+import { statementPdf } from '@/lib/donationReceipts';
+
+/** GET `?year=2025` → PDF statement of the signed-in donor's giving in the tax year starting 6 April 2025. */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ ok: false, error: 'Method Not Allowed' });
+  }
+  const email = accountEmail(await getServerSession(req, res, authOptions));
+  if (!email) return res.status(401).json({ ok: false, error: 'Unauthorized' });
+
+  const year = Number(req.query.year);
+  if (!Number.isInteger(year) || year < 2000 || year > 2100) {
+    return res.status(400).json({ ok: false, error: 'year must be a tax year, e.g. 2025' });
+  }
+
+  try {
+    const pdf = await statementPdf(email, year);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="giving-statement-${year}-${String(year + 1).slice(2)}.pdf"`);
+    return res.status(200).send(pdf);
+  } catch (e: unknown) {
+    console.error('account statement error', (e as Error)?.message);
+    return res.status(500).json({ ok: false, error: 'Server error' });
+  }
+}
@@ -2,6 +2,7 @@ import type { NextApiRequest, NextApiResponse } from 'next';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/authOptions';
 import { adminDb } from '@/lib/firebaseAdmin';
+import { endRecurringDonations } from '@/lib/recurringDonations';
 
 function ensureAdmin(session: unknown) {
   const role = (session?.user as { role?: string } | undefined)?.role;
@@ -22,6 +23,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     }
 
     if (req.method === 'DELETE') {
+      await endRecurringDonations(id);
       await adminDb.collection('campaigns').doc(id).delete();
       return res.status(200).json({ ok: true });
     }
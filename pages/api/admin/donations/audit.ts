@@ -0,0 +1,35 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/authOptions';
+import { adminDb } from '@/lib/firebaseAdmin';
+import { AUDIT_COLLECTION } from '@/lib/donationLedger';
+import type { DonationAudit } from '@/types/donations';
+
+function ensureAdmin(session: unknown) {
+  const role = (session as { user?: { role?: string } } | null)?.user?.role;
+  if (!session || role !== 'admin') throw Object.assign(new Error('Unauthorized'), { code: 401 });
+}
+
+/** Refund / dispute audit trail for one campaign (newest first). */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await getServerSession(req, res, authOptions);
+  try {
+    ensureAdmin(session);
+    if (req.method !== 'GET') { res.setHeader('Allow', ['GET']); return res.status(405).json({ ok: false, error: 'Method Not Allowed' }); }
+
+    const campaignId = String(req.query.campaignId || '').trim();
+    if (!campaignId) return res.status(400).json({ ok: false, error: 'Missing campaignId' });
+
+    const snap = await adminDb
+      .collection(AUDIT_COLLECTION)
+      .where('campaignId', '==', campaignId)
+      .orderBy('createdAt', 'desc')
+      .limit(200)
+      .get();
+    const items = snap.docs.map(d => ({ ...(d.data() as DonationAudit), id: d.id }));
+    return res.status(200).json({ ok: true, items });
+  } catch (e: unknown) {
+    const err = e as { code?: number; message?: string };
+    return res.status(err?.code === 401 ? 401 : 500).json({ ok: false, error: err?.message || 'Server error' });
+  }
+}
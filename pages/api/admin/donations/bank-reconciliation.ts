@@ -0,0 +1,52 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/authOptions';
+import { parseBankStatement } from '@/lib/bankStatement';
+import { campaignReferences, confirmMatches, listReconciliations, suggestMatches } from '@/lib/bankReconciliation';
+
+export const config = { api: { bodyParser: { sizeLimit: '4mb' } } };
+
+function ensureAdmin(session: unknown) {
+  const role = (session as { user?: { role?: string } } | null)?.user?.role;
+  if (!session || role !== 'admin') throw Object.assign(new Error('Unauthorized'), { code: 401 });
+}
+
+/**
+ * Bank statement reconciliation.
+ * GET → campaigns with their bank-transfer references, and recent imports.
+ * POST `{ content, fileName, currency? }` (CSV or OFX text) → the statement's credit lines with
+ * suggested campaigns; nothing is recorded.
+ * PUT `{ fileName, format, skipped, lines: [{ transaction, campaignId, matchedBy }] }` → records the
+ * confirmed lines as confirmed bank donations and logs the import.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await getServerSession(req, res, authOptions);
+  try {
+    ensureAdmin(session);
+
+    if (req.method === 'GET') {
+      const [campaigns, items] = await Promise.all([campaignReferences(), listReconciliations()]);
+      return res.status(200).json({ ok: true, campaigns, items });
+    }
+
+    if (req.method === 'POST') {
+      const { content, currency } = req.body || {};
+      const statement = parseBankStatement(String(content || ''), String(currency || 'GBP').toUpperCase());
+      const lines = await suggestMatches(statement.transactions);
+      return res.status(200).json({ ok: true, format: statement.format, skipped: statement.skipped, lines });
+    }
+
+    if (req.method === 'PUT') {
+      const email = (session as { user?: { email?: string | null } } | null)?.user?.email || undefined;
+      const item = await confirmMatches(req.body || {}, email);
+      return res.status(200).json({ ok: true, item });
+    }
+
+    res.setHeader('Allow', ['GET', 'POST', 'PUT']);
+    return res.status(405).json({ ok: false, error: 'Method Not Allowed' });
+  } catch (e: unknown) {
+    const err = e as { code?: number; message?: string };
+    const code = err?.code === 401 || err?.code === 400 || err?.code === 404 ? err.code : 500;
+    return res.status(code).json({ ok: false, error: err?.message || 'Server error' });
+  }
+}
@@ -2,6 +2,9 @@ import type { NextApiRequest, NextApiResponse } from 'next';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/authOptions';
 import { adminDb } from '@/lib/firebaseAdmin';
+import { normalisePledges } from '@/lib/matchingPledges';
+import { normaliseMilestones } from '@/lib/campaignMilestones';
+import { assignBankReference } from '@/lib/bankReconciliation';
 
 function ensureAdmin(session: unknown) {
   const role = (session?.user as { role?: string } | undefined)?.role;
@@ -19,12 +22,18 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     const payload = {
       ...body,
       id, slug: body.slug || id,
-      totalDonated: 0, donorsCount: 0, lastDonors: [],
+      totalDonated: 0, donorsCount: 0, lastDonors: [], totalSpent: 0, spentByCategory: {},
+      matchingPledges: body.matchingPledges ? normalisePledges(body.matchingPledges, []) : [],
+      milestones: body.milestones ? normaliseMilestones(body.milestones, []) : [],
       createdAt: now(), updatedAt: now(), startAt: body.startAt || now(),
     };
+    delete payload.bankReference; // assigned below, never taken from the request
     await adminDb.collection('campaigns').doc(id).set(payload, { merge: true });
-    return res.status(200).json({ ok: true, id });
+    const bankReference = await assignBankReference(id);
+    return res.status(200).json({ ok: true, id, bankReference });
   } catch (e: unknown) {
-    return res.status(e?.code === 401 ? 401 : 500).json({ ok: false, error: e?.message || 'Server error' });
+    const err = e as { code?: number; message?: string };
+    const code = err?.code === 401 || err?.code === 400 ? err.code : 500;
+    return res.status(code).json({ ok: false, error: err?.message || 'Server error' });
   }
 }
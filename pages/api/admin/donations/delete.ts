@@ -2,6 +2,7 @@ import type { NextApiRequest, NextApiResponse } from 'next';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/authOptions';
 import { adminDb } from '@/lib/firebaseAdmin';
+import { endRecurringDonations } from '@/lib/recurringDonations';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') return res.status(405).json({ ok: false, error: 'Method not allowed' });
@@ -14,6 +15,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   const { id } = req.body || {};
   if (!id) return res.status(400).json({ ok: false, error: 'id is required' });
 
+  await endRecurringDonations(String(id));
   await adminDb.collection('campaigns').doc(String(id)).delete();
   return res.status(200).json({ ok: true });
 }
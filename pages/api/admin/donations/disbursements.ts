@@ -0,0 +1,51 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/authOptions';
+import { deleteDisbursement, listDisbursements, recordDisbursement } from '@/lib/disbursements';
+
+function ensureAdmin(session: unknown) {
+  const role = (session as { user?: { role?: string } } | null)?.user?.role;
+  if (!session || role !== 'admin') throw Object.assign(new Error('Unauthorized'), { code: 401 });
+}
+
+/**
+ * Campaign expenditure.
+ * GET `?campaignId=` → disbursements, newest first.
+ * POST `{ campaignId, amount, category, paidAt: 'YYYY-MM-DD', beneficiary, note?, receiptUrl?, receiptPath? }`
+ * (receipt uploaded first through upload-media). DELETE `?id=` removes one recorded in error.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await getServerSession(req, res, authOptions);
+  try {
+    ensureAdmin(session);
+
+    if (req.method === 'GET') {
+      const campaignId = String(req.query.campaignId || '').trim();
+      if (!campaignId) return res.status(400).json({ ok: false, error: 'campaignId is required' });
+      return res.status(200).json({ ok: true, items: await listDisbursements(campaignId) });
+    }
+
+    if (req.method === 'POST') {
+      const body = req.body || {};
+      const day = String(body.paidAt || '').trim();
+      const paidAt = /^\d{4}-\d{2}-\d{2}$/.test(day) ? Date.parse(`${day}T12:00:00Z`) : NaN;
+      const email = (session as { user?: { email?: string | null } } | null)?.user?.email || undefined;
+      const id = await recordDisbursement({ ...body, paidAt }, email);
+      return res.status(200).json({ ok: true, id });
+    }
+
+    if (req.method === 'DELETE') {
+      const id = String(req.query.id || '').trim();
+      if (!id) return res.status(400).json({ ok: false, error: 'id is required' });
+      await deleteDisbursement(id);
+      return res.status(200).json({ ok: true, id });
+    }
+
+    res.setHeader('Allow', ['GET', 'POST', 'DELETE']);
+    return res.status(405).json({ ok: false, error: 'Method Not Allowed' });
+  } catch (e: unknown) {
+    const err = e as { code?: number; message?: string };
+    const code = err?.code === 401 || err?.code === 400 || err?.code === 404 ? err.code : 500;
+    return res.status(code).json({ ok: false, error: err?.message || 'Server error' });
+  }
+}
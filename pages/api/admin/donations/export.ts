@@ -0,0 +1,36 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/authOptions';
+import { donationExportSheet, parseDonationFilters } from '@/lib/donationReports';
+import { CSV_TYPE, XLSX_TYPE, toCsv, toXlsx } from '@/lib/spreadsheet';
+
+function ensureAdmin(session: unknown) {
+  const role = (session as { user?: { role?: string } } | null)?.user?.role;
+  if (!session || role !== 'admin') throw Object.assign(new Error('Unauthorized'), { code: 401 });
+}
+
+/**
+ * Donations made between `from` and `to` (inclusive, YYYY-MM-DD), optionally
+ * narrowed by `campaignId`, `method`, `status` and `currency`, as a download:
+ * `format=csv` (default) or `format=xlsx`.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await getServerSession(req, res, authOptions);
+  try {
+    ensureAdmin(session);
+    if (req.method !== 'GET') { res.setHeader('Allow', ['GET']); return res.status(405).json({ ok: false, error: 'Method Not Allowed' }); }
+
+    const filters = parseDonationFilters(req.query);
+    const sheet = await donationExportSheet(filters);
+    const xlsx = String(req.query.format || 'csv') === 'xlsx';
+
+    const name = `donations_${filters.from}_${filters.to}.${xlsx ? 'xlsx' : 'csv'}`;
+    res.setHeader('Content-Type', xlsx ? XLSX_TYPE : CSV_TYPE);
+    res.setHeader('Content-Disposition', `attachment; filename="${name}"`);
+    return res.status(200).send(xlsx ? toXlsx([sheet]) : toCsv(sheet));
+  } catch (e: unknown) {
+    const err = e as { code?: number; message?: string };
+    const code = err?.code === 401 || err?.code === 400 ? err.code : 500;
+    return res.status(code).json({ ok: false, error: err?.message || 'Server error' });
+  }
+}
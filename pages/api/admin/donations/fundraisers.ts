@@ -0,0 +1,40 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/authOptions';
+import { listFundraisers, setFundraiserStatus } from '@/lib/fundraisers';
+import type { Fundraiser } from '@/types/donations';
+
+function ensureAdmin(session: unknown) {
+  const role = (session as { user?: { role?: string } } | null)?.user?.role;
+  if (!session || role !== 'admin') throw Object.assign(new Error('Unauthorized'), { code: 401 });
+}
+
+/**
+ * Fundraiser pages of one campaign, for review.
+ * GET `?campaignId` → every page, newest first. POST `{ id, status }` → approve (`active`) or hide a page.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await getServerSession(req, res, authOptions);
+  try {
+    ensureAdmin(session);
+
+    if (req.method === 'GET') {
+      const campaignId = String(req.query.campaignId || '').trim();
+      if (!campaignId) return res.status(400).json({ ok: false, error: 'Missing campaignId' });
+      return res.status(200).json({ ok: true, items: await listFundraisers(campaignId) });
+    }
+
+    if (req.method === 'POST') {
+      const { id, status } = req.body || {};
+      await setFundraiserStatus(String(id || ''), String(status || '') as Fundraiser['status']);
+      return res.status(200).json({ ok: true });
+    }
+
+    res.setHeader('Allow', ['GET', 'POST']);
+    return res.status(405).json({ ok: false, error: 'Method Not Allowed' });
+  } catch (e: unknown) {
+    const err = e as { code?: number; message?: string };
+    const code = err?.code === 401 || err?.code === 400 || err?.code === 404 ? err.code : 500;
+    return res.status(code).json({ ok: false, error: err?.message || 'Server error' });
+  }
+}
@@ -0,0 +1,42 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/authOptions';
+import { FX_BASE, FX_CURRENCIES, listRateTables, saveRateTable } from '@/lib/fx';
+
+function ensureAdmin(session: unknown) {
+  const role = (session as { user?: { role?: string } } | null)?.user?.role;
+  if (!session || role !== 'admin') throw Object.assign(new Error('Unauthorized'), { code: 401 });
+}
+
+/**
+ * Exchange-rate tables used to count donations in their campaign's currency.
+ * GET → tables, newest first. POST `{ effectiveFrom: 'YYYY-MM-DD', rates: { USD, EUR }, note? }`
+ * adds (or replaces) the table effective from that day; rates are per 1 GBP.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await getServerSession(req, res, authOptions);
+  try {
+    ensureAdmin(session);
+
+    if (req.method === 'GET') {
+      return res.status(200).json({ ok: true, base: FX_BASE, currencies: FX_CURRENCIES, tables: await listRateTables() });
+    }
+
+    if (req.method === 'POST') {
+      const body = req.body || {};
+      const day = String(body.effectiveFrom || '').trim();
+      // Effective from 00:00 UTC on that day
+      const effectiveFrom = /^\d{4}-\d{2}-\d{2}$/.test(day) ? Date.parse(`${day}T00:00:00Z`) : NaN;
+      const email = (session as { user?: { email?: string | null } } | null)?.user?.email || undefined;
+      const id = await saveRateTable({ effectiveFrom, rates: body.rates || {}, note: body.note }, email);
+      return res.status(200).json({ ok: true, id });
+    }
+
+    res.setHeader('Allow', ['GET', 'POST']);
+    return res.status(405).json({ ok: false, error: 'Method Not Allowed' });
+  } catch (e: unknown) {
+    const err = e as { code?: number; message?: string };
+    const code = err?.code === 401 || err?.code === 400 ? err.code : 500;
+    return res.status(code).json({ ok: false, error: err?.message || 'Server error' });
+  }
+}
@@ -0,0 +1,60 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/authOptions';
+import { adminDb } from '@/lib/firebaseAdmin';
+import { DONATIONS_COLLECTION } from '@/lib/donationLedger';
+import { hmrcScheduleRows, scheduleToCsv } from '@/lib/giftAidSchedule';
+import type { Donation } from '@/types/donations';
+
+function ensureAdmin(session: unknown) {
+  const role = (session as { user?: { role?: string } } | null)?.user?.role;
+  if (!session || role !== 'admin') throw Object.assign(new Error('Unauthorized'), { code: 401 });
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseDay(v: unknown) {
+  const s = String(v || '').trim();
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(s)) return null;
+  const ms = Date.parse(`${s}T00:00:00Z`);
+  return Number.isFinite(ms) ? ms : null;
+}
+
+/**
+ * HMRC Gift Aid claim schedule for donations confirmed between `from` and `to`
+ * (inclusive, YYYY-MM-DD). `format=csv` (default) downloads the schedule,
+ * `format=json` returns the rows for preview.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await getServerSession(req, res, authOptions);
+  try {
+    ensureAdmin(session);
+    if (req.method !== 'GET') { res.setHeader('Allow', ['GET']); return res.status(405).json({ ok: false, error: 'Method Not Allowed' }); }
+
+    const from = parseDay(req.query.from);
+    const to = parseDay(req.query.to);
+    if (from === null || to === null || to < from) {
+      return res.status(400).json({ ok: false, error: 'from/to must be YYYY-MM-DD with from ≤ to' });
+    }
+
+    const snap = await adminDb
+      .collection(DONATIONS_COLLECTION)
+      .where('confirmedAt', '>=', from)
+      .where('confirmedAt', '<', to + DAY_MS)
+      .get();
+    const rows = hmrcScheduleRows(snap.docs.map(d => ({ ...(d.data() as Donation), id: d.id })));
+
+    if (String(req.query.format || 'csv') === 'json') {
+      const total = rows.reduce((s, r) => s + Number(r.Amount), 0);
+      return res.status(200).json({ ok: true, rows, count: rows.length, total: Math.round(total * 100) / 100 });
+    }
+
+    const name = `gift-aid-schedule_${req.query.from}_${req.query.to}.csv`;
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${name}"`);
+    return res.status(200).send(scheduleToCsv(rows));
+  } catch (e: unknown) {
+    const err = e as { code?: number; message?: string };
+    return res.status(err?.code === 401 ? 401 : 500).json({ ok: false, error: err?.message || 'Server error' });
+  }
+}
@@ -0,0 +1,30 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/authOptions';
+import { listPayouts, payoutDetail } from '@/lib/stripePayouts';
+
+function ensureAdmin(session: unknown) {
+  const role = (session as { user?: { role?: string } } | null)?.user?.role;
+  if (!session || role !== 'admin') throw Object.assign(new Error('Unauthorized'), { code: 401 });
+}
+
+/**
+ * Stripe payouts reconciled from `payout.paid` (lib/stripePayouts.ts).
+ * GET → recent payouts with their totals; GET `?id=po_…` → one payout with the
+ * donations it paid out and its other balance movements.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await getServerSession(req, res, authOptions);
+  try {
+    ensureAdmin(session);
+    if (req.method !== 'GET') { res.setHeader('Allow', ['GET']); return res.status(405).json({ ok: false, error: 'Method Not Allowed' }); }
+
+    const id = String(req.query.id || '').trim();
+    if (id) return res.status(200).json({ ok: true, item: await payoutDetail(id) });
+    return res.status(200).json({ ok: true, items: await listPayouts() });
+  } catch (e: unknown) {
+    const err = e as { code?: number; message?: string };
+    const code = err?.code === 401 || err?.code === 404 ? err.code : 500;
+    return res.status(code).json({ ok: false, error: err?.message || 'Server error' });
+  }
+}
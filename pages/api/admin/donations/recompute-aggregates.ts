@@ -2,17 +2,28 @@ import type { NextApiRequest, NextApiResponse } from 'next';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/authOptions';
 import { adminDb } from '@/lib/firebaseAdmin';
+import { CAMPAIGNS_COLLECTION, DONATIONS_COLLECTION, FUNDRAISERS_COLLECTION, countableAmount } from '@/lib/donationLedger';
+import { conversionAt, roundMoney } from '@/lib/fx';
+import { spendingByCampaign } from '@/lib/disbursements';
+import type { Campaign, Donation } from '@/types/donations';
 
-/**
- * Recomputes totalDonated / donorsCount / lastDonors for all campaigns
- * from the canonical `donations` collection (status === 'confirmed').
- * Safe to run multiple times.
- */
 function ensureAdmin(session: unknown) {
   const role = (session?.user as { role?: string } | undefined)?.role;
   if (!session || role !== 'admin') throw Object.assign(new Error('Unauthorized'), { code: 401 });
 }
 
+/**
+ * Recomputes totalDonated / donorsCount / lastDonors for all campaigns
+ * from the canonical `donations` collection (confirmed, net of refunds and
+ * open/lost disputes — the same rule as the donation ledger), in each
+ * campaign's currency. Donations still missing an FX rate (or recorded before
+ * the campaign currency changed) are converted with the table in force when
+ * they were made. Sponsor matches count towards the total (and their pledge's
+ * `matchedAmount`) but not towards donors. Fundraiser page totals are rebuilt
+ * from the gifts made on them, spending totals from `disbursements`, and card
+ * fee totals from the fees recorded on Stripe donations (refunded ones too:
+ * Stripe keeps the fee). Safe to run multiple times.
+ */
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   const session = await getServerSession(req, res, authOptions);
   try {
@@ -22,44 +33,118 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(405).json({ ok: false, error: 'Method Not Allowed' });
     }
 
+    const campaigns = await adminDb.collection(CAMPAIGNS_COLLECTION).get();
+    const currencyOf = new Map(campaigns.docs.map((c) => [c.id, String(c.data().currency || 'GBP').toUpperCase()]));
+
     // Group confirmed donations by campaignId
-    const snap = await adminDb.collection('donations').where('status', '==', 'confirmed').get();
-    const groups: Record<string, Array<{ amount: number; donorName: string; createdAt: number }>> = {};
+    const snap = await adminDb.collection(DONATIONS_COLLECTION).where('status', '==', 'confirmed').get();
+    const groups: Record<string, Array<{ amount: number; donorName: string; createdAt: number; pledgeId?: string }>> = {};
+    const fixes: Array<{ ref: FirebaseFirestore.DocumentReference; patch: Partial<Donation> }> = [];
+    const raised = new Map<string, { totalRaised: number; donorsCount: number }>();
+    let unconverted = 0;
     for (const d of snap.docs) {
-      const x = d.data() as any;
+      let x = d.data() as Donation;
       const k = String(x.campaignId || '').trim();
-      if (!k) continue;
+      const campaignCurrency = currencyOf.get(k);
+      if (!campaignCurrency) continue;
+
+      // Convert entries recorded before a rate existed or before the campaign currency changed
+      const patch: Partial<Donation> = {};
+      if (x.campaignCurrency !== campaignCurrency || typeof x.fxRate !== 'number') {
+        const fx = await conversionAt(String(x.currency || 'GBP'), campaignCurrency, Number(x.createdAt || Date.now()));
+        Object.assign(patch, {
+          campaignCurrency,
+          fxRate: fx?.rate ?? null,
+          fxRateId: fx?.rateId ?? null,
+          campaignAmount: fx ? roundMoney(Number(x.amount || 0) * fx.rate) : null,
+        });
+        if (!fx) unconverted += 1;
+        x = { ...x, ...patch };
+      }
+      const amount = countableAmount(x);
+      if (x.countedAmount !== amount) patch.countedAmount = amount;
+      if (Object.keys(patch).length) fixes.push({ ref: d.ref, patch: { ...patch, updatedAt: Date.now() } });
+
+      if (amount <= 0) continue;
+      if (x.fundraiserId && !x.matchOf) {
+        const f = raised.get(x.fundraiserId) || { totalRaised: 0, donorsCount: 0 };
+        raised.set(x.fundraiserId, { totalRaised: roundMoney(f.totalRaised + amount), donorsCount: f.donorsCount + 1 });
+      }
       if (!groups[k]) groups[k] = [];
       groups[k].push({
-        amount: Number(x.amount || 0),
+        amount,
         donorName: String(x.donorName || 'Anonymous'),
         createdAt: Number(x.createdAt || Date.now()),
+        pledgeId: x.matchOf ? String(x.pledgeId || '') : undefined,
       });
     }
 
-    // Upsert aggregates per campaign
-    const batch = adminDb.batch();
+    // Keep each donation's countedAmount in step with the totals written below
+    for (let i = 0; i < fixes.length; i += 400) {
+      const b = adminDb.batch();
+      for (const f of fixes.slice(i, i + 400)) b.update(f.ref, f.patch);
+      await b.commit();
+    }
+
+    // Upsert aggregates per campaign (written in chunks below)
+    const writes: Array<(b: FirebaseFirestore.WriteBatch) => void> = [];
     const results: Record<string, { totalDonated: number; donorsCount: number }> = {};
     for (const [campaignId, arr] of Object.entries(groups)) {
       const total = arr.reduce((s, r) => s + (Number.isFinite(r.amount) ? r.amount : 0), 0);
-      const donors = arr.length;
-      const lastDonors = arr
+      const gifts = arr.filter((r) => r.pledgeId === undefined);
+      const donors = gifts.length;
+      const lastDonors = gifts
         .sort((a, b) => (b.createdAt || 0) - (a.createdAt || 0))
         .slice(0, 10)
         .map((r) => ({ name: r.donorName || 'Anonymous', amount: r.amount, at: r.createdAt || Date.now() }));
 
+      const pledges = (campaigns.docs.find((c) => c.id === campaignId)?.data() as Partial<Campaign> | undefined)?.matchingPledges;
+      const matchingPledges = pledges?.map((p) => ({
+        ...p,
+        matchedAmount: roundMoney(arr.filter((r) => r.pledgeId === p.id).reduce((s, r) => s + r.amount, 0)),
+      }));
+
       const ref = adminDb.collection('campaigns').doc(campaignId);
-      batch.set(
-        ref,
-        { totalDonated: total, donorsCount: donors, lastDonors, updatedAt: Date.now() },
-        { merge: true }
-      );
+      const aggregates = { totalDonated: total, donorsCount: donors, lastDonors, ...(matchingPledges ? { matchingPledges } : {}), updatedAt: Date.now() };
+      writes.push((b) => b.set(ref, aggregates, { merge: true }));
 
       results[campaignId] = { totalDonated: total, donorsCount: donors };
     }
 
-    await batch.commit();
-    return res.status(200).json({ ok: true, results });
+    // Card fees in the campaign currency (lib/stripeFees.ts)
+    const stripeSnap = await adminDb.collection(DONATIONS_COLLECTION).where('method', '==', 'stripe').get();
+    const fees = new Map<string, number>();
+    for (const d of stripeSnap.docs) {
+      const x = d.data() as Donation;
+      if (typeof x.campaignFee !== 'number' || (x.status !== 'confirmed' && x.status !== 'refunded')) continue;
+      fees.set(x.campaignId, roundMoney((fees.get(x.campaignId) || 0) + x.campaignFee));
+    }
+
+    // Spending totals (update replaces spentByCategory, dropping stale categories)
+    const spending = await spendingByCampaign();
+    for (const c of campaigns.docs) {
+      const totals = { ...(spending.get(c.id) || { totalSpent: 0, spentByCategory: {} }), totalFees: fees.get(c.id) || 0 };
+      writes.push((b) => b.update(c.ref, totals));
+    }
+
+    // A batch holds at most 500 writes
+    for (let i = 0; i < writes.length; i += 400) {
+      const b = adminDb.batch();
+      for (const w of writes.slice(i, i + 400)) w(b);
+      await b.commit();
+    }
+
+    // Fundraiser page totals (pages without counted gifts go back to zero)
+    const fundraisers = await adminDb.collection(FUNDRAISERS_COLLECTION).get();
+    for (let i = 0; i < fundraisers.docs.length; i += 400) {
+      const b = adminDb.batch();
+      for (const f of fundraisers.docs.slice(i, i + 400)) {
+        b.update(f.ref, { ...(raised.get(f.id) || { totalRaised: 0, donorsCount: 0 }), updatedAt: Date.now() });
+      }
+      await b.commit();
+    }
+
+    return res.status(200).json({ ok: true, results, updatedDonations: fixes.length, unconverted });
   } catch (e: any) {
     return res.status(e?.code === 401 ? 401 : 500).json({ ok: false, error: e?.message || 'Server error' });
   }
@@ -0,0 +1,50 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/authOptions';
+import { donationReports, parseDonationFilters } from '@/lib/donationReports';
+import { CSV_TYPE, XLSX_TYPE, toCsv, toXlsx } from '@/lib/spreadsheet';
+
+function ensureAdmin(session: unknown) {
+  const role = (session as { user?: { role?: string } } | null)?.user?.role;
+  if (!session || role !== 'admin') throw Object.assign(new Error('Unauthorized'), { code: 401 });
+}
+
+const REPORTS = ['monthly', 'fees', 'refunds'] as const;
+
+/**
+ * Summary reports for donations made between `from` and `to` (same filters as
+ * the export): totals per campaign per month, fees vs. net, and refunds.
+ * `format=json` (default) returns all three for preview, `format=xlsx` one
+ * workbook with a sheet each, `format=csv&report=monthly|fees|refunds` one of them.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await getServerSession(req, res, authOptions);
+  try {
+    ensureAdmin(session);
+    if (req.method !== 'GET') { res.setHeader('Allow', ['GET']); return res.status(405).json({ ok: false, error: 'Method Not Allowed' }); }
+
+    const filters = parseDonationFilters(req.query);
+    const format = String(req.query.format || 'json');
+    const report = String(req.query.report || '') as (typeof REPORTS)[number];
+    if (format === 'csv' && !REPORTS.includes(report)) {
+      return res.status(400).json({ ok: false, error: `report must be one of ${REPORTS.join(', ')}` });
+    }
+
+    const reports = await donationReports(filters);
+    if (format === 'json') return res.status(200).json({ ok: true, ...reports });
+
+    const base = `donation-reports_${filters.from}_${filters.to}`;
+    if (format === 'xlsx') {
+      res.setHeader('Content-Type', XLSX_TYPE);
+      res.setHeader('Content-Disposition', `attachment; filename="${base}.xlsx"`);
+      return res.status(200).send(toXlsx(REPORTS.map((r) => reports[r])));
+    }
+    res.setHeader('Content-Type', CSV_TYPE);
+    res.setHeader('Content-Disposition', `attachment; filename="${base}_${report}.csv"`);
+    return res.status(200).send(toCsv(reports[report]));
+  } catch (e: unknown) {
+    const err = e as { code?: number; message?: string };
+    const code = err?.code === 401 || err?.code === 400 ? err.code : 500;
+    return res.status(code).json({ ok: false, error: err?.message || 'Server error' });
+  }
+}
@@ -0,0 +1,34 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/authOptions';
+import { normaliseEmail } from '@/lib/donationLedger';
+import { statementPdf } from '@/lib/donationReceipts';
+
+function ensureAdmin(session: unknown) {
+  const role = (session as { user?: { role?: string } } | null)?.user?.role;
+  if (!session || role !== 'admin') throw Object.assign(new Error('Unauthorized'), { code: 401 });
+}
+
+/** Giving statement PDF for any donor: `?email=&year=2025` (UK tax year starting 6 April). */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await getServerSession(req, res, authOptions);
+  try {
+    ensureAdmin(session);
+    if (req.method !== 'GET') { res.setHeader('Allow', ['GET']); return res.status(405).json({ ok: false, error: 'Method Not Allowed' }); }
+
+    const email = normaliseEmail(req.query.email);
+    const year = Number(req.query.year);
+    if (!email) return res.status(400).json({ ok: false, error: 'Valid email required' });
+    if (!Number.isInteger(year) || year < 2000 || year > 2100) {
+      return res.status(400).json({ ok: false, error: 'year must be a tax year, e.g. 2025' });
+    }
+
+    const pdf = await statementPdf(email, year);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="giving-statement-${year}_${email.replace(/[^\w.-]+/g, '_')}.pdf"`);
+    return res.status(200).send(pdf);
+  } catch (e: unknown) {
+    const err = e as { code?: number; message?: string };
+    return res.status(err?.code === 401 ? 401 : 500).json({ ok: false, error: err?.message || 'Server error' });
+  }
+}
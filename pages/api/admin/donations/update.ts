@@ -2,6 +2,17 @@ import type { NextApiRequest, NextApiResponse } from 'next';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/authOptions';
 import { adminDb } from '@/lib/firebaseAdmin';
+import { endRecurringDonations } from '@/lib/recurringDonations';
+import { normalisePledges } from '@/lib/matchingPledges';
+import { normaliseMilestones } from '@/lib/campaignMilestones';
+import type { Campaign } from '@/types/donations';
+
+// Kept by the donation ledger, lib/disbursements.ts, lib/stripeFees.ts and the lifecycle schedule; the editor's
+// copies may be stale. The bank reference never changes once donors may have used it (lib/bankReconciliation.ts).
+const LEDGER_FIELDS = [
+  'totalDonated', 'donorsCount', 'lastDonors', 'totalSpent', 'spentByCategory', 'totalFees', 'closedAt', 'closedReason',
+  'bankReference',
+];
 
 function ensureAdmin(session: unknown) {
   const role = (session?.user as { role?: string } | undefined)?.role;
@@ -16,9 +27,40 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     const body = req.body || {};
     const id = String(body.id || body.slug || '').trim();
     if (!id) return res.status(400).json({ ok: false, error: 'Missing id/slug' });
-    await adminDb.collection('campaigns').doc(id).set({ ...body, updatedAt: Date.now() }, { merge: true });
-    return res.status(200).json({ ok: true, id });
+    const fields = { ...body };
+    for (const k of LEDGER_FIELDS) delete fields[k];
+
+    const ref = adminDb.collection('campaigns').doc(id);
+    await adminDb.runTransaction(async (tx) => {
+      // Pledge and milestone progress is never taken from the request
+      const current = (await tx.get(ref)).data() as Partial<Campaign> | undefined;
+      if (body.matchingPledges !== undefined) {
+        fields.matchingPledges = normalisePledges(body.matchingPledges, current?.matchingPledges);
+      }
+      if (body.milestones !== undefined) {
+        fields.milestones = normaliseMilestones(body.milestones, current?.milestones);
+      }
+      const pauseAt = body.pauseAt !== undefined ? body.pauseAt : current?.pauseAt;
+      const resumeAt = body.resumeAt !== undefined ? body.resumeAt : current?.resumeAt;
+      if (pauseAt && resumeAt && Number(resumeAt) <= Number(pauseAt)) {
+        throw Object.assign(new Error('Resume time must be after the pause time'), { code: 400 });
+      }
+      // Closing by hand is recorded like the schedule's closes; reopening clears it
+      if (body.status === 'closed' && current?.status !== 'closed') {
+        fields.closedAt = Date.now();
+        fields.closedReason = 'manual';
+      } else if (body.status && body.status !== 'closed') {
+        fields.closedAt = null;
+        fields.closedReason = null;
+      }
+      tx.set(ref, { ...fields, updatedAt: Date.now() }, { merge: true });
+    });
+    // Monthly gifts stop once the campaign is closed
+    const recurringEnded = body.status === 'closed' ? await endRecurringDonations(id) : 0;
+    return res.status(200).json({ ok: true, id, recurringEnded });
   } catch (e: unknown) {
-    return res.status(e?.code === 401 ? 401 : 500).json({ ok: false, error: e?.message || 'Server error' });
+    const err = e as { code?: number; message?: string };
+    const code = err?.code === 401 || err?.code === 400 ? err.code : 500;
+    return res.status(code).json({ ok: false, error: err?.message || 'Server error' });
   }
 }
@@ -0,0 +1,29 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/authOptions';
+import { listMembers, memberDirectorySheet, parseMemberFilters } from '@/lib/membership';
+import { CSV_TYPE, toCsv } from '@/lib/spreadsheet';
+
+function ensureAdmin(session: unknown) {
+  const role = (session as { user?: { role?: string } } | null)?.user?.role;
+  if (!session || role !== 'admin') throw Object.assign(new Error('Unauthorized'), { code: 401 });
+}
+
+/** The member directory as CSV, with the same filters as the list (`status`, `tier`, `plan`, `expiring`, `q`). */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await getServerSession(req, res, authOptions);
+  try {
+    ensureAdmin(session);
+    if (req.method !== 'GET') { res.setHeader('Allow', ['GET']); return res.status(405).json({ ok: false, error: 'Method Not Allowed' }); }
+
+    const members = await listMembers(parseMemberFilters(req.query));
+    const name = `members_${new Date().toISOString().slice(0, 10)}.csv`;
+    res.setHeader('Content-Type', CSV_TYPE);
+    res.setHeader('Content-Disposition', `attachment; filename="${name}"`);
+    return res.status(200).send(toCsv(memberDirectorySheet(members)));
+  } catch (e: unknown) {
+    const err = e as { code?: number; message?: string };
+    const code = err?.code === 401 || err?.code === 400 ? err.code : 500;
+    return res.status(code).json({ ok: false, error: err?.message || 'Server error' });
+  }
+}
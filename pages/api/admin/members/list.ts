@@ -0,0 +1,37 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/authOptions';
+import { listApplications, listMembers, parseMemberFilters } from '@/lib/membership';
+
+function ensureAdmin(session: unknown) {
+  const role = (session as { user?: { role?: string } } | null)?.user?.role;
+  if (!session || role !== 'admin') throw Object.assign(new Error('Unauthorized'), { code: 401 });
+}
+
+const APPLICATION_STATUSES = ['pending', 'approved', 'rejected'];
+
+/**
+ * Membership applications (`?kind=applications`) or members (`?kind=members`),
+ * newest first, optionally by status. Members can also be narrowed by `tier`,
+ * `plan`, `expiring` (within that many days) and `q` (search).
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await getServerSession(req, res, authOptions);
+  try {
+    ensureAdmin(session);
+    if (req.method !== 'GET') { res.setHeader('Allow', ['GET']); return res.status(405).json({ ok: false, error: 'Method Not Allowed' }); }
+
+    const kind = String(req.query.kind || 'applications');
+    const status = String(req.query.status || '').trim();
+    if (kind === 'members') {
+      return res.status(200).json({ ok: true, items: await listMembers(parseMemberFilters(req.query)) });
+    }
+    if (kind !== 'applications') return res.status(400).json({ ok: false, error: 'kind must be applications or members' });
+    if (status && !APPLICATION_STATUSES.includes(status)) return res.status(400).json({ ok: false, error: 'Invalid status' });
+    return res.status(200).json({ ok: true, items: await listApplications(status || undefined) });
+  } catch (e: unknown) {
+    const err = e as { code?: number; message?: string };
+    const code = err?.code === 401 || err?.code === 400 ? err.code : 500;
+    return res.status(code).json({ ok: false, error: err?.message || 'Server error' });
+  }
+}
@@ -0,0 +1,28 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/authOptions';
+import { renewMember } from '@/lib/membership';
+
+function ensureAdmin(session: unknown) {
+  const role = (session as { user?: { role?: string } } | null)?.user?.role;
+  if (!session || role !== 'admin') throw Object.assign(new Error('Unauthorized'), { code: 401 });
+}
+
+/** Record a one-off membership renewal (`{ id }`): another year, and the member is active again. */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await getServerSession(req, res, authOptions);
+  try {
+    ensureAdmin(session);
+    if (req.method !== 'POST') { res.setHeader('Allow', ['POST']); return res.status(405).json({ ok: false, error: 'Method Not Allowed' }); }
+
+    const id = String((req.body as { id?: string } | undefined)?.id || '').trim();
+    if (!id) return res.status(400).json({ ok: false, error: 'Missing id' });
+
+    const reviewer = (session as { user?: { email?: string | null } } | null)?.user?.email || null;
+    return res.status(200).json({ ok: true, item: await renewMember(id, reviewer) });
+  } catch (e: unknown) {
+    const err = e as { code?: number; message?: string };
+    const code = err?.code && [400, 401, 404].includes(err.code) ? err.code : 500;
+    return res.status(code).json({ ok: false, error: err?.message || 'Server error' });
+  }
+}
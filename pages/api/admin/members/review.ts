@@ -0,0 +1,40 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/authOptions';
+import { reviewApplication, sendApplicationEmail } from '@/lib/membership';
+import type { ReviewDecision } from '@/lib/membership';
+
+function ensureAdmin(session: unknown) {
+  const role = (session as { user?: { role?: string } } | null)?.user?.role;
+  if (!session || role !== 'admin') throw Object.assign(new Error('Unauthorized'), { code: 401 });
+}
+
+/** Approve or reject a membership application, with an optional note, and email the applicant. */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await getServerSession(req, res, authOptions);
+  try {
+    ensureAdmin(session);
+    if (req.method !== 'POST') { res.setHeader('Allow', ['POST']); return res.status(405).json({ ok: false, error: 'Method Not Allowed' }); }
+
+    const { id, decision, note, notify = true } = (req.body || {}) as { id?: string; decision?: ReviewDecision; note?: string; notify?: boolean };
+    if (!id) return res.status(400).json({ ok: false, error: 'Missing id' });
+
+    const reviewer = (session as { user?: { email?: string | null } } | null)?.user?.email || null;
+    const item = await reviewApplication(String(id), decision as ReviewDecision, note, reviewer);
+
+    // The decision stands even if the email does not go out; the screen says so
+    let emailed = false;
+    if (notify && item.email) {
+      try {
+        emailed = await sendApplicationEmail(item, decision as ReviewDecision);
+      } catch (e: unknown) {
+        console.warn('[members/review] status email failed', id, (e as Error)?.message || String(e));
+      }
+    }
+    return res.status(200).json({ ok: true, item, emailed });
+  } catch (e: unknown) {
+    const err = e as { code?: number; message?: string };
+    const code = err?.code && [400, 401, 404].includes(err.code) ? err.code : 500;
+    return res.status(code).json({ ok: false, error: err?.message || 'Server error' });
+  }
+}
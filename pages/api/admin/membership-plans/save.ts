@@ -0,0 +1,27 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/authOptions';
+import { parsePlan, savePlan } from '@/lib/membershipPlans';
+
+function ensureAdmin(session: unknown) {
+  const role = (session as { user?: { role?: string } } | null)?.user?.role;
+  if (!session || role !== 'admin') throw Object.assign(new Error('Unauthorized'), { code: 401 });
+}
+
+/**
+ * Create or update a membership plan (the fields of `planSchema`, keyed by `id`)
+ * and sync it to Stripe and PayPal. A failed sync is returned on the plan as `syncError`.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await getServerSession(req, res, authOptions);
+  try {
+    ensureAdmin(session);
+    if (req.method !== 'POST') { res.setHeader('Allow', ['POST']); return res.status(405).json({ ok: false, error: 'Method Not Allowed' }); }
+
+    return res.status(200).json({ ok: true, item: await savePlan(parsePlan(req.body)) });
+  } catch (e: unknown) {
+    const err = e as { code?: number; message?: string };
+    const code = err?.code && [400, 401, 404].includes(err.code) ? err.code : 500;
+    return res.status(code).json({ ok: false, error: err?.message || 'Server error' });
+  }
+}
@@ -0,0 +1,39 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/authOptions';
+import { adminDb } from '@/lib/firebaseAdmin';
+import { STRIPE_EVENTS_COLLECTION } from '@/lib/stripeEvents';
+import type { StripeEventRecord } from '@/lib/stripeEvents';
+
+function ensureAdmin(session: unknown) {
+  const role = (session as { user?: { role?: string } } | null)?.user?.role;
+  if (!session || role !== 'admin') throw Object.assign(new Error('Unauthorized'), { code: 401 });
+}
+
+const STATUSES = ['processing', 'processed', 'failed', 'ignored'];
+
+/** Recent Stripe webhook events (newest first), optionally filtered by status. Payloads are omitted. */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const session = await getServerSession(req, res, authOptions);
+  try {
+    ensureAdmin(session);
+    if (req.method !== 'GET') { res.setHeader('Allow', ['GET']); return res.status(405).json({ ok: false, error: 'Method Not Allowed' }); }
+
+    const status = String(req.query.status || '').trim();
+    if (status && !STATUSES.includes(status)) return res.status(400).json({ ok: false, error: 'Invalid status' });
+
+    const col = adminDb.collection(STRIPE_EVENTS_COLLECTION);
+    const q = status ? col.where('status', '==', status) : col;
+    const snap = await q.orderBy('receivedAt', 'desc').limit(200).get();
+
+    const items = snap.docs.map(d => {
+      const { payload, ...rest } = d.data() as StripeEventRecord;
+      void payload;
+      return { ...rest, id: d.id };
+    });
+    return res.status(200).json({ ok: true, items });
+  } catch (e: unknown) {
+    const err = e as { code?: number; message?: string };
+    return res.status(err?.code === 401 ? 401 : 500).json({ ok: false, error: err?.message || 'Server error' });
+  }
+}
@@ -0,0 +1,49 @@
+// pages/api/donations/fundraiser-photo.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/authOptions';
+import { adminStorage } from '@/lib/firebaseAdmin';
+import { accountEmail } from '@/lib/donorAccount';
+import { rateLimit } from '../_rateLimit';
+
+export const config = { api: { bodyParser: { sizeLimit: '8mb' } } };
+
+const MAX_BYTES = 5 * 1024 * 1024;
+
+function safe(name: string) { return String(name || 'photo').replace(/[^\w.\-]+/g, '_'); }
+function publicDownloadUrl(bucket: string, path: string, token: string) {
+  return `https://firebasestorage.googleapis.com/v0/b/${bucket}/o/${encodeURIComponent(path)}?alt=media&token=${token}`;
+}
+
+/** POST `{ dataURL, filename }` → photo for a fundraiser page (signed-in supporters, images up to 5 MB). */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') { res.setHeader('Allow', ['POST']); return res.status(405).json({ ok: false, error: 'Method Not Allowed' }); }
+  const email = accountEmail(await getServerSession(req, res, authOptions));
+  if (!email) return res.status(401).json({ ok: false, error: 'Please sign in first' });
+  if (!rateLimit(`fundraiser-photo:${email}`, 20, 60 * 60_000).ok) {
+    return res.status(429).json({ ok: false, error: 'Too many uploads, please try again later' });
+  }
+
+  try {
+    const { dataURL, filename } = req.body || {};
+    const match = String(dataURL || '').match(/^data:(image\/(?:jpeg|png|webp|gif));base64,(.*)$/);
+    if (!match) return res.status(400).json({ ok: false, error: 'Please choose a JPEG, PNG, WebP or GIF image' });
+    const contentType = match[1];
+    const buffer = Buffer.from(match[2], 'base64');
+    if (buffer.length > MAX_BYTES) return res.status(400).json({ ok: false, error: 'Images must be 5 MB or smaller' });
+
+    const token = crypto.randomUUID();
+    const path = `donations/fundraisers/${Date.now()}_${crypto.randomUUID()}_${safe(filename)}`;
+    await adminStorage.file(path).save(buffer, {
+      resumable: false,
+      contentType,
+      metadata: { contentType, metadata: { firebaseStorageDownloadTokens: token, uploadedBy: email }, cacheControl: 'public, max-age=31536000' },
+    });
+
+    const bucket = (adminStorage as unknown as { name: string }).name;
+    return res.status(200).json({ ok: true, storagePath: path, downloadUrl: publicDownloadUrl(bucket, path, token) });
+  } catch (e: unknown) {
+    console.error('fundraiser photo upload error', (e as Error)?.message);
+    return res.status(500).json({ ok: false, error: 'Upload failed' });
+  }
+}
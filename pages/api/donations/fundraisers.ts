@@ -0,0 +1,72 @@
+// pages/api/donations/fundraisers.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/authOptions';
+import { accountEmail } from '@/lib/donorAccount';
+import {
+  createFundraiser,
+  getFundraiser,
+  getFundraiserById,
+  leaderboard,
+  publicFundraiser,
+  updateFundraiser,
+} from '@/lib/fundraisers';
+import { rateLimit } from '../_rateLimit';
+
+/**
+ * Peer-to-peer fundraiser pages.
+ * GET `?campaignId` → the campaign's leaderboard; `?campaignId&slug` → one live page;
+ * `?id` → the signed-in owner's own page, in any status (for editing).
+ * POST `{ campaignId, slug, ownerName, title, story, goalAmount, photoUrl?, photoPath? }` → start a page (signed in).
+ * PATCH `?id` with the same fields (no slug) → the owner edits their page.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    if (req.method === 'GET' && req.query.id) {
+      const email = accountEmail(await getServerSession(req, res, authOptions));
+      if (!email) return res.status(401).json({ ok: false, error: 'Please sign in first' });
+      const f = await getFundraiserById(String(req.query.id));
+      if (!f || f.ownerEmail !== email) return res.status(404).json({ ok: false, error: 'Not found' });
+      return res.status(200).json({ ok: true, item: { ...publicFundraiser(f), status: f.status, photoPath: f.photoPath || null } });
+    }
+
+    if (req.method === 'GET') {
+      const campaignId = String(req.query.campaignId || '').trim();
+      if (!campaignId) return res.status(400).json({ ok: false, error: 'Missing campaignId' });
+      const slug = String(req.query.slug || '').trim().toLowerCase();
+      if (slug) {
+        const f = await getFundraiser(campaignId, slug);
+        if (!f || f.status !== 'active') return res.status(404).json({ ok: false, error: 'Not found' });
+        return res.status(200).json({ ok: true, item: publicFundraiser(f) });
+      }
+      const items = (await leaderboard(campaignId)).map(publicFundraiser);
+      res.setHeader('Cache-Control', 'public, s-maxage=60, stale-while-revalidate=300');
+      return res.status(200).json({ ok: true, items });
+    }
+
+    if (req.method !== 'POST' && req.method !== 'PATCH') {
+      res.setHeader('Allow', ['GET', 'POST', 'PATCH']);
+      return res.status(405).json({ ok: false, error: 'Method Not Allowed' });
+    }
+    const email = accountEmail(await getServerSession(req, res, authOptions));
+    if (!email) return res.status(401).json({ ok: false, error: 'Please sign in first' });
+
+    if (req.method === 'PATCH') {
+      const status = await updateFundraiser(String(req.query.id || ''), req.body || {}, email);
+      return res.status(200).json({ ok: true, status });
+    }
+
+    if (!rateLimit(`fundraiser-create:${email}`, 5, 60 * 60_000).ok) {
+      return res.status(429).json({ ok: false, error: 'Too many requests, please try again later' });
+    }
+    const campaignId = String(req.body?.campaignId || '').trim();
+    if (!campaignId) return res.status(400).json({ ok: false, error: 'Missing campaignId' });
+    const id = await createFundraiser(campaignId, req.body || {}, email);
+    return res.status(200).json({ ok: true, id });
+  } catch (e: unknown) {
+    const err = e as { code?: number; message?: string };
+    const code = [400, 403, 404, 409].includes(Number(err?.code)) ? Number(err.code) : 500;
+    if (code === 500) console.error('fundraisers error', err?.message);
+    return res.status(code).json({ ok: false, error: code === 500 ? 'Server error' : err.message });
+  }
+}
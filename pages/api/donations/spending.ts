@@ -0,0 +1,33 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { adminDb } from '@/lib/firebaseAdmin';
+import { CAMPAIGNS_COLLECTION } from '@/lib/donationLedger';
+import { spendingSummary } from '@/lib/spending';
+import type { Campaign } from '@/types/donations';
+
+/** Public: raised vs spent vs remaining, with a category breakdown, for every published campaign. */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ ok: false, error: 'Method Not Allowed' });
+  }
+  try {
+    const snap = await adminDb.collection(CAMPAIGNS_COLLECTION).orderBy('startAt', 'desc').get();
+    const items = snap.docs
+      .map((d) => ({ ...(d.data() as Partial<Campaign>), id: d.id }))
+      .filter((c) => ['active', 'paused', 'closed'].includes(String(c.status || 'active')))
+      .map((c) => ({
+        id: c.id,
+        slug: c.slug || c.id,
+        title_ar: c.title_ar || '',
+        title_en: c.title_en || '',
+        status: c.status || 'active',
+        currency: String(c.currency || 'GBP').toUpperCase(),
+        ...spendingSummary(c),
+      }));
+    res.setHeader('Cache-Control', 'public, s-maxage=300, stale-while-revalidate=600');
+    return res.status(200).json({ ok: true, items });
+  } catch (e: unknown) {
+    console.error('spending summary error', (e as Error)?.message);
+    return res.status(500).json({ ok: false, error: 'Server error' });
+  }
+}
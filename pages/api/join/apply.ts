@@ -0,0 +1,74 @@
+// pages/api/join/apply.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { rateLimit } from '../_rateLimit';
+import { adminDb, adminFieldValue } from '@/lib/firebaseAdmin';
+import { stripe } from '@/lib/stripe';
+import { verifyRecaptcha } from '@/lib/recaptcha';
+import {
+  JOIN_APPLICATIONS_COLLECTION,
+  checkHousehold,
+  createApplication,
+  parseApplication,
+  sendApplicationEmail,
+} from '@/lib/membership';
+
+/**
+ * Membership application: `{ fullName, email, phone?, city?, message?, membershipPlan?, dependants?, consentToContact?, recaptchaToken }`.
+ * An application made after paying (PaymentWidget) sends `paymentIntentId`
+ * instead of a reCAPTCHA token: the succeeded join payment is proof enough, and
+ * it can back one application only, and the plan it paid for is recorded.
+ */
+async function paidPaymentIntent(paymentIntentId: string) {
+  const pi = await stripe.paymentIntents.retrieve(paymentIntentId).catch(() => null);
+  if (!pi || pi.status !== 'succeeded' || pi.metadata?.type !== 'join') {
+    throw Object.assign(new Error('Payment not found or not completed'), { code: 400 });
+  }
+  const used = await adminDb
+    .collection(JOIN_APPLICATIONS_COLLECTION)
+    .where('stripePaymentIntentId', '==', pi.id)
+    .limit(1)
+    .get();
+  if (!used.empty) throw Object.assign(new Error('This payment is already linked to an application'), { code: 409 });
+  return pi;
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ ok: false, error: 'Method Not Allowed' });
+  }
+  const rl = rateLimit(`join:${(req.headers['x-forwarded-for'] as string) || req.socket.remoteAddress || 'anon'}`, 5, 10 * 60_000);
+  if (!rl.ok) return res.status(429).json({ ok: false, error: 'Too many requests' });
+
+  try {
+    const input = parseApplication(req.body);
+    const paymentIntentId = String(req.body?.paymentIntentId || '').trim();
+    const paid = paymentIntentId ? await paidPaymentIntent(paymentIntentId) : null;
+    if (!paid) await verifyRecaptcha(req.body?.recaptchaToken, 'join_apply');
+    // Household members come with a household plan
+    await checkHousehold(paid?.metadata?.planId, input.dependants?.length || 0);
+
+    const id = await createApplication(
+      input,
+      paid ? { stripePaymentIntentId: paid.id, planId: paid.metadata?.planId || null } : {}
+    );
+    if (paid) {
+      await adminDb.collection('payments').doc(`pi_${paid.id}`).set(
+        { applicationId: id, updatedAt: adminFieldValue.serverTimestamp() },
+        { merge: true }
+      );
+    }
+
+    try {
+      await sendApplicationEmail(input, 'received');
+    } catch (e: unknown) {
+      console.warn('[join/apply] confirmation email failed', id, (e as Error)?.message || String(e));
+    }
+    return res.status(200).json({ ok: true, id });
+  } catch (e: unknown) {
+    const err = e as { code?: number; message?: string };
+    const code = err?.code && [400, 409].includes(err.code) ? err.code : 500;
+    if (code === 500) console.error('join apply error', err?.message);
+    return res.status(code).json({ ok: false, error: err?.message || 'Server error' });
+  }
+}
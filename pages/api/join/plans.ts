@@ -0,0 +1,19 @@
+// pages/api/join/plans.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { listPlans, publicPlan } from '@/lib/membershipPlans';
+
+/** The active membership plans, in display order, for the join form. */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ ok: false, error: 'Method Not Allowed' });
+  }
+  try {
+    const plans = (await listPlans(true)).map(publicPlan);
+    res.setHeader('Cache-Control', 'public, max-age=60, stale-while-revalidate=300');
+    return res.status(200).json({ ok: true, plans });
+  } catch (e: unknown) {
+    console.error('join plans error', (e as Error)?.message || String(e));
+    return res.status(500).json({ ok: false, error: 'Server error' });
+  }
+}
@@ -1,6 +1,9 @@
 // pages/api/payments/paypal/capture-order.ts
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { adminDb, adminFieldValue } from '@/lib/firebaseAdmin';
+import { captureOrder, getOrder, toPayPalValue } from '@/lib/paypal';
+import { postDonation, toLedgerStatus } from '@/lib/donationLedger';
+import type { GiftAidDeclaration } from '@/types/donations';
 
 const PP_ENV = (process.env.PAYPAL_ENV || 'live').toLowerCase();
 const BASE = PP_ENV === 'sandbox' ? 'https://api-m.sandbox.paypal.com' : 'https://api-m.paypal.com';
@@ -18,12 +21,90 @@ async function getAccessToken() {
   return j.access_token as string;
 }
 
+type DonationPayment = {
+  campaignId?: string | null;
+  amount?: number;
+  currency?: string;
+  donorName?: string;
+  donorEmail?: string | null;
+  giftAid?: GiftAidDeclaration | null;
+  campaignUpdates?: boolean;
+  fundraiserId?: string | null;
+  embedSite?: string | null;
+};
+
+/**
+ * DONATION flow. The order must carry the campaign id we tagged it with and the
+ * amount we stored at creation, both before and after capture; only then is the
+ * capture posted to the donation ledger (keyed by the PayPal capture id).
+ */
+async function captureDonation(orderId: string, pay: DonationPayment, res: NextApiResponse) {
+  const campaignId = String(pay.campaignId);
+  const expected = {
+    currency_code: String(pay.currency || 'GBP').toUpperCase(),
+    value: toPayPalValue(Number(pay.amount || 0)),
+  };
+  const matches = (unit?: { custom_id?: string; amount?: { currency_code: string; value: string } }) =>
+    !!unit &&
+    unit.custom_id === campaignId &&
+    unit.amount?.currency_code === expected.currency_code &&
+    unit.amount?.value === expected.value;
+
+  const before = await getOrder(orderId);
+  if (!matches(before.purchase_units?.[0])) {
+    return res.status(400).json({ ok: false, error: 'PayPal order does not match this donation' });
+  }
+
+  const order = await captureOrder(orderId);
+  const unit = order.purchase_units?.[0];
+  const capture = unit?.payments?.captures?.[0];
+  if (!capture || !matches(unit) || capture.amount.currency_code !== expected.currency_code || capture.amount.value !== expected.value) {
+    return res.status(400).json({ ok: false, error: 'PayPal capture does not match this donation' });
+  }
+
+  const result = await postDonation({
+    campaignId,
+    method: 'paypal',
+    txnRef: capture.id,
+    status: toLedgerStatus(capture.status),
+    amount: Number(capture.amount.value),
+    currency: capture.amount.currency_code,
+    donorName: pay.donorName || '',
+    donorEmail: pay.donorEmail || order.payer?.email_address,
+    giftAid: pay.giftAid ?? null,
+    campaignUpdates: !!pay.campaignUpdates,
+    fundraiserId: pay.fundraiserId ?? null,
+    embedSite: pay.embedSite ?? null,
+  });
+
+  await adminDb.collection('payments').doc(`pp_${orderId}`).set({
+    status: capture.status === 'COMPLETED' ? 'captured' : String(capture.status).toLowerCase(),
+    captureId: capture.id,
+    donationId: result.id,
+    capturedAt: adminFieldValue.serverTimestamp(),
+    updatedAt: adminFieldValue.serverTimestamp(),
+  }, { merge: true });
+
+  return res.status(200).json({
+    ok: true,
+    donationId: result.id,
+    status: result.status,
+    amountPaid: Number(capture.amount.value),
+    currency: capture.amount.currency_code,
+  });
+}
+
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   try {
     if (req.method !== 'POST') return res.status(405).json({ ok: false, error: 'Method not allowed' });
     const { orderId, applicationId, formSnapshot } = req.body as { orderId: string; applicationId?: string; formSnapshot?: unknown };
     if (!orderId) return res.status(400).json({ ok: false, error: 'Missing orderId' });
 
+    // Donation orders are recognised by the record create-order stored, never by client input.
+    const paySnap = await adminDb.collection('payments').doc(`pp_${orderId}`).get();
+    const pay = paySnap.exists ? (paySnap.data() as DonationPayment) : null;
+    if (pay?.campaignId) return await captureDonation(String(orderId), pay, res);
+
     const token = await getAccessToken();
     const r = await fetch(`${BASE}/v2/checkout/orders/${orderId}/capture`, {
       method: 'POST',
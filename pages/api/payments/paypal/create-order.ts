@@ -1,12 +1,75 @@
 // pages/api/payments/paypal/create-order.ts
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { getAccessToken, PAYPAL_BASE } from '@/lib/paypal';
-import { adminDb } from '@/lib/firebaseAdmin';
+import { getAccessToken, PAYPAL_BASE, createOrder } from '@/lib/paypal';
+import { adminDb, adminFieldValue } from '@/lib/firebaseAdmin';
+import { CAMPAIGNS_COLLECTION, normaliseEmail } from '@/lib/donationLedger';
+import { parseGiftAid } from '@/lib/giftAid';
+import { fundraiserForPayment } from '@/lib/fundraisers';
+import { normaliseEmbedSite } from '@/lib/embed';
+
+/**
+ * DONATION flow: `{ campaignId, amount, donorFirstName?, donorLastName?, donorEmail?, giftAid?, campaignUpdates?, fundraiserId?, embedSite? }`.
+ * The order is raised in the campaign's own currency and tagged with the
+ * campaign id; capture-order verifies both before recording the donation.
+ */
+async function createDonationOrder(req: NextApiRequest, res: NextApiResponse) {
+  const { campaignId, amount, donorFirstName = '', donorLastName = '', donorEmail, giftAid, campaignUpdates, fundraiserId, embedSite } = req.body || {};
+  const amt = Math.round(Number(amount) * 100) / 100;
+  if (!Number.isFinite(amt) || amt <= 0) return res.status(400).json({ ok: false, error: 'Invalid amount' });
+
+  const snap = await adminDb.collection(CAMPAIGNS_COLLECTION).doc(String(campaignId)).get();
+  if (!snap.exists) return res.status(404).json({ ok: false, error: 'Campaign not found' });
+  const campaign = snap.data() as { status?: string; currency?: string; title_ar?: string };
+  if (campaign.status && campaign.status !== 'active') {
+    return res.status(400).json({ ok: false, error: 'Campaign is not accepting donations' });
+  }
+
+  const currency = String(campaign.currency || 'GBP').toUpperCase();
+  if (giftAid && currency !== 'GBP') {
+    return res.status(400).json({ ok: false, error: 'Gift Aid is only available for GBP donations' });
+  }
+  const declaration = parseGiftAid(giftAid); // throws 400 on an incomplete declaration
+  const fundraiser = await fundraiserForPayment(snap.id, fundraiserId);
+  const order = await createOrder({
+    amount: amt,
+    currency,
+    description: String(campaign.title_ar || 'Donation').slice(0, 127),
+    customId: snap.id,
+    referenceId: snap.id,
+  });
+
+  // Same canonical 'payments' record as Stripe intents; capture-order reads it back.
+  await adminDb.collection('payments').doc(`pp_${order.id}`).set(
+    {
+      provider: 'paypal',
+      kind: 'one_time',
+      orderId: order.id,
+      applicationId: null,
+      campaignId: snap.id,
+      donorName: [donorFirstName, donorLastName].map((s: string) => String(s).trim()).filter(Boolean).join(' '),
+      amount: amt, // major units
+      currency,
+      donorEmail: normaliseEmail(donorEmail) || null,
+      campaignUpdates: !!campaignUpdates && !!normaliseEmail(donorEmail),
+      giftAid: declaration,
+      fundraiserId: fundraiser?.id || null,
+      embedSite: normaliseEmbedSite(embedSite) || null,
+      status: 'created',
+      createdAt: adminFieldValue.serverTimestamp(),
+      updatedAt: adminFieldValue.serverTimestamp(),
+    },
+    { merge: true }
+  );
+
+  return res.status(200).json({ ok: true, orderId: order.id, amount: amt, currency });
+}
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   try {
     if (req.method !== 'POST') return res.status(405).json({ ok: false, error: 'Method Not Allowed' });
 
+    if (req.body?.campaignId) return await createDonationOrder(req, res);
+
     const { applicationId, amountMinor, currency = 'GBP', description = 'Membership' } = req.body || {};
     if (!applicationId) throw new Error('applicationId required');
     if (!amountMinor || amountMinor <= 0) throw new Error('amountMinor required');
@@ -1,6 +1,16 @@
 // pages/api/payments/paypal/subscription-approved.ts
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { adminDb, adminFieldValue } from '@/lib/firebaseAdmin';
+import { getSubscription } from '@/lib/paypal';
+import { planForPayPalPlan } from '@/lib/membershipPlans';
+
+/**
+ * Called by the browser after the PayPal approval popup. The subscription is
+ * looked up with PayPal rather than trusted; activation, cancellation and failed
+ * payments arrive through the verified webhook (/api/webhooks/paypal).
+ * A subscription is bound to one application only: the one in its PayPal
+ * `custom_id`, or the first one recorded here.
+ */
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   try {
@@ -8,6 +18,20 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     const { subscriptionId, applicationId, formSnapshot } = req.body as { subscriptionId: string; applicationId?: string; formSnapshot?: unknown };
     if (!subscriptionId) return res.status(400).json({ ok: false, error: 'Missing subscriptionId' });
 
+    const sub = await getSubscription(String(subscriptionId));
+    if (!['APPROVAL_PENDING', 'APPROVED', 'ACTIVE'].includes(sub.status)) {
+      return res.status(400).json({ ok: false, error: `PayPal subscription is ${sub.status}` });
+    }
+
+    const payRef = adminDb.collection('payments').doc(`pps_${sub.id}`);
+    const bound = sub.custom_id || ((await payRef.get()).data()?.applicationId as string | undefined) || null;
+    if (bound && bound !== applicationId) {
+      return res.status(409).json({ ok: false, error: 'This PayPal subscription belongs to another application' });
+    }
+
+    const plan = await planForPayPalPlan(sub.plan_id);
+    const planId = plan?.id || null;
+
     let appId = applicationId || null;
     if (!appId) {
       if (!formSnapshot || !formSnapshot.email) return res.status(400).json({ ok: false, error: 'Missing form snapshot' });
@@ -16,19 +40,27 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         ...formSnapshot,
         status: 'submitted',
         paymentRequired: false,
+        paypalSubscriptionId: sub.id,
+        planId,
         createdAt: now,
         updatedAt: now,
       });
       appId = ref.id;
       await ref.set({ id: appId }, { merge: true });
+    } else {
+      await adminDb.collection('joinApplications').doc(appId).set(
+        { paypalSubscriptionId: sub.id, planId, updatedAt: adminFieldValue.serverTimestamp() },
+        { merge: true }
+      );
     }
 
-    await adminDb.collection('payments').doc(`pps_${subscriptionId}`).set({
+    await payRef.set({
       applicationId: appId,
       provider: 'paypal',
       kind: 'subscription',
-      subscriptionId,
-      status: 'approved',
+      subscriptionId: sub.id,
+      planId,
+      status: sub.status === 'ACTIVE' ? 'active' : 'approved',
       createdAt: adminFieldValue.serverTimestamp(),
       updatedAt: adminFieldValue.serverTimestamp(),
     }, { merge: true });
@@ -2,12 +2,10 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import Stripe from 'stripe';
 import { adminDb, adminFieldValue } from '@/lib/firebaseAdmin';
+import { isMembershipTier, listPlans } from '@/lib/membershipPlans';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || '', { apiVersion: '2024-06-20' });
 
-// Allowed monthly amounts (GBP)
-const ALLOWED_AMOUNTS = [11.99, 21.99, 49.99] as const;
-
 // Build an absolute base URL for redirect URLs
 function getAbsoluteBase(req: NextApiRequest) {
   const envBase =
@@ -26,19 +24,6 @@ function getAbsoluteBase(req: NextApiRequest) {
   return 'http://localhost:3000';
 }
 
-function pickEnvPriceIdByAmount(amount?: number) {
-  switch (Number(amount)) {
-    case 11.99:
-      return process.env.STRIPE_PRICE_SILVER || '';
-    case 21.99:
-      return process.env.STRIPE_PRICE_GOLD || '';
-    case 49.99:
-      return process.env.STRIPE_PRICE_DIAMOND || '';
-    default:
-      return '';
-  }
-}
-
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   try {
     if (req.method !== 'POST') {
@@ -47,17 +32,15 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
     const {
       applicationId,
-      priceId,
+      planId, // from /api/join/plans
       amount,
-      currency = 'GBP',
       mode = 'subscription',
       formSnapshot,
-      tier, // 'silver' | 'gold' | 'diamond' (optional)
+      tier, // older clients: 'silver' | 'gold' | 'diamond', or the monthly amount
     } = (req.body || {}) as {
       applicationId?: string;
-      priceId?: string;
+      planId?: string;
       amount?: number;
-      currency?: string;
       mode?: 'subscription' | 'payment';
       formSnapshot?: unknown;
       tier?: string;
@@ -67,27 +50,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(400).json({ ok: false, error: 'Only subscription mode is supported' });
     }
 
-    // Resolve a Stripe Price ID
-    let usePriceId = (priceId || '').trim();
-    if (!usePriceId && amount && ALLOWED_AMOUNTS.includes(Number(amount))) {
-      usePriceId = pickEnvPriceIdByAmount(amount);
-    }
-    if (!usePriceId) {
-      usePriceId = (process.env.NEXT_PUBLIC_STRIPE_MONTHLY_PRICE_ID || '').trim();
-    }
-
-    // If still missing (dev fallback), create a price on the fly
-    if (!usePriceId) {
-      const product = await stripe.products.create({ name: 'Membership Subscription' });
-      const unit_amount = Math.max(50, Math.round(Number(amount || 10) * 100));
-      const createdPrice = await stripe.prices.create({
-        currency,
-        unit_amount,
-        recurring: { interval: 'month' },
-        product: product.id,
-        nickname: 'Join Monthly',
-      });
-      usePriceId = createdPrice.id;
+    // Only active subscription plans from the catalogue can be bought here
+    const plans = (await listPlans(true)).filter((p) => p.interval !== 'once' && p.stripePriceId);
+    const plan = planId
+      ? plans.find((p) => p.id === planId)
+      : plans.find((p) => (isMembershipTier(tier) ? p.tier === tier : p.amount === Number(amount)));
+    if (!plan?.stripePriceId) {
+      return res.status(400).json({ ok: false, error: 'Unknown or unavailable membership plan' });
     }
 
     const base = getAbsoluteBase(req);
@@ -97,7 +66,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     // Keep metadata compact (Stripe limits apply)
     const metadata: Record<string, string> = { source: 'join' };
     if (applicationId) metadata.applicationId = String(applicationId);
-    if (tier) metadata.tier = String(tier);
+    metadata.planId = plan.id;
+    if (plan.tier) metadata.tier = plan.tier;
     if (!applicationId && formSnapshot) {
       try {
         const compact = Buffer.from(JSON.stringify(formSnapshot)).toString('base64');
@@ -109,7 +79,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
     const session = await stripe.checkout.sessions.create({
       mode: 'subscription',
-      line_items: [{ price: usePriceId, quantity: 1 }],
+      line_items: [{ price: plan.stripePriceId, quantity: 1 }],
       success_url,
       cancel_url,
       // NOTE: `customer_creation` is ONLY allowed in payment mode; do not use it here.
@@ -132,10 +102,11 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           sessionId: session.id,
           status: 'created',
           createdAt: adminFieldValue.serverTimestamp(),
-          currency,
-          priceId: usePriceId,
-          amount: amount ?? null,
-          tier: tier || null,
+          currency: plan.currency,
+          priceId: plan.stripePriceId,
+          amount: plan.amount,
+          planId: plan.id,
+          tier: plan.tier ?? null,
           preApplication: applicationId ? null : formSnapshot || null,
         },
         { merge: true }
@@ -0,0 +1,84 @@
+// pages/api/payments/stripe/create-donation-subscription.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { adminDb } from '@/lib/firebaseAdmin';
+import { stripe, SITE_URL, majorToMinor } from '@/lib/stripe';
+import { CAMPAIGNS_COLLECTION, normaliseEmail } from '@/lib/donationLedger';
+import { RECURRING_DONATION_TYPE } from '@/lib/recurringDonations';
+import { parseGiftAid, giftAidToMetadata } from '@/lib/giftAid';
+import { fundraiserForPayment } from '@/lib/fundraisers';
+import { normaliseEmbedSite } from '@/lib/embed';
+import type { Campaign } from '@/types/donations';
+
+/**
+ * DONATION flow, monthly: `{ campaignId, amount, donorFirstName, donorLastName, donorEmail?, giftAid?, campaignUpdates?, fundraiserId?, embedSite? }`.
+ * Starts a Stripe Checkout subscription for any amount in the campaign's currency.
+ * Each paid invoice is credited to the campaign by the webhook (invoice.paid).
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ ok: false, error: 'Method Not Allowed' });
+  }
+
+  try {
+    const { campaignId, amount, donorFirstName = '', donorLastName = '', donorEmail, giftAid, campaignUpdates, fundraiserId, embedSite } = req.body || {};
+    const email = normaliseEmail(donorEmail);
+    const amt = Math.round(Number(amount) * 100) / 100;
+    if (!campaignId) return res.status(400).json({ ok: false, error: 'campaignId is required' });
+    if (!Number.isFinite(amt) || amt < 1) return res.status(400).json({ ok: false, error: 'Invalid amount' });
+
+    const snap = await adminDb.collection(CAMPAIGNS_COLLECTION).doc(String(campaignId)).get();
+    const campaign = snap.data() as Partial<Campaign> | undefined;
+    if (!snap.exists || !campaign) return res.status(404).json({ ok: false, error: 'Campaign not found' });
+    if (campaign.status === 'closed') return res.status(400).json({ ok: false, error: 'Campaign is closed' });
+
+    const currency = String(campaign.currency || 'GBP').toUpperCase();
+    if (giftAid && currency !== 'GBP') {
+      return res.status(400).json({ ok: false, error: 'Gift Aid is only available for GBP donations' });
+    }
+    const declaration = parseGiftAid(giftAid); // throws 400 on an incomplete declaration
+    const fundraiser = await fundraiserForPayment(snap.id, fundraiserId);
+
+    // Copied onto every invoice (subscription_details.metadata)
+    const metadata: Record<string, string> = {
+      type: RECURRING_DONATION_TYPE,
+      campaignId: snap.id,
+      campaignSlug: String(campaign.slug || ''),
+      donorFirstName: String(donorFirstName).trim(),
+      donorLastName: String(donorLastName).trim(),
+      donorEmail: email,
+      campaignUpdates: campaignUpdates && email ? '1' : '',
+      giftAid: giftAidToMetadata(declaration),
+      fundraiserId: fundraiser?.id || '',
+      embedSite: normaliseEmbedSite(embedSite),
+    };
+
+    const page = `/donate/${encodeURIComponent(String(campaign.slug || snap.id))}${fundraiser ? `/f/${encodeURIComponent(fundraiser.slug)}` : ''}`;
+    const back = `${SITE_URL.replace(/\/$/, '')}${page}`;
+    const session = await stripe.checkout.sessions.create({
+      mode: 'subscription',
+      line_items: [
+        {
+          quantity: 1,
+          price_data: {
+            currency: currency.toLowerCase(),
+            unit_amount: majorToMinor(amt, currency),
+            recurring: { interval: 'month' },
+            product_data: { name: `Monthly donation: ${campaign.title_ar || snap.id}` },
+          },
+        },
+      ],
+      success_url: `${back}?monthly=success`,
+      cancel_url: `${back}?monthly=canceled`,
+      ...(email ? { customer_email: email } : {}),
+      metadata,
+      subscription_data: { metadata },
+    });
+
+    return res.status(200).json({ ok: true, url: session.url, sessionId: session.id });
+  } catch (e: unknown) {
+    const err = e as { code?: number; message?: string };
+    console.error('create donation subscription error', err?.message);
+    return res.status(err?.code === 400 ? 400 : 500).json({ ok: false, error: err?.message || 'Stripe error' });
+  }
+}
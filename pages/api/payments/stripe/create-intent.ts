@@ -2,6 +2,14 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import Stripe from 'stripe';
 import { adminDb, adminFieldValue } from '@/lib/firebaseAdmin';
+import { parseGiftAid, giftAidToMetadata } from '@/lib/giftAid';
+import { normaliseEmail } from '@/lib/donationLedger';
+import { FX_CURRENCIES } from '@/lib/fx';
+import { fundraiserForPayment } from '@/lib/fundraisers';
+import { normaliseEmbedSite } from '@/lib/embed';
+import { isCardRegion, linesTotal, paymentLines, paymentLinesToMetadata } from '@/lib/paymentLines';
+import { getPlan } from '@/lib/membershipPlans';
+import type { GiftAidInput } from '@/lib/giftAid';
 
 const STRIPE_SECRET_KEY = process.env.STRIPE_SECRET_KEY || '';
 const stripe = new Stripe(STRIPE_SECRET_KEY, { apiVersion: '2024-06-20' });
@@ -32,29 +40,57 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
     const {
       applicationId,               // JOIN page (legacy) — keep
-      amount,                      // major units (e.g., 12.34)
-      currency = 'GBP',
+      planId,                      // JOIN: a one-off plan from /api/join/plans (sets amount and currency)
+      amount: amountRaw,           // major units (e.g., 12.34)
+      currency: currencyRaw = 'GBP',
       preApplication,              // JOIN pre-application payload (legacy)
       metadata = {},               // DONATION flow sends campaign info here
+      giftAid,                     // DONATION flow: optional Gift Aid declaration (GBP only)
+      coverFees,                   // DONATION flow: donor adds the card fee on top
+      cardRegion,                  // 'uk' | 'eea' | 'international' — where the card was issued
+      tip,                         // DONATION flow: extra for the general fund, major units
     } = (req.body || {}) as {
       applicationId?: string;
+      planId?: string;
       amount: number | string;
       currency?: string;
       preApplication?: unknown;
       metadata?: Record<string, any>;
+      giftAid?: GiftAidInput | null;
+      coverFees?: boolean;
+      cardRegion?: string;
+      tip?: number | string;
     };
 
+    // Detect donation vs join from metadata.type (client sends 'donation')
+    const typeRaw = String(metadata?.type || '').toLowerCase();
+    const isDonation = typeRaw === 'donation';
+
+    // A one-off membership plan is charged at its catalogue price
+    const plan = !isDonation && planId ? await getPlan(String(planId)) : null;
+    if (planId && !isDonation && !(plan?.active && plan.interval === 'once')) {
+      return res.status(400).json({ ok: false, error: 'Unknown or unavailable membership plan' });
+    }
+    const amount = plan ? plan.amount : amountRaw;
+    const currency = plan ? plan.currency : currencyRaw;
+
     const amt = Number(amount);
     if (!Number.isFinite(amt) || amt <= 0) {
       return res.status(400).json({ ok: false, error: 'Invalid amount' });
     }
 
     const cur = (currency || 'GBP').toUpperCase();
-    const minor = toMinor(amt, cur);
 
-    // Detect donation vs join from metadata.type (client sends 'donation')
-    const typeRaw = String(metadata?.type || '').toLowerCase();
-    const isDonation = typeRaw === 'donation';
+    // `amount` is the gift to the campaign; fee cover and tip are added here, never taken from the client
+    const tipAmount = Number(tip || 0);
+    if (isDonation && (!Number.isFinite(tipAmount) || tipAmount < 0)) {
+      return res.status(400).json({ ok: false, error: 'Invalid tip' });
+    }
+    const lines = isDonation
+      ? paymentLines({ gift: amt, tip: tipAmount, coverFees: !!coverFees, region: isCardRegion(cardRegion) ? cardRegion : 'uk', currency: cur })
+      : null;
+    const total = lines ? linesTotal(lines) : amt;
+    const minor = toMinor(total, cur);
 
     // Pull campaignId from any alias the client might send
     const campaignId: string | null =
@@ -73,6 +109,24 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     if (isDonation && !campaignId) {
       return res.status(400).json({ ok: false, error: 'campaignId is required for donations' });
     }
+    // Donations count towards campaigns via the FX rate tables, which cover these currencies
+    if (isDonation && !(FX_CURRENCIES as string[]).includes(cur)) {
+      return res.status(400).json({ ok: false, error: `Donations are accepted in ${FX_CURRENCIES.join(', ')}` });
+    }
+
+    // Gift Aid applies to UK (GBP) donations only
+    let declaration: ReturnType<typeof parseGiftAid> = null;
+    if (isDonation && giftAid) {
+      if (cur !== 'GBP') return res.status(400).json({ ok: false, error: 'Gift Aid is only available for GBP donations' });
+      try {
+        declaration = parseGiftAid(giftAid);
+      } catch (e: unknown) {
+        return res.status(400).json({ ok: false, error: (e as Error).message });
+      }
+    }
+
+    // Gifts made on a fundraiser page also count towards that page
+    const fundraiser = isDonation && campaignId ? await fundraiserForPayment(String(campaignId), metadata?.fundraiserId) : null;
 
     // Normalize metadata for downstream consumers (webhooks, confirm route, admin tools)
     const normMeta: Record<string, string> = {
@@ -82,12 +136,19 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
       // JOIN fields (kept for backward compatibility)
       applicationId: applicationId || '',
+      planId: plan?.id || '',
 
       // DONATION canonical keys
       campaignId: campaignId ? String(campaignId) : '',
       campaignSlug: campaignSlug ? String(campaignSlug) : '',
       donorFirstName: metadata?.donorFirstName ? String(metadata.donorFirstName) : '',
       donorLastName: metadata?.donorLastName ? String(metadata.donorLastName) : '',
+      donorEmail: normaliseEmail(metadata?.donorEmail),
+      campaignUpdates: metadata?.campaignUpdates === '1' && normaliseEmail(metadata?.donorEmail) ? '1' : '',
+      giftAid: giftAidToMetadata(declaration),
+      fundraiserId: fundraiser?.id || '',
+      embedSite: isDonation ? normaliseEmbedSite(metadata?.embedSite) : '',
+      paymentLines: lines ? paymentLinesToMetadata(lines) : '',
 
       // Aliases (older code may read these)
       campaign_id: campaignId ? String(campaignId) : '',
@@ -102,6 +163,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       currency: cur.toLowerCase(),
       automatic_payment_methods: { enabled: true },
       metadata: normMeta,
+      ...(normMeta.donorEmail ? { receipt_email: normMeta.donorEmail } : {}),
     });
 
     // Persist a canonical "created" record where your admin expects it.
@@ -116,13 +178,15 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         // JOIN fields
         applicationId: applicationId || null,
         preApplication: applicationId ? null : (preApplication ?? null),
+        planId: plan?.id || null,
 
         // DONATION fields
         campaignId: isDonation && campaignId ? String(campaignId) : null,
         campaignSlug: isDonation && campaignSlug ? String(campaignSlug) : null,
 
         // Amount/currency
-        amount: amt,               // stored in major units for UI
+        amount: total,             // stored in major units for UI
+        paymentLines: lines && lines.length > 1 ? lines : null,
         amountMinor: minor,        // useful for reconciliation
         currency: cur,
 
@@ -144,6 +208,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       clientSecret: intent.client_secret,
       intentId: intent.id,
       currency: cur,
+      amount: total,
+      lines,
     });
   } catch (e: any) {
     console.error('stripe intent error', e);
@@ -1,22 +1,10 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { RecaptchaEnterpriseServiceClient } from '@google-cloud/recaptcha-enterprise';
-
-type VerifyResponse = {
-  success: boolean;
-  score?: number;
-  errorCodes?: string[];
-};
-
-// Google Cloud Project ID and Site Key (should be set in env vars)
-const PROJECT_ID = process.env.GCP_PROJECT_ID || '';
-const SITE_KEY = process.env.RECAPTCHA_ENTERPRISE_SITE_KEY || '';
-
-// Initialize the reCAPTCHA Enterprise client once
-const recaptchaClient = new RecaptchaEnterpriseServiceClient();
+import { assessRecaptcha, recaptchaConfigured } from '@/lib/recaptcha';
+import type { RecaptchaAssessment } from '@/lib/recaptcha';
 
 export default async function handler(
   req: NextApiRequest,
-  res: NextApiResponse<VerifyResponse>
+  res: NextApiResponse<RecaptchaAssessment>
 ) {
   if (req.method !== 'POST') {
     res.setHeader('Allow', ['POST']);
@@ -32,7 +20,7 @@ export default async function handler(
       .json({ success: false, errorCodes: ['missing-input'] });
   }
 
-  if (!PROJECT_ID || !SITE_KEY) {
+  if (!recaptchaConfigured()) {
     console.error(
       'Missing GCP_PROJECT_ID or RECAPTCHA_ENTERPRISE_SITE_KEY in environment'
     );
@@ -40,46 +28,12 @@ export default async function handler(
   }
 
   try {
-    // Build the event payload
-    const event: { token: string; siteKey: string; expectedAction?: string } = {
-      token,
-      siteKey: SITE_KEY,
-    };
-    if (action) {
-      event.expectedAction = action;
-    }
-
-    // Build and send the assessment
-    const [assessment] = await recaptchaClient.createAssessment({
-      parent: recaptchaClient.projectPath(PROJECT_ID),
-      assessment: { event },
-    });
-
-    const { tokenProperties, riskAnalysis } = assessment;
-
-    // Token validity check
-    if (!tokenProperties?.valid) {
-      const reason = tokenProperties?.invalidReason || 'invalid-token';
-      console.error('reCAPTCHA Enterprise invalid token:', reason);
-      return res
-        .status(200)
-        .json({ success: false, errorCodes: [reason] });
+    // Invalid tokens and action mismatches are reported with 200, as before
+    const result = await assessRecaptcha(token, action);
+    if (!result.success) {
+      console.error('reCAPTCHA Enterprise rejected token:', result.errorCodes);
     }
-
-    // If action was provided, check for mismatch
-    if (action && tokenProperties.action !== action) {
-      console.error(
-        'reCAPTCHA Enterprise action mismatch:',
-        tokenProperties.action
-      );
-      return res
-        .status(200)
-        .json({ success: false, errorCodes: ['action-mismatch'] });
-    }
-
-    // Success: return the risk score
-    const score = riskAnalysis?.score ?? 0;
-    return res.status(200).json({ success: true, score });
+    return res.status(200).json(result);
   } catch (err) {
     console.error('Error verifying reCAPTCHA Enterprise:', err);
     return res.status(500).json({ success: false });
@@ -0,0 +1,255 @@
+// pages/api/webhooks/paypal.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { buffer } from 'micro';
+import { adminDb } from '@/lib/firebaseAdmin';
+import { verifyWebhookSignature } from '@/lib/paypal';
+import type { PayPalAmount, PayPalSubscription } from '@/lib/paypal';
+import { upsertMemberByApp } from '@/lib/membership';
+import { planForPayPalPlan } from '@/lib/membershipPlans';
+import { postDonation, adjustDonation, toLedgerStatus } from '@/lib/donationLedger';
+import { processPayPalEventOnce } from '@/lib/paypalEvents';
+import type { GiftAidDeclaration } from '@/types/donations';
+
+// Raw body: PayPal verifies the event exactly as it was sent
+export const config = { api: { bodyParser: false } };
+
+type PayPalEvent = {
+  id: string;
+  event_type: string;
+  create_time?: string;
+  resource: Record<string, unknown>;
+};
+
+type CaptureResource = {
+  id: string;
+  status: string;
+  amount: PayPalAmount;
+  supplementary_data?: { related_ids?: { order_id?: string } };
+};
+
+type RefundResource = {
+  id: string;
+  amount: PayPalAmount;
+  note_to_payer?: string;
+  seller_payable_breakdown?: { total_refunded_amount?: PayPalAmount };
+  links?: Array<{ rel: string; href: string }>;
+};
+
+type PaymentDoc = {
+  applicationId?: string | null;
+  campaignId?: string | null;
+  donorName?: string;
+  donorEmail?: string | null;
+  giftAid?: GiftAidDeclaration | null;
+  campaignUpdates?: boolean;
+  fundraiserId?: string | null;
+  embedSite?: string | null;
+};
+
+/* ---------------- JOIN FLOW helpers (mirror the Stripe webhook) ---------------- */
+/**
+ * Application for a subscription: the `custom_id` PayPal holds first (set when
+ * the subscription was created), then the approval record, then the application itself.
+ */
+async function applicationForSubscription(sub: PayPalSubscription) {
+  if (sub.custom_id) return sub.custom_id;
+  const pay = await adminDb.collection('payments').doc(`pps_${sub.id}`).get();
+  const fromPayment = (pay.data() as PaymentDoc | undefined)?.applicationId;
+  if (fromPayment) return fromPayment;
+
+  const apps = await adminDb
+    .collection('joinApplications')
+    .where('paypalSubscriptionId', '==', sub.id)
+    .limit(1)
+    .get();
+  return apps.empty ? null : apps.docs[0].id;
+}
+
+const toMinor = (a?: PayPalAmount) => Math.round(Number(a?.value || 0) * 100);
+const toDate = (iso?: string) => (iso ? new Date(iso) : null);
+
+/* ---------------- Event handlers ---------------- */
+
+async function onCaptureCompleted(event: PayPalEvent) {
+  const capture = event.resource as unknown as CaptureResource;
+  const orderId = capture.supplementary_data?.related_ids?.order_id;
+  if (!orderId) return;
+
+  const payRef = adminDb.collection('payments').doc(`pp_${orderId}`);
+  const paySnap = await payRef.get();
+  if (!paySnap.exists) return;
+  const pay = paySnap.data() as PaymentDoc;
+
+  let donationId: string | null = null;
+  if (pay.campaignId) {
+    // Same ledger entry as capture-order (keyed by the capture id)
+    const result = await postDonation({
+      campaignId: String(pay.campaignId),
+      method: 'paypal',
+      txnRef: capture.id,
+      status: toLedgerStatus(capture.status),
+      amount: Number(capture.amount?.value || 0),
+      currency: String(capture.amount?.currency_code || 'GBP'),
+      donorName: pay.donorName || '',
+      donorEmail: pay.donorEmail,
+      giftAid: pay.giftAid ?? null,
+      campaignUpdates: !!pay.campaignUpdates,
+      fundraiserId: pay.fundraiserId ?? null,
+      embedSite: pay.embedSite ?? null,
+    });
+    donationId = result.id;
+  } else if (pay.applicationId) {
+    await upsertMemberByApp(String(pay.applicationId), { status: 'active', lastPaymentAt: new Date() });
+  }
+
+  await payRef.set(
+    {
+      status: 'captured',
+      captureId: capture.id,
+      ...(donationId ? { donationId } : {}),
+      updatedAt: new Date(),
+    },
+    { merge: true }
+  );
+}
+
+async function onCaptureRefunded(event: PayPalEvent) {
+  const refund = event.resource as unknown as RefundResource;
+  const up = (refund.links || []).find((l) => l.rel === 'up')?.href || '';
+  const captureId = up.split('/captures/')[1]?.split(/[/?]/)[0];
+  if (!captureId) return;
+
+  const total = refund.seller_payable_breakdown?.total_refunded_amount || refund.amount;
+  const result = await adjustDonation({
+    method: 'paypal',
+    txnRef: captureId,
+    kind: 'partial_refund', // upgraded to 'refund' once the whole capture is refunded
+    refundedAmount: Number(total?.value || 0),
+    amount: Number(refund.amount?.value || 0),
+    currency: String(refund.amount?.currency_code || 'GBP'),
+    reason: refund.note_to_payer || null,
+    eventRef: event.id,
+  });
+  if (result) return;
+
+  // Membership payment
+  const pays = await adminDb.collection('payments').where('captureId', '==', captureId).limit(1).get();
+  if (!pays.empty) await pays.docs[0].ref.update({ status: 'refunded', updatedAt: new Date() });
+}
+
+async function onSubscriptionActivated(event: PayPalEvent) {
+  const sub = event.resource as unknown as PayPalSubscription;
+  const applicationId = await applicationForSubscription(sub);
+  const last = sub.billing_info?.last_payment;
+  const plan = await planForPayPalPlan(sub.plan_id);
+  const fromPlan = plan ? { planId: plan.id, tier: plan.tier ?? null } : {};
+
+  if (applicationId) {
+    await adminDb.collection('joinApplications').doc(applicationId).set(
+      {
+        paypalSubscriptionId: sub.id,
+        status: 'approved',
+        membershipPlan: 'monthly',
+        ...(plan ? { planId: plan.id } : {}),
+        updatedAt: new Date(),
+      },
+      { merge: true }
+    );
+    await upsertMemberByApp(applicationId, {
+      paypalSubscriptionId: sub.id,
+      ...fromPlan,
+      status: 'active',
+      lastPaymentAt: toDate(last?.time) || new Date(),
+      currentPeriodEnd: toDate(sub.billing_info?.next_billing_time),
+    });
+  }
+
+  await adminDb.collection('payments').doc(`pps_${sub.id}`).set(
+    { provider: 'paypal', kind: 'subscription', subscriptionId: sub.id, applicationId, status: 'active', updatedAt: new Date() },
+    { merge: true }
+  );
+
+  if (last?.amount) {
+    // One record per delivery, like invoice.paid
+    await adminDb.collection('payments').doc(`ppe_${event.id}`).set({
+      applicationId,
+      provider: 'paypal',
+      kind: 'subscription',
+      paypalSubscriptionId: sub.id,
+      amount: toMinor(last.amount),
+      currency: String(last.amount.currency_code || 'GBP').toUpperCase(),
+      status: 'paid',
+      createdAt: toDate(last.time) || new Date(),
+      periodEnd: toDate(sub.billing_info?.next_billing_time),
+    });
+  }
+}
+
+async function onSubscriptionStatus(event: PayPalEvent, memberStatus: 'canceled' | 'inactive' | 'past_due') {
+  const sub = event.resource as unknown as PayPalSubscription;
+  const applicationId = await applicationForSubscription(sub);
+  if (applicationId) await upsertMemberByApp(applicationId, { status: memberStatus });
+
+  await adminDb.collection('payments').doc(`pps_${sub.id}`).set(
+    { status: String(sub.status || memberStatus).toLowerCase(), updatedAt: new Date() },
+    { merge: true }
+  );
+
+  if (event.event_type === 'BILLING.SUBSCRIPTION.PAYMENT.FAILED') {
+    await adminDb.collection('payments').doc(`ppe_${event.id}`).set({
+      applicationId,
+      provider: 'paypal',
+      kind: 'subscription',
+      paypalSubscriptionId: sub.id,
+      amount: toMinor(sub.billing_info?.last_payment?.amount),
+      currency: String(sub.billing_info?.last_payment?.amount?.currency_code || 'GBP').toUpperCase(),
+      status: 'failed',
+      createdAt: toDate(event.create_time) || new Date(),
+      periodStart: null,
+      periodEnd: null,
+    });
+  }
+}
+
+const eventHandlers: Record<string, (event: PayPalEvent) => Promise<void>> = {
+  'PAYMENT.CAPTURE.COMPLETED': onCaptureCompleted,
+  'PAYMENT.CAPTURE.REFUNDED': onCaptureRefunded,
+  'BILLING.SUBSCRIPTION.ACTIVATED': onSubscriptionActivated,
+  'BILLING.SUBSCRIPTION.CANCELLED': (event) => onSubscriptionStatus(event, 'canceled'),
+  'BILLING.SUBSCRIPTION.SUSPENDED': (event) => onSubscriptionStatus(event, 'inactive'),
+  'BILLING.SUBSCRIPTION.PAYMENT.FAILED': (event) => onSubscriptionStatus(event, 'past_due'),
+};
+
+/* ---------------- Webhook handler ---------------- */
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ ok: false, error: 'Method Not Allowed' });
+  }
+
+  let event: PayPalEvent;
+  try {
+    const buf = await buffer(req);
+    event = JSON.parse(buf.toString('utf8'));
+    const verified = await verifyWebhookSignature(req.headers, event);
+    if (!verified) throw new Error('invalid signature');
+  } catch (err: unknown) {
+    const message = (err as { message?: string })?.message || 'invalid signature';
+    console.error('paypal webhook verification failed', message);
+    return res.status(400).send(`Webhook Error: ${message}`);
+  }
+
+  const handle = eventHandlers[event.event_type];
+  // Ignore other events
+  if (!handle) return res.json({ received: true });
+
+  try {
+    // Re-deliveries of a processed event are acknowledged without running again
+    const ran = await processPayPalEventOnce(event, () => handle(event));
+    return res.json({ received: true, ...(ran ? {} : { duplicate: true }) });
+  } catch (e: unknown) {
+    console.error('paypal webhook handler error', (e as { message?: string })?.message || e);
+    return res.status(500).json({ ok: false, error: 'Webhook handler error' });
+  }
+}
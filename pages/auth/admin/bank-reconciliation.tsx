@@ -0,0 +1,288 @@
+import React from 'react';
+import Head from 'next/head';
+import useAdminGuard from '@/utils/useAdminGuard';
+import type { BankMatch, BankReconciliation } from '@/types/donations';
+
+async function fetchJSON<T = unknown>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, { credentials: 'include', ...init });
+  const tx = await res.text();
+  let data: { ok?: boolean; error?: string } | null = null;
+  try { data = JSON.parse(tx); } catch {}
+  if (!res.ok || data?.ok === false) throw new Error(data?.error || tx || `HTTP ${res.status}`);
+  return (data ?? {}) as T;
+}
+
+type CampaignRef = { id: string; title_ar: string; currency: string; status: string; bankReference: string };
+
+type Preview = { format: 'csv' | 'ofx'; skipped: number; lines: BankMatch[] };
+
+/** A preview line as the treasurer left it: chosen campaign and whether to record it. */
+type Row = BankMatch & { include: boolean; chosen: string };
+
+function money(n: number, ccy: string) {
+  try {
+    return new Intl.NumberFormat('en-GB', { style: 'currency', currency: (ccy || 'GBP').toUpperCase() }).format(n || 0);
+  } catch {
+    return `${(n || 0).toFixed(2)} ${ccy}`;
+  }
+}
+
+const day = (ms: number) => new Date(ms).toLocaleDateString('en-GB');
+
+export default function AdminBankReconciliation() {
+  const { ready } = useAdminGuard();
+  const [campaigns, setCampaigns] = React.useState<CampaignRef[]>([]);
+  const [logs, setLogs] = React.useState<BankReconciliation[]>([]);
+  const [currency, setCurrency] = React.useState('GBP');
+  const [fileName, setFileName] = React.useState('');
+  const [preview, setPreview] = React.useState<Omit<Preview, 'lines'> | null>(null);
+  const [rows, setRows] = React.useState<Row[]>([]);
+  const [busy, setBusy] = React.useState(false);
+  const [err, setErr] = React.useState<string | null>(null);
+  const [done, setDone] = React.useState<BankReconciliation | null>(null);
+
+  const load = React.useCallback(async () => {
+    try {
+      const data = await fetchJSON<{ campaigns: CampaignRef[]; items: BankReconciliation[] }>('/api/admin/donations/bank-reconciliation');
+      setCampaigns(Array.isArray(data.campaigns) ? data.campaigns : []);
+      setLogs(Array.isArray(data.items) ? data.items : []);
+    } catch (e: unknown) {
+      setErr((e as Error)?.message || String(e));
+    }
+  }, []);
+
+  React.useEffect(() => { if (ready) load(); }, [ready, load]);
+
+  const upload = async (file?: File | null) => {
+    if (!file) return;
+    setBusy(true); setErr(null); setDone(null); setRows([]); setPreview(null);
+    try {
+      const data = await fetchJSON<Preview>('/api/admin/donations/bank-reconciliation', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content: await file.text(), fileName: file.name, currency }),
+      });
+      setFileName(file.name);
+      setPreview({ format: data.format, skipped: data.skipped });
+      setRows(data.lines.map((l) => ({ ...l, chosen: l.campaignId || '', include: !!l.campaignId && !l.donationId })));
+    } catch (e: unknown) {
+      setErr((e as Error)?.message || String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const setRow = (key: string, patch: Partial<Row>) =>
+    setRows((prev) => prev.map((r) => (r.key === key ? { ...r, ...patch } : r)));
+
+  const selected = rows.filter((r) => r.include && r.chosen && !r.donationId);
+
+  const confirm = async () => {
+    if (!preview || !selected.length) return;
+    if (!window.confirm(`Record ${selected.length} bank donation(s) as confirmed?`)) return;
+    setBusy(true); setErr(null);
+    try {
+      const data = await fetchJSON<{ item: BankReconciliation }>('/api/admin/donations/bank-reconciliation', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          fileName,
+          format: preview.format,
+          skipped: preview.skipped + rows.length - selected.length,
+          lines: selected.map((r) => ({
+            transaction: { key: r.key, date: r.date, amount: r.amount, currency: r.currency, description: r.description },
+            campaignId: r.chosen,
+            matchedBy: r.matchedBy === 'reference' && r.chosen === r.campaignId ? 'reference' : 'manual',
+          })),
+        }),
+      });
+      setDone(data.item);
+      setRows([]);
+      setPreview(null);
+      await load();
+    } catch (e: unknown) {
+      setErr((e as Error)?.message || String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const titleOf = (id: string) => campaigns.find((c) => c.id === id)?.title_ar || id;
+
+  if (!ready) return null;
+
+  return (
+    <>
+      <Head><title>Admin · Bank reconciliation</title></Head>
+      <div className="max-w-6xl mx-auto px-4 py-10 space-y-6">
+        <div className="space-y-1">
+          <h2 className="text-xl font-semibold">Bank statement reconciliation</h2>
+          <p className="text-sm text-neutral-600">
+            Upload a CSV or OFX export. Money in is matched to campaigns by the bank-transfer reference in the
+            description; check the suggestions, pick a campaign for the rest, then confirm. Payments out are ignored,
+            and lines imported before are never counted twice.
+          </p>
+        </div>
+
+        {err && <div className="p-3 rounded bg-red-50 border text-red-700 break-all">{err}</div>}
+        {done && (
+          <div className="p-3 rounded bg-emerald-50 border text-emerald-800 text-sm">
+            Recorded {done.entries.filter((e) => e.result === 'created').length} donation(s)
+            {Object.entries(done.totals).map(([ccy, n]) => ` · ${money(n, ccy)}`).join('')}
+            {done.entries.some((e) => e.result === 'duplicate') &&
+              ` · ${done.entries.filter((e) => e.result === 'duplicate').length} already recorded`}
+          </div>
+        )}
+
+        <div className="rounded-xl border bg-white p-4 flex flex-wrap items-end gap-3 text-sm">
+          <label className="flex flex-col gap-1">
+            Statement file
+            <input type="file" accept=".csv,.ofx,.qfx,text/csv" disabled={busy} onChange={(e) => upload(e.target.files?.[0])} />
+          </label>
+          <label className="flex flex-col gap-1">
+            Account currency (CSV without a currency column)
+            <select className="border p-2 rounded" value={currency} onChange={(e) => setCurrency(e.target.value)}>
+              {['GBP', 'USD', 'EUR'].map((c) => <option key={c} value={c}>{c}</option>)}
+            </select>
+          </label>
+          {busy && <span className="text-neutral-500">Working…</span>}
+        </div>
+
+        {preview && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-3 text-sm">
+              <div className="text-neutral-600">
+                {fileName} ({preview.format.toUpperCase()}) · {rows.length} credit line(s)
+                {preview.skipped ? ` · ${preview.skipped} other line(s) ignored` : ''}
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  className="rounded-lg border px-3 py-2 hover:bg-neutral-50"
+                  onClick={() => setRows((prev) => prev.map((r) => ({ ...r, include: !!r.chosen && !r.donationId })))}
+                >
+                  Select all with a campaign
+                </button>
+                <button
+                  className="rounded-lg bg-palestine-green text-white px-4 py-2 disabled:opacity-50"
+                  disabled={busy || !selected.length}
+                  onClick={confirm}
+                >
+                  Confirm {selected.length} donation(s)
+                </button>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto border rounded-xl bg-white">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-neutral-500 border-b">
+                    <th className="p-3"></th>
+                    <th className="p-3">Date</th>
+                    <th className="p-3">Description</th>
+                    <th className="p-3">Amount</th>
+                    <th className="p-3">Campaign</th>
+                    <th className="p-3">Match</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((r) => (
+                    <tr key={r.key} className={`border-b last:border-0 align-top ${r.donationId ? 'text-neutral-400' : ''}`}>
+                      <td className="p-3">
+                        <input
+                          type="checkbox"
+                          checked={r.include}
+                          disabled={!!r.donationId || !r.chosen}
+                          onChange={(e) => setRow(r.key, { include: e.target.checked })}
+                        />
+                      </td>
+                      <td className="p-3 whitespace-nowrap">{day(r.date)}</td>
+                      <td className="p-3 break-words max-w-sm">{r.description || '—'}</td>
+                      <td className="p-3 whitespace-nowrap">{money(r.amount, r.currency)}</td>
+                      <td className="p-3">
+                        <select
+                          className="border p-1 rounded max-w-xs"
+                          value={r.chosen}
+                          disabled={!!r.donationId}
+                          onChange={(e) => setRow(r.key, { chosen: e.target.value, include: !!e.target.value })}
+                        >
+                          <option value="">—</option>
+                          {campaigns.map((c) => (
+                            <option key={c.id} value={c.id}>{c.title_ar} ({c.bankReference})</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="p-3 whitespace-nowrap">
+                        {r.donationId ? 'Already recorded' : r.matchedBy === 'reference' && r.chosen === r.campaignId ? 'Reference' : r.chosen ? 'Manual' : 'No match'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <h3 className="text-lg font-semibold">Campaign references</h3>
+          <div className="flex flex-wrap gap-2 text-sm">
+            {campaigns.map((c) => (
+              <span key={c.id} className="rounded-lg border bg-white px-2 py-1">
+                {c.title_ar}: <b className="font-mono">{c.bankReference}</b>
+              </span>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <h3 className="text-lg font-semibold">Reconciliation log</h3>
+          {logs.length ? (
+            <div className="overflow-x-auto border rounded-xl bg-white">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-neutral-500 border-b">
+                    <th className="p-3">Imported</th>
+                    <th className="p-3">File</th>
+                    <th className="p-3">Recorded</th>
+                    <th className="p-3">Already recorded</th>
+                    <th className="p-3">Not confirmed</th>
+                    <th className="p-3">Total</th>
+                    <th className="p-3">By</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {logs.map((l) => (
+                    <tr key={l.id} className="border-b last:border-0 align-top">
+                      <td className="p-3 whitespace-nowrap">{new Date(l.createdAt).toLocaleString()}</td>
+                      <td className="p-3">
+                        <details>
+                          <summary className="cursor-pointer">{l.fileName} ({l.format.toUpperCase()})</summary>
+                          <ul className="mt-2 space-y-1 text-xs text-neutral-600">
+                            {l.entries.map((e) => (
+                              <li key={e.key}>
+                                {day(e.date)} · {money(e.amount, e.currency)} → {titleOf(e.campaignId)} ({e.matchedBy}
+                                {e.result === 'duplicate' ? ', already recorded' : ''})
+                              </li>
+                            ))}
+                          </ul>
+                        </details>
+                      </td>
+                      <td className="p-3">{l.entries.filter((e) => e.result === 'created').length}</td>
+                      <td className="p-3">{l.entries.filter((e) => e.result === 'duplicate').length}</td>
+                      <td className="p-3">{l.skipped}</td>
+                      <td className="p-3 whitespace-nowrap">
+                        {Object.entries(l.totals || {}).map(([ccy, n]) => money(n, ccy)).join(' · ') || '—'}
+                      </td>
+                      <td className="p-3 text-xs">{l.createdBy || '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="text-center text-neutral-500 p-6 border rounded-xl bg-white">No imports yet.</div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -3,6 +3,14 @@ import Head from 'next/head';
 import Link from 'next/link';
 import useAdminGuard from '@/utils/useAdminGuard';
 
+type FxRateTable = {
+  id: string;
+  base: string;
+  rates: Record<string, number>;
+  effectiveFrom: number;
+  note?: string;
+};
+
 type Campaign = {
   id: string;
   title_ar: string;
@@ -13,6 +21,11 @@ type Campaign = {
   updatedAt?: number;
 };
 
+/** A report table as returned by /api/admin/donations/reports (lib/spreadsheet.ts Sheet). */
+type ReportSheet = { name: string; columns: string[]; rows: Array<Array<string | number | null>> };
+
+type Reports = { monthly: ReportSheet; fees: ReportSheet; refunds: ReportSheet; missingFees: number };
+
 async function fetchJSON(url: string, init?: RequestInit) {
   const res = await fetch(url, { credentials: 'include', ...init });
   const tx = await res.text();
@@ -55,6 +68,38 @@ export default function AdminDonationsPage() {
   const [deletingId, setDeletingId] = React.useState<string | null>(null);
   const [recomputing, setRecomputing] = React.useState(false);
 
+  // Gift Aid claim schedule (HMRC) — default range: the last full month
+  const [gaFrom, setGaFrom] = React.useState(() => {
+    const d = new Date(); d.setUTCDate(1); d.setUTCMonth(d.getUTCMonth() - 1);
+    return d.toISOString().slice(0, 10);
+  });
+  const [gaTo, setGaTo] = React.useState(() => {
+    const d = new Date(); d.setUTCDate(0);
+    return d.toISOString().slice(0, 10);
+  });
+  const [gaPreview, setGaPreview] = React.useState<{ count: number; total: number } | null>(null);
+
+  // Accounting exports and reports — same default range, all filters open
+  const [exFrom, setExFrom] = React.useState(gaFrom);
+  const [exTo, setExTo] = React.useState(gaTo);
+  const [exFilters, setExFilters] = React.useState({ campaignId: '', method: '', status: '', currency: '' });
+  const [reports, setReports] = React.useState<Reports | null>(null);
+  const [reportsLoading, setReportsLoading] = React.useState(false);
+
+  // FX rate tables (donations in another currency count in the campaign currency)
+  const [fxTables, setFxTables] = React.useState<FxRateTable[]>([]);
+  const [fxDay, setFxDay] = React.useState(() => new Date().toISOString().slice(0, 10));
+  const [fxRates, setFxRates] = React.useState<Record<string, string>>({ USD: '', EUR: '' });
+  const [fxSaving, setFxSaving] = React.useState(false);
+
+  // Donor giving statement — default: the last complete UK tax year (6 April – 5 April)
+  const [stEmail, setStEmail] = React.useState('');
+  const [stYear, setStYear] = React.useState(() => {
+    const d = new Date();
+    const started = d.getUTCMonth() > 3 || (d.getUTCMonth() === 3 && d.getUTCDate() >= 6);
+    return d.getUTCFullYear() - (started ? 1 : 2);
+  });
+
   // Keep a ref of current items so we can merge without stale closures
   const itemsRef = React.useRef<Campaign[]>(items);
   React.useEffect(() => { itemsRef.current = items; }, [items]);
@@ -143,11 +188,14 @@ export default function AdminDonationsPage() {
     setRecomputing(true);
     setError(null);
     try {
-      await fetchJSON('/api/admin/donations/recompute-aggregates', {
+      const r = await fetchJSON('/api/admin/donations/recompute-aggregates', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
       });
       await load(); // refresh view after recompute
+      if (Number(r?.unconverted) > 0) {
+        setError(`${r.unconverted} تبرع بعملة مختلفة عن عملة الحملة لم يُحتسب: أضف جدول أسعار صرف ساريًا من تاريخ التبرع ثم أعد الاحتساب.`);
+      }
     } catch (e: any) {
       setError(e.message || String(e));
     } finally {
@@ -155,6 +203,74 @@ export default function AdminDonationsPage() {
     }
   };
 
+  const loadFx = React.useCallback(async () => {
+    try {
+      const data = await fetchJSON('/api/admin/donations/fx-rates');
+      setFxTables(Array.isArray(data.tables) ? data.tables : []);
+    } catch (e: unknown) {
+      setError((e as Error)?.message || String(e));
+    }
+  }, []);
+
+  const saveFx = async () => {
+    setFxSaving(true);
+    setError(null);
+    try {
+      await fetchJSON('/api/admin/donations/fx-rates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ effectiveFrom: fxDay, rates: { USD: Number(fxRates.USD), EUR: Number(fxRates.EUR) } }),
+      });
+      await loadFx();
+    } catch (e: unknown) {
+      setError((e as Error)?.message || String(e));
+    } finally {
+      setFxSaving(false);
+    }
+  };
+
+  React.useEffect(() => {
+    if (ready) loadFx();
+  }, [ready, loadFx]);
+
+  const giftAidUrl = (format: 'csv' | 'json') =>
+    `/api/admin/donations/gift-aid-export?from=${encodeURIComponent(gaFrom)}&to=${encodeURIComponent(gaTo)}&format=${format}`;
+
+  const previewGiftAid = async () => {
+    setError(null);
+    setGaPreview(null);
+    try {
+      const data = await fetchJSON(giftAidUrl('json'));
+      setGaPreview({ count: Number(data.count || 0), total: Number(data.total || 0) });
+    } catch (e: unknown) {
+      setError((e as Error)?.message || String(e));
+    }
+  };
+
+  const exportQuery = () => {
+    const q = new URLSearchParams({ from: exFrom, to: exTo });
+    for (const [k, v] of Object.entries(exFilters)) if (v) q.set(k, v);
+    return q.toString();
+  };
+
+  const setExFilter = (k: keyof typeof exFilters, v: string) => {
+    setExFilters(prev => ({ ...prev, [k]: v }));
+    setReports(null);
+  };
+
+  const loadReports = async () => {
+    setError(null);
+    setReports(null);
+    setReportsLoading(true);
+    try {
+      setReports(await fetchJSON(`/api/admin/donations/reports?${exportQuery()}&format=json`));
+    } catch (e: unknown) {
+      setError((e as Error)?.message || String(e));
+    } finally {
+      setReportsLoading(false);
+    }
+  };
+
   // initial + auto refresh every 10s (cleared on unmount)
   React.useEffect(() => {
     if (!ready) return;
@@ -250,6 +366,225 @@ export default function AdminDonationsPage() {
             </tbody>
           </table>
         </div>
+
+        {/* FX rates: how donations in another currency count towards a campaign */}
+        <div className="rounded-xl border bg-white p-4 space-y-3">
+          <h2 className="font-semibold">أسعار الصرف</h2>
+          <p className="text-sm text-neutral-600">
+            التبرعات بعملة غير عملة الحملة تُحوَّل بالجدول الساري في تاريخ التبرع، ويُحفظ السعر مع التبرع. الأسعار مقابل 1 GBP.
+          </p>
+          <div className="flex flex-wrap items-end gap-3 text-sm">
+            <label className="flex flex-col gap-1">
+              ساري من
+              <input type="date" className="border p-2 rounded" value={fxDay} onChange={e => setFxDay(e.target.value)} />
+            </label>
+            {['USD', 'EUR'].map((c) => (
+              <label key={c} className="flex flex-col gap-1">
+                {c}
+                <input
+                  type="number"
+                  step="0.0001"
+                  min={0}
+                  className="border p-2 rounded w-28"
+                  value={fxRates[c] || ''}
+                  onChange={e => setFxRates((prev) => ({ ...prev, [c]: e.target.value }))}
+                />
+              </label>
+            ))}
+            <button
+              type="button"
+              onClick={saveFx}
+              disabled={fxSaving || !fxRates.USD || !fxRates.EUR}
+              className="rounded-xl bg-palestine-green text-white px-4 py-2 disabled:opacity-50"
+            >
+              {fxSaving ? 'جارٍ الحفظ…' : 'حفظ الجدول'}
+            </button>
+          </div>
+          {fxTables.length > 0 ? (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left border-b">
+                  <th className="p-2">ساري من</th>
+                  <th className="p-2">USD</th>
+                  <th className="p-2">EUR</th>
+                </tr>
+              </thead>
+              <tbody>
+                {fxTables.map((t) => (
+                  <tr key={t.id} className="border-b">
+                    <td className="p-2">{t.id}</td>
+                    <td className="p-2">{t.rates.USD}</td>
+                    <td className="p-2">{t.rates.EUR}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <div className="text-sm text-amber-700">لا توجد أسعار صرف بعد؛ التبرعات بعملة مختلفة لن تُحتسب في إجمالي الحملة.</div>
+          )}
+        </div>
+
+        {/* Gift Aid: HMRC Charities Online claim schedule */}
+        <div className="rounded-xl border bg-white p-4 space-y-3">
+          <h2 className="font-semibold">جدول مطالبة Gift Aid (HMRC)</h2>
+          <p className="text-sm text-neutral-600">
+            التبرعات المؤكدة بالجنيه الإسترليني التي تحمل إقرار Gift Aid فقط؛ تُستبعد التبرعات المستردة أو المتنازع عليها.
+          </p>
+          <div className="flex flex-wrap items-end gap-3 text-sm">
+            <label className="flex flex-col gap-1">
+              من
+              <input type="date" className="border p-2 rounded" value={gaFrom} onChange={e => { setGaFrom(e.target.value); setGaPreview(null); }} />
+            </label>
+            <label className="flex flex-col gap-1">
+              إلى
+              <input type="date" className="border p-2 rounded" value={gaTo} onChange={e => { setGaTo(e.target.value); setGaPreview(null); }} />
+            </label>
+            <button type="button" onClick={previewGiftAid} className="rounded-xl border px-4 py-2 hover:bg-neutral-50">
+              معاينة
+            </button>
+            <a href={giftAidUrl('csv')} className="rounded-xl bg-palestine-green text-white px-4 py-2">
+              تنزيل CSV
+            </a>
+          </div>
+          {gaPreview && (
+            <div className="text-sm text-neutral-700">
+              {gaPreview.count} تبرع — المبلغ المطالب به: {formatMoney(gaPreview.total, 'GBP')}
+            </div>
+          )}
+        </div>
+
+        {/* Accounting: filtered donation export and summary reports */}
+        <div className="rounded-xl border bg-white p-4 space-y-3">
+          <h2 className="font-semibold">تصدير التبرعات والتقارير المحاسبية</h2>
+          <p className="text-sm text-neutral-600">
+            التبرعات المسجّلة خلال الفترة (بتوقيت المملكة المتحدة). التقارير: الإجمالي الشهري لكل حملة بعملتها، والرسوم مقابل
+            الصافي (رسوم Stripe من معاملة الرصيد، بعملة التسوية)، والاستردادات والنزاعات المسجّلة خلال الفترة.
+          </p>
+          <div className="flex flex-wrap items-end gap-3 text-sm">
+            <label className="flex flex-col gap-1">
+              من
+              <input type="date" className="border p-2 rounded" value={exFrom} onChange={e => { setExFrom(e.target.value); setReports(null); }} />
+            </label>
+            <label className="flex flex-col gap-1">
+              إلى
+              <input type="date" className="border p-2 rounded" value={exTo} onChange={e => { setExTo(e.target.value); setReports(null); }} />
+            </label>
+            <label className="flex flex-col gap-1">
+              الحملة
+              <select className="border p-2 rounded max-w-xs" value={exFilters.campaignId} onChange={e => setExFilter('campaignId', e.target.value)}>
+                <option value="">الكل</option>
+                {items.map(c => <option key={c.id} value={c.id}>{c.title_ar || c.id}</option>)}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              طريقة الدفع
+              <select className="border p-2 rounded" value={exFilters.method} onChange={e => setExFilter('method', e.target.value)}>
+                <option value="">الكل</option>
+                <option value="stripe">Stripe</option>
+                <option value="paypal">PayPal</option>
+                <option value="bank">تحويل بنكي</option>
+                <option value="offline">نقدي / يدوي</option>
+                <option value="match">مطابقة راعٍ</option>
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              الحالة
+              <select className="border p-2 rounded" value={exFilters.status} onChange={e => setExFilter('status', e.target.value)}>
+                <option value="">الكل</option>
+                <option value="confirmed">مؤكد</option>
+                <option value="refunded">مسترد</option>
+                <option value="pending">قيد الانتظار</option>
+                <option value="failed">فشل</option>
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              العملة
+              <select className="border p-2 rounded" value={exFilters.currency} onChange={e => setExFilter('currency', e.target.value)}>
+                <option value="">الكل</option>
+                {['GBP', 'USD', 'EUR'].map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+            </label>
+          </div>
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <span className="text-neutral-600">التبرعات:</span>
+            <a href={`/api/admin/donations/export?${exportQuery()}&format=csv`} className="rounded-xl bg-palestine-green text-white px-4 py-2">
+              CSV
+            </a>
+            <a href={`/api/admin/donations/export?${exportQuery()}&format=xlsx`} className="rounded-xl bg-palestine-green text-white px-4 py-2">
+              XLSX
+            </a>
+            <span className="text-neutral-600 ms-4">التقارير:</span>
+            <button type="button" onClick={loadReports} disabled={reportsLoading} className="rounded-xl border px-4 py-2 hover:bg-neutral-50 disabled:opacity-50">
+              {reportsLoading ? 'جارٍ الإعداد…' : 'عرض التقارير'}
+            </button>
+            <a href={`/api/admin/donations/reports?${exportQuery()}&format=xlsx`} className="rounded-xl border px-4 py-2 hover:bg-neutral-50">
+              XLSX
+            </a>
+          </div>
+          {reports && (
+            <div className="space-y-4">
+              {reports.missingFees > 0 && (
+                <div className="text-sm text-amber-700">
+                  تعذّر جلب رسوم {reports.missingFees} تبرع عبر Stripe؛ أعد عرض التقارير لاحقًا لإكمالها.
+                </div>
+              )}
+              {(['monthly', 'fees', 'refunds'] as const).map(key => (
+                <div key={key} className="space-y-2">
+                  <div className="flex items-center justify-between gap-3">
+                    <h3 className="font-medium">{reports[key].name}</h3>
+                    <a href={`/api/admin/donations/reports?${exportQuery()}&format=csv&report=${key}`} className="text-sm underline">
+                      CSV
+                    </a>
+                  </div>
+                  {reports[key].rows.length ? (
+                    <div className="overflow-x-auto" dir="ltr">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-neutral-500 border-b">
+                            {reports[key].columns.map(c => <th key={c} className="p-2 whitespace-nowrap">{c}</th>)}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {reports[key].rows.map((r, i) => (
+                            <tr key={i} className="border-b last:border-0">
+                              {reports[key].columns.map((c, j) => <td key={c} className="p-2 whitespace-nowrap">{r[j] ?? '—'}</td>)}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  ) : (
+                    <div className="text-sm text-neutral-500">لا توجد بيانات لهذه الفترة.</div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Yearly giving statement for one donor (PDF) */}
+        <div className="rounded-xl border bg-white p-4 space-y-3">
+          <h2 className="font-semibold">كشف التبرعات السنوي لمتبرع</h2>
+          <p className="text-sm text-neutral-600">
+            جميع التبرعات المؤكدة بالبريد الإلكتروني للمتبرع خلال السنة الضريبية (6 أبريل – 5 أبريل)، بعد خصم المبالغ المستردة.
+          </p>
+          <div className="flex flex-wrap items-end gap-3 text-sm">
+            <label className="flex flex-col gap-1">
+              البريد الإلكتروني
+              <input type="email" className="border p-2 rounded" value={stEmail} onChange={e => setStEmail(e.target.value)} />
+            </label>
+            <label className="flex flex-col gap-1">
+              السنة الضريبية تبدأ في
+              <input type="number" className="border p-2 rounded w-28" value={stYear} onChange={e => setStYear(Number(e.target.value))} />
+            </label>
+            <a
+              href={`/api/admin/donations/statement?email=${encodeURIComponent(stEmail.trim())}&year=${stYear}`}
+              className={`rounded-xl bg-palestine-green text-white px-4 py-2 ${stEmail.trim() ? '' : 'pointer-events-none opacity-50'}`}
+            >
+              تنزيل PDF
+            </a>
+          </div>
+        </div>
       </div>
     </>
   );
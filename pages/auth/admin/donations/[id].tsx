@@ -2,6 +2,10 @@ import React from 'react';
 import Head from 'next/head';
 import { useRouter } from 'next/router';
 import useAdminGuard from '@/utils/useAdminGuard';
+import { CATEGORY_LABELS, DISBURSEMENT_CATEGORIES } from '@/lib/spending';
+import { embedSnippet, embedUrl } from '@/lib/embed';
+import type { EmbedLang, EmbedTheme } from '@/lib/embed';
+import type { CampaignReport, Disbursement, DisbursementCategory, Fundraiser } from '@/types/donations';
 
 async function fetchJSON<T = any>(url: string, init?: RequestInit): Promise<T> {
   const res = await fetch(url, { credentials: 'include', ...init });
@@ -12,6 +16,9 @@ async function fetchJSON<T = any>(url: string, init?: RequestInit): Promise<T> {
 }
 
 type MediaItem = { id: string; type: 'image'|'video'|'youtube'; url: string; title?: string; isPrimary?: boolean };
+type Pledge = { id: string; sponsorName: string; ratio: number; cap: number; startAt: number; endAt?: number|null; matchedAmount?: number };
+type Milestone = { id: string; percent: number; description_en: string; description_ar: string; reachedAt?: number|null };
+type Organizer = { name: string; role?: string; email?: string };
 type Campaign = {
   id: string; slug: string; status: 'draft'|'active'|'paused'|'closed';
   title_ar: string; bannerUrl?: string|null;
@@ -21,7 +28,40 @@ type Campaign = {
   media: MediaItem[];
   allowPublicDonorList: boolean;
   totalDonated: number; donorsCount: number;
+  totalSpent?: number;
+  totalFees?: number; showNetRaised?: boolean;
   startAt?: number; endAt?: number|null;
+  autoActivate?: boolean; pauseAt?: number|null; resumeAt?: number|null; closeOnGoal?: boolean;
+  closedAt?: number|null; closedReason?: CampaignReport['closedReason']|null;
+  matchingPledges?: Pledge[];
+  milestones?: Milestone[];
+  organizers?: Organizer[];
+  bankReference?: string;
+};
+type AuditItem = {
+  id: string; donationId: string;
+  kind: 'refund'|'partial_refund'|'dispute_opened'|'dispute_won'|'dispute_lost';
+  amount: number; currency: string; reason?: string; delta: number; createdAt: number;
+};
+
+const CLOSED_LABELS: Record<CampaignReport['closedReason'], string> = {
+  ended: 'انتهى موعدها',
+  goal_reached: 'بلغت الهدف',
+  manual: 'أُغلقت يدويًا',
+};
+
+const FUNDRAISER_LABELS: Record<Fundraiser['status'], string> = {
+  pending: 'بانتظار الاعتماد',
+  active: 'منشورة',
+  hidden: 'مخفية',
+};
+
+const AUDIT_LABELS: Record<AuditItem['kind'], string> = {
+  refund: 'استرداد كامل',
+  partial_refund: 'استرداد جزئي',
+  dispute_opened: 'نزاع مفتوح',
+  dispute_won: 'نزاع لصالحنا',
+  dispute_lost: 'نزاع خاسر',
 };
 
 export default function AdminDonationEdit() {
@@ -42,12 +82,27 @@ export default function AdminDonationEdit() {
   const [loading, setLoading] = React.useState(false);
   const [saving, setSaving] = React.useState(false);
   const [err, setErr] = React.useState<string|null>(null);
+  const [audit, setAudit] = React.useState<AuditItem[]>([]);
+  const [report, setReport] = React.useState<CampaignReport|null>(null);
+  const [fundraisers, setFundraisers] = React.useState<Fundraiser[]>([]);
+  // Widget for partner sites (/embed/campaign/[slug])
+  const [embedLang, setEmbedLang] = React.useState<EmbedLang>('ar');
+  const [embedTheme, setEmbedTheme] = React.useState<EmbedTheme>('light');
+  const [embedCopied, setEmbedCopied] = React.useState(false);
+
+  // disbursements
+  const [spend, setSpend] = React.useState<Disbursement[]>([]);
+  const [spendForm, setSpendForm] = React.useState({
+    amount: '', category: 'food' as DisbursementCategory, paidAt: new Date().toISOString().slice(0, 10),
+    beneficiary: '', note: '', receiptUrl: '', receiptPath: '',
+  });
+  const [spendBusy, setSpendBusy] = React.useState(false);
 
   // media state
   const [upBusy, setUpBusy] = React.useState(false);
   const [ytURL, setYtURL] = React.useState('');
 
-  // keep a ref of current state for monotonic merges / optimistic updates
+  // keep a ref of current state for server merges / optimistic updates
   const fRef = React.useRef<Partial<Campaign>>(f);
   React.useEffect(() => { fRef.current = f; }, [f]);
 
@@ -56,16 +111,14 @@ export default function AdminDonationEdit() {
     return Number.isFinite(n) ? n : def;
   };
 
-  const mergeMonotonic = React.useCallback((incoming: Partial<Campaign>) => {
+  const mergeServer = React.useCallback((incoming: Partial<Campaign>) => {
     const prev = fRef.current || {};
-    const inTotal = num(incoming.totalDonated, num(prev.totalDonated, 0));
-    const inDonors = num(incoming.donorsCount, num(prev.donorsCount, 0));
     const merged: Partial<Campaign> = {
       ...prev,
       ...incoming,
-      // never regress key aggregates
-      totalDonated: Math.max(num(prev.totalDonated, 0), inTotal),
-      donorsCount: Math.max(num(prev.donorsCount, 0), inDonors),
+      // server aggregates are authoritative (refunds/disputes can lower them)
+      totalDonated: num(incoming.totalDonated, num(prev.totalDonated, 0)),
+      donorsCount: num(incoming.donorsCount, num(prev.donorsCount, 0)),
       // keep media safe
       media: Array.isArray(incoming.media) ? incoming.media : (Array.isArray(prev.media) ? prev.media : []),
       // normalize currency for UI consistency
@@ -79,14 +132,24 @@ export default function AdminDonationEdit() {
     setLoading(true);
     setErr(null);
     try {
-      const data = await fetchJSON<{ item: Partial<Campaign> }>(`/api/admin/donations/${encodeURIComponent(id)}`);
-      mergeMonotonic({ ...(data.item || {}), media: Array.isArray(data.item?.media) ? data.item.media : [] });
+      const [data, log, out, rep, pages] = await Promise.all([
+        fetchJSON<{ item: Partial<Campaign> }>(`/api/admin/donations/${encodeURIComponent(id)}`),
+        fetchJSON<{ items: AuditItem[] }>(`/api/admin/donations/audit?campaignId=${encodeURIComponent(id)}`),
+        fetchJSON<{ items: Disbursement[] }>(`/api/admin/donations/disbursements?campaignId=${encodeURIComponent(id)}`),
+        fetchJSON<{ item: CampaignReport|null }>(`/api/admin/donations/report?campaignId=${encodeURIComponent(id)}`),
+        fetchJSON<{ items: Fundraiser[] }>(`/api/admin/donations/fundraisers?campaignId=${encodeURIComponent(id)}`),
+      ]);
+      mergeServer({ ...(data.item || {}), media: Array.isArray(data.item?.media) ? data.item.media : [] });
+      setAudit(Array.isArray(log.items) ? log.items : []);
+      setSpend(Array.isArray(out.items) ? out.items : []);
+      setReport(rep.item || null);
+      setFundraisers(Array.isArray(pages.items) ? pages.items : []);
     } catch (e: any) {
       setErr(e?.message || String(e));
     } finally {
       setLoading(false);
     }
-  }, [id, isNew, mergeMonotonic]);
+  }, [id, isNew, mergeServer]);
 
   React.useEffect(() => {
     if (!ready) return;
@@ -196,6 +259,117 @@ export default function AdminDonationEdit() {
     setF({ ...fRef.current, media });
   };
 
+  // matching pledges (progress is kept by the donation ledger)
+  const dateInput = (ms?: number|null) => (ms ? new Date(ms).toISOString().slice(0, 10) : '');
+  // datetime-local wants local time without a zone
+  const dateTimeInput = (ms?: number|null) => (ms ? new Date(ms - new Date(ms).getTimezoneOffset() * 60000).toISOString().slice(0, 16) : '');
+  const fromDateTime = (v: string) => (v ? new Date(v).getTime() : null);
+
+  const addPledge = () => {
+    const matchingPledges = [...(fRef.current.matchingPledges || [])];
+    matchingPledges.push({ id: cryptoRandomId(), sponsorName: '', ratio: 1, cap: 0, startAt: Date.now(), endAt: null, matchedAmount: 0 });
+    setF({ ...fRef.current, matchingPledges });
+  };
+
+  const updatePledge = (idx: number, patch: Partial<Pledge>) => {
+    const matchingPledges = [...(fRef.current.matchingPledges || [])];
+    matchingPledges[idx] = { ...matchingPledges[idx], ...patch };
+    setF({ ...fRef.current, matchingPledges });
+  };
+
+  const removePledge = (idx: number) => {
+    const matchingPledges = [...(fRef.current.matchingPledges || [])];
+    if (num(matchingPledges[idx]?.matchedAmount, 0) > 0 && !confirm('هذا التعهد طابق تبرعات بالفعل. حذفه؟')) return;
+    matchingPledges.splice(idx, 1);
+    setF({ ...fRef.current, matchingPledges });
+  };
+
+  // milestones (reachedAt is set by the onCampaignMilestone function)
+  const addMilestone = () => {
+    const milestones = [...(fRef.current.milestones || [])];
+    const top = milestones.reduce((m, x) => Math.max(m, num(x.percent, 0)), 0);
+    milestones.push({ id: cryptoRandomId(), percent: top ? top + 25 : 25, description_en: '', description_ar: '' });
+    setF({ ...fRef.current, milestones });
+  };
+
+  const updateMilestone = (idx: number, patch: Partial<Milestone>) => {
+    const milestones = [...(fRef.current.milestones || [])];
+    milestones[idx] = { ...milestones[idx], ...patch };
+    setF({ ...fRef.current, milestones });
+  };
+
+  const removeMilestone = (idx: number) => {
+    const milestones = [...(fRef.current.milestones || [])];
+    milestones.splice(idx, 1);
+    setF({ ...fRef.current, milestones });
+  };
+
+  // organizers (emailed when a milestone is reached)
+  const addOrganizer = () => setF({ ...fRef.current, organizers: [...(fRef.current.organizers || []), { name: '', email: '' }] });
+
+  const updateOrganizer = (idx: number, patch: Partial<Organizer>) => {
+    const organizers = [...(fRef.current.organizers || [])];
+    organizers[idx] = { ...organizers[idx], ...patch };
+    setF({ ...fRef.current, organizers });
+  };
+
+  const removeOrganizer = (idx: number) => {
+    const organizers = [...(fRef.current.organizers || [])];
+    organizers.splice(idx, 1);
+    setF({ ...fRef.current, organizers });
+  };
+
+  // disbursements: the receipt goes through the same upload path as campaign media
+  const uploadSpendReceipt = async (file: File | undefined) => {
+    if (!file) return;
+    setSpendBusy(true);
+    try {
+      const data = await fetchJSON<{ downloadUrl: string; storagePath: string }>('/api/admin/donations/upload-media', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ dataURL: await fileToDataURL(file), filename: file.name }),
+      });
+      setSpendForm((s) => ({ ...s, receiptUrl: data.downloadUrl, receiptPath: data.storagePath }));
+    } catch (e: unknown) {
+      alert(e instanceof Error ? e.message : 'Upload error');
+    } finally { setSpendBusy(false); }
+  };
+
+  const addDisbursement = async () => {
+    if (!fRef.current?.id) { alert('احفظ الحملة أولاً'); return; }
+    setSpendBusy(true);
+    try {
+      await fetchJSON('/api/admin/donations/disbursements', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...spendForm, campaignId: fRef.current.id, amount: num(spendForm.amount, 0) }),
+      });
+      setSpendForm((s) => ({ ...s, amount: '', beneficiary: '', note: '', receiptUrl: '', receiptPath: '' }));
+      await load();
+    } catch (e: unknown) {
+      alert(e instanceof Error ? e.message : 'Error');
+    } finally { setSpendBusy(false); }
+  };
+
+  const removeDisbursement = async (d: Disbursement) => {
+    if (!confirm(`حذف مصروف ${d.amount} ${d.currency}؟`)) return;
+    try {
+      await fetchJSON(`/api/admin/donations/disbursements?id=${encodeURIComponent(d.id)}`, { method: 'DELETE' });
+      await load();
+    } catch (e: unknown) { alert(e instanceof Error ? e.message : 'Error'); }
+  };
+
+  const setFundraiserStatus = async (p: Fundraiser, status: Fundraiser['status']) => {
+    try {
+      await fetchJSON('/api/admin/donations/fundraisers', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: p.id, status }),
+      });
+      await load();
+    } catch (e: unknown) { alert(e instanceof Error ? e.message : 'Error'); }
+  };
+
   const save = async () => {
     setSaving(true); setErr(null);
     try {
@@ -290,6 +464,9 @@ export default function AdminDonationEdit() {
                 <div className="rounded-lg border px-2 py-1 bg-neutral-50">
                   إجمالي: <b>{num(f?.totalDonated, 0)}</b> {String(f?.currency || 'GBP')}
                   &nbsp;· المتبرعون: <b>{num(f?.donorsCount, 0)}</b>
+                  &nbsp;· المصروف: <b>{num(f?.totalSpent, 0)}</b>
+                  &nbsp;· رسوم البطاقات: <b>{num(f?.totalFees, 0)}</b>
+                  {f?.bankReference && <>&nbsp;· مرجع التحويل البنكي: <b className="font-mono">{f.bankReference}</b></>}
                 </div>
                 <button className="rounded-lg border px-3 py-1 hover:bg-neutral-50" onClick={refresh}>
                   تحديث
@@ -328,16 +505,28 @@ export default function AdminDonationEdit() {
             <label className="md:col-span-2 space-y-1"><span className="text-sm">كيف سيتم الصرف؟ (Markdown بسيط)</span>
               <textarea className="border p-2 rounded w-full min-h-[120px]" value={f.spendingPlan_ar || ''} onChange={e => setF({ ...f, spendingPlan_ar: e.target.value })} />
             </label>
+            <label className="space-y-1"><span className="text-sm">تاريخ البدء</span>
+              <input
+                type="datetime-local"
+                className="border p-2 rounded w-full"
+                value={dateTimeInput(f.startAt)}
+                onChange={e => setF({ ...f, startAt: fromDateTime(e.target.value) ?? undefined })}
+              />
+            </label>
             <label className="space-y-1"><span className="text-sm">تاريخ الانتهاء (اختياري)</span>
               <input
                 type="datetime-local"
                 className="border p-2 rounded w-full"
-                onChange={e => {
-                  const v = e.target.value;
-                  setF({ ...f, endAt: v ? new Date(v).getTime() : null });
-                }}
+                value={dateTimeInput(f.endAt)}
+                onChange={e => setF({ ...f, endAt: fromDateTime(e.target.value) })}
               />
             </label>
+            <label className="space-y-1"><span className="text-sm">إيقاف مؤقت مجدول من (اختياري)</span>
+              <input type="datetime-local" className="border p-2 rounded w-full" value={dateTimeInput(f.pauseAt)} onChange={e => setF({ ...f, pauseAt: fromDateTime(e.target.value) })} />
+            </label>
+            <label className="space-y-1"><span className="text-sm">الاستئناف في (اختياري)</span>
+              <input type="datetime-local" className="border p-2 rounded w-full" value={dateTimeInput(f.resumeAt)} onChange={e => setF({ ...f, resumeAt: fromDateTime(e.target.value) })} />
+            </label>
             <label className="space-y-1"><span className="text-sm">الحالة</span>
               <select className="border p-2 rounded w-full" value={String(f.status || 'draft')} onChange={e => setF({ ...f, status: e.target.value as any })}>
                 <option value="draft">مسودة</option><option value="active">نشطة</option><option value="paused">موقوفة مؤقتاً</option><option value="closed">مغلقة</option>
@@ -349,6 +538,100 @@ export default function AdminDonationEdit() {
             <input id="allow" type="checkbox" checked={!!f.allowPublicDonorList} onChange={e => setF({ ...f, allowPublicDonorList: e.target.checked })} />
             <label htmlFor="allow">السماح بإظهار آخر المتبرعين</label>
           </div>
+          <div className="flex items-center gap-2">
+            <input id="autoActivate" type="checkbox" checked={!!f.autoActivate} onChange={e => setF({ ...f, autoActivate: e.target.checked })} />
+            <label htmlFor="autoActivate">تفعيل المسودة تلقائيًا عند تاريخ البدء</label>
+          </div>
+          <div className="flex items-center gap-2">
+            <input id="closeOnGoal" type="checkbox" checked={!!f.closeOnGoal} onChange={e => setF({ ...f, closeOnGoal: e.target.checked })} />
+            <label htmlFor="closeOnGoal">إغلاق الحملة عند بلوغ الهدف</label>
+          </div>
+          <div className="flex items-center gap-2">
+            <input id="showNetRaised" type="checkbox" checked={!!f.showNetRaised} onChange={e => setF({ ...f, showNetRaised: e.target.checked })} />
+            <label htmlFor="showNetRaised">إظهار المبلغ الصافي بعد رسوم البطاقات في صفحة الحملة</label>
+          </div>
+        </section>
+
+        {/* Milestones & stretch goals */}
+        <section className="p-6 border rounded-xl bg-white space-y-4">
+          <div className="flex items-center justify-between gap-2">
+            <h3 className="text-lg font-semibold">المراحل والأهداف الإضافية</h3>
+            <button className="rounded-lg border px-3 py-1 hover:bg-neutral-50" onClick={addMilestone}>إضافة مرحلة</button>
+          </div>
+          <p className="text-sm text-neutral-500">
+            نسبة من الهدف (أكثر من 100% = هدف إضافي). عند بلوغ المرحلة يُسجَّل تاريخها ويُرسَل بريد للمنظمين وللمتبرعين الذين طلبوا التحديثات.
+          </p>
+          {(f.milestones || []).map((m, i) => (
+            <div key={m.id || i} className="grid grid-cols-1 md:grid-cols-6 gap-3 items-end border rounded-xl p-3">
+              <label className="space-y-1"><span className="text-sm">النسبة %</span>
+                <input type="number" min="1" className="border p-2 rounded w-full" value={num(m.percent, 0)} onChange={e => updateMilestone(i, { percent: num(e.target.value, 0) })} />
+              </label>
+              <label className="md:col-span-2 space-y-1"><span className="text-sm">الوصف (EN)</span>
+                <input className="border p-2 rounded w-full" dir="ltr" value={m.description_en || ''} onChange={e => updateMilestone(i, { description_en: e.target.value })} />
+              </label>
+              <label className="md:col-span-2 space-y-1"><span className="text-sm">الوصف (AR)</span>
+                <input className="border p-2 rounded w-full" value={m.description_ar || ''} onChange={e => updateMilestone(i, { description_ar: e.target.value })} />
+              </label>
+              <div className="flex items-center justify-between gap-2 text-sm">
+                <span className={m.reachedAt ? 'text-green-700' : 'text-neutral-500'}>
+                  {m.reachedAt ? `تحققت ${new Date(m.reachedAt).toLocaleDateString('ar')}` : `${num(f.goalAmount, 0) * num(m.percent, 0) / 100} ${String(f.currency || 'GBP')}`}
+                </span>
+                <button className="px-2 py-1 rounded border text-red-600" onClick={() => removeMilestone(i)}>حذف</button>
+              </div>
+            </div>
+          ))}
+          {!f.milestones?.length && (
+            <div className="text-center text-neutral-500 p-6 border rounded-xl">لا توجد مراحل.</div>
+          )}
+
+          <div className="flex items-center justify-between gap-2 pt-2">
+            <h4 className="font-semibold">المنظمون</h4>
+            <button className="rounded-lg border px-3 py-1 hover:bg-neutral-50" onClick={addOrganizer}>إضافة منظم</button>
+          </div>
+          {(f.organizers || []).map((o, i) => (
+            <div key={i} className="grid grid-cols-1 md:grid-cols-3 gap-3 items-center">
+              <input className="border p-2 rounded w-full" placeholder="الاسم" value={o.name || ''} onChange={e => updateOrganizer(i, { name: e.target.value })} />
+              <input type="email" className="border p-2 rounded w-full" dir="ltr" placeholder="البريد الإلكتروني" value={o.email || ''} onChange={e => updateOrganizer(i, { email: e.target.value })} />
+              <button className="px-2 py-1 rounded border text-red-600 w-max" onClick={() => removeOrganizer(i)}>حذف</button>
+            </div>
+          ))}
+        </section>
+
+        {/* Matching pledges */}
+        <section className="p-6 border rounded-xl bg-white space-y-4">
+          <div className="flex items-center justify-between gap-2">
+            <h3 className="text-lg font-semibold">تعهدات المطابقة</h3>
+            <button className="rounded-lg border px-3 py-1 hover:bg-neutral-50" onClick={addPledge}>إضافة تعهد</button>
+          </div>
+          <p className="text-sm text-neutral-500">
+            يضيف الراعي عن كل تبرع مؤكد مبلغًا يساوي نسبة المطابقة × التبرع (1 = مضاعفة)، خلال فترة التعهد وحتى بلوغ السقف. تُسجَّل المطابقات تلقائيًا كتبرعات.
+          </p>
+          {(f.matchingPledges || []).map((p, i) => (
+            <div key={p.id || i} className="grid grid-cols-1 md:grid-cols-6 gap-3 items-end border rounded-xl p-3">
+              <label className="md:col-span-2 space-y-1"><span className="text-sm">الراعي</span>
+                <input className="border p-2 rounded w-full" value={p.sponsorName || ''} onChange={e => updatePledge(i, { sponsorName: e.target.value })} />
+              </label>
+              <label className="space-y-1"><span className="text-sm">نسبة المطابقة</span>
+                <input type="number" step="0.5" min="0" className="border p-2 rounded w-full" value={num(p.ratio, 1)} onChange={e => updatePledge(i, { ratio: num(e.target.value, 0) })} />
+              </label>
+              <label className="space-y-1"><span className="text-sm">السقف ({String(f.currency || 'GBP')})</span>
+                <input type="number" min="0" className="border p-2 rounded w-full" value={num(p.cap, 0)} onChange={e => updatePledge(i, { cap: num(e.target.value, 0) })} />
+              </label>
+              <label className="space-y-1"><span className="text-sm">من</span>
+                <input type="date" className="border p-2 rounded w-full" value={dateInput(p.startAt)} onChange={e => updatePledge(i, { startAt: e.target.value ? new Date(e.target.value).getTime() : 0 })} />
+              </label>
+              <label className="space-y-1"><span className="text-sm">إلى (اختياري)</span>
+                <input type="date" className="border p-2 rounded w-full" value={dateInput(p.endAt)} onChange={e => updatePledge(i, { endAt: e.target.value ? new Date(e.target.value).getTime() : null })} />
+              </label>
+              <div className="md:col-span-6 flex items-center justify-between text-sm">
+                <span>تمت مطابقة <b>{num(p.matchedAmount, 0)}</b> من {num(p.cap, 0)} {String(f.currency || 'GBP')}</span>
+                <button className="px-2 py-1 rounded border text-red-600" onClick={() => removePledge(i)}>حذف</button>
+              </div>
+            </div>
+          ))}
+          {!f.matchingPledges?.length && (
+            <div className="text-center text-neutral-500 p-6 border rounded-xl">لا توجد تعهدات مطابقة.</div>
+          )}
         </section>
 
         {/* Media */}
@@ -402,6 +685,244 @@ export default function AdminDonationEdit() {
           </div>
         </section>
 
+        {/* End-of-campaign report */}
+        {!isNew && f.status === 'closed' && (
+          <section className="p-6 border rounded-xl bg-white space-y-4">
+            <h3 className="text-lg font-semibold">التقرير الختامي</h3>
+            {!report ? (
+              <p className="text-sm text-neutral-500">يُنشأ التقرير خلال دقائق من إغلاق الحملة.</p>
+            ) : (
+              <>
+                <div className="text-sm text-neutral-600">
+                  أُغلقت في {new Date(report.closedAt).toLocaleString()} ({CLOSED_LABELS[report.closedReason] || report.closedReason})
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                  <div className="rounded-lg border p-3">الإجمالي: <b>{report.totalDonated}</b> {report.currency} من {report.goalAmount}</div>
+                  <div className="rounded-lg border p-3">المتبرعون: <b>{report.donorsCount}</b> · التبرعات: <b>{report.donationsCount}</b></div>
+                  <div className="rounded-lg border p-3">متوسط التبرع: <b>{report.averageGift}</b> · الأكبر: <b>{report.largestGift}</b></div>
+                  <div className="rounded-lg border p-3">المطابقة: <b>{report.matchedAmount}</b> · المصروف: <b>{report.totalSpent}</b></div>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <table className="w-full text-sm">
+                    <thead><tr className="text-right border-b"><th className="py-2">أفضل الأيام</th><th>المبلغ</th><th>العدد</th></tr></thead>
+                    <tbody>
+                      {report.topDays.map(d => (
+                        <tr key={d.date} className="border-b last:border-0"><td className="py-2">{d.date}</td><td>{d.amount}</td><td>{d.count}</td></tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <table className="w-full text-sm">
+                    <thead><tr className="text-right border-b"><th className="py-2">عملة الدفع</th><th>المدفوع</th><th>بعملة الحملة</th><th>العدد</th></tr></thead>
+                    <tbody>
+                      {report.currencies.map(c => (
+                        <tr key={c.currency} className="border-b last:border-0"><td className="py-2">{c.currency}</td><td>{c.amount}</td><td>{c.counted}</td><td>{c.count}</td></tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+          </section>
+        )}
+
+        {/* Disbursements */}
+        {!isNew && (
+          <section className="p-6 border rounded-xl bg-white space-y-4">
+            <h3 className="text-lg font-semibold">المصروفات</h3>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+              <label className="space-y-1"><span className="text-sm">المبلغ ({String(f.currency || 'GBP')})</span>
+                <input type="number" min="0" step="0.01" className="border p-2 rounded w-full" value={spendForm.amount} onChange={e => setSpendForm({ ...spendForm, amount: e.target.value })} />
+              </label>
+              <label className="space-y-1"><span className="text-sm">الفئة</span>
+                <select className="border p-2 rounded w-full" value={spendForm.category} onChange={e => setSpendForm({ ...spendForm, category: e.target.value as DisbursementCategory })}>
+                  {DISBURSEMENT_CATEGORIES.map(c => <option key={c} value={c}>{CATEGORY_LABELS[c].ar}</option>)}
+                </select>
+              </label>
+              <label className="space-y-1"><span className="text-sm">التاريخ</span>
+                <input type="date" className="border p-2 rounded w-full" value={spendForm.paidAt} onChange={e => setSpendForm({ ...spendForm, paidAt: e.target.value })} />
+              </label>
+              <label className="space-y-1"><span className="text-sm">إيصال / فاتورة</span>
+                <input type="file" accept="image/*,application/pdf" className="block w-full text-sm" onChange={e => uploadSpendReceipt(e.target.files?.[0])} disabled={spendBusy} />
+              </label>
+              <label className="md:col-span-2 space-y-1"><span className="text-sm">المستفيد</span>
+                <input className="border p-2 rounded w-full" placeholder="مثال: 40 سلة غذائية لعائلات في خانيونس" value={spendForm.beneficiary} onChange={e => setSpendForm({ ...spendForm, beneficiary: e.target.value })} />
+              </label>
+              <label className="md:col-span-2 space-y-1"><span className="text-sm">ملاحظة (اختياري)</span>
+                <input className="border p-2 rounded w-full" value={spendForm.note} onChange={e => setSpendForm({ ...spendForm, note: e.target.value })} />
+              </label>
+            </div>
+            <div className="flex items-center gap-3">
+              <button className="rounded-xl bg-palestine-green text-white px-4 py-2" onClick={addDisbursement} disabled={spendBusy}>
+                {spendBusy ? 'جارٍ...' : 'تسجيل المصروف'}
+              </button>
+              {spendForm.receiptUrl && <a className="text-sm underline" href={spendForm.receiptUrl} target="_blank" rel="noreferrer">تم رفع الإيصال</a>}
+            </div>
+
+            {spend.length ? (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-right text-neutral-500 border-b">
+                      <th className="py-2">التاريخ</th>
+                      <th className="py-2">الفئة</th>
+                      <th className="py-2">المبلغ</th>
+                      <th className="py-2">المستفيد</th>
+                      <th className="py-2">الإيصال</th>
+                      <th className="py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {spend.map(d => (
+                      <tr key={d.id} className="border-b last:border-0">
+                        <td className="py-2">{new Date(d.paidAt).toLocaleDateString('ar')}</td>
+                        <td className="py-2">{CATEGORY_LABELS[d.category]?.ar || d.category}</td>
+                        <td className="py-2">{num(d.amount, 0)} {d.currency}</td>
+                        <td className="py-2">{d.beneficiary}{d.note ? <div className="text-xs text-neutral-500">{d.note}</div> : null}</td>
+                        <td className="py-2">{d.receiptUrl ? <a className="underline" href={d.receiptUrl} target="_blank" rel="noreferrer">عرض</a> : '—'}</td>
+                        <td className="py-2"><button className="px-2 py-1 rounded border text-red-600" onClick={() => removeDisbursement(d)}>حذف</button></td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <div className="text-center text-neutral-500 p-6 border rounded-xl">لا توجد مصروفات مسجلة.</div>
+            )}
+          </section>
+        )}
+
+        {/* Peer-to-peer fundraiser pages */}
+        {!isNew && (
+          <section className="p-6 border rounded-xl bg-white space-y-4">
+            <h3 className="text-lg font-semibold">صفحات جمع التبرعات</h3>
+            {fundraisers.length ? (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-right text-neutral-500 border-b">
+                      <th className="py-2">الصفحة</th>
+                      <th className="py-2">صاحبها</th>
+                      <th className="py-2">المُجمَّع / الهدف</th>
+                      <th className="py-2">الحالة</th>
+                      <th className="py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {fundraisers.map(p => (
+                      <tr key={p.id} className="border-b last:border-0">
+                        <td className="py-2">
+                          {p.status === 'active'
+                            ? <a className="underline" href={`/donate/${encodeURIComponent(String(f.slug || ''))}/f/${encodeURIComponent(p.slug)}`} target="_blank" rel="noreferrer">{p.title}</a>
+                            : p.title}
+                          <div className="text-xs text-neutral-500 line-clamp-2">{p.story}</div>
+                        </td>
+                        <td className="py-2">{p.ownerName}<div className="text-xs text-neutral-500">{p.ownerEmail}</div></td>
+                        <td className="py-2">{num(p.totalRaised, 0)} / {num(p.goalAmount, 0)} {String(f.currency || 'GBP')} ({p.donorsCount})</td>
+                        <td className="py-2">{FUNDRAISER_LABELS[p.status] || p.status}</td>
+                        <td className="py-2 space-x-2 space-x-reverse whitespace-nowrap">
+                          {p.status !== 'active' && <button className="px-2 py-1 rounded border text-green-700" onClick={() => setFundraiserStatus(p, 'active')}>اعتماد</button>}
+                          {p.status !== 'hidden' && <button className="px-2 py-1 rounded border text-red-600" onClick={() => setFundraiserStatus(p, 'hidden')}>إخفاء</button>}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <div className="text-center text-neutral-500 p-6 border rounded-xl">لا توجد صفحات لجمع التبرعات.</div>
+            )}
+          </section>
+        )}
+
+        {/* Widget for partner sites */}
+        {!isNew && f.slug && (
+          <section className="p-6 border rounded-xl bg-white space-y-4">
+            <h3 className="text-lg font-semibold">تضمين الحملة في مواقع أخرى</h3>
+            <p className="text-sm text-neutral-600">
+              انسخ هذا الكود إلى صفحة الموقع الشريك. التبرعات القادمة منه تُسجَّل باسم الموقع (عمود «Embedded on» في ملف التصدير).
+            </p>
+            <div className="flex flex-wrap gap-3 text-sm">
+              <label className="flex items-center gap-2">اللغة
+                <select className="border rounded px-2 py-1" value={embedLang} onChange={e => { setEmbedLang(e.target.value as EmbedLang); setEmbedCopied(false); }}>
+                  <option value="ar">العربية</option>
+                  <option value="en">English</option>
+                </select>
+              </label>
+              <label className="flex items-center gap-2">المظهر
+                <select className="border rounded px-2 py-1" value={embedTheme} onChange={e => { setEmbedTheme(e.target.value as EmbedTheme); setEmbedCopied(false); }}>
+                  <option value="light">فاتح</option>
+                  <option value="dark">داكن</option>
+                </select>
+              </label>
+            </div>
+            <textarea
+              readOnly
+              dir="ltr"
+              rows={3}
+              className="w-full border rounded p-2 font-mono text-xs"
+              value={embedSnippet(window.location.origin, String(f.slug), { lang: embedLang, theme: embedTheme })}
+              onFocus={e => e.target.select()}
+            />
+            <button
+              className="px-3 py-1.5 rounded border text-sm"
+              onClick={async () => {
+                try {
+                  await navigator.clipboard.writeText(embedSnippet(window.location.origin, String(f.slug), { lang: embedLang, theme: embedTheme }));
+                  setEmbedCopied(true);
+                } catch {}
+              }}
+            >
+              {embedCopied ? 'تم النسخ ✓' : 'نسخ الكود'}
+            </button>
+            <div className={`rounded-xl p-3 ${embedTheme === 'dark' ? 'bg-neutral-800' : 'bg-neutral-100'}`}>
+              <iframe
+                title="معاينة"
+                src={embedUrl(window.location.origin, String(f.slug), { lang: embedLang, theme: embedTheme })}
+                className="block w-full max-w-[420px] h-[240px] border-0"
+              />
+            </div>
+          </section>
+        )}
+
+        {/* Refunds & disputes */}
+        {!isNew && (
+          <section className="p-6 border rounded-xl bg-white space-y-4">
+            <h3 className="text-lg font-semibold">سجل الاستردادات والنزاعات</h3>
+            {audit.length ? (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-right text-neutral-500 border-b">
+                      <th className="py-2">التاريخ</th>
+                      <th className="py-2">النوع</th>
+                      <th className="py-2">المبلغ</th>
+                      <th className="py-2">الأثر على الإجمالي</th>
+                      <th className="py-2">السبب</th>
+                      <th className="py-2">التبرع</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {audit.map(a => (
+                      <tr key={a.id} className="border-b last:border-0">
+                        <td className="py-2">{new Date(a.createdAt).toLocaleString('ar')}</td>
+                        <td className="py-2">{AUDIT_LABELS[a.kind] || a.kind}</td>
+                        <td className="py-2">{num(a.amount, 0)} {a.currency}</td>
+                        <td className={`py-2 ${a.delta < 0 ? 'text-red-600' : a.delta > 0 ? 'text-green-700' : ''}`}>
+                          {a.delta > 0 ? '+' : ''}{num(a.delta, 0)}
+                        </td>
+                        <td className="py-2">{a.reason || '—'}</td>
+                        <td className="py-2 font-mono text-xs">{a.donationId}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <div className="text-center text-neutral-500 p-6 border rounded-xl">لا توجد استردادات أو نزاعات.</div>
+            )}
+          </section>
+        )}
+
         <div className="flex gap-2">
           <button className="rounded-xl bg-palestine-green text-white px-4 py-2" onClick={save} disabled={saving}>{saving ? 'جارٍ الحفظ...' : 'حفظ'}</button>
           <button className="rounded-xl bg-slate-200 px-4 py-2" onClick={addManualDonation}>إدخال تبرع يدوي</button>
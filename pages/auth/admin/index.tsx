@@ -91,6 +91,36 @@ function IconJoin() {
   );
 }
 
+function IconWebhooks() {
+  return (
+    <svg viewBox="0 0 24 24" className="h-6 w-6 text-indigo-600" fill="none" stroke="currentColor" strokeWidth="1.8">
+      <path d="M4 4v6h6" />
+      <path d="M20 20v-6h-6" />
+      <path d="M5.5 15a7 7 0 0 0 12.9 1.5M18.5 9A7 7 0 0 0 5.6 7.5" />
+    </svg>
+  );
+}
+
+function IconBank() {
+  return (
+    <svg viewBox="0 0 24 24" className="h-6 w-6 text-teal-600" fill="none" stroke="currentColor" strokeWidth="1.8">
+      <path d="M3 10h18L12 4 3 10z" />
+      <path d="M5 10v8M9.5 10v8M14.5 10v8M19 10v8" />
+      <path d="M3 20h18" />
+    </svg>
+  );
+}
+
+function IconPayouts() {
+  return (
+    <svg viewBox="0 0 24 24" className="h-6 w-6 text-violet-600" fill="none" stroke="currentColor" strokeWidth="1.8">
+      <rect x="3" y="6" width="18" height="12" rx="2" />
+      <circle cx="12" cy="12" r="2.5" />
+      <path d="M6 9v0M18 15v0" />
+    </svg>
+  );
+}
+
 /** NEW: Unified Directory (Stores + Services) icon */
 function IconDirectory() {
   return (
@@ -165,13 +195,37 @@ export default function AdminDashboard() {
               desc="Create campaigns, upload media, and record donations."
               icon={<IconDonations />}
             />
-            {/* Join admin */}
             <DashCard
-              href="/auth/admin/join"
-              title="Join"
-              desc="Review membership applications, verify payments, export CSV."
+              href="/auth/admin/bank-reconciliation"
+              title="Bank reconciliation"
+              desc="Import bank statements (CSV/OFX), match transfers to campaigns by reference, confirm in bulk."
+              icon={<IconBank />}
+            />
+            <DashCard
+              href="/auth/admin/stripe-payouts"
+              title="Stripe payouts"
+              desc="Which card donations made up each bank payout, with Stripe fees and net."
+              icon={<IconPayouts />}
+            />
+            {/* Membership applications & members */}
+            <DashCard
+              href="/auth/admin/members"
+              title="Members"
+              desc="Review membership applications (approve/reject with a note, applicant emailed) and browse members."
+              icon={<IconJoin />}
+            />
+            <DashCard
+              href="/auth/admin/membership-plans"
+              title="Membership plans"
+              desc="Plans offered on the join form: bilingual names and benefits, price and interval. Synced to Stripe and PayPal."
               icon={<IconJoin />}
             />
+            <DashCard
+              href="/auth/admin/stripe-events"
+              title="Stripe events"
+              desc="Webhook processing log. Inspect and re-run failed events."
+              icon={<IconWebhooks />}
+            />
             <DashCard
               href="/auth/admin/comments"
               title="Comments"
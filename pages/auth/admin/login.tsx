@@ -42,7 +42,7 @@ export default function Login() {
 
           <div className="h-px bg-neutral-200" />
           {providers && Object.values(providers).map((p: unknown) => (
-            p.id === 'credentials' ? null : (
+            ['credentials', 'donor-link'].includes(p.id) ? null : (
               <button key={p.id} onClick={() => signIn(p.id, { callbackUrl: '/auth/admin' })}
                       className="w-full px-4 py-2 rounded bg-black text-white">
                 Sign in with {p.name}
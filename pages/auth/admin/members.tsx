@@ -0,0 +1,403 @@
+import React from 'react';
+import Head from 'next/head';
+import useAdminGuard from '@/utils/useAdminGuard';
+
+async function fetchJSON<T = unknown>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, { credentials: 'include', ...init });
+  const tx = await res.text();
+  let data: { ok?: boolean; error?: string } | null = null;
+  try { data = JSON.parse(tx); } catch {}
+  if (!res.ok || data?.ok === false) throw new Error(data?.error || tx || `HTTP ${res.status}`);
+  return (data ?? {}) as T;
+}
+
+type Application = {
+  id: string;
+  fullName: string;
+  email: string;
+  phone?: string | null;
+  city?: string | null;
+  message?: string | null;
+  membershipPlan?: string | null;
+  consentToContact?: boolean;
+  status: 'pending' | 'submitted' | 'approved' | 'rejected';
+  reviewNote?: string | null;
+  reviewedAt?: number | null;
+  reviewedBy?: string | null;
+  stripePaymentIntentId?: string;
+  stripeSubscriptionId?: string;
+  paypalSubscriptionId?: string;
+  createdAt?: number | null;
+};
+
+type Member = {
+  id: string;
+  applicationId?: string;
+  fullName?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  city?: string | null;
+  membershipPlan?: string | null;
+  tier?: 'silver' | 'gold' | 'diamond' | null;
+  dependants?: Array<{ id: string; fullName: string; relation: 'spouse' | 'child'; age: number | null }>;
+  status: 'active' | 'inactive' | 'past_due' | 'canceled';
+  stripeSubscriptionId?: string;
+  paypalSubscriptionId?: string;
+  createdAt?: number | null;
+  lastPaymentAt?: number | null;
+  currentPeriodEnd?: number | null;
+};
+
+type Tab = 'applications' | 'members';
+
+const APPLICATION_FILTERS = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'rejected', label: 'Rejected' },
+  { value: '', label: 'All' },
+];
+
+const MEMBER_FILTERS = [
+  { value: 'active', label: 'Active' },
+  { value: 'past_due', label: 'Past due' },
+  { value: 'inactive', label: 'Inactive' },
+  { value: 'canceled', label: 'Canceled' },
+  { value: '', label: 'All' },
+];
+
+const TIER_FILTERS = [
+  { value: '', label: 'All tiers' },
+  { value: 'silver', label: 'Silver' },
+  { value: 'gold', label: 'Gold' },
+  { value: 'diamond', label: 'Diamond' },
+];
+
+const PLAN_FILTERS = [
+  { value: '', label: 'All plans' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'once', label: 'One-off' },
+];
+
+const EXPIRING_FILTERS = [
+  { value: '', label: 'Any end date' },
+  { value: '14', label: 'Ending within 14 days' },
+  { value: '30', label: 'Ending within 30 days' },
+  { value: '90', label: 'Ending within 90 days' },
+];
+
+const STATUS_CLS: Record<string, string> = {
+  pending: 'bg-amber-50 text-amber-700 border-amber-200',
+  submitted: 'bg-amber-50 text-amber-700 border-amber-200',
+  approved: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+  active: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+  rejected: 'bg-red-50 text-red-700 border-red-200',
+  past_due: 'bg-red-50 text-red-700 border-red-200',
+  inactive: 'bg-neutral-50 text-neutral-500 border-neutral-200',
+  canceled: 'bg-neutral-50 text-neutral-500 border-neutral-200',
+};
+
+const day = (ms?: number | null) => (ms ? new Date(ms).toLocaleDateString() : '—');
+
+export default function AdminMembers() {
+  const { ready } = useAdminGuard();
+  const [tab, setTab] = React.useState<Tab>('applications');
+  const [status, setStatus] = React.useState('pending');
+  const [search, setSearch] = React.useState('');
+  const [tier, setTier] = React.useState('');
+  const [plan, setPlan] = React.useState('');
+  const [expiring, setExpiring] = React.useState('');
+  const [applications, setApplications] = React.useState<Application[]>([]);
+  const [members, setMembers] = React.useState<Member[]>([]);
+  const [loading, setLoading] = React.useState(false);
+  const [err, setErr] = React.useState<string | null>(null);
+  const [info, setInfo] = React.useState<string | null>(null);
+
+  // Review form for the open application
+  const [openId, setOpenId] = React.useState<string | null>(null);
+  const [note, setNote] = React.useState('');
+  const [notify, setNotify] = React.useState(true);
+  const [busy, setBusy] = React.useState(false);
+
+  // Directory filters, shared by the list and the CSV export (which also takes the search)
+  const memberQuery = React.useCallback((extra: Record<string, string> = {}) => {
+    const all: Record<string, string> = { status, tier, plan, expiring, ...extra };
+    return new URLSearchParams(Object.entries(all).filter(([, v]) => v)).toString();
+  }, [status, tier, plan, expiring]);
+
+  const load = React.useCallback(async () => {
+    setLoading(true); setErr(null);
+    try {
+      const qs = tab === 'members'
+        ? `kind=members&${memberQuery()}`
+        : new URLSearchParams({ kind: tab, ...(status ? { status } : {}) }).toString();
+      const data = await fetchJSON<{ items: Array<Application | Member> }>(`/api/admin/members/list?${qs}`);
+      const items = Array.isArray(data.items) ? data.items : [];
+      if (tab === 'applications') setApplications(items as Application[]);
+      else setMembers(items as Member[]);
+    } catch (e: unknown) {
+      setErr((e as Error)?.message || String(e));
+    } finally {
+      setLoading(false);
+    }
+  }, [tab, status, memberQuery]);
+
+  React.useEffect(() => { if (ready) load(); }, [ready, load]);
+
+  const switchTab = (t: Tab) => {
+    setTab(t);
+    setStatus(t === 'applications' ? 'pending' : 'active');
+    setTier(''); setPlan(''); setExpiring('');
+    setOpenId(null);
+    setInfo(null);
+  };
+
+  const open = (a: Application) => {
+    setOpenId(openId === a.id ? null : a.id);
+    setNote(a.reviewNote || '');
+    setNotify(true);
+  };
+
+  const review = async (a: Application, decision: 'approved' | 'rejected') => {
+    setBusy(true); setErr(null); setInfo(null);
+    try {
+      const r = await fetchJSON<{ emailed: boolean }>('/api/admin/members/review', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: a.id, decision, note, notify }),
+      });
+      setInfo(`${a.fullName}: ${decision}${notify ? (r.emailed ? ', applicant emailed' : ', email NOT sent') : ''}.`);
+      setOpenId(null);
+      await load();
+    } catch (e: unknown) {
+      setErr(`${a.fullName}: ${(e as Error)?.message || String(e)}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const renew = async (m: Member) => {
+    if (!confirm(`Record a one-year renewal for ${m.fullName || m.email}?`)) return;
+    setBusy(true); setErr(null); setInfo(null);
+    try {
+      const r = await fetchJSON<{ item: Member }>('/api/admin/members/renew', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: m.id }),
+      });
+      setInfo(`${m.fullName || m.email}: renewed until ${day(r.item.currentPeriodEnd)}.`);
+      await load();
+    } catch (e: unknown) {
+      setErr(`${m.fullName || m.email}: ${(e as Error)?.message || String(e)}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const q = search.trim().toLowerCase();
+  const matches = (...fields: Array<string | null | undefined>) => !q || fields.some(f => String(f || '').toLowerCase().includes(q));
+  const shownApplications = applications.filter(a => matches(a.fullName, a.email, a.phone, a.city));
+  const shownMembers = members.filter(m => matches(m.fullName, m.email, m.phone, m.city));
+  const isOneOff = (m: Member) => m.membershipPlan !== 'monthly' && !m.stripeSubscriptionId && !m.paypalSubscriptionId;
+
+  if (!ready) return null;
+
+  return (
+    <>
+      <Head><title>Admin · Members</title></Head>
+      <div className="max-w-6xl mx-auto px-4 py-10 space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h2 className="text-xl font-semibold">Members</h2>
+          <div className="flex items-center gap-2 rounded-full bg-neutral-100 p-1 text-sm">
+            {(['applications', 'members'] as Tab[]).map(t => (
+              <button
+                key={t}
+                type="button"
+                className={`px-4 py-1.5 rounded-full font-semibold ${tab === t ? 'bg-white shadow ring-1 ring-black/5' : 'text-neutral-600'}`}
+                onClick={() => switchTab(t)}
+              >
+                {t === 'applications' ? 'Applications' : 'Members'}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <select className="border p-2 rounded" value={status} onChange={e => setStatus(e.target.value)}>
+            {(tab === 'applications' ? APPLICATION_FILTERS : MEMBER_FILTERS).map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+          </select>
+          {tab === 'members' && (
+            <>
+              <select className="border p-2 rounded" value={tier} onChange={e => setTier(e.target.value)}>
+                {TIER_FILTERS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+              </select>
+              <select className="border p-2 rounded" value={plan} onChange={e => setPlan(e.target.value)}>
+                {PLAN_FILTERS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+              </select>
+              <select className="border p-2 rounded" value={expiring} onChange={e => setExpiring(e.target.value)}>
+                {EXPIRING_FILTERS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+              </select>
+            </>
+          )}
+          <input
+            className="border p-2 rounded min-w-[16rem]"
+            placeholder="Search name, email, phone…"
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+          />
+          <button className="rounded-lg border px-3 py-2 hover:bg-neutral-50" onClick={load}>Refresh</button>
+          {tab === 'members' && (
+            <a
+              href={`/api/admin/members/export?${memberQuery(search.trim() ? { q: search.trim() } : {})}`}
+              className="rounded-lg bg-palestine-green text-white px-3 py-2"
+            >
+              Export CSV
+            </a>
+          )}
+        </div>
+
+        {err && <div className="p-3 rounded bg-red-50 border text-red-700 break-all">{err}</div>}
+        {info && <div className="p-3 rounded bg-emerald-50 border text-emerald-700">{info}</div>}
+
+        {loading ? <p>Loading…</p> : tab === 'applications' ? (
+          shownApplications.length ? (
+            <div className="overflow-x-auto border rounded-xl bg-white">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-neutral-500 border-b">
+                    <th className="p-3">Received</th>
+                    <th className="p-3">Applicant</th>
+                    <th className="p-3">Plan</th>
+                    <th className="p-3">Status</th>
+                    <th className="p-3">Review</th>
+                    <th className="p-3"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {shownApplications.map(a => (
+                    <React.Fragment key={a.id}>
+                      <tr className="border-b last:border-0 align-top">
+                        <td className="p-3 whitespace-nowrap">{day(a.createdAt)}</td>
+                        <td className="p-3">
+                          <div className="font-medium">{a.fullName}</div>
+                          <div className="text-xs text-neutral-500">{a.email}{a.phone ? ` · ${a.phone}` : ''}</div>
+                        </td>
+                        <td className="p-3">{a.membershipPlan || '—'}</td>
+                        <td className="p-3">
+                          <span className={`inline-block rounded border px-2 py-0.5 text-xs ${STATUS_CLS[a.status] || ''}`}>
+                            {a.status === 'submitted' ? 'pending' : a.status}
+                          </span>
+                        </td>
+                        <td className="p-3 text-xs text-neutral-600 max-w-xs">
+                          {a.reviewedAt ? <>{day(a.reviewedAt)}{a.reviewedBy ? ` · ${a.reviewedBy}` : ''}</> : ''}
+                          {a.reviewNote && <div className="italic break-words">{a.reviewNote}</div>}
+                        </td>
+                        <td className="p-3 text-right">
+                          <button className="px-3 py-1.5 rounded border hover:bg-neutral-50" onClick={() => open(a)}>
+                            {openId === a.id ? 'Close' : 'Review'}
+                          </button>
+                        </td>
+                      </tr>
+                      {openId === a.id && (
+                        <tr className="border-b bg-neutral-50">
+                          <td colSpan={6} className="p-4 space-y-3">
+                            <dl className="grid sm:grid-cols-2 gap-x-6 gap-y-1 text-sm">
+                              <div><dt className="inline text-neutral-500">City: </dt><dd className="inline">{a.city || '—'}</dd></div>
+                              <div><dt className="inline text-neutral-500">Happy to be contacted: </dt><dd className="inline">{a.consentToContact ? 'Yes' : 'No'}</dd></div>
+                              <div>
+                                <dt className="inline text-neutral-500">Payment: </dt>
+                                <dd className="inline font-mono text-xs">
+                                  {a.stripePaymentIntentId || a.stripeSubscriptionId || a.paypalSubscriptionId || 'none'}
+                                </dd>
+                              </div>
+                              <div><dt className="inline text-neutral-500">Application: </dt><dd className="inline font-mono text-xs">{a.id}</dd></div>
+                            </dl>
+                            {a.message && <p className="text-sm whitespace-pre-wrap rounded border bg-white p-3">{a.message}</p>}
+                            <label className="block text-sm">
+                              <span className="text-neutral-600">Note (kept on the application and included in the email)</span>
+                              <textarea className="mt-1 w-full border rounded p-2" rows={3} value={note} onChange={e => setNote(e.target.value)} />
+                            </label>
+                            <div className="flex flex-wrap items-center gap-3 text-sm">
+                              <label className="flex items-center gap-2">
+                                <input type="checkbox" checked={notify} onChange={e => setNotify(e.target.checked)} />
+                                Email the applicant
+                              </label>
+                              <button
+                                className="px-3 py-1.5 rounded bg-emerald-600 text-white disabled:opacity-60"
+                                disabled={busy}
+                                onClick={() => review(a, 'approved')}
+                              >
+                                Approve
+                              </button>
+                              <button
+                                className="px-3 py-1.5 rounded bg-red-600 text-white disabled:opacity-60"
+                                disabled={busy}
+                                onClick={() => review(a, 'rejected')}
+                              >
+                                Reject
+                              </button>
+                            </div>
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="text-center text-neutral-500 p-6 border rounded-xl bg-white">No applications.</div>
+          )
+        ) : shownMembers.length ? (
+          <div className="overflow-x-auto border rounded-xl bg-white">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-neutral-500 border-b">
+                  <th className="p-3">Joined</th>
+                  <th className="p-3">Member</th>
+                  <th className="p-3">Plan</th>
+                  <th className="p-3">Tier</th>
+                  <th className="p-3">Status</th>
+                  <th className="p-3">Last payment</th>
+                  <th className="p-3">Paid until</th>
+                  <th className="p-3"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {shownMembers.map(m => (
+                  <tr key={m.id} className="border-b last:border-0 align-top">
+                    <td className="p-3 whitespace-nowrap">{day(m.createdAt)}</td>
+                    <td className="p-3">
+                      <div className="font-medium">{m.fullName || '—'}</div>
+                      <div className="text-xs text-neutral-500">{m.email || ''}{m.phone ? ` · ${m.phone}` : ''}{m.city ? ` · ${m.city}` : ''}</div>
+                      {!!m.dependants?.length && (
+                        <div className="text-xs text-neutral-600">
+                          Household: {m.dependants.map(d => `${d.fullName} (${d.relation}${d.age != null ? `, ${d.age}` : ''})`).join('; ')}
+                        </div>
+                      )}
+                    </td>
+                    <td className="p-3">{m.membershipPlan || '—'}</td>
+                    <td className="p-3 capitalize">{m.tier || '—'}</td>
+                    <td className="p-3">
+                      <span className={`inline-block rounded border px-2 py-0.5 text-xs ${STATUS_CLS[m.status] || ''}`}>{m.status}</span>
+                    </td>
+                    <td className="p-3 whitespace-nowrap">{day(m.lastPaymentAt)}</td>
+                    <td className="p-3 whitespace-nowrap">{day(m.currentPeriodEnd)}</td>
+                    <td className="p-3 text-right">
+                      {isOneOff(m) && m.status !== 'canceled' && (
+                        <button className="px-3 py-1.5 rounded border hover:bg-neutral-50 disabled:opacity-60" disabled={busy} onClick={() => renew(m)}>
+                          Renew
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="text-center text-neutral-500 p-6 border rounded-xl bg-white">No members.</div>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,366 @@
+import React from 'react';
+import Head from 'next/head';
+import useAdminGuard from '@/utils/useAdminGuard';
+
+async function fetchJSON<T = unknown>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, { credentials: 'include', ...init });
+  const tx = await res.text();
+  let data: { ok?: boolean; error?: string } | null = null;
+  try { data = JSON.parse(tx); } catch {}
+  if (!res.ok || data?.ok === false) throw new Error(data?.error || tx || `HTTP ${res.status}`);
+  return (data ?? {}) as T;
+}
+
+type Interval = 'month' | 'year' | 'once';
+type Currency = 'GBP' | 'USD' | 'EUR';
+type Tier = 'silver' | 'gold' | 'diamond';
+
+type Plan = {
+  id: string;
+  name_ar: string;
+  name_en: string;
+  benefits_ar?: string[];
+  benefits_en?: string[];
+  interval: Interval;
+  currency: Currency;
+  amount: number;
+  tier?: Tier | null;
+  household?: boolean;
+  maxDependants?: number;
+  active: boolean;
+  sortOrder: number;
+  stripePriceId?: string | null;
+  paypalPlanId?: string | null;
+  syncedAt?: number | null;
+  syncError?: string | null;
+};
+
+/** The edit form: benefits are one per line. */
+type Form = Omit<Plan, 'benefits_ar' | 'benefits_en' | 'amount' | 'sortOrder' | 'tier' | 'household' | 'maxDependants'> & {
+  benefits_ar: string;
+  benefits_en: string;
+  amount: string;
+  sortOrder: string;
+  tier: Tier | '';
+  household: boolean;
+  maxDependants: string;
+};
+
+const EMPTY: Form = {
+  id: '',
+  name_ar: '',
+  name_en: '',
+  benefits_ar: '',
+  benefits_en: '',
+  interval: 'month',
+  currency: 'GBP',
+  amount: '',
+  tier: '',
+  household: false,
+  maxDependants: '0',
+  active: true,
+  sortOrder: '0',
+};
+
+const INTERVALS: Array<{ value: Interval; label: string }> = [
+  { value: 'month', label: 'Monthly' },
+  { value: 'year', label: 'Yearly' },
+  { value: 'once', label: 'One-off (one year)' },
+];
+
+const TIERS: Array<{ value: Tier | ''; label: string }> = [
+  { value: '', label: 'No tier' },
+  { value: 'silver', label: 'Silver' },
+  { value: 'gold', label: 'Gold' },
+  { value: 'diamond', label: 'Diamond' },
+];
+
+const PER: Record<Interval, string> = { month: '/ month', year: '/ year', once: 'once' };
+
+const lines = (s: string) => s.split('\n').map(l => l.trim()).filter(Boolean);
+
+const toForm = (p: Plan): Form => ({
+  ...p,
+  benefits_ar: (p.benefits_ar || []).join('\n'),
+  benefits_en: (p.benefits_en || []).join('\n'),
+  amount: String(p.amount),
+  sortOrder: String(p.sortOrder ?? 0),
+  tier: p.tier || '',
+  household: !!p.household,
+  maxDependants: String(p.maxDependants ?? 0),
+});
+
+export default function AdminMembershipPlans() {
+  const { ready } = useAdminGuard();
+  const [items, setItems] = React.useState<Plan[]>([]);
+  const [loading, setLoading] = React.useState(false);
+  const [busy, setBusy] = React.useState(false);
+  const [err, setErr] = React.useState<string | null>(null);
+  const [info, setInfo] = React.useState<string | null>(null);
+
+  // null: no form open; `editing` is the id being edited ('' for a new plan)
+  const [form, setForm] = React.useState<Form | null>(null);
+  const [editing, setEditing] = React.useState('');
+
+  const load = React.useCallback(async () => {
+    setLoading(true); setErr(null);
+    try {
+      const data = await fetchJSON<{ items: Plan[] }>('/api/admin/membership-plans/list');
+      setItems(Array.isArray(data.items) ? data.items : []);
+    } catch (e: unknown) {
+      setErr((e as Error)?.message || String(e));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  React.useEffect(() => { if (ready) load(); }, [ready, load]);
+
+  const set = <K extends keyof Form>(k: K, v: Form[K]) => setForm(f => (f ? { ...f, [k]: v } : f));
+
+  const outcome = (p: Plan) => (p.syncError ? `${p.name_en}: saved, but sync failed — ${p.syncError}` : `${p.name_en}: saved and synced.`);
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+    setBusy(true); setErr(null); setInfo(null);
+    try {
+      const r = await fetchJSON<{ item: Plan }>('/api/admin/membership-plans/save', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...form,
+          benefits_ar: lines(form.benefits_ar),
+          benefits_en: lines(form.benefits_en),
+          tier: form.tier || null,
+        }),
+      });
+      setInfo(outcome(r.item));
+      setForm(null);
+      await load();
+    } catch (e: unknown) {
+      setErr((e as Error)?.message || String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const sync = async (p: Plan) => {
+    setBusy(true); setErr(null); setInfo(null);
+    try {
+      const r = await fetchJSON<{ item: Plan }>('/api/admin/membership-plans/sync', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: p.id }),
+      });
+      setInfo(r.item.syncError ? `${p.name_en}: sync failed — ${r.item.syncError}` : `${p.name_en}: synced.`);
+      await load();
+    } catch (e: unknown) {
+      setErr(`${p.name_en}: ${(e as Error)?.message || String(e)}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const seed = async () => {
+    if (!confirm('Add the standard Silver, Gold and Diamond monthly plans that are missing?')) return;
+    setBusy(true); setErr(null); setInfo(null);
+    try {
+      const r = await fetchJSON<{ created: string[] }>('/api/admin/membership-plans/seed', { method: 'POST' });
+      setInfo(r.created.length ? `Added: ${r.created.join(', ')}.` : 'The standard plans are already in the catalogue.');
+      await load();
+    } catch (e: unknown) {
+      setErr((e as Error)?.message || String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const open = (p?: Plan) => {
+    setEditing(p?.id || '');
+    setForm(p ? toForm(p) : { ...EMPTY });
+    setInfo(null);
+  };
+
+  if (!ready) return null;
+
+  const input = 'mt-1 w-full border rounded p-2';
+
+  return (
+    <>
+      <Head><title>Admin · Membership plans</title></Head>
+      <div className="max-w-6xl mx-auto px-4 py-10 space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h2 className="text-xl font-semibold">Membership plans</h2>
+          <div className="flex items-center gap-2 text-sm">
+            <button className="rounded-lg border px-3 py-2 hover:bg-neutral-50" onClick={load}>Refresh</button>
+            <button className="rounded-lg border px-3 py-2 hover:bg-neutral-50 disabled:opacity-60" disabled={busy} onClick={seed}>
+              Create standard plans
+            </button>
+            <button className="rounded-lg bg-palestine-green text-white px-3 py-2" onClick={() => open()}>New plan</button>
+          </div>
+        </div>
+        <p className="text-sm text-neutral-600">
+          Active plans are offered on the join form in this order. Saving a plan updates its Stripe product and price and,
+          for monthly and yearly plans, its PayPal billing plan. A new price only applies to new subscribers.
+        </p>
+
+        {err && <div className="p-3 rounded bg-red-50 border text-red-700 break-all">{err}</div>}
+        {info && <div className="p-3 rounded bg-emerald-50 border text-emerald-700 break-words">{info}</div>}
+
+        {form && (
+          <form onSubmit={save} className="border rounded-xl bg-white p-4 space-y-4 text-sm">
+            <div className="grid sm:grid-cols-3 gap-4">
+              <label className="block">
+                <span className="text-neutral-600">Id</span>
+                <input
+                  className={`${input} font-mono`}
+                  value={form.id}
+                  disabled={!!editing}
+                  placeholder="e.g. gold-yearly"
+                  onChange={e => set('id', e.target.value)}
+                  required
+                />
+              </label>
+              <label className="block">
+                <span className="text-neutral-600">Name (English)</span>
+                <input className={input} value={form.name_en} onChange={e => set('name_en', e.target.value)} required />
+              </label>
+              <label className="block">
+                <span className="text-neutral-600">Name (Arabic)</span>
+                <input className={input} dir="rtl" value={form.name_ar} onChange={e => set('name_ar', e.target.value)} required />
+              </label>
+            </div>
+            <div className="grid sm:grid-cols-5 gap-4">
+              <label className="block">
+                <span className="text-neutral-600">Interval</span>
+                <select className={input} value={form.interval} onChange={e => set('interval', e.target.value as Interval)}>
+                  {INTERVALS.map(i => <option key={i.value} value={i.value}>{i.label}</option>)}
+                </select>
+              </label>
+              <label className="block">
+                <span className="text-neutral-600">Currency</span>
+                <select className={input} value={form.currency} onChange={e => set('currency', e.target.value as Currency)}>
+                  {(['GBP', 'USD', 'EUR'] as Currency[]).map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+              </label>
+              <label className="block">
+                <span className="text-neutral-600">Amount</span>
+                <input className={input} type="number" min="0.01" step="0.01" value={form.amount} onChange={e => set('amount', e.target.value)} required />
+              </label>
+              <label className="block">
+                <span className="text-neutral-600">Tier</span>
+                <select className={input} value={form.tier} onChange={e => set('tier', e.target.value as Tier | '')}>
+                  {TIERS.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                </select>
+              </label>
+              <label className="block">
+                <span className="text-neutral-600">Order</span>
+                <input className={input} type="number" min="0" step="1" value={form.sortOrder} onChange={e => set('sortOrder', e.target.value)} />
+              </label>
+            </div>
+            <div className="grid sm:grid-cols-2 gap-4">
+              <label className="block">
+                <span className="text-neutral-600">Benefits (English, one per line)</span>
+                <textarea className={input} rows={4} value={form.benefits_en} onChange={e => set('benefits_en', e.target.value)} />
+              </label>
+              <label className="block">
+                <span className="text-neutral-600">Benefits (Arabic, one per line)</span>
+                <textarea className={input} rows={4} dir="rtl" value={form.benefits_ar} onChange={e => set('benefits_ar', e.target.value)} />
+              </label>
+            </div>
+            <div className="flex flex-wrap items-center gap-3">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={form.household}
+                  onChange={e => {
+                    set('household', e.target.checked);
+                    if (e.target.checked && form.maxDependants === '0') set('maxDependants', '4');
+                  }}
+                />
+                Household plan
+              </label>
+              {form.household && (
+                <label className="flex items-center gap-2">
+                  Dependants covered
+                  <input className="w-20 border rounded p-1" type="number" min="1" max="10" step="1" value={form.maxDependants} onChange={e => set('maxDependants', e.target.value)} />
+                </label>
+              )}
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={form.active} onChange={e => set('active', e.target.checked)} />
+                Offered on the join form
+              </label>
+              <button className="px-3 py-1.5 rounded bg-palestine-green text-white disabled:opacity-60" disabled={busy}>
+                {busy ? 'Saving…' : 'Save & sync'}
+              </button>
+              <button type="button" className="px-3 py-1.5 rounded border hover:bg-neutral-50" onClick={() => setForm(null)}>
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+
+        {loading ? <p>Loading…</p> : items.length ? (
+          <div className="overflow-x-auto border rounded-xl bg-white">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-neutral-500 border-b">
+                  <th className="p-3">Plan</th>
+                  <th className="p-3">Price</th>
+                  <th className="p-3">Tier</th>
+                  <th className="p-3">Status</th>
+                  <th className="p-3">Sync</th>
+                  <th className="p-3"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map(p => (
+                  <tr key={p.id} className="border-b last:border-0 align-top">
+                    <td className="p-3">
+                      <div className="font-medium">{p.name_en} · <span dir="rtl">{p.name_ar}</span></div>
+                      <div className="text-xs text-neutral-500 font-mono">{p.id}</div>
+                      {p.household && <div className="text-xs text-neutral-600">Household · up to {p.maxDependants} dependants</div>}
+                    </td>
+                    <td className="p-3 whitespace-nowrap">{p.currency} {p.amount.toFixed(2)} {PER[p.interval]}</td>
+                    <td className="p-3 capitalize">{p.tier || '—'}</td>
+                    <td className="p-3">
+                      <span
+                        className={`inline-block rounded border px-2 py-0.5 text-xs ${
+                          p.active ? 'bg-emerald-50 text-emerald-700 border-emerald-200' : 'bg-neutral-50 text-neutral-500 border-neutral-200'
+                        }`}
+                      >
+                        {p.active ? 'active' : 'hidden'}
+                      </span>
+                    </td>
+                    <td className="p-3 text-xs max-w-xs">
+                      {p.syncError ? (
+                        <span className="text-red-700 break-words">{p.syncError}</span>
+                      ) : (
+                        <span className="text-neutral-600">
+                          Stripe {p.stripePriceId ? '✓' : '—'}
+                          {p.interval !== 'once' && <> · PayPal {p.paypalPlanId ? '✓' : '—'}</>}
+                        </span>
+                      )}
+                      {p.syncedAt && <div className="text-neutral-400">{new Date(p.syncedAt).toLocaleString()}</div>}
+                    </td>
+                    <td className="p-3 text-right whitespace-nowrap space-x-2">
+                      <button className="px-3 py-1.5 rounded border hover:bg-neutral-50" onClick={() => open(p)}>Edit</button>
+                      <button className="px-3 py-1.5 rounded border hover:bg-neutral-50 disabled:opacity-60" disabled={busy} onClick={() => sync(p)}>
+                        Sync
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="text-center text-neutral-500 p-6 border rounded-xl bg-white">
+            No plans yet. Create the standard plans or add one.
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,145 @@
+import React from 'react';
+import Head from 'next/head';
+import useAdminGuard from '@/utils/useAdminGuard';
+
+async function fetchJSON<T = unknown>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, { credentials: 'include', ...init });
+  const tx = await res.text();
+  let data: { ok?: boolean; error?: string } | null = null;
+  try { data = JSON.parse(tx); } catch {}
+  if (!res.ok || data?.ok === false) throw new Error(data?.error || tx || `HTTP ${res.status}`);
+  return (data ?? {}) as T;
+}
+
+type EventItem = {
+  id: string;
+  type: string;
+  livemode: boolean;
+  status: 'processing' | 'processed' | 'failed' | 'ignored';
+  attempts: number;
+  error?: string | null;
+  receivedAt: number;
+  processedAt?: number | null;
+  updatedAt: number;
+};
+
+const FILTERS: Array<{ value: string; label: string }> = [
+  { value: 'failed', label: 'Failed' },
+  { value: 'processing', label: 'Processing' },
+  { value: 'processed', label: 'Processed' },
+  { value: 'ignored', label: 'Ignored' },
+  { value: '', label: 'All' },
+];
+
+const STATUS_CLS: Record<EventItem['status'], string> = {
+  failed: 'bg-red-50 text-red-700 border-red-200',
+  processing: 'bg-amber-50 text-amber-700 border-amber-200',
+  processed: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+  ignored: 'bg-neutral-50 text-neutral-500 border-neutral-200',
+};
+
+export default function AdminStripeEvents() {
+  const { ready } = useAdminGuard();
+  const [status, setStatus] = React.useState('failed');
+  const [items, setItems] = React.useState<EventItem[]>([]);
+  const [loading, setLoading] = React.useState(false);
+  const [err, setErr] = React.useState<string | null>(null);
+  const [busyId, setBusyId] = React.useState<string | null>(null);
+
+  const load = React.useCallback(async () => {
+    setLoading(true); setErr(null);
+    try {
+      const qs = status ? `?status=${encodeURIComponent(status)}` : '';
+      const data = await fetchJSON<{ items: EventItem[] }>(`/api/admin/stripe-events/list${qs}`);
+      setItems(Array.isArray(data.items) ? data.items : []);
+    } catch (e: unknown) {
+      setErr((e as Error)?.message || String(e));
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  React.useEffect(() => { if (ready) load(); }, [ready, load]);
+
+  const rerun = async (id: string) => {
+    setBusyId(id); setErr(null);
+    try {
+      await fetchJSON('/api/admin/stripe-events/rerun', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id }),
+      });
+    } catch (e: unknown) {
+      setErr(`${id}: ${(e as Error)?.message || String(e)}`);
+    } finally {
+      setBusyId(null);
+      await load();
+    }
+  };
+
+  if (!ready) return null;
+
+  return (
+    <>
+      <Head><title>Admin · Stripe events</title></Head>
+      <div className="max-w-6xl mx-auto px-4 py-10 space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h2 className="text-xl font-semibold">Stripe webhook events</h2>
+          <div className="flex items-center gap-2 text-sm">
+            <select className="border p-2 rounded" value={status} onChange={e => setStatus(e.target.value)}>
+              {FILTERS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+            </select>
+            <button className="rounded-lg border px-3 py-2 hover:bg-neutral-50" onClick={load}>Refresh</button>
+          </div>
+        </div>
+
+        {err && <div className="p-3 rounded bg-red-50 border text-red-700 break-all">{err}</div>}
+
+        {loading ? <p>Loading…</p> : items.length ? (
+          <div className="overflow-x-auto border rounded-xl bg-white">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-neutral-500 border-b">
+                  <th className="p-3">Received</th>
+                  <th className="p-3">Type</th>
+                  <th className="p-3">Event</th>
+                  <th className="p-3">Status</th>
+                  <th className="p-3">Attempts</th>
+                  <th className="p-3">Error</th>
+                  <th className="p-3"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map(it => (
+                  <tr key={it.id} className="border-b last:border-0 align-top">
+                    <td className="p-3 whitespace-nowrap">{new Date(it.receivedAt).toLocaleString()}</td>
+                    <td className="p-3 font-mono text-xs">{it.type}</td>
+                    <td className="p-3 font-mono text-xs">{it.id}{it.livemode ? '' : ' (test)'}</td>
+                    <td className="p-3">
+                      <span className={`inline-block rounded border px-2 py-0.5 text-xs ${STATUS_CLS[it.status] || ''}`}>{it.status}</span>
+                    </td>
+                    <td className="p-3">{it.attempts}</td>
+                    <td className="p-3 text-xs text-red-700 max-w-xs break-words">{it.error || ''}</td>
+                    <td className="p-3 text-right">
+                      {(it.status === 'failed' || it.status === 'processing') && (
+                        <button
+                          className="px-3 py-1.5 rounded bg-black text-white disabled:opacity-60"
+                          disabled={busyId === it.id}
+                          onClick={() => rerun(it.id)}
+                        >
+                          {busyId === it.id ? 'Running…' : 'Re-run'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="text-center text-neutral-500 p-6 border rounded-xl bg-white">No events.</div>
+        )}
+      </div>
+    </>
+  );
+}
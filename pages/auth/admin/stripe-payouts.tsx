@@ -0,0 +1,174 @@
+import React from 'react';
+import Head from 'next/head';
+import useAdminGuard from '@/utils/useAdminGuard';
+import type { StripePayout } from '@/types/donations';
+
+async function fetchJSON<T = unknown>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, { credentials: 'include', ...init });
+  const tx = await res.text();
+  let data: { ok?: boolean; error?: string } | null = null;
+  try { data = JSON.parse(tx); } catch {}
+  if (!res.ok || data?.ok === false) throw new Error(data?.error || tx || `HTTP ${res.status}`);
+  return (data ?? {}) as T;
+}
+
+type PayoutRow = StripePayout & { donationsCount: number };
+
+type PayoutDetail = Omit<StripePayout, 'donations'> & {
+  donations: Array<
+    StripePayout['donations'][number] & { campaignTitle: string; donorName: string; createdAt: number; amount: number; currency: string }
+  >;
+};
+
+function money(n: number, ccy: string) {
+  try {
+    return new Intl.NumberFormat('en-GB', { style: 'currency', currency: (ccy || 'GBP').toUpperCase() }).format(n || 0);
+  } catch {
+    return `${(n || 0).toFixed(2)} ${ccy}`;
+  }
+}
+
+const day = (ms: number) => (ms ? new Date(ms).toLocaleDateString('en-GB') : '—');
+
+export default function AdminStripePayouts() {
+  const { ready } = useAdminGuard();
+  const [items, setItems] = React.useState<PayoutRow[]>([]);
+  const [open, setOpen] = React.useState<PayoutDetail | null>(null);
+  const [loading, setLoading] = React.useState(false);
+  const [err, setErr] = React.useState<string | null>(null);
+
+  const load = React.useCallback(async () => {
+    setLoading(true);
+    setErr(null);
+    try {
+      const data = await fetchJSON<{ items: PayoutRow[] }>('/api/admin/donations/payouts');
+      setItems(Array.isArray(data.items) ? data.items : []);
+    } catch (e: unknown) {
+      setErr((e as Error)?.message || String(e));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  React.useEffect(() => { if (ready) load(); }, [ready, load]);
+
+  const show = async (id: string) => {
+    if (open?.id === id) return setOpen(null);
+    setErr(null);
+    try {
+      const data = await fetchJSON<{ item: PayoutDetail }>(`/api/admin/donations/payouts?id=${encodeURIComponent(id)}`);
+      setOpen(data.item);
+    } catch (e: unknown) {
+      setErr((e as Error)?.message || String(e));
+    }
+  };
+
+  if (!ready) return null;
+
+  return (
+    <>
+      <Head><title>Admin · Stripe payouts</title></Head>
+      <div className="max-w-6xl mx-auto px-4 py-10 space-y-6">
+        <div className="flex items-center justify-between gap-3">
+          <div className="space-y-1">
+            <h2 className="text-xl font-semibold">Stripe payouts</h2>
+            <p className="text-sm text-neutral-600">
+              Each payout to the bank, reconciled when Stripe reports it paid: the card donations it contains with their
+              fees, and any refunds or other balance movements netted off.
+            </p>
+          </div>
+          <button className="rounded-lg border px-3 py-2 hover:bg-neutral-50" onClick={load} disabled={loading}>
+            {loading ? 'Loading…' : 'Refresh'}
+          </button>
+        </div>
+
+        {err && <div className="p-3 rounded bg-red-50 border text-red-700 break-all">{err}</div>}
+
+        {items.length ? (
+          <div className="overflow-x-auto border rounded-xl bg-white">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-neutral-500 border-b">
+                  <th className="p-3">Arrived</th>
+                  <th className="p-3">Payout</th>
+                  <th className="p-3">Paid to bank</th>
+                  <th className="p-3">Donations</th>
+                  <th className="p-3">Gross</th>
+                  <th className="p-3">Fees</th>
+                  <th className="p-3">Net</th>
+                  <th className="p-3">Other</th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map((p) => (
+                  <React.Fragment key={p.id}>
+                    <tr className="border-b last:border-0 align-top cursor-pointer hover:bg-neutral-50" onClick={() => show(p.id)}>
+                      <td className="p-3 whitespace-nowrap">{day(p.arrivalDate)}</td>
+                      <td className="p-3 font-mono text-xs">{p.id}</td>
+                      <td className="p-3 whitespace-nowrap font-medium">{money(p.amount, p.currency)}</td>
+                      <td className="p-3">{p.donationsCount}</td>
+                      <td className="p-3 whitespace-nowrap">{money(p.totals.gross, p.currency)}</td>
+                      <td className="p-3 whitespace-nowrap">{money(p.totals.fees, p.currency)}</td>
+                      <td className="p-3 whitespace-nowrap">{money(p.totals.net, p.currency)}</td>
+                      <td className="p-3 whitespace-nowrap">{p.totals.other ? money(p.totals.other, p.currency) : '—'}</td>
+                    </tr>
+                    {open?.id === p.id && (
+                      <tr className="border-b bg-neutral-50">
+                        <td colSpan={8} className="p-3 space-y-3">
+                          {open.donations.length ? (
+                            <table className="w-full text-xs">
+                              <thead>
+                                <tr className="text-left text-neutral-500">
+                                  <th className="p-2">Date</th>
+                                  <th className="p-2">Campaign</th>
+                                  <th className="p-2">Donor</th>
+                                  <th className="p-2">Donation</th>
+                                  <th className="p-2">Gross</th>
+                                  <th className="p-2">Fee</th>
+                                  <th className="p-2">Net</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {open.donations.map((d) => (
+                                  <tr key={d.donationId}>
+                                    <td className="p-2 whitespace-nowrap">{day(d.createdAt)}</td>
+                                    <td className="p-2">{d.campaignTitle}</td>
+                                    <td className="p-2">{d.donorName || 'Anonymous'}</td>
+                                    <td className="p-2 whitespace-nowrap">{money(d.amount, d.currency)}</td>
+                                    <td className="p-2 whitespace-nowrap">{money(d.gross, open.currency)}</td>
+                                    <td className="p-2 whitespace-nowrap">{money(d.fee, open.currency)}</td>
+                                    <td className="p-2 whitespace-nowrap">{money(d.net, open.currency)}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          ) : (
+                            <div className="text-neutral-500">No donations in this payout.</div>
+                          )}
+                          {!!open.other.length && (
+                            <ul className="text-xs text-neutral-600 space-y-1">
+                              {open.other.map((o) => (
+                                <li key={o.balanceTransactionId}>
+                                  {o.type}: {money(o.net, open.currency)}
+                                  {o.description ? ` · ${o.description}` : ''}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="text-center text-neutral-500 p-6 border rounded-xl bg-white">
+            {loading ? 'Loading…' : 'No payouts reconciled yet.'}
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
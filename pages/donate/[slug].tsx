@@ -1,15 +1,31 @@
 // pages/donate/[slug].tsx
 import React from 'react';
 import Head from 'next/head';
+import type { GetServerSidePropsContext } from 'next';
 import Link from 'next/link';
 import Layout from '../../components/Layout';
 import dynamic from 'next/dynamic';
+import { parseGiftAid } from '../../lib/giftAid';
+import { matchMultiple, openPledges, pledgeHeadroom } from '../../lib/matchingPledges';
+import { milestoneAmount, sortedMilestones } from '../../lib/campaignMilestones';
+import { CATEGORY_LABELS, spendingSummary } from '../../lib/spending';
+import { normaliseEmbedSite } from '../../lib/embed';
+import ProgressRing from '../../components/ui/ProgressRing';
+import type { CampaignMilestone, DisbursementCategory, GiftAidDeclaration, MatchingPledge } from '../../types/donations';
 
 // Donation Stripe widget (client-only render to avoid SSR issues)
 const DonationPaymentWidget = dynamic(
   () => import('../../components/payments/DonationPaymentWidget'),
   { ssr: false }
 );
+const DonationPayPalButton = dynamic(
+  () => import('../../components/payments/DonationPayPalButton'),
+  { ssr: false }
+);
+const DonationMonthlyCheckout = dynamic(
+  () => import('../../components/payments/DonationMonthlyCheckout'),
+  { ssr: false }
+);
 
 type MediaItem = {
   id: string;
@@ -35,9 +51,44 @@ type Campaign = {
   allowPublicDonorList?: boolean;
   lastDonors?: Donor[];
   endAt?: number | null;
+  status?: 'draft' | 'active' | 'paused' | 'closed';
+  matchingPledges?: MatchingPledge[] | null;
+  milestones?: CampaignMilestone[];
+  totalSpent?: number;
+  spentByCategory?: Partial<Record<DisbursementCategory, number>>;
+  bankReference?: string;
+  showNetRaised?: boolean;
+  totalFees?: number;
+};
+
+// Account for bank transfers; donors quote the campaign's own reference (see lib/bankReconciliation.ts)
+const BANK_ACCOUNT = {
+  name: process.env.NEXT_PUBLIC_BANK_ACCOUNT_NAME || '',
+  sortCode: process.env.NEXT_PUBLIC_BANK_SORT_CODE || '',
+  number: process.env.NEXT_PUBLIC_BANK_ACCOUNT_NUMBER || '',
+};
+
+/** A supporter's page under the campaign (/donate/[slug]/f/[fundraiser]). */
+type FundraiserPage = {
+  id: string;
+  slug: string;
+  ownerName: string;
+  title: string;
+  story: string;
+  photoUrl?: string | null;
+  goalAmount: number;
+  totalRaised: number;
+  donorsCount: number;
 };
 
-type Props = { c: Campaign | null; error?: string | null };
+type Props = {
+  c: Campaign | null;
+  error?: string | null;
+  monthly?: 'success' | 'canceled' | null;
+  fundraiser?: FundraiserPage | null;
+  embedSite?: string | null; // arrived from a partner site's widget (lib/embed.ts)
+  initialLang?: Lang | null;
+};
 
 const getOrigin = (req: unknown) => {
   // @ts-ignore
@@ -47,7 +98,7 @@ const getOrigin = (req: unknown) => {
   return `${proto}://${host}`;
 };
 
-export async function getServerSideProps({ req, params }: unknown) {
+export async function getServerSideProps({ req, params, query }: GetServerSidePropsContext) {
   try {
     // @ts-ignore
     const origin = getOrigin(req);
@@ -56,7 +107,25 @@ export async function getServerSideProps({ req, params }: unknown) {
     const r = await fetch(`${origin}/api/donations/by-slug/${encodeURIComponent(slug)}`);
     const data = await r.json();
     if (!r.ok || data?.ok === false) throw new Error(data?.error || 'Not found');
-    return { props: { c: data.item } };
+    // Back from Stripe Checkout (monthly gift)
+    const monthly = ['success', 'canceled'].includes(String(query?.monthly)) ? String(query.monthly) : null;
+    // Opened from the embeddable widget: credit the partner site and keep its language
+    const embedSite = normaliseEmbedSite(query?.embed) || null;
+    const initialLang = query?.lang === 'ar' || query?.lang === 'en' ? query.lang : null;
+
+    // A supporter's page (/donate/[slug]/f/[fundraiser]); unknown or hidden pages fall back to the campaign
+    const fundraiserSlug = String(params?.fundraiser || '');
+    if (fundraiserSlug) {
+      const fr = await fetch(
+        `${origin}/api/donations/fundraisers?campaignId=${encodeURIComponent(data.item.id)}&slug=${encodeURIComponent(fundraiserSlug)}`
+      );
+      const fj = await fr.json();
+      if (!fr.ok || !fj?.item) {
+        return { redirect: { destination: `/donate/${encodeURIComponent(slug)}`, permanent: false } };
+      }
+      return { props: { c: data.item, monthly, fundraiser: fj.item, embedSite, initialLang } };
+    }
+    return { props: { c: data.item, monthly, embedSite, initialLang } };
   } catch (e: unknown) {
     // @ts-ignore
     return { props: { c: null, error: (e as any)?.message || 'Error' } };
@@ -144,25 +213,6 @@ function IconClock() {
   );
 }
 
-/* ------------------------- progress ring ------------------------- */
-function ProgressRing({ pct }: { pct: number }) {
-  const v = Math.max(0, Math.min(100, Math.round(pct)));
-  const style: React.CSSProperties = {
-    background: `conic-gradient(var(--ring-color) ${v * 3.6}deg, #e5e7eb ${v * 3.6}deg)`,
-  };
-  return (
-    <div
-      className="relative h-12 w-12 rounded-full"
-      // @ts-ignore CSS var cast
-      style={{ ...style, ['--ring-color' as unknown]: 'rgb(16 185 129)' }}
-      aria-label={`${v}% funded`}
-      title={`${v}% funded`}
-    >
-      <div className="absolute inset-1 rounded-full bg-white flex items-center justify-center text-xs font-semibold">%{v}</div>
-    </div>
-  );
-}
-
 /* ------------------------- i18n (UI copy only) ------------------------- */
 const tr = (lang: Lang) => ({
   // SEO
@@ -179,6 +229,7 @@ const tr = (lang: Lang) => ({
       ? 'Every pound becomes shelter, education and urgent relief for Palestinian families across the North West.'
       : 'كل جنيه يتحوّل إلى مأوى وتعليم وإغاثة عاجلة لأُسر فلسطينية في الشمال الغربي.',
   raised: lang === 'en' ? 'Raised' : 'تم جمعه',
+  netRaised: lang === 'en' ? 'After card fees' : 'بعد رسوم البطاقات',
   goal: lang === 'en' ? 'Goal' : 'الهدف',
   donors: lang === 'en' ? 'Donors' : 'المتبرعون',
   time: lang === 'en' ? 'Time' : 'الوقت',
@@ -230,22 +281,127 @@ const tr = (lang: Lang) => ({
     lang === 'en' ? 'Push this project over the line today' : 'ادفع هذا المشروع لخطّ النجاح اليوم',
   stickyCta: lang === 'en' ? 'Give now' : 'تبرّع الآن',
 
+  // payment modal
+  orPayPal: lang === 'en' ? 'or pay with PayPal' : 'أو ادفع عبر PayPal',
+
   // errors
   notFound: lang === 'en' ? 'Campaign not found' : 'الحملة غير موجودة',
 
   // NEW: name + quick nav
   firstName: lang === 'en' ? 'First name' : 'الاسم',
   lastName: lang === 'en' ? 'Last name' : 'العائلة',
+  donorEmail: lang === 'en' ? 'Email (for your receipt and account)' : 'البريد الإلكتروني (للإيصال وحسابك)',
   nameRequired: lang === 'en' ? 'Please enter your first and last name.' : 'فضلاً أدخل الاسم والكنية.',
   contactBtn: lang === 'en' ? 'Contact us' : 'اتصل بنا',
   joinBtn: lang === 'en' ? 'Join us' : 'انضم إلينا',
+
+  // monthly giving
+  giveOnce: lang === 'en' ? 'Give once' : 'مرة واحدة',
+  giveMonthly: lang === 'en' ? 'Give monthly' : 'تبرّع شهري',
+  monthlyNote:
+    lang === 'en'
+      ? 'You will be charged this amount every month until the campaign closes. You can cancel at any time.'
+      : 'سيتم خصم هذا المبلغ شهريًا حتى إغلاق الحملة، ويمكنك الإلغاء في أي وقت.',
+  monthlyContinue: lang === 'en' ? 'Continue to secure monthly checkout' : 'المتابعة إلى الدفع الشهري الآمن',
+  monthlySuccess:
+    lang === 'en'
+      ? 'Thank you! Your monthly donation is set up.'
+      : 'شكرًا لك! تم تفعيل تبرعك الشهري.',
+  monthlyCanceled: lang === 'en' ? 'Monthly checkout was cancelled.' : 'تم إلغاء الدفع الشهري.',
+  perMonth: lang === 'en' ? '/ month' : '/ شهريًا',
+
+  // Gift Aid (GBP campaigns only)
+  giftAidTitle: lang === 'en' ? 'Boost your donation by 25% with Gift Aid' : 'زِد تبرّعك بنسبة 25% عبر Gift Aid',
+  giftAidTitleField: lang === 'en' ? 'Title (optional)' : 'اللقب (اختياري)',
+  giftAidHouse: lang === 'en' ? 'House name or number' : 'اسم أو رقم المنزل',
+  giftAidAddress: lang === 'en' ? 'Street and town' : 'الشارع والمدينة',
+  giftAidPostcode: lang === 'en' ? 'Postcode' : 'الرمز البريدي',
+  giftAidDeclaration:
+    lang === 'en'
+      ? 'I am a UK taxpayer and understand that if I pay less Income Tax and/or Capital Gains Tax in the current tax year than the amount of Gift Aid claimed on all my donations it is my responsibility to pay any difference.'
+      : 'أقرّ بأنني دافع ضرائب في المملكة المتحدة، وأفهم أنه إذا دفعتُ ضريبة دخل و/أو ضريبة أرباح رأسمالية في السنة الضريبية الحالية أقل من قيمة Gift Aid المُطالب بها على جميع تبرعاتي، فإن مسؤولية دفع الفرق تقع عليّ.',
+  giftAidInvalid:
+    lang === 'en'
+      ? 'Please complete your home address, a valid UK postcode and the taxpayer declaration.'
+      : 'فضلاً أكمل عنوان المنزل ورمزًا بريديًا صحيحًا في المملكة المتحدة وإقرار دافع الضرائب.',
+
+  // sponsor matching pledges
+  matchHeadline: (sponsor: string, ratio: number) => {
+    const x = matchMultiple(ratio);
+    if (lang === 'en') {
+      return x ? `Your gift is ${x === 2 ? 'doubled' : 'tripled'} by ${sponsor}!` : `${sponsor} adds ${ratio}× your gift!`;
+    }
+    return x ? `${sponsor} ${x === 2 ? 'يضاعف تبرّعك!' : 'يضاعف تبرّعك ثلاث مرات!'}` : `${sponsor} يضيف ${ratio} أضعاف تبرّعك!`;
+  },
+  matchLeft: lang === 'en' ? 'of matching left' : 'متبقٍ من المطابقة',
+
+  // milestones timeline
+  milestonesTitle: lang === 'en' ? 'Milestones' : 'مراحل الحملة',
+  stretchGoal: lang === 'en' ? 'Stretch goal' : 'هدف إضافي',
+  reachedOn: lang === 'en' ? 'Reached' : 'تحققت في',
+  reachedYes: lang === 'en' ? 'Reached' : 'تحققت',
+  notYet: lang === 'en' ? 'Not yet reached' : 'لم تتحقق بعد',
+
+  // spending
+  spendingTitle: lang === 'en' ? 'Where the money goes' : 'أين تذهب التبرعات',
+  spent: lang === 'en' ? 'Spent' : 'تم صرفه',
+  remainingFunds: lang === 'en' ? 'Remaining' : 'المتبقي',
+  campaignUpdatesOptIn:
+    lang === 'en'
+      ? 'Email me when this campaign reaches its milestones'
+      : 'أرسلوا لي بريدًا عند بلوغ الحملة مراحلها',
+
+  // peer-to-peer fundraisers
+  fundraisingFor: (owner: string, campaign: string) =>
+    lang === 'en' ? `${owner} is fundraising for ${campaign}` : `${owner} يجمع التبرعات لحملة ${campaign}`,
+  fundraiserStory: lang === 'en' ? 'Why I’m fundraising' : 'لماذا أجمع التبرعات',
+  aboutCampaign: lang === 'en' ? 'About the campaign →' : 'عن الحملة ←',
+  leaderboardTitle: lang === 'en' ? 'Top fundraisers' : 'أبرز جامعي التبرعات',
+  leaderboardNote:
+    lang === 'en'
+      ? 'Supporters running their own fundraisers for this campaign. Every gift counts towards both.'
+      : 'داعمون يجمعون التبرعات لهذه الحملة عبر صفحاتهم الخاصة، وكل تبرّع يُحتسب للاثنين معًا.',
+  startFundraiser: lang === 'en' ? 'Start your own fundraiser' : 'ابدأ حملتك الخاصة لجمع التبرعات',
+
+  // bank transfer
+  bankTitle: lang === 'en' ? 'Donate by bank transfer' : 'التبرّع بتحويل بنكي',
+  bankAccountName: lang === 'en' ? 'Account name' : 'اسم الحساب',
+  bankSortCode: lang === 'en' ? 'Sort code' : 'رمز الفرع (Sort code)',
+  bankAccountNumber: lang === 'en' ? 'Account number' : 'رقم الحساب',
+  bankReference: lang === 'en' ? 'Reference' : 'المرجع',
+  bankNote:
+    lang === 'en'
+      ? 'Please quote this reference exactly so your gift reaches this campaign. Transfers are added to the total once they appear on our bank statement.'
+      : 'يرجى كتابة هذا المرجع كما هو ليصل تبرّعك إلى هذه الحملة، وتُضاف التحويلات إلى الإجمالي عند ظهورها في كشف حسابنا البنكي.',
 });
 
 /* ------------------------- page ------------------------- */
-export default function CampaignPage({ c, error }: Props) {
-  const [lang, setLang] = React.useState<Lang>('en');
+export default function CampaignPage({ c, error, monthly, fundraiser = null, embedSite = null, initialLang = null }: Props) {
+  const [lang, setLang] = React.useState<Lang>(initialLang || 'en');
   const t = React.useMemo(() => tr(lang), [lang]);
 
+  // One-off or monthly gift
+  const [giveMonthly, setGiveMonthly] = React.useState(false);
+  // Optional: receipt by email and access to /account
+  const [donorEmail, setDonorEmail] = React.useState('');
+  const [campaignUpdates, setCampaignUpdates] = React.useState(false);
+
+  // Gift Aid declaration state (declared before the not-found return so hook order is stable)
+  const [giftAidOn, setGiftAidOn] = React.useState(false);
+  const [giftAidForm, setGiftAidForm] = React.useState({ title: '', houseNameOrNumber: '', addressLine: '', postcode: '', ukTaxpayer: false });
+  const [giftAid, setGiftAid] = React.useState<GiftAidDeclaration | null>(null);
+  const [giftAidError, setGiftAidError] = React.useState<string | null>(null);
+
+  // Leaderboard of supporters' fundraiser pages (campaign page only)
+  const [fundraisers, setFundraisers] = React.useState<FundraiserPage[]>([]);
+  React.useEffect(() => {
+    if (!c?.id || fundraiser) return;
+    fetch(`/api/donations/fundraisers?campaignId=${encodeURIComponent(c.id)}`)
+      .then((r) => r.json())
+      .then((j) => setFundraisers(Array.isArray(j?.items) ? j.items : []))
+      .catch(() => setFundraisers([]));
+  }, [c?.id, fundraiser]);
+
   if (!c) {
     return (
       <Layout>
@@ -269,9 +425,18 @@ export default function CampaignPage({ c, error }: Props) {
   }
 
   // --- LIVE TOTALS (so Raised updates after payment) ---
-  const [liveTotals, setLiveTotals] = React.useState<{ totalDonated: number; donorsCount: number }>(() => ({
+  const [liveTotals, setLiveTotals] = React.useState<{
+    totalDonated: number;
+    donorsCount: number;
+    matchingPledges: MatchingPledge[];
+    fundraiserRaised: number;
+    fundraiserDonors: number;
+  }>(() => ({
     totalDonated: c.totalDonated,
     donorsCount: c.donorsCount,
+    matchingPledges: Array.isArray(c.matchingPledges) ? c.matchingPledges : [],
+    fundraiserRaised: fundraiser?.totalRaised || 0,
+    fundraiserDonors: fundraiser?.donorsCount || 0,
   }));
 
   // MONOTONIC refresh: do not let UI regress to lower numbers
@@ -283,14 +448,29 @@ export default function CampaignPage({ c, error }: Props) {
         const nextTotal = Number(j.item.totalDonated || 0);
         const nextDonors = Number(j.item.donorsCount || 0);
         setLiveTotals((prev) => ({
+          ...prev,
           totalDonated: Math.max(prev.totalDonated, nextTotal),
           donorsCount: Math.max(prev.donorsCount, nextDonors),
+          matchingPledges: Array.isArray(j.item.matchingPledges) ? j.item.matchingPledges : prev.matchingPledges,
         }));
       }
+      if (fundraiser) {
+        const fr = await fetch(
+          `/api/donations/fundraisers?campaignId=${encodeURIComponent(c.id)}&slug=${encodeURIComponent(fundraiser.slug)}`
+        );
+        const fj = await fr.json();
+        if (fr.ok && fj?.item) {
+          setLiveTotals((prev) => ({
+            ...prev,
+            fundraiserRaised: Math.max(prev.fundraiserRaised, Number(fj.item.totalRaised || 0)),
+            fundraiserDonors: Math.max(prev.fundraiserDonors, Number(fj.item.donorsCount || 0)),
+          }));
+        }
+      }
     } catch {
       // ignore (UI will keep previous totals)
     }
-  }, [c.slug]);
+  }, [c.slug, c.id, fundraiser]);
 
   // Gentle background refresh every 20s (cleared on unmount)
   React.useEffect(() => {
@@ -300,14 +480,20 @@ export default function CampaignPage({ c, error }: Props) {
     return () => clearInterval(id);
   }, [refreshCampaign]);
 
-  // Everything that shows totals now uses liveTotals
-  const pct = Math.min(100, Math.round((liveTotals.totalDonated / Math.max(c.goalAmount, 1)) * 100));
+  // Everything that shows totals now uses liveTotals (the fundraiser's own on a fundraiser page)
+  const raised = fundraiser ? liveTotals.fundraiserRaised : liveTotals.totalDonated;
+  const donors = fundraiser ? liveTotals.fundraiserDonors : liveTotals.donorsCount;
+  const goal = fundraiser ? fundraiser.goalAmount : c.goalAmount;
+  const pct = Math.min(100, Math.round((raised / Math.max(goal, 1)) * 100));
   const left = daysLeft(c.endAt);
   const mediaSorted: MediaItem[] = React.useMemo(() => {
     const arr = Array.isArray(c.media) ? [...c.media] : [];
     return arr.sort((a, b) => Number(!!b.isPrimary) - Number(!!a.isPrimary));
   }, [c.media]);
-  const hero = pickHero(c);
+  const hero = fundraiser?.photoUrl || pickHero(c);
+  const matching = openPledges(liveTotals);
+  const milestones = sortedMilestones(c);
+  const spending = spendingSummary({ ...c, totalDonated: liveTotals.totalDonated });
 
   // share URL (CSR only)
   const [shareUrl, setShareUrl] = React.useState('');
@@ -340,6 +526,11 @@ export default function CampaignPage({ c, error }: Props) {
   const [lastName, setLastName] = React.useState('');
   const [nameError, setNameError] = React.useState<string | null>(null);
 
+  // Gift Aid declaration (UK taxpayers, GBP campaigns only)
+  const giftAidEligible = String(c.currency).toUpperCase() === 'GBP';
+  const setGiftAidField = (k: keyof typeof giftAidForm, v: string | boolean) =>
+    setGiftAidForm((prev) => ({ ...prev, [k]: v }));
+
   const ensureDonorName = () => {
     if (!firstName.trim() || !lastName.trim()) {
       setNameError(t.nameRequired);
@@ -349,6 +540,22 @@ export default function CampaignPage({ c, error }: Props) {
     return true;
   };
 
+  /** Validate the declaration (if any) and freeze it for the payment widgets. */
+  const ensureGiftAid = () => {
+    if (!giftAidEligible || !giftAidOn) {
+      setGiftAid(null);
+      return true;
+    }
+    try {
+      setGiftAid(parseGiftAid({ ...giftAidForm, firstName, lastName }));
+      setGiftAidError(null);
+      return true;
+    } catch {
+      setGiftAidError(t.giftAidInvalid);
+      return false;
+    }
+  };
+
   const doDonate = () => {
     if (c.contact?.link) {
       window.open(c.contact.link, '_blank', 'noopener,noreferrer');
@@ -382,11 +589,11 @@ export default function CampaignPage({ c, error }: Props) {
     }
 
     // Otherwise, open our in-page Stripe payment widget (require name)
-    if (!ensureDonorName()) return;
+    if (!ensureDonorName() || !ensureGiftAid()) return;
     setShowPayment(true);
   };
 
-  const ogDesc = (c.why_ar || '').replace(/\s+/g, ' ').slice(0, 150);
+  const ogDesc = (fundraiser?.story || c.why_ar || '').replace(/\s+/g, ' ').slice(0, 150);
 
   // Helper to poll after success (handles webhook/DB delay)
   const pollTotalsAfterSuccess = React.useCallback(() => {
@@ -404,7 +611,7 @@ export default function CampaignPage({ c, error }: Props) {
       <Head>
         <title>{t.seoTitle}</title>
         <meta name="description" content={ogDesc} />
-        <meta property="og:title" content={c.title_ar} />
+        <meta property="og:title" content={fundraiser?.title || c.title_ar} />
         <meta property="og:description" content={ogDesc} />
         {hero && <meta property="og:image" content={hero} />}
         <link rel="canonical" href={shareUrl || ''} />
@@ -414,12 +621,12 @@ export default function CampaignPage({ c, error }: Props) {
             __html: JSON.stringify({
               '@context': 'https://schema.org',
               '@type': 'Fundraiser',
-              name: c.title_ar,
+              name: fundraiser?.title || c.title_ar,
               description: ogDesc,
               url: shareUrl || '',
               image: hero || '',
-              fundsRaised: { '@type': 'MonetaryAmount', currency: c.currency, value: liveTotals.totalDonated },
-              target: { '@type': 'MonetaryAmount', currency: c.currency, value: c.goalAmount },
+              fundsRaised: { '@type': 'MonetaryAmount', currency: c.currency, value: raised },
+              target: { '@type': 'MonetaryAmount', currency: c.currency, value: goal },
               sponsor: { '@type': 'Organization', name: 'Palestinian Community Association North West' },
             }),
           }}
@@ -457,7 +664,7 @@ export default function CampaignPage({ c, error }: Props) {
             <div className="absolute inset-0 z-0" aria-hidden="true">
               {hero ? (
                 // eslint-disable-next-line @next/next/no-img-element
-                <img src={hero} alt={c.title_ar} className="h-full w-full object-cover" />
+                <img src={hero} alt={fundraiser?.title || c.title_ar} className="h-full w-full object-cover" />
               ) : (
                 <div className="h-full w-full bg-neutral-100" />
               )}
@@ -466,22 +673,24 @@ export default function CampaignPage({ c, error }: Props) {
 
             <div className="relative z-10 container mx-auto px-4 pt-24 pb-10">
               <div className="max-w-4xl text-white">
-                <h1 className="text-3xl md:text-5xl font-black leading-tight">{c.title_ar}</h1>
-                <p className="mt-3 text-white/95 text-lg">{t.punchSubtitle}</p>
+                <h1 className="text-3xl md:text-5xl font-black leading-tight">{fundraiser?.title || c.title_ar}</h1>
+                <p className="mt-3 text-white/95 text-lg">
+                  {fundraiser ? t.fundraisingFor(fundraiser.ownerName, c.title_ar) : t.punchSubtitle}
+                </p>
 
                 {/* KPIs */}
                 <div className="mt-6 grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
                   <div className="rounded-xl bg-white/10 backdrop-blur p-3">
                     <div className="text-white/85">{t.raised}</div>
-                    <div className="text-white font-bold">{formatCurrency(liveTotals.totalDonated, c.currency, lang)}</div>
+                    <div className="text-white font-bold">{formatCurrency(raised, c.currency, lang)}</div>
                   </div>
                   <div className="rounded-xl bg-white/10 backdrop-blur p-3">
                     <div className="text-white/85">{t.goal}</div>
-                    <div className="text-white font-bold">{formatCurrency(c.goalAmount, c.currency, lang)}</div>
+                    <div className="text-white font-bold">{formatCurrency(goal, c.currency, lang)}</div>
                   </div>
                   <div className="rounded-xl bg-white/10 backdrop-blur p-3">
                     <div className="text-white/85">{t.donors}</div>
-                    <div className="text-white font-bold">{formatInt(liveTotals.donorsCount, lang)}</div>
+                    <div className="text-white font-bold">{formatInt(donors, lang)}</div>
                   </div>
                   <div className="rounded-xl bg-white/10 backdrop-blur p-3">
                     <div className="text-white/85">{t.time}</div>
@@ -531,6 +740,17 @@ export default function CampaignPage({ c, error }: Props) {
           <div className="container mx-auto px-4 py-10 grid lg:grid-cols-3 gap-8">
             {/* left content */}
             <div className="lg:col-span-2 space-y-8">
+              {/* The supporter's own story */}
+              {fundraiser && (
+                <section className="p-6 border rounded-2xl bg-white">
+                  <h2 className="text-xl font-bold">{t.fundraiserStory}</h2>
+                  <p className="mt-3 leading-8 text-neutral-800 whitespace-pre-line">{fundraiser.story}</p>
+                  <a href={`/donate/${encodeURIComponent(c.slug)}`} className="mt-4 inline-block text-sm text-emerald-700 hover:underline">
+                    {t.aboutCampaign}
+                  </a>
+                </section>
+              )}
+
               {/* Motivation */}
               <section className="p-6 border rounded-2xl bg-white">
                 <h2 className="text-xl font-bold">
@@ -561,6 +781,77 @@ export default function CampaignPage({ c, error }: Props) {
                 </div>
               </section>
 
+              {/* Milestones timeline */}
+              {!!milestones.length && (
+                <section className="space-y-3">
+                  <h3 className="text-lg font-semibold">{t.milestonesTitle}</h3>
+                  <ol className="relative border-s-2 border-neutral-200 ms-3 space-y-4">
+                    {milestones.map((m) => {
+                      const target = milestoneAmount(c.goalAmount, m.percent);
+                      const reached = !!m.reachedAt || liveTotals.totalDonated >= target;
+                      return (
+                        <li key={m.id} className="ms-5">
+                          <span
+                            className={cls(
+                              'absolute -start-[9px] mt-1.5 h-4 w-4 rounded-full border-2 border-white',
+                              reached ? 'bg-palestine-green' : 'bg-neutral-300'
+                            )}
+                          />
+                          <div className="flex flex-wrap items-baseline gap-2">
+                            <span className="font-semibold">
+                              %{formatInt(m.percent, lang)} · {formatCurrency(target, c.currency, lang)}
+                            </span>
+                            {m.percent > 100 && (
+                              <span className="text-xs px-2 py-0.5 rounded-full bg-amber-100 text-amber-800">{t.stretchGoal}</span>
+                            )}
+                          </div>
+                          <div className="text-neutral-700">{lang === 'en' ? m.description_en : m.description_ar}</div>
+                          <div className={cls('text-xs', reached ? 'text-emerald-700' : 'text-neutral-500')}>
+                            {m.reachedAt
+                              ? `${t.reachedOn} ${new Date(m.reachedAt).toLocaleDateString(lang === 'en' ? 'en-GB' : 'ar-GB')}`
+                              : reached
+                              ? t.reachedYes
+                              : t.notYet}
+                          </div>
+                        </li>
+                      );
+                    })}
+                  </ol>
+                </section>
+              )}
+
+              {/* Spending */}
+              {spending.spent > 0 && (
+                <section className="space-y-3">
+                  <h3 className="text-lg font-semibold">{t.spendingTitle}</h3>
+                  <div className="grid grid-cols-3 gap-3 text-sm">
+                    {[
+                      [t.raised, spending.raised],
+                      [t.spent, spending.spent],
+                      [t.remainingFunds, spending.remaining],
+                    ].map(([label, value]) => (
+                      <div key={String(label)} className="rounded-xl border bg-white p-4">
+                        <div className="text-neutral-500">{label}</div>
+                        <div className="font-bold">{formatCurrency(Number(value), c.currency, lang)}</div>
+                      </div>
+                    ))}
+                  </div>
+                  <ul className="space-y-2 rounded-2xl border bg-white p-4 text-sm">
+                    {spending.categories.map((x) => (
+                      <li key={x.category}>
+                        <div className="flex items-center justify-between">
+                          <span>{CATEGORY_LABELS[x.category][lang]}</span>
+                          <span className="font-medium">{formatCurrency(x.amount, c.currency, lang)}</span>
+                        </div>
+                        <div className="mt-1 h-2 rounded-full bg-neutral-100">
+                          <div className="h-2 rounded-full bg-palestine-green" style={{ width: `${Math.round(x.share * 100)}%` }} />
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              )}
+
               {/* Media */}
               {!!mediaSorted.length && (
                 <section className="space-y-3">
@@ -580,6 +871,43 @@ export default function CampaignPage({ c, error }: Props) {
                 </section>
               )}
 
+              {/* Fundraiser leaderboard */}
+              {!fundraiser && (!!fundraisers.length || c.status === 'active') && (
+                <section className="space-y-3">
+                  <h3 className="text-lg font-semibold">{t.leaderboardTitle}</h3>
+                  {!!fundraisers.length && (
+                    <>
+                      <p className="text-sm text-neutral-600">{t.leaderboardNote}</p>
+                      <ol className="divide-y rounded-2xl border bg-white">
+                        {fundraisers.map((f, i) => (
+                          <li key={f.id} className="flex items-center gap-3 p-3">
+                            <span className="w-6 text-center text-sm text-neutral-500">{formatInt(i + 1, lang)}</span>
+                            <a
+                              href={`/donate/${encodeURIComponent(c.slug)}/f/${encodeURIComponent(f.slug)}`}
+                              className="flex-1 min-w-0 hover:underline"
+                            >
+                              <div className="truncate font-medium">{f.title}</div>
+                              <div className="truncate text-xs text-neutral-500">{f.ownerName}</div>
+                            </a>
+                            <span className="text-sm font-medium">
+                              {formatCurrency(f.totalRaised, c.currency, lang)} / {formatCurrency(f.goalAmount, c.currency, lang)}
+                            </span>
+                          </li>
+                        ))}
+                      </ol>
+                    </>
+                  )}
+                  {c.status === 'active' && (
+                    <a
+                      href={`/donate/${encodeURIComponent(c.slug)}/f/start`}
+                      className="inline-block rounded-xl border px-4 py-2 text-sm font-medium hover:bg-neutral-50"
+                    >
+                      {t.startFundraiser}
+                    </a>
+                  )}
+                </section>
+              )}
+
               {/* Donors */}
               {c.allowPublicDonorList && !!c.lastDonors?.length && (
                 <section className="space-y-2">
@@ -598,7 +926,7 @@ export default function CampaignPage({ c, error }: Props) {
             </div>
 
             {/* donate sidebar */}
-            <aside className="lg:sticky lg:top-6 h-max">
+            <aside id="donate" className="lg:sticky lg:top-6 h-max">
               <div className="rounded-2xl border p-[1px] bg-gradient-to-br from-palestine-green/40 via-emerald-300/30 to-palestine-red/40">
                 <div className="rounded-2xl bg-white p-5 space-y-4">
                   <div className="flex items-center justify-between">
@@ -617,6 +945,44 @@ export default function CampaignPage({ c, error }: Props) {
                     </span>
                   </div>
 
+                  {matching.map((p) => (
+                    <div key={p.id} className="rounded-xl border border-amber-200 bg-amber-50 p-3 text-sm">
+                      <div className="font-semibold text-amber-900">{t.matchHeadline(p.sponsorName, p.ratio)}</div>
+                      <div className="text-amber-800">
+                        {formatCurrency(pledgeHeadroom(p), c.currency, lang)} {t.matchLeft}
+                      </div>
+                    </div>
+                  ))}
+
+                  {monthly && (
+                    <div
+                      className={cls(
+                        'rounded-xl border p-3 text-sm',
+                        monthly === 'success' ? 'bg-emerald-50 text-emerald-800' : 'bg-neutral-50 text-neutral-700'
+                      )}
+                    >
+                      {monthly === 'success' ? t.monthlySuccess : t.monthlyCanceled}
+                    </div>
+                  )}
+
+                  {/* one-off / monthly */}
+                  {c.status !== 'closed' && (
+                    <div className="grid grid-cols-2 gap-2 text-sm">
+                      {[false, true].map((m) => (
+                        <button
+                          key={String(m)}
+                          onClick={() => setGiveMonthly(m)}
+                          className={cls(
+                            'rounded-xl border px-3 py-2',
+                            giveMonthly === m ? 'bg-palestine-green text-white border-palestine-green' : 'bg-white hover:bg-neutral-50'
+                          )}
+                        >
+                          {m ? t.giveMonthly : t.giveOnce}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+
                   {/* donor name fields */}
                   <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
                     <input
@@ -636,14 +1002,92 @@ export default function CampaignPage({ c, error }: Props) {
                       aria-label={t.lastName}
                     />
                   </div>
+                  <input
+                    type="email"
+                    value={donorEmail}
+                    onChange={(e) => setDonorEmail(e.target.value)}
+                    className="w-full rounded-xl border p-2"
+                    placeholder={t.donorEmail}
+                    aria-label={t.donorEmail}
+                    autoComplete="email"
+                  />
+                  {!!donorEmail.trim() && (
+                    <label className="flex items-center gap-2 text-sm">
+                      <input type="checkbox" checked={campaignUpdates} onChange={(e) => setCampaignUpdates(e.target.checked)} />
+                      {t.campaignUpdatesOptIn}
+                    </label>
+                  )}
                   {nameError && <div className="text-sm text-red-600">{nameError}</div>}
 
+                  {/* Gift Aid declaration */}
+                  {giftAidEligible && (
+                    <div className="rounded-xl border p-3 space-y-2 text-sm">
+                      <label className="flex items-center gap-2 font-medium">
+                        <input type="checkbox" checked={giftAidOn} onChange={(e) => setGiftAidOn(e.target.checked)} />
+                        {t.giftAidTitle}
+                      </label>
+                      {giftAidOn && (
+                        <>
+                          <div className="grid grid-cols-3 gap-2">
+                            <input
+                              type="text"
+                              value={giftAidForm.title}
+                              onChange={(e) => setGiftAidField('title', e.target.value)}
+                              className="w-full rounded-xl border p-2"
+                              placeholder={t.giftAidTitleField}
+                              aria-label={t.giftAidTitleField}
+                            />
+                            <input
+                              type="text"
+                              value={giftAidForm.houseNameOrNumber}
+                              onChange={(e) => setGiftAidField('houseNameOrNumber', e.target.value)}
+                              className="col-span-2 w-full rounded-xl border p-2"
+                              placeholder={t.giftAidHouse}
+                              aria-label={t.giftAidHouse}
+                            />
+                          </div>
+                          <input
+                            type="text"
+                            value={giftAidForm.addressLine}
+                            onChange={(e) => setGiftAidField('addressLine', e.target.value)}
+                            className="w-full rounded-xl border p-2"
+                            placeholder={t.giftAidAddress}
+                            aria-label={t.giftAidAddress}
+                          />
+                          <input
+                            type="text"
+                            value={giftAidForm.postcode}
+                            onChange={(e) => setGiftAidField('postcode', e.target.value)}
+                            className="w-full rounded-xl border p-2"
+                            placeholder={t.giftAidPostcode}
+                            aria-label={t.giftAidPostcode}
+                          />
+                          <label className="flex items-start gap-2 text-xs text-neutral-700">
+                            <input
+                              type="checkbox"
+                              className="mt-0.5"
+                              checked={giftAidForm.ukTaxpayer}
+                              onChange={(e) => setGiftAidField('ukTaxpayer', e.target.checked)}
+                            />
+                            <span>{t.giftAidDeclaration}</span>
+                          </label>
+                        </>
+                      )}
+                      {giftAidError && <div className="text-red-600">{giftAidError}</div>}
+                    </div>
+                  )}
+
                   <div className="text-sm text-neutral-700">
                     <div>
-                      {t.raised}: <b>{formatCurrency(liveTotals.totalDonated, c.currency, lang)}</b>
+                      {t.raised}: <b>{formatCurrency(raised, c.currency, lang)}</b>
                     </div>
+                    {c.showNetRaised && !fundraiser && (
+                      <div className="text-neutral-500">
+                        {t.netRaised}: {formatCurrency(Math.max(0, raised - Number(c.totalFees || 0)), c.currency, lang)}
+                      </div>
+                    )}
                     <div>
-                      {t.goal}: <b>{formatCurrency(c.goalAmount, c.currency, lang)}</b>
+                      {t.goal}: <b>{formatCurrency(goal, c.currency, lang)}</b>
                     </div>
                   </div>
 
@@ -671,7 +1115,9 @@ export default function CampaignPage({ c, error }: Props) {
                       className="w-full rounded-xl border p-2"
                       placeholder={t.otherAmount}
                     />
-                    <span className="text-sm text-neutral-600">{c.currency}</span>
+                    <span className="text-sm text-neutral-600 whitespace-nowrap">
+                      {c.currency}{giveMonthly ? ` ${t.perMonth}` : ''}
+                    </span>
                   </div>
 
                   <button
@@ -691,6 +1137,31 @@ export default function CampaignPage({ c, error }: Props) {
                 </div>
               </div>
 
+              {c.bankReference && BANK_ACCOUNT.number && c.status !== 'closed' && (
+                <div id="bank-transfer" className="mt-4 rounded-2xl border p-4 space-y-2 bg-white text-sm">
+                  <h4 className="font-semibold">{t.bankTitle}</h4>
+                  <dl className="grid grid-cols-2 gap-x-3 gap-y-1">
+                    {BANK_ACCOUNT.name && (
+                      <>
+                        <dt className="text-neutral-600">{t.bankAccountName}</dt>
+                        <dd>{BANK_ACCOUNT.name}</dd>
+                      </>
+                    )}
+                    {BANK_ACCOUNT.sortCode && (
+                      <>
+                        <dt className="text-neutral-600">{t.bankSortCode}</dt>
+                        <dd dir="ltr">{BANK_ACCOUNT.sortCode}</dd>
+                      </>
+                    )}
+                    <dt className="text-neutral-600">{t.bankAccountNumber}</dt>
+                    <dd dir="ltr">{BANK_ACCOUNT.number}</dd>
+                    <dt className="text-neutral-600">{t.bankReference}</dt>
+                    <dd dir="ltr" className="font-mono font-semibold">{c.bankReference}</dd>
+                  </dl>
+                  <p className="text-xs text-neutral-600">{t.bankNote}</p>
+                </div>
+              )}
+
               {c.contact && (
                 <div id="contact" className="mt-4 rounded-2xl border p-4 space-y-2 bg-white">
                   <h4 className="font-semibold">{t.contactTitle}</h4>
@@ -769,31 +1240,86 @@ export default function CampaignPage({ c, error }: Props) {
 
                 <div className="px-6 pt-4 pb-6">
                   <div className="mb-4 text-sm text-neutral-600">
-                    {formatCurrency(liveTotals.totalDonated, c.currency, lang)} / {formatCurrency(c.goalAmount, c.currency, lang)} • %{pct}
+                    {formatCurrency(raised, c.currency, lang)} / {formatCurrency(goal, c.currency, lang)} • %{pct}
                   </div>
 
-                  {/* Donation-only Stripe Payment Widget */}
-                  <DonationPaymentWidget
-                    campaignId={c.id}
-                    campaignSlug={c.slug}
-                    defaultAmount={Number(amount || 0)}
-                    currency={String(c.currency) as any}
-                    donorFirstName={firstName.trim()}
-                    donorLastName={lastName.trim()}
-                    onSuccess={async (payload: any) => {
-                      // Use actual paid amount from Stripe payload (safer than input field)
-                      const paid = Number(payload?.amountPaid || amount || 0);
-                      setLiveTotals((prev) => ({
-                        totalDonated: prev.totalDonated + paid,
-                        donorsCount: prev.donorsCount + 1,
-                      }));
-                      setShowPayment(false);
-
-                      // Poll server to reconcile real totals (monotonic refresh prevents drop)
-                      const stopPolling = pollTotalsAfterSuccess();
-                      void stopPolling;
-                    }}
-                  />
+                  {giveMonthly ? (
+                    <DonationMonthlyCheckout
+                      campaignId={c.id}
+                      amount={Number(amount || 0)}
+                      currency={String(c.currency)}
+                      donorFirstName={firstName.trim()}
+                      donorLastName={lastName.trim()}
+                      donorEmail={donorEmail.trim()}
+                      giftAid={giftAid}
+                      campaignUpdates={campaignUpdates && !!donorEmail.trim()}
+                      fundraiserId={fundraiser?.id ?? null}
+                      embedSite={embedSite}
+                      label={t.monthlyContinue}
+                      note={t.monthlyNote}
+                    />
+                  ) : (
+                    <>
+                      {/* Donation-only Stripe Payment Widget */}
+                      <DonationPaymentWidget
+                        campaignId={c.id}
+                        campaignSlug={c.slug}
+                        defaultAmount={Number(amount || 0)}
+                        currency={String(c.currency) as any}
+                        donorFirstName={firstName.trim()}
+                        donorLastName={lastName.trim()}
+                        donorEmail={donorEmail.trim()}
+                        giftAid={giftAid}
+                        campaignUpdates={campaignUpdates && !!donorEmail.trim()}
+                        fundraiserId={fundraiser?.id ?? null}
+                        embedSite={embedSite}
+                        onSuccess={async (payload: any) => {
+                          // The campaign's part of the payment (fee cover and general-fund tip excluded)
+                          const paid = Number(payload?.campaignAmount || payload?.amountPaid || amount || 0);
+                          setLiveTotals((prev) => ({
+                            ...prev,
+                            totalDonated: prev.totalDonated + paid,
+                            donorsCount: prev.donorsCount + 1,
+                            fundraiserRaised: prev.fundraiserRaised + (fundraiser ? paid : 0),
+                            fundraiserDonors: prev.fundraiserDonors + (fundraiser ? 1 : 0),
+                          }));
+                          setShowPayment(false);
+
+                          // Poll server to reconcile real totals (monotonic refresh prevents drop)
+                          const stopPolling = pollTotalsAfterSuccess();
+                          void stopPolling;
+                        }}
+                      />
+
+                      {/* PayPal alternative (same ledger & campaign totals) */}
+                      <DonationPayPalButton
+                        dividerLabel={t.orPayPal}
+                        campaignId={c.id}
+                        amount={Number(amount || 0)}
+                        currency={String(c.currency)}
+                        donorFirstName={firstName.trim()}
+                        donorLastName={lastName.trim()}
+                        donorEmail={donorEmail.trim()}
+                        giftAid={giftAid}
+                        campaignUpdates={campaignUpdates && !!donorEmail.trim()}
+                        fundraiserId={fundraiser?.id ?? null}
+                        embedSite={embedSite}
+                        onSuccess={(payload) => {
+                          const paid = Number(payload.amountPaid || 0);
+                          setLiveTotals((prev) => ({
+                            ...prev,
+                            totalDonated: prev.totalDonated + paid,
+                            donorsCount: prev.donorsCount + 1,
+                            fundraiserRaised: prev.fundraiserRaised + (fundraiser ? paid : 0),
+                            fundraiserDonors: prev.fundraiserDonors + (fundraiser ? 1 : 0),
+                          }));
+                          setShowPayment(false);
+                          const stopPolling = pollTotalsAfterSuccess();
+                          void stopPolling;
+                        }}
+                      />
+                    </>
+                  )}
                 </div>
               </div>
             </div>
@@ -806,7 +1332,7 @@ export default function CampaignPage({ c, error }: Props) {
                 <div className="text-left">
                   <div className="font-bold">{t.stickyHeadline}</div>
                   <div className="text-sm text-white/90">
-                    {formatCurrency(liveTotals.totalDonated, c.currency, lang)} / {formatCurrency(c.goalAmount, c.currency, lang)} — %{pct}
+                    {formatCurrency(raised, c.currency, lang)} / {formatCurrency(goal, c.currency, lang)} — %{pct}
                   </div>
                 </div>
                 <div className="flex items-center gap-2">
@@ -0,0 +1,7 @@
+// pages/donate/[slug]/f/[fundraiser].tsx
+// A supporter's fundraiser page: the campaign page headed by their own story and goal.
+import CampaignPage, { getServerSideProps as campaignServerSideProps } from '../../[slug]';
+
+export const getServerSideProps = campaignServerSideProps;
+
+export default CampaignPage;
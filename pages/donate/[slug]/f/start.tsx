@@ -0,0 +1,268 @@
+// pages/donate/[slug]/f/start.tsx
+// Start (or, with ?id=, edit) a fundraiser page under a campaign. Signed-in supporters only.
+import React from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { useSession } from 'next-auth/react';
+import Layout from '../../../../components/Layout';
+
+type Lang = 'en' | 'ar';
+
+type Form = {
+  slug: string;
+  ownerName: string;
+  title: string;
+  story: string;
+  goalAmount: string;
+  photoUrl: string;
+  photoPath: string;
+};
+
+const EMPTY: Form = { slug: '', ownerName: '', title: '', story: '', goalAmount: '', photoUrl: '', photoPath: '' };
+
+const tr = (lang: Lang) => ({
+  title: lang === 'en' ? 'Start a fundraiser' : 'ابدأ صفحة لجمع التبرعات',
+  editTitle: lang === 'en' ? 'Edit your fundraiser' : 'تعديل صفحتك لجمع التبرعات',
+  intro: (campaign: string) =>
+    lang === 'en'
+      ? `Raise money for “${campaign}” from your own page. Every gift made there counts towards the campaign too.`
+      : `اجمع التبرعات لحملة «${campaign}» عبر صفحتك الخاصة، وكل تبرّع فيها يُحتسب للحملة أيضًا.`,
+  signIn: lang === 'en' ? 'Please sign in to your account first.' : 'يرجى تسجيل الدخول إلى حسابك أولًا.',
+  signInLink: lang === 'en' ? 'Sign in' : 'تسجيل الدخول',
+  loading: lang === 'en' ? 'Loading…' : 'جارٍ التحميل…',
+  slug: lang === 'en' ? 'Page address' : 'عنوان الصفحة',
+  slugHint: lang === 'en' ? 'Lower-case letters, numbers and dashes' : 'أحرف إنجليزية صغيرة وأرقام وشرطات',
+  ownerName: lang === 'en' ? 'Your name (shown on the page)' : 'اسمك (يظهر على الصفحة)',
+  pageTitle: lang === 'en' ? 'Page title' : 'عنوان الصفحة الظاهر',
+  story: lang === 'en' ? 'Why you are fundraising' : 'لماذا تجمع التبرعات',
+  goal: lang === 'en' ? 'Your goal' : 'هدفك',
+  photo: lang === 'en' ? 'Photo (optional)' : 'صورة (اختياري)',
+  uploading: lang === 'en' ? 'Uploading…' : 'جارٍ الرفع…',
+  removePhoto: lang === 'en' ? 'Remove photo' : 'إزالة الصورة',
+  create: lang === 'en' ? 'Create my page' : 'أنشئ صفحتي',
+  save: lang === 'en' ? 'Save changes' : 'حفظ التعديلات',
+  saving: lang === 'en' ? 'Saving…' : 'جارٍ الحفظ…',
+  created:
+    lang === 'en'
+      ? 'Thank you! Your page will go live once our team has approved it. You can find it under “My fundraisers” in your account.'
+      : 'شكرًا لك! ستُنشر صفحتك بعد موافقة فريقنا، ويمكنك إيجادها ضمن «صفحات جمع التبرعات الخاصة بي» في حسابك.',
+  saved: lang === 'en' ? 'Changes saved.' : 'تم حفظ التعديلات.',
+  savedPending:
+    lang === 'en'
+      ? 'Changes saved. Your page is back with our team for approval and will go live again once they have checked it.'
+      : 'تم حفظ التعديلات. أُعيدت صفحتك إلى فريقنا للموافقة، وستُنشر مجددًا بعد مراجعتها.',
+  toAccount: lang === 'en' ? 'Go to my account' : 'الذهاب إلى حسابي',
+  notActive: lang === 'en' ? 'This campaign is not taking new fundraisers.' : 'هذه الحملة لا تقبل صفحات جديدة لجمع التبرعات.',
+});
+
+function readAsDataURL(file: File) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result || ''));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+export default function StartFundraiser() {
+  const router = useRouter();
+  const { status } = useSession();
+  const slug = String(router.query.slug || '');
+  const editId = String(router.query.id || '');
+  const [lang, setLang] = React.useState<Lang>('en');
+  const t = React.useMemo(() => tr(lang), [lang]);
+
+  const [campaign, setCampaign] = React.useState<{ id: string; title_ar: string; currency: string; status?: string } | null>(null);
+  const [form, setForm] = React.useState<Form>(EMPTY);
+  const [busy, setBusy] = React.useState(false);
+  const [uploading, setUploading] = React.useState(false);
+  const [done, setDone] = React.useState<'created' | 'saved' | 'savedPending' | null>(null);
+  const [err, setErr] = React.useState<string | null>(null);
+
+  // Campaign, then (when editing) the owner's page
+  React.useEffect(() => {
+    if (!slug || status !== 'authenticated') return;
+    (async () => {
+      try {
+        const r = await fetch(`/api/donations/by-slug/${encodeURIComponent(slug)}`);
+        const j = await r.json().catch(() => null);
+        if (!r.ok || !j?.item) throw new Error(j?.error || `HTTP ${r.status}`);
+        setCampaign(j.item);
+        if (editId) {
+          const fr = await fetch(`/api/donations/fundraisers?id=${encodeURIComponent(editId)}`);
+          const fj = await fr.json().catch(() => null);
+          if (!fr.ok || !fj?.item) throw new Error(fj?.error || `HTTP ${fr.status}`);
+          setForm({
+            slug: fj.item.slug,
+            ownerName: fj.item.ownerName,
+            title: fj.item.title,
+            story: fj.item.story,
+            goalAmount: String(fj.item.goalAmount || ''),
+            photoUrl: fj.item.photoUrl || '',
+            photoPath: fj.item.photoPath || '',
+          });
+        }
+      } catch (e: unknown) {
+        setErr((e as Error)?.message || String(e));
+      }
+    })();
+  }, [slug, editId, status]);
+
+  const set = (k: keyof Form) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    setForm((f) => ({ ...f, [k]: e.target.value }));
+
+  const upload = async (file?: File | null) => {
+    if (!file) return;
+    setUploading(true);
+    setErr(null);
+    try {
+      const r = await fetch('/api/donations/fundraiser-photo', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ dataURL: await readAsDataURL(file), filename: file.name }),
+      });
+      const j = await r.json().catch(() => null);
+      if (!r.ok || j?.ok === false) throw new Error(j?.error || `HTTP ${r.status}`);
+      setForm((f) => ({ ...f, photoUrl: j.downloadUrl, photoPath: j.storagePath }));
+    } catch (e: unknown) {
+      setErr((e as Error)?.message || String(e));
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!campaign) return;
+    setBusy(true);
+    setErr(null);
+    try {
+      const body = { ...form, goalAmount: Number(form.goalAmount || 0), campaignId: campaign.id };
+      const r = await fetch(editId ? `/api/donations/fundraisers?id=${encodeURIComponent(editId)}` : '/api/donations/fundraisers', {
+        method: editId ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const j = await r.json().catch(() => null);
+      if (!r.ok || j?.ok === false) throw new Error(j?.error || `HTTP ${r.status}`);
+      setDone(!editId ? 'created' : j?.status === 'pending' ? 'savedPending' : 'saved');
+    } catch (e: unknown) {
+      setErr((e as Error)?.message || String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const input = 'mt-1 w-full rounded-xl border px-3 py-2';
+  const btn = 'rounded-xl border px-3 py-1.5 text-sm hover:bg-neutral-50 disabled:opacity-50';
+
+  return (
+    <Layout>
+      <Head><title>{editId ? t.editTitle : t.title}</title></Head>
+      <main dir={lang === 'ar' ? 'rtl' : 'ltr'} className="container mx-auto px-4 py-12">
+        <div className="mx-auto max-w-2xl rounded-2xl border bg-white p-6 space-y-4">
+          <div className="flex items-center justify-between gap-3">
+            <h1 className="text-2xl font-bold">{editId ? t.editTitle : t.title}</h1>
+            <button onClick={() => setLang((p) => (p === 'en' ? 'ar' : 'en'))} className={btn}>
+              {lang === 'en' ? 'عربي' : 'English'}
+            </button>
+          </div>
+
+          {status === 'loading' && <p className="text-neutral-600">{t.loading}</p>}
+
+          {status === 'unauthenticated' && (
+            <p className="text-sm">
+              {t.signIn}{' '}
+              <Link href="/account/login" className="text-palestine-green underline">{t.signInLink}</Link>
+            </p>
+          )}
+
+          {err && <div className="rounded-xl border bg-red-50 p-3 text-sm text-red-700">{err}</div>}
+
+          {done ? (
+            <div className="space-y-3">
+              <p className="rounded-xl border bg-emerald-50 p-3 text-sm text-emerald-800">{t[done]}</p>
+              <Link href="/account" className={btn}>{t.toAccount}</Link>
+            </div>
+          ) : (
+            campaign && (
+              <>
+                <p className="text-sm text-neutral-600">{t.intro(campaign.title_ar)}</p>
+                {!editId && campaign.status !== 'active' ? (
+                  <p className="text-sm text-neutral-500">{t.notActive}</p>
+                ) : (
+                  <form onSubmit={submit} className="space-y-4">
+                    {!editId && (
+                      <label className="block text-sm">
+                        {t.slug}
+                        <div className="mt-1 flex items-center gap-1 text-neutral-500" dir="ltr">
+                          <span>/donate/{slug}/f/</span>
+                          <input
+                            className="flex-1 rounded-xl border px-3 py-2 text-neutral-900"
+                            value={form.slug}
+                            onChange={(e) => setForm((f) => ({ ...f, slug: e.target.value.toLowerCase() }))}
+                            pattern="[a-z0-9][a-z0-9\-]{1,48}[a-z0-9]"
+                            required
+                          />
+                        </div>
+                        <span className="text-xs text-neutral-500">{t.slugHint}</span>
+                      </label>
+                    )}
+                    <label className="block text-sm">
+                      {t.ownerName}
+                      <input className={input} value={form.ownerName} onChange={set('ownerName')} maxLength={80} required />
+                    </label>
+                    <label className="block text-sm">
+                      {t.pageTitle}
+                      <input className={input} value={form.title} onChange={set('title')} maxLength={120} required />
+                    </label>
+                    <label className="block text-sm">
+                      {t.story}
+                      <textarea className={input} rows={6} value={form.story} onChange={set('story')} maxLength={5000} required />
+                    </label>
+                    <label className="block text-sm">
+                      {t.goal} ({campaign.currency})
+                      <input
+                        className={input}
+                        type="number"
+                        min={1}
+                        step="0.01"
+                        value={form.goalAmount}
+                        onChange={set('goalAmount')}
+                        required
+                      />
+                    </label>
+                    <div className="text-sm space-y-2">
+                      <div>{t.photo}</div>
+                      {form.photoUrl ? (
+                        <div className="flex items-center gap-3">
+                          {/* eslint-disable-next-line @next/next/no-img-element */}
+                          <img src={form.photoUrl} alt="" className="h-24 w-32 rounded-xl object-cover" />
+                          <button type="button" className={btn} onClick={() => setForm((f) => ({ ...f, photoUrl: '', photoPath: '' }))}>
+                            {t.removePhoto}
+                          </button>
+                        </div>
+                      ) : (
+                        <input
+                          type="file"
+                          accept="image/jpeg,image/png,image/webp,image/gif"
+                          disabled={uploading}
+                          onChange={(e) => upload(e.target.files?.[0])}
+                        />
+                      )}
+                      {uploading && <div className="text-neutral-500">{t.uploading}</div>}
+                    </div>
+                    <button type="submit" disabled={busy || uploading} className="rounded-xl bg-palestine-green px-4 py-2 text-white disabled:opacity-50">
+                      {busy ? t.saving : editId ? t.save : t.create}
+                    </button>
+                  </form>
+                )}
+              </>
+            )
+          )}
+        </div>
+      </main>
+    </Layout>
+  );
+}
@@ -0,0 +1,176 @@
+// pages/embed/campaign/[slug].tsx
+// The campaign widget partner sites embed in an iframe (public/embed.js, lib/embed.ts).
+// No site chrome: title, progress and a donate button that opens the campaign page
+// in a new tab, tagged with the embedding site so the gift is attributed to it.
+import React from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import type { GetServerSidePropsContext } from 'next';
+import ProgressRing from '../../../components/ui/ProgressRing';
+import { EMBED_HEIGHT_MESSAGE, isEmbedLang, isEmbedTheme, normaliseEmbedSite } from '../../../lib/embed';
+import type { EmbedLang, EmbedTheme } from '../../../lib/embed';
+
+type Campaign = {
+  id: string;
+  slug: string;
+  title_ar: string;
+  title_en?: string | null;
+  currency: string;
+  goalAmount: number;
+  totalDonated: number;
+  donorsCount: number;
+  status?: 'draft' | 'active' | 'paused' | 'closed';
+};
+
+type Props = {
+  c: Campaign | null;
+  lang: EmbedLang;
+  theme: EmbedTheme;
+  site: string | null; // passed by embed.js; otherwise taken from the referrer
+};
+
+const getOrigin = (req: GetServerSidePropsContext['req']) => {
+  const proto = req.headers['x-forwarded-proto'] || 'http';
+  const host = req.headers['x-forwarded-host'] || req.headers.host || 'localhost:3000';
+  return `${proto}://${host}`;
+};
+
+export async function getServerSideProps({ req, res, params, query }: GetServerSidePropsContext) {
+  const lang: EmbedLang = isEmbedLang(query?.lang) ? query.lang : 'en';
+  const theme: EmbedTheme = isEmbedTheme(query?.theme) ? query.theme : 'light';
+  const site = normaliseEmbedSite(query?.site) || null;
+  try {
+    const slug = String(params?.slug || '');
+    const r = await fetch(`${getOrigin(req)}/api/donations/by-slug/${encodeURIComponent(slug)}`);
+    const data = await r.json();
+    if (!r.ok || data?.ok === false || data.item?.status === 'draft') return { props: { c: null, lang, theme, site } };
+
+    const item = data.item as Campaign;
+    // Partner pages can be busy; totals a minute old are fine here
+    res.setHeader('Cache-Control', 'public, s-maxage=60, stale-while-revalidate=300');
+    const c: Campaign = {
+      id: item.id,
+      slug: item.slug,
+      title_ar: item.title_ar,
+      title_en: item.title_en || null,
+      currency: String(item.currency || 'GBP'),
+      goalAmount: Number(item.goalAmount || 0),
+      totalDonated: Number(item.totalDonated || 0),
+      donorsCount: Number(item.donorsCount || 0),
+      status: item.status || 'active',
+    };
+    return { props: { c, lang, theme, site } };
+  } catch {
+    return { props: { c: null, lang, theme, site } };
+  }
+}
+
+const tr = (lang: EmbedLang) => ({
+  raisedOf: lang === 'en' ? 'raised of' : 'من أصل',
+  donors: (n: string) => (lang === 'en' ? `${n} donors` : `${n} متبرّع`),
+  donate: lang === 'en' ? 'Donate now' : 'تبرّع الآن',
+  closed: lang === 'en' ? 'This campaign has closed. Thank you for your support.' : 'انتهت هذه الحملة. شكرًا لدعمكم.',
+  paused: lang === 'en' ? 'Donations are paused for now.' : 'التبرعات متوقفة مؤقتًا.',
+  notFound: lang === 'en' ? 'Campaign not found.' : 'الحملة غير موجودة.',
+  by: lang === 'en' ? 'Palestinian Community Association North West' : 'جمعية الجالية الفلسطينية شمال الغرب',
+});
+
+function formatCurrency(n: number, c: string, lang: EmbedLang) {
+  const locale = lang === 'en' ? 'en-GB' : 'ar-GB';
+  try {
+    return new Intl.NumberFormat(locale, { style: 'currency', currency: c, maximumFractionDigits: 0 }).format(n);
+  } catch {
+    return `${n} ${c}`;
+  }
+}
+
+const THEMES: Record<EmbedTheme, { card: string; muted: string; track: string; inner: string }> = {
+  light: { card: 'bg-white text-neutral-900 border-neutral-200', muted: 'text-neutral-500', track: '#e5e7eb', inner: 'bg-white text-sm' },
+  dark: { card: 'bg-neutral-900 text-neutral-100 border-neutral-700', muted: 'text-neutral-400', track: '#404040', inner: 'bg-neutral-900 text-sm' },
+};
+
+export default function CampaignEmbed({ c, lang, theme, site }: Props) {
+  const t = tr(lang);
+  const look = THEMES[theme];
+  const rootRef = React.useRef<HTMLDivElement>(null);
+
+  // embed.js passes the host page; a bare iframe falls back to the referrer
+  const [embedSite, setEmbedSite] = React.useState(site);
+  React.useEffect(() => {
+    if (embedSite || !document.referrer) return;
+    const host = normaliseEmbedSite(document.referrer);
+    if (host && host !== window.location.hostname) setEmbedSite(host);
+  }, [embedSite]);
+
+  // Tell the host page how tall we are, so the iframe never scrolls
+  React.useEffect(() => {
+    const el = rootRef.current;
+    if (!el || window.parent === window) return;
+    const post = () =>
+      window.parent.postMessage({ type: EMBED_HEIGHT_MESSAGE, height: Math.ceil(el.getBoundingClientRect().height) }, '*');
+    post();
+    const ro = new ResizeObserver(post);
+    ro.observe(el);
+    return () => ro.disconnect();
+  }, []);
+
+  const raised = c?.totalDonated || 0;
+  const goal = c?.goalAmount || 0;
+  const pct = Math.min(100, Math.round((raised / Math.max(goal, 1)) * 100));
+  const q = new URLSearchParams({ lang });
+  if (embedSite) q.set('embed', embedSite);
+  const donateHref = c ? `/donate/${encodeURIComponent(c.slug)}?${q.toString()}#donate` : '';
+  const title = c ? (lang === 'en' && c.title_en) || c.title_ar : '';
+
+  return (
+    <>
+      <Head>
+        <title>{c ? title : t.notFound}</title>
+        <meta name="robots" content="noindex" />
+        <style>{'html, body { background: transparent !important; }'}</style>
+      </Head>
+      <div ref={rootRef} dir={lang === 'ar' ? 'rtl' : 'ltr'} className="p-1">
+        <div className={`rounded-2xl border p-4 space-y-3 ${look.card}`}>
+          {!c ? (
+            <p className={`text-sm ${look.muted}`}>{t.notFound}</p>
+          ) : (
+            <>
+              <div className="flex items-center gap-3">
+                <ProgressRing pct={pct} className="h-16 w-16 shrink-0" track={look.track} innerClassName={look.inner} />
+                <div className="min-w-0">
+                  <h1 className="font-bold leading-snug line-clamp-2" dir="auto">{title}</h1>
+                  <div className="text-sm">
+                    <b>{formatCurrency(raised, c.currency, lang)}</b>{' '}
+                    <span className={look.muted}>
+                      {t.raisedOf} {formatCurrency(goal, c.currency, lang)}
+                    </span>
+                  </div>
+                  <div className={`text-xs ${look.muted}`}>
+                    {t.donors(new Intl.NumberFormat(lang === 'en' ? 'en-GB' : 'ar-GB').format(c.donorsCount))}
+                  </div>
+                </div>
+              </div>
+
+              {c.status === 'closed' ? (
+                <p className={`text-sm ${look.muted}`}>{t.closed}</p>
+              ) : c.status === 'paused' ? (
+                <p className={`text-sm ${look.muted}`}>{t.paused}</p>
+              ) : (
+                <Link
+                  href={donateHref}
+                  target="_blank"
+                  rel="noopener"
+                  className="block w-full rounded-xl bg-palestine-green px-4 py-2.5 text-center font-semibold text-white hover:opacity-90"
+                >
+                  {t.donate}
+                </Link>
+              )}
+
+              <div className={`text-[11px] ${look.muted}`}>{t.by}</div>
+            </>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
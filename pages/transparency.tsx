@@ -3,6 +3,8 @@ import Head from 'next/head';
 import dynamic from 'next/dynamic';
 import React from 'react';
 import Link from 'next/link';
+import { CATEGORY_LABELS } from '../lib/spending';
+import type { DisbursementCategory } from '../types/donations';
 
 /** Dynamic-safe imports (مطابقة لأسلوب about.tsx) */
 function pickComponent(mod: unknown, keys: string[]) {
@@ -62,6 +64,78 @@ function Pill({ children }: { children: React.ReactNode }) {
   return <span className="inline-flex items-center rounded-full border px-2.5 py-1 text-xs bg-white">{children}</span>;
 }
 
+type CampaignSpendingItem = {
+  id: string;
+  slug: string;
+  title_ar: string;
+  title_en: string;
+  currency: string;
+  raised: number;
+  spent: number;
+  remaining: number;
+  categories: Array<{ category: DisbursementCategory; amount: number; share: number }>;
+};
+
+function money(n: number, currency: string, lang: 'en' | 'ar') {
+  try {
+    return new Intl.NumberFormat(lang === 'en' ? 'en-GB' : 'ar-GB', { style: 'currency', currency }).format(n);
+  } catch {
+    return `${n} ${currency}`;
+  }
+}
+
+/** Raised vs spent vs remaining per campaign, from /api/donations/spending. */
+function CampaignSpending({ lang, rtl }: { lang: 'en' | 'ar'; rtl?: boolean }) {
+  const dict = t[lang].spending;
+  const [items, setItems] = React.useState<CampaignSpendingItem[] | null>(null);
+
+  React.useEffect(() => {
+    let alive = true;
+    fetch('/api/donations/spending')
+      .then((r) => r.json())
+      .then((j) => { if (alive) setItems(Array.isArray(j?.items) ? j.items : []); })
+      .catch(() => { if (alive) setItems([]); });
+    return () => { alive = false; };
+  }, []);
+
+  const shown = (items || []).filter((c) => c.spent > 0);
+  if (items && !shown.length) return <p className="mt-4 text-neutral-500">{dict.empty}</p>;
+
+  return (
+    <div className="mt-6 grid gap-6 md:grid-cols-2">
+      {shown.map((c) => (
+        <div key={c.id} className="rounded-2xl border bg-white p-6 shadow-sm">
+          <div className={`flex items-center justify-between gap-3 ${rtl ? 'flex-row-reverse' : ''}`}>
+            <div className="font-extrabold text-lg">{(lang === 'en' && c.title_en) || c.title_ar}</div>
+            <Link href={`/donate/${encodeURIComponent(c.slug)}`} className="text-sm text-[#007A3D] underline">{dict.open}</Link>
+          </div>
+          <div className="mt-4 grid grid-cols-3 gap-3 text-sm">
+            {([['raised', c.raised], ['spent', c.spent], ['remaining', c.remaining]] as const).map(([k, v]) => (
+              <div key={k} className="rounded-xl bg-neutral-50 p-3">
+                <div className="text-neutral-500">{dict[k]}</div>
+                <div className="font-bold">{money(v, c.currency, lang)}</div>
+              </div>
+            ))}
+          </div>
+          <ul className="mt-4 space-y-2 text-sm">
+            {c.categories.map((x) => (
+              <li key={x.category}>
+                <div className="flex items-center justify-between">
+                  <span>{CATEGORY_LABELS[x.category]?.[lang] || x.category}</span>
+                  <span className="font-medium">{money(x.amount, c.currency, lang)}</span>
+                </div>
+                <div className="mt-1 h-2 rounded-full bg-neutral-100">
+                  <div className="h-2 rounded-full bg-[#007A3D]" style={{ width: `${Math.round(x.share * 100)}%` }} />
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 /* ---------------------- */
 /* Bilingual dictionary   */
 /* ---------------------- */
@@ -83,6 +157,7 @@ const t = {
       khidma: 'Khidma (Bakery • Market • Care)',
       notonly: 'Not Only (Number • Stone • Flower)',
       ants: "Ant's (Momken • Eejabyon • Rawah Ana)",
+      spending: 'Campaign Spending',
       reports: 'Reports & Disclosures',
     },
     global: {
@@ -213,6 +288,16 @@ const t = {
         },
       },
     },
+    spending: {
+      badge: 'Live data',
+      title: 'Campaign Spending',
+      note: 'Raised, spent and remaining for each campaign, from the expenditure our team records with receipts.',
+      raised: 'Raised',
+      spent: 'Spent',
+      remaining: 'Remaining',
+      empty: 'No campaign spending has been published yet.',
+      open: 'View campaign',
+    },
     reports: {
       title: 'Public Reports & Disclosures',
       note:
@@ -238,6 +323,7 @@ const t = {
       khidma: 'خِدمة (المخبز • السوق • الرعاية)',
       notonly: 'Not Only (رقم • حجر • زهرة)',
       ants: 'كيان Ant’s (ممكن • إيجابيون • رواه أنا)',
+      spending: 'صرف تبرعات الحملات',
       reports: 'التقارير والإفصاحات',
     },
     global: {
@@ -368,6 +454,16 @@ const t = {
         },
       },
     },
+    spending: {
+      badge: 'بيانات حيّة',
+      title: 'صرف تبرعات الحملات',
+      note: 'ما جُمع وما صُرف وما تبقّى لكل حملة، من المصروفات التي يسجلها فريقنا مع الإيصالات.',
+      raised: 'تم جمعه',
+      spent: 'تم صرفه',
+      remaining: 'المتبقي',
+      empty: 'لم تُنشر مصروفات للحملات بعد.',
+      open: 'عرض الحملة',
+    },
     reports: {
       title: 'التقارير والإفصاحات',
       note:
@@ -443,6 +539,7 @@ export default function TransparencyPage() {
           <a href="#khidma" className="rounded-full px-3 py-1.5 text-sm border bg-white hover:bg-neutral-50">{dict.nav.khidma}</a>
           <a href="#notonly" className="rounded-full px-3 py-1.5 text-sm border bg-white hover:bg-neutral-50">{dict.nav.notonly}</a>
           <a href="#ants" className="rounded-full px-3 py-1.5 text-sm border bg-white hover:bg-neutral-50">{dict.nav.ants}</a>
+          <a href="#spending" className="rounded-full px-3 py-1.5 text-sm border bg-white hover:bg-neutral-50">{dict.nav.spending}</a>
           <a href="#reports" className="rounded-full px-3 py-1.5 text-sm border bg-white hover:bg-neutral-50">{dict.nav.reports}</a>
         </div>
 
@@ -591,6 +688,13 @@ export default function TransparencyPage() {
           </div>
         </section>
 
+        {/* Campaign spending (live) */}
+        <section id="spending" className={`mt-12 ${rtl ? 'text-right' : ''}`} dir={rtl ? 'rtl' : 'ltr'}>
+          <SectionHeader label={dict.spending.badge} title={dict.spending.title} />
+          <p className="mt-2 text-neutral-700">{dict.spending.note}</p>
+          <CampaignSpending lang={lang} rtl={rtl} />
+        </section>
+
         {/* Reports */}
         <section id="reports" className={`mt-12 ${rtl ? 'text-right' : ''}`} dir={rtl ? 'rtl' : 'ltr'}>
           <SectionHeader title={dict.reports.title} />
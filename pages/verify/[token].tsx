@@ -0,0 +1,73 @@
+// pages/verify/[token].tsx
+import React from 'react';
+import Head from 'next/head';
+import type { GetServerSideProps } from 'next';
+import Layout from '../../components/Layout';
+import type { CardVerification } from '@/lib/membershipCard';
+
+type Props = { result: CardVerification | null; checkedAt: number };
+
+const TIERS: Record<string, string> = { silver: 'Silver / فضية', gold: 'Gold / ذهبية', diamond: 'Diamond / ماسية' };
+
+const RELATIONS: Record<string, string> = { spouse: 'Spouse / الزوج أو الزوجة', child: 'Child / ابن أو ابنة' };
+
+// Fixed zone so the server render and the browser agree
+const day = (ms: number) =>
+  new Date(ms).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'Europe/London' });
+
+/**
+ * Opened from a membership card's QR code, e.g. at event check-in: is this a
+ * current member, or a household member on a current membership?
+ */
+export const getServerSideProps: GetServerSideProps<Props> = async ({ params, res }) => {
+  const { verifyCard } = await import('@/lib/membershipCard');
+  const result = await verifyCard(String(params?.token || ''));
+  // Always checked live, so a lapsed membership never shows as current
+  res.setHeader('Cache-Control', 'private, no-store');
+  return { props: { result, checkedAt: Date.now() } };
+};
+
+export default function VerifyMembership({ result, checkedAt }: Props) {
+  return (
+    <Layout>
+      <Head>
+        <title>Membership check / التحقق من العضوية</title>
+        <meta name="robots" content="noindex" />
+      </Head>
+      <main className="container mx-auto px-4 py-12">
+        <div className="mx-auto max-w-md rounded-2xl border bg-white p-6 space-y-4 text-center">
+          {!result ? (
+            <p className="text-red-700">This card could not be verified. / تعذّر التحقق من هذه البطاقة.</p>
+          ) : (
+            <>
+              <p
+                className={`inline-block rounded-full px-4 py-1.5 text-sm font-semibold ${
+                  result.valid ? 'bg-emerald-50 text-emerald-700' : 'bg-red-50 text-red-700'
+                }`}
+              >
+                {result.valid ? 'Current member / عضو فعّال' : 'Membership not current / العضوية غير سارية'}
+              </p>
+              <p className="text-2xl font-bold break-words">{result.fullName}</p>
+              {result.relation && (
+                <p className="text-sm text-neutral-600">Household member · {RELATIONS[result.relation]} / فرد من الأسرة</p>
+              )}
+              <dl className="grid grid-cols-2 gap-3 text-sm">
+                <div>
+                  <dt className="text-neutral-500">Tier / الفئة</dt>
+                  <dd className="font-semibold">{result.tier ? TIERS[result.tier] : '—'}</dd>
+                </div>
+                <div>
+                  <dt className="text-neutral-500">{result.valid ? 'Valid until / صالحة حتى' : 'Ended / انتهت'}</dt>
+                  <dd className="font-semibold">{result.validUntil ? day(result.validUntil) : '—'}</dd>
+                </div>
+              </dl>
+            </>
+          )}
+          <p className="text-xs text-neutral-500">
+            Palestinian Community Association North West · checked {new Date(checkedAt).toLocaleString('en-GB', { timeZone: 'Europe/London' })}
+          </p>
+        </div>
+      </main>
+    </Layout>
+  );
+}
@@ -0,0 +1,52 @@
+/*
+ * Campaign donation widget for partner sites (see lib/embed.ts).
+ *
+ *   <div data-pcnw-campaign="campaign-slug" data-lang="ar" data-theme="light"></div>
+ *   <script src="https://<our site>/embed.js" async></script>
+ *
+ * Each element becomes an iframe of /embed/campaign/<slug>, resized to fit
+ * whenever the widget reports its height.
+ */
+(function () {
+  var script = document.currentScript;
+  var base = script && script.src ? new URL(script.src).origin : '';
+  if (!base) return;
+
+  var HEIGHT_MESSAGE = 'pcnw:embed-height';
+
+  function mount(el) {
+    if (el.getAttribute('data-pcnw-mounted')) return;
+    var slug = el.getAttribute('data-pcnw-campaign');
+    if (!slug) return;
+    el.setAttribute('data-pcnw-mounted', '1');
+
+    var q = new URLSearchParams();
+    var lang = el.getAttribute('data-lang');
+    var theme = el.getAttribute('data-theme');
+    if (lang) q.set('lang', lang);
+    if (theme) q.set('theme', theme);
+    q.set('site', window.location.hostname);
+
+    var frame = document.createElement('iframe');
+    frame.src = base + '/embed/campaign/' + encodeURIComponent(decodeURIComponent(slug)) + '?' + q.toString();
+    frame.title = lang === 'en' ? 'Donate' : 'تبرّع';
+    frame.loading = 'lazy';
+    frame.setAttribute('scrolling', 'no');
+    frame.style.cssText = 'display:block;width:100%;max-width:420px;height:240px;border:0;overflow:hidden;';
+    el.appendChild(frame);
+  }
+
+  window.addEventListener('message', function (e) {
+    if (e.origin !== base || !e.data || e.data.type !== HEIGHT_MESSAGE) return;
+    var frames = document.querySelectorAll('iframe');
+    for (var i = 0; i < frames.length; i++) {
+      if (frames[i].contentWindow === e.source) {
+        var h = Math.max(120, Math.min(1200, Number(e.data.height) || 0));
+        frames[i].style.height = h + 'px';
+      }
+    }
+  });
+
+  var els = document.querySelectorAll('[data-pcnw-campaign]');
+  for (var i = 0; i < els.length; i++) mount(els[i]);
+})();
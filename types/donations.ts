@@ -16,6 +16,8 @@ export type MediaItem = {
   isPrimary?: boolean;
 };
 
+export type CampaignClosedReason = 'ended' | 'goal_reached' | 'manual';
+
 export type Campaign = {
   id: string;              // = slug
   slug: string;
@@ -38,13 +40,31 @@ export type Campaign = {
   };
   startAt: number;
   endAt?: number;
+  // Lifecycle schedule, applied by the `campaignLifecycle` Cloud Function
+  autoActivate?: boolean; // a draft goes live at startAt
+  pauseAt?: number | null;
+  resumeAt?: number | null;
+  closeOnGoal?: boolean; // close early once goalAmount is reached
+  closedAt?: number | null;
+  closedReason?: CampaignClosedReason | null;
   media: MediaItem[];
   allowPublicDonorList: boolean;
+  matchingPledges?: MatchingPledge[];
+  milestones?: CampaignMilestone[];
+  bankReference?: string; // unique bank-transfer reference, assigned by lib/bankReconciliation.ts
+  showNetRaised?: boolean; // the page also shows the total after card fees
 
   // Aggregated by Functions
   totalDonated: number;
   donorsCount: number;
-  lastDonors: Array<{ name: string; amount: number; at: number }>;
+  lastDonors: Array<{ id?: string; name: string; amount: number; at: number }>;
+
+  // Card processing fees in the campaign currency, kept by lib/stripeFees.ts
+  totalFees?: number;
+
+  // Kept by lib/disbursements.ts, in the campaign currency
+  totalSpent?: number;
+  spentByCategory?: Partial<Record<DisbursementCategory, number>>;
 
   createdBy: string;
   createdAt: number;
@@ -55,15 +75,283 @@ export type Donation = {
   id: string;
   campaignId: string;
   donorName?: string;
+  donorEmail?: string | null; // lower-cased; used by the donor /account portal
   amount: number;
   currency: 'GBP' | 'USD' | 'EUR';
   message?: string;
   isAnonymous: boolean;
   status: 'pending' | 'confirmed' | 'refunded' | 'failed';
-  method: 'offline' | 'stripe' | 'paypal' | 'bank';
-  receiptURL?: string;
+  method: 'offline' | 'stripe' | 'paypal' | 'bank' | 'match';
+  receiptURL?: string; // stored PDF receipt (lib/donationReceipts.ts)
+  receiptNo?: string; // e.g. PCNW-2026-000042, sequential per year
+  receiptPath?: string; // Storage path of the PDF
+  receiptIssuedAt?: number;
+  receiptEmailedAt?: number;
   txnRef?: string;
   createdAt: number;
   confirmedAt?: number;
   createdBy?: string;
+
+  // Maintained by the donation ledger (lib/donationLedger.ts)
+  countedAmount?: number; // portion of `amount` currently included in campaign totals
+  refundedAmount?: number; // cumulative refunds, major units
+  disputeStatus?: 'open' | 'won' | 'lost';
+  updatedAt?: number;
+
+  giftAid?: GiftAidDeclaration | null;
+  recurringId?: string | null; // recurringDonations id for monthly gifts
+  campaignUpdates?: boolean; // donor asked for milestone emails about this campaign
+  fundraiserId?: string | null; // peer-to-peer fundraiser page the gift was made on
+  embedSite?: string | null; // partner site whose embedded widget the donor came from (lib/embed.ts)
+
+  // Conversion into the campaign currency (lib/fx.ts); `amount`/`currency` stay as paid
+  campaignCurrency?: string;
+  fxRate?: number | null; // campaign units per unit paid; null while no rate is on file
+  fxRateId?: string | null; // fxRates table the rate came from
+  campaignAmount?: number | null; // `amount` in the campaign currency
+
+  // Card payments that also covered the fee or tipped the general fund (lib/paymentLines.ts);
+  // `amount` is the campaign line, `paidAmount` what the card was charged
+  paymentLines?: PaymentLine[] | null;
+  paidAmount?: number | null;
+
+  // Processor fees from the Stripe balance transaction (lib/stripeFees.ts), in the
+  // currency the payment settled in, which can differ from `currency`
+  feeAmount?: number | null;
+  netReceived?: number | null;
+  settlementCurrency?: string | null;
+  balanceTransactionId?: string | null;
+  campaignFee?: number | null; // `feeAmount` in the campaign currency, counted in Campaign.totalFees
+  payoutId?: string | null; // Stripe payout that paid it out (lib/stripePayouts.ts)
+  paidOutAt?: number | null;
+
+  // Matching pledges (lib/matchingPledges.ts)
+  matchedBy?: string[]; // pledges that matched this gift
+  matchOf?: string | null; // on a sponsor's matched contribution: the gift it matches
+  pledgeId?: string | null;
+  matchRatio?: number;
+};
+
+/** One part of a donation payment, in the currency paid. */
+export type PaymentLine = {
+  kind: 'campaign' | 'fee_cover' | 'general_fund';
+  amount: number;
+};
+
+/**
+ * A supporter's own page under a campaign (`fundraisers/{campaignId}__{slug}`),
+ * served at /donate/{campaign slug}/f/{slug}. Gifts made there count towards
+ * both the fundraiser and its campaign.
+ */
+export type Fundraiser = {
+  id: string;
+  campaignId: string;
+  slug: string;
+  status: 'pending' | 'active' | 'hidden'; // admins approve new pages
+  ownerName: string;
+  ownerEmail: string; // lower-cased; the owner edits the page from /account
+  title: string;
+  story: string;
+  photoUrl?: string | null;
+  photoPath?: string | null;
+  goalAmount: number; // campaign currency
+
+  // Kept by the donation ledger
+  totalRaised: number;
+  donorsCount: number;
+
+  createdAt: number;
+  updatedAt: number;
+};
+
+/**
+ * A point on the way to (or past) the goal. `reachedAt` is set once by the
+ * `onCampaignMilestone` Cloud Function when `totalDonated` first crosses it.
+ */
+export type CampaignMilestone = {
+  id: string;
+  percent: number; // of goalAmount; above 100 = stretch goal
+  description_en: string;
+  description_ar: string;
+  reachedAt?: number | null;
+  notifiedAt?: number | null; // organizers and opted-in donors emailed
+};
+
+export type DisbursementCategory =
+  | 'food'
+  | 'medical'
+  | 'shelter'
+  | 'education'
+  | 'cash_aid'
+  | 'logistics'
+  | 'administration'
+  | 'other';
+
+/** Money paid out of a campaign's funds (`disbursements/{id}`, see lib/disbursements.ts). */
+export type Disbursement = {
+  id: string;
+  campaignId: string;
+  amount: number; // campaign currency
+  currency: string;
+  category: DisbursementCategory;
+  paidAt: number; // date of the expenditure
+  beneficiary: string; // who or what the money went to
+  note?: string;
+  receiptUrl?: string | null; // invoice or receipt (admin only)
+  receiptPath?: string | null;
+  createdBy?: string;
+  createdAt: number;
+};
+
+/** End-of-campaign summary written when a campaign closes (`campaignReports/{campaignId}`). */
+export type CampaignReport = {
+  campaignId: string;
+  slug: string;
+  title_ar: string;
+  title_en: string;
+  currency: string;
+  goalAmount: number;
+  startAt: number | null;
+  endAt: number | null;
+  closedAt: number;
+  closedReason: CampaignClosedReason;
+  totalDonated: number;
+  donorsCount: number;
+  donationsCount: number;
+  matchedAmount: number;
+  averageGift: number;
+  largestGift: number;
+  totalSpent: number;
+  spentByCategory: Partial<Record<DisbursementCategory, number>>;
+  topDays: Array<{ date: string; amount: number; count: number }>; // Europe/London dates
+  currencies: Array<{ currency: string; count: number; amount: number; counted: number }>;
+  generatedAt: number;
+};
+
+/** One credit line read from a bank statement (lib/bankStatement.ts). */
+export type BankTransaction = {
+  key: string; // stable per transaction: the OFX FITID, or a hash of the CSV line
+  date: number; // day the money arrived (12:00 UTC)
+  amount: number; // major units, always positive
+  currency: string;
+  description: string; // payee, reference and memo as printed by the bank
+};
+
+/** A statement line with the campaign it is suggested for (admin reconciliation preview). */
+export type BankMatch = BankTransaction & {
+  campaignId: string | null;
+  matchedBy: 'reference' | null;
+  donationId: string | null; // set when this line was already imported
+};
+
+/** One confirmed import (`bankReconciliations/{id}`): what was recorded, and what was left out. */
+export type BankReconciliation = {
+  id: string;
+  fileName: string;
+  format: 'csv' | 'ofx';
+  entries: Array<{
+    key: string;
+    date: number;
+    amount: number;
+    currency: string;
+    description: string;
+    campaignId: string;
+    matchedBy: 'reference' | 'manual';
+    donationId: string;
+    result: 'created' | 'duplicate';
+  }>;
+  skipped: number; // statement lines not confirmed
+  totals: Record<string, number>; // created entries, by currency
+  createdBy?: string;
+  createdAt: number;
+};
+
+/** A sponsor's offer to match gifts to a campaign, up to a cap, within a window. */
+export type MatchingPledge = {
+  id: string;
+  sponsorName: string;
+  ratio: number; // sponsor adds `ratio` × each gift (1 = doubled)
+  cap: number; // most the sponsor gives, in the campaign currency
+  startAt: number;
+  endAt?: number | null;
+  matchedAmount: number; // maintained by the donation ledger
+};
+
+/** Exchange rates effective from a date (`fxRates/{id}`): 1 `base` = `rates[X]` X. */
+export type FxRateTable = {
+  id: string;
+  base: string;
+  rates: Record<string, number>;
+  effectiveFrom: number;
+  note?: string;
+  createdBy?: string;
+  createdAt: number;
+};
+
+/** A monthly gift to one campaign (`recurringDonations/{subscriptionId}`). */
+export type RecurringDonation = {
+  id: string; // Stripe subscription id
+  campaignId: string;
+  provider: 'stripe';
+  customerId: string | null;
+  amount: number; // major units per month
+  currency: string;
+  donorName: string;
+  donorEmail?: string | null;
+  status: 'active' | 'past_due' | 'canceled';
+  endedReason?: 'campaign_closed' | 'donor' | 'payment_failed' | null;
+  lastPaidAt?: number | null;
+  createdAt: number;
+  updatedAt: number;
+};
+
+/** Gift Aid declaration made with a GBP donation (see lib/giftAid.ts). */
+export type GiftAidDeclaration = {
+  title?: string;
+  firstName: string;
+  lastName: string;
+  houseNameOrNumber: string;
+  addressLine: string; // street and town
+  postcode: string; // normalised, e.g. "M1 1AA"
+  ukTaxpayer: true;
+  declaredAt: number;
+};
+
+/** One refund/dispute event applied to a donation (collection `donationAudit`). */
+export type DonationAudit = {
+  id: string;
+  donationId: string;
+  campaignId: string;
+  kind: 'refund' | 'partial_refund' | 'dispute_opened' | 'dispute_won' | 'dispute_lost';
+  amount: number; // major units
+  currency: string;
+  reason?: string;
+  delta: number; // change applied to the campaign total
+  eventRef?: string; // provider event id
+  createdAt: number;
+};
+
+/**
+ * A Stripe payout reconciled from its `payout.paid` event (`stripePayouts/{payout id}`):
+ * the donations it paid out and everything else that moved the balance.
+ */
+export type StripePayout = {
+  id: string;
+  amount: number; // paid to the bank, major units
+  currency: string;
+  arrivalDate: number;
+  status: string;
+  donations: Array<{
+    donationId: string;
+    campaignId: string;
+    paymentIntentId: string;
+    gross: number;
+    fee: number;
+    net: number;
+  }>;
+  // Charges without a donation, refunds, dispute withdrawals, adjustments…
+  other: Array<{ balanceTransactionId: string; type: string; net: number; description?: string }>;
+  totals: { gross: number; fees: number; net: number; other: number };
+  createdAt: number;
+  updatedAt: number;
 };
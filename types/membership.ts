@@ -0,0 +1,128 @@
+// types/membership.ts
+// Membership applications (`joinApplications`), members (`members`) and the
+// plan catalogue (`membershipPlans`).
+// Both collections are written by the payment routes and webhooks as well as
+// by /api/join/apply and the admin review, so their times are Firestore
+// timestamps (or Dates from older writers); APIs hand them out as ms.
+
+import type { Timestamp } from 'firebase-admin/firestore';
+
+export type MembershipPlan = 'none' | 'once' | 'monthly';
+
+/** Membership levels; each catalogue plan may carry one. */
+export type MembershipTier = 'silver' | 'gold' | 'diamond';
+
+/** A household member covered by the primary member's membership. */
+export type DependantRelation = 'spouse' | 'child';
+
+export type Dependant = {
+  id: string; // short id, stable while the dependant is listed (their card token uses it)
+  fullName: string;
+  relation: DependantRelation;
+  age: number | null;
+};
+
+/** How often a catalogue plan is paid: monthly or yearly subscriptions, or one payment for a year. */
+export type PlanInterval = 'month' | 'year' | 'once';
+
+/**
+ * A plan in the admin-managed catalogue (`membershipPlans/{id}`). Saving it
+ * syncs the Stripe Product/Price and, for subscriptions, the PayPal plan.
+ * Times are ms.
+ */
+export type CatalogPlan = {
+  id: string; // slug, e.g. 'gold'
+  name_ar: string;
+  name_en: string;
+  benefits_ar: string[];
+  benefits_en: string[];
+  interval: PlanInterval;
+  currency: 'GBP' | 'USD' | 'EUR';
+  amount: number; // major units per interval
+  tier: MembershipTier | null;
+  household: boolean; // covers the primary member's dependants
+  maxDependants: number; // how many, on a household plan
+  active: boolean; // offered on the join form
+  sortOrder: number;
+  createdAt: number;
+  updatedAt: number;
+
+  // Provider sync (lib/membershipPlans.ts)
+  stripeProductId?: string | null;
+  stripePriceId?: string | null; // the current price
+  stripePriceIds?: string[]; // every price the plan has had, so older subscribers still map to it
+  paypalProductId?: string | null;
+  paypalPlanId?: string | null; // subscriptions only
+  paypalSynced?: { interval: PlanInterval; amount: number; currency: string; active: boolean } | null; // what the PayPal plan was last set to
+  syncedAt?: number | null;
+  syncError?: string | null;
+};
+
+/** `submitted` is what the older payment routes write; it is reviewed like `pending`. */
+export type JoinApplicationStatus = 'pending' | 'submitted' | 'approved' | 'rejected';
+
+export type MemberStatus = 'active' | 'inactive' | 'past_due' | 'canceled';
+
+type StoredTime = Timestamp | Date | null;
+
+export type JoinApplication = {
+  id?: string;
+  fullName: string;
+  email: string;
+  phone?: string | null;
+  city?: string | null;
+  message?: string | null;
+  membershipPlan: MembershipPlan; // 'monthly' triggers subscription
+  planId?: string | null; // catalogue plan chosen at payment
+  dependants?: Dependant[]; // household plans
+  consentToContact?: boolean;
+  status: JoinApplicationStatus;
+  paymentRequired?: boolean;
+  createdAt?: StoredTime;
+  updatedAt?: StoredTime;
+
+  // Admin review (/auth/admin/members)
+  reviewNote?: string | null; // included in the decision email
+  reviewedAt?: StoredTime;
+  reviewedBy?: string | null;
+  memberId?: string | null; // set on approval
+
+  // Paid before applying (PaymentWidget): the succeeded PaymentIntent
+  stripePaymentIntentId?: string;
+
+  // Stripe linkage (filled later if monthly)
+  stripeCustomerId?: string;
+  stripeCheckoutSessionId?: string;
+  stripeSubscriptionId?: string;
+
+  // PayPal linkage (monthly via PayPal)
+  paypalSubscriptionId?: string;
+};
+
+export type Member = {
+  id?: string;
+  applicationId: string;
+  fullName: string;
+  email: string;
+  phone?: string | null;
+  city?: string | null;
+  membershipPlan: MembershipPlan | null; // 'monthly' or 'once'
+  planId?: string | null; // catalogue plan
+  tier?: MembershipTier | null; // the plan's tier
+  dependants?: Dependant[]; // household plans: managed by the member at /account/household
+  status: MemberStatus;
+  createdAt?: StoredTime;
+  updatedAt?: StoredTime;
+
+  stripeCustomerId?: string;
+  stripeSubscriptionId?: string;
+  paypalSubscriptionId?: string;
+  lastPaymentAt?: StoredTime;
+  currentPeriodEnd?: StoredTime; // end of the paid month, or of a one-off term
+
+  // One-off terms: renewals recorded by an admin, and the reminders sent
+  // (14 and 3 days before the end) by the `membershipExpiry` schedule
+  renewedAt?: StoredTime;
+  renewedBy?: string | null;
+  renewalReminders?: { periodEnd: number; sent: number[] } | null;
+};